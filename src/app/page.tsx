@@ -1,18 +1,133 @@
 'use client';
 
-import { useState, useRef } from 'react';
-import { QRCode } from 'react-qrcode-logo';
-import { motion, AnimatePresence } from 'framer-motion';
-import Papa from 'papaparse';
+import { useState, useRef, useMemo, useEffect, useCallback } from 'react';
+import { flushSync } from 'react-dom';
+import { motion, AnimatePresence, MotionConfig, useReducedMotion } from 'framer-motion';
 import { ToastContainer, ToastType } from '@/components/Toast';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
-
-interface QRCodeData {
-  id: number;
-  url: string;
-  isValid: boolean;
-  hasWarning: boolean;
-  warningMessage?: string;
+import { LayoutPicker } from '@/components/LayoutPicker';
+import { ImageExportDialog } from '@/components/ImageExportDialog';
+import { QRStylePanel } from '@/components/QRStylePanel';
+import { ColumnMappingView } from '@/components/ColumnMappingView';
+import { TrackerView } from '@/components/TrackerView';
+import { PayloadBuilderView } from '@/components/PayloadBuilderView';
+import { BatchLibraryView } from '@/components/BatchLibraryView';
+import { DuplicateReviewPanel } from '@/components/DuplicateReviewPanel';
+import { PolicyPanel } from '@/components/PolicyPanel';
+import { VirtualCardGrid } from '@/components/VirtualCardGrid';
+import { CardEditForm } from '@/components/CardEditForm';
+import { PrintedPage } from '@/components/PrintedPage';
+import { PrintPreviewView } from '@/components/PrintPreviewView';
+import { CuttingPanel } from '@/components/CuttingPanel';
+import { NumberSchemePanel } from '@/components/NumberSchemePanel';
+import { DuplexPanel } from '@/components/DuplexPanel';
+import { TemplatePanel } from '@/components/TemplatePanel';
+import { LocaleSwitcher } from '@/components/LocaleSwitcher';
+import { QrCanvas } from '@/components/QrCanvas';
+import {
+  SheetLayout,
+  DEFAULT_LAYOUT,
+  cellsPerPage,
+  cellScale,
+  qrSizePx,
+  validateLayout,
+} from '@/lib/layouts';
+import { buildAlignmentTestPdf, buildPrintPdf } from '@/lib/pdf-export';
+import { downloadBlob, fileDateStamp } from '@/lib/download';
+import { sanitizeUrlForDisplay } from '@/lib/url-validation';
+import { PayloadEntry, describePayload, invalidPayloadText, urlEntry } from '@/lib/payloads';
+import { QRStyle, DEFAULT_QR_STYLE } from '@/lib/qr-style';
+import {
+  ColumnMapping,
+  applyMapping,
+  guessMapping,
+  loadSavedMapping,
+  saveMapping,
+} from '@/lib/csv-mapping';
+import { CardTextMode, CARD_TEXT_MODES, DEFAULT_CARD_TEXT_MODE, parseLabeledLine } from '@/lib/labels';
+import { scanBudget } from '@/lib/scannability';
+import { VerifyResult, verifyQrCodes } from '@/lib/verify';
+import { SavedBatch, createBatch, defaultBatchName, restoreBatch, saveBatch } from '@/lib/batches';
+import { moveLedgerEntries } from '@/lib/ledger';
+import { DuplicateGroup, findDuplicates } from '@/lib/duplicates';
+import { generateQrCodes } from '@/lib/generate';
+import { CutOptions, DEFAULT_CUT_OPTIONS, cardInset, validateCutOptions } from '@/lib/cutting';
+import { buildQrCode } from '@/lib/build-codes';
+import {
+  DuplexOptions,
+  ALIGNMENT_TEST_PAGES,
+  DEFAULT_DUPLEX_OPTIONS,
+  printPages,
+  validateDuplexOptions,
+} from '@/lib/duplex';
+import {
+  NumberingMode,
+  NumberScheme,
+  NUMBERING_MODES,
+  DEFAULT_NUMBERING_MODE,
+  DEFAULT_NUMBER_SCHEME,
+  cardEntries,
+  formatCardNumber,
+  formatNumber,
+  hasNumberGaps,
+  highestCardNumber,
+  moveCard,
+  numberCards,
+  numberFormatter,
+  validateNumberScheme,
+} from '@/lib/numbering';
+import {
+  IMPORT_ACCEPT,
+  ImportSource,
+  describeSources,
+  importFormat,
+  mergeSources,
+  pastedSource,
+  readImportFile,
+} from '@/lib/import-files';
+import {
+  UrlPolicy,
+  NO_POLICY_ID,
+  cursorReferralPolicy,
+  loadCustomPolicies,
+  policyName,
+  policyViolations,
+  saveCustomPolicies,
+} from '@/lib/policies';
+import {
+  CardTemplate,
+  CLASSIC_TEMPLATE,
+  CLASSIC_TEMPLATE_ID,
+  classicTemplate,
+  loadCustomTemplates,
+  saveCustomTemplates,
+  templateName,
+  validateCardTemplate,
+} from '@/lib/card-templates';
+import {
+  Locale,
+  LOCALES,
+  DEFAULT_LOCALE,
+  MessageError,
+  MessageRef,
+  loadCardLocale,
+  loadUiLocale,
+  localeDirection,
+  saveCardLocale,
+  saveUiLocale,
+  translateParts,
+  translateRefs,
+  translator,
+  withLocaleFonts,
+} from '@/lib/i18n';
+import type { QRCodeData } from '@/lib/types';
+
+interface CsvImport {
+  name: MessageRef;
+  sources: ImportSource[];
+  rows: string[][];
+  mapping: ColumnMapping;
+  remembered: boolean;
 }
 
 interface ToastMessage {
@@ -22,388 +137,746 @@ interface ToastMessage {
 }
 
 // Security constants
-const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
-const MAX_QR_CODES = 750;
-const ALLOWED_SCHEMES = ['http:', 'https:'];
+const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB, per file
+const MAX_IMPORT_FILES = 20;
+const MAX_QR_CODES = 20000;
+
+// Wait for style edits to settle before re-checking every code
+const VERIFY_DELAY_MS = 400;
+
+// Wait for style and layout edits to settle before saving the open batch
+const BATCH_SAVE_DELAY_MS = 500;
+
+// Print pages are mounted a few per frame so a big batch doesn't lock up the
+// tab, then given time to draw their codes before the print dialog opens
+const PRINT_PAGES_PER_FRAME = 10;
+const PRINT_SETTLE_MS = 300;
 
 // Cursor URL constant
 const CURSOR_BASE_URL = 'https://cursor.com/';
 
-// Grid configuration for cut-and-stack collation
-const GRID_ROWS = 3;
-const GRID_COLS = 3;
-const CELLS_PER_PAGE = GRID_ROWS * GRID_COLS;
-
-// Calculate the number for a specific cell position using cut-and-stack collation
-function numberForCell(p: number, r: number, c: number, R: number, C: number, N: number): number | null {
-  const S = R * C;
-  const P = Math.ceil(N / S);
-  const s = r * C + c;
-  const n = s * P + (p + 1);
-  return n <= N ? n : null;
-}
+const CURSOR_POLICY = cursorReferralPolicy(CURSOR_BASE_URL);
 
 function QRCodeGeneratorContent() {
   const [links, setLinks] = useState<string>('');
   const [qrCodes, setQrCodes] = useState<QRCodeData[]>([]);
   const [dragActive, setDragActive] = useState<boolean>(false);
-  const [currentView, setCurrentView] = useState<'options' | 'upload' | 'manual'>('options');
+  const [currentView, setCurrentView] = useState<'options' | 'upload' | 'manual' | 'mapping' | 'builder' | 'library'>('options');
   const [toasts, setToasts] = useState<ToastMessage[]>([]);
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
+  const [layout, setLayout] = useState<SheetLayout>(DEFAULT_LAYOUT);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [showImageExport, setShowImageExport] = useState<boolean>(false);
+  const [qrStyle, setQrStyle] = useState<QRStyle>(DEFAULT_QR_STYLE);
+  const [showStylePanel, setShowStylePanel] = useState<boolean>(false);
+  const [cutOptions, setCutOptions] = useState<CutOptions>(DEFAULT_CUT_OPTIONS);
+  const [showCuttingPanel, setShowCuttingPanel] = useState<boolean>(false);
+  const [numberScheme, setNumberScheme] = useState<NumberScheme>(DEFAULT_NUMBER_SCHEME);
+  const [showNumberingPanel, setShowNumberingPanel] = useState<boolean>(false);
+  const [duplex, setDuplex] = useState<DuplexOptions>(DEFAULT_DUPLEX_OPTIONS);
+  const [showDuplexPanel, setShowDuplexPanel] = useState<boolean>(false);
+  const [customTemplates, setCustomTemplates] = useState<CardTemplate[]>([]);
+  const [templateId, setTemplateId] = useState<string>(CLASSIC_TEMPLATE_ID);
+  const [showTemplatePanel, setShowTemplatePanel] = useState<boolean>(false);
+  // Both start in the default locale so the server render matches, then
+  // switch to the saved or browser language once mounted
+  const [uiLocale, setUiLocale] = useState<Locale>(DEFAULT_LOCALE);
+  const [cardLocale, setCardLocale] = useState<Locale>(DEFAULT_LOCALE);
+  const [csvImport, setCsvImport] = useState<CsvImport | null>(null);
+  const [cardTextMode, setCardTextMode] = useState<CardTextMode>(DEFAULT_CARD_TEXT_MODE);
+  const [showReferralCode, setShowReferralCode] = useState<boolean>(false);
+  const [verification, setVerification] = useState<Map<number, VerifyResult> | null>(null);
+  const [verifyProgress, setVerifyProgress] = useState<{ done: number; total: number } | null>(null);
+  const [showFailingOnly, setShowFailingOnly] = useState<boolean>(false);
+  const [showTracker, setShowTracker] = useState<boolean>(false);
+  const [showPreview, setShowPreview] = useState<boolean>(false);
+  const [activeBatch, setActiveBatch] = useState<SavedBatch | null>(null);
+  const [keptDuplicates, setKeptDuplicates] = useState<string[]>([]);
+  const [customPolicies, setCustomPolicies] = useState<UrlPolicy[]>([]);
+  const [policyId, setPolicyId] = useState<string>(NO_POLICY_ID);
+  const [showPolicyPanel, setShowPolicyPanel] = useState<boolean>(false);
+  const [numbering, setNumbering] = useState<NumberingMode>(DEFAULT_NUMBERING_MODE);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [showAddCard, setShowAddCard] = useState<boolean>(false);
+  const [draggingId, setDraggingId] = useState<number | null>(null);
+  // Card just moved with the keyboard; its handle gets focus back once the grid re-renders
+  const [movedId, setMovedId] = useState<number | null>(null);
+  // Print pages mounted so far; null when nothing is being printed. Only a
+  // print started from the Print button opens the dialog once they're ready.
+  // An alignment test prints only the duplex test sheet
+  const [printJob, setPrintJob] = useState<{ pages: number; openDialog: boolean; alignmentTest?: boolean } | null>(null);
+  const lastVerifySummary = useRef<{ qrCodes: QRCodeData[]; failing: number } | null>(null);
+  // Scan results by encoded content for the current style, so editing one
+  // card only re-checks that card
+  const verifiedValues = useRef<{ style: QRStyle; results: Map<string, VerifyResult> } | null>(null);
   const printRef = useRef<HTMLDivElement>(null);
+
+  // Stable per locale so effects can word their toasts with it
+  const t = useMemo(() => translator(uiLocale), [uiLocale]);
+  const reduceMotion = useReducedMotion();
+
+  useEffect(() => {
+    setUiLocale(loadUiLocale());
+    setCardLocale(loadCardLocale());
+  }, []);
+
+  // Saved templates and policies come from localStorage, so like the locales
+  // they load after mount to keep the first render the same as the server's
+  useEffect(() => {
+    setCustomTemplates(loadCustomTemplates());
+    setCustomPolicies(loadCustomPolicies());
+  }, []);
+
+  // Right-to-left languages mirror the whole page
+  useEffect(() => {
+    document.documentElement.lang = uiLocale;
+    document.documentElement.dir = localeDirection(uiLocale);
+  }, [uiLocale]);
+
+  const changeUiLocale = (locale: Locale) => {
+    setUiLocale(locale);
+    saveUiLocale(locale);
+  };
+
+  const changeCardLocale = (locale: Locale) => {
+    setCardLocale(locale);
+    saveCardLocale(locale);
+  };
+
+  // Version, module count and logo coverage per code; recomputed when the style changes
+  const scanBudgets = useMemo(
+    () => new Map(qrCodes.filter(qr => qr.isValid).map(qr => [qr.id, scanBudget(qr.value, qrStyle)])),
+    [qrCodes, qrStyle]
+  );
+
+  // Card numbers as printed, for messages that only have a card's id
+  const formatId = numberFormatter(qrCodes, numberScheme);
+
+  // Repeated codes the user hasn't resolved yet, plus which card each repeat copies
+  const duplicateGroups = useMemo(
+    () => findDuplicates(qrCodes).filter(group => !keptDuplicates.includes(group.key)),
+    [qrCodes, keptDuplicates]
+  );
+  const duplicateOf = useMemo(
+    () => new Map(duplicateGroups.flatMap(group => group.ids.slice(1).map(id => [id, group.ids[0]] as const))),
+    [duplicateGroups]
+  );
+
+  // Links that break the batch's host/shape policy
+  const policies = useMemo(() => [CURSOR_POLICY, ...customPolicies], [customPolicies]);
+  const activePolicy = policies.find(policy => policy.id === policyId) ?? null;
+  const violations = useMemo(() => policyViolations(qrCodes, activePolicy), [qrCodes, activePolicy]);
+  const policyBlocks = activePolicy?.strictness === 'block' && violations.size > 0;
+
+  const savePolicy = (policy: UrlPolicy) => {
+    const next = customPolicies.some(entry => entry.id === policy.id)
+      ? customPolicies.map(entry => (entry.id === policy.id ? policy : entry))
+      : [...customPolicies, policy];
+    setCustomPolicies(next);
+    saveCustomPolicies(next);
+  };
+
+  const deletePolicy = (id: string) => {
+    const next = customPolicies.filter(policy => policy.id !== id);
+    setCustomPolicies(next);
+    saveCustomPolicies(next);
+    if (policyId === id) setPolicyId(NO_POLICY_ID);
+  };
+
+  // What each printed card looks like; a template deleted elsewhere falls back to the classic card
+  const templates = useMemo(() => [CLASSIC_TEMPLATE, ...customTemplates], [customTemplates]);
+  const activeTemplate = templates.find(template => template.id === templateId) ?? CLASSIC_TEMPLATE;
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Toast management
-  const showToast = (message: string, type: ToastType) => {
+  // Stable so effects can report through it
+  const showToast = useCallback((message: string, type: ToastType) => {
     const id = `${Date.now()}-${Math.random()}`;
     setToasts(prev => [...prev, { id, message, type }]);
+  }, []);
+
+  const saveTemplate = (template: CardTemplate) => {
+    const next = customTemplates.some(entry => entry.id === template.id)
+      ? customTemplates.map(entry => (entry.id === template.id ? template : entry))
+      : [...customTemplates, template];
+    setCustomTemplates(next);
+    if (!saveCustomTemplates(next)) {
+      showToast(t('toast.templatesNotSaved'), 'warning');
+    }
+  };
+
+  const deleteTemplate = (id: string) => {
+    const next = customTemplates.filter(template => template.id !== id);
+    setCustomTemplates(next);
+    saveCustomTemplates(next);
+    if (templateId === id) setTemplateId(CLASSIC_TEMPLATE_ID);
   };
 
   const removeToast = (id: string) => {
     setToasts(prev => prev.filter(toast => toast.id !== id));
   };
 
-  // Security: Sanitize URL for display (prevent XSS)
-  const sanitizeUrlForDisplay = (url: string): string => {
-    try {
-      // Remove any potential script tags or dangerous content
-      const cleaned = url
-        .replace(/<script[^>]*>.*?<\/script>/gi, '')
-        .replace(/<[^>]+>/g, '')
-        .replace(/javascript:/gi, '')
-        .replace(/data:/gi, '')
-        .replace(/vbscript:/gi, '');
-      return cleaned.substring(0, 200); // Limit display length
-    } catch {
-      return '[Invalid URL]';
-    }
+  // Validation and encoding run in a worker for large batches
+  const buildQRCodeData = (entries: PayloadEntry[]) => generateQrCodes(entries, CURSOR_BASE_URL);
+
+  // Save what was generated so it can be reopened from the library
+  const rememberBatch = (source: string, entries: PayloadEntry[]) => {
+    setActiveBatch(createBatch(defaultBatchName(source), entries, { style: qrStyle, layout, cardTextMode }));
+    setKeptDuplicates([]);
+    setNumbering(DEFAULT_NUMBERING_MODE);
   };
 
-  // Security: Validate URL scheme (only allow http/https)
-  const isValidUrlScheme = (url: string): boolean => {
+  // Nothing is applied until the whole batch has been read and rebuilt
+  const openBatch = async (saved: SavedBatch) => {
+    let batch: SavedBatch;
+    let qrCodeData: QRCodeData[];
     try {
-      const urlObj = new URL(url);
-      return ALLOWED_SCHEMES.includes(urlObj.protocol);
-    } catch {
-      // Try with https prefix
-      try {
-        const urlObj = new URL(`https://${url}`);
-        return ALLOWED_SCHEMES.includes(urlObj.protocol);
-      } catch {
-        return false;
-      }
+      batch = restoreBatch(saved, t('batch.imported'));
+      ({ qrCodeData } = await buildQRCodeData(batch.entries.slice(0, MAX_QR_CODES)));
+    } catch (error) {
+      console.error('Batch open error:', error);
+      showToast(t('toast.batchOpenFailed', { name: saved.name }), 'error');
+      return;
     }
+    setQrStyle(batch.style);
+    setLayout(batch.layout);
+    setCardTextMode(batch.cardTextMode);
+    setShowReferralCode(batch.showReferralCode ?? false);
+    setQrCodes(qrCodeData);
+    setActiveBatch(batch);
+    setKeptDuplicates(batch.keptDuplicates ?? []);
+    setPolicyId(batch.policyId ?? NO_POLICY_ID);
+    setNumbering(batch.numbering ?? DEFAULT_NUMBERING_MODE);
+    setCutOptions(batch.cutOptions ?? DEFAULT_CUT_OPTIONS);
+    setNumberScheme(batch.numberScheme ?? DEFAULT_NUMBER_SCHEME);
+    setDuplex(batch.duplex ?? DEFAULT_DUPLEX_OPTIONS);
+    setTemplateId(batch.templateId ?? CLASSIC_TEMPLATE_ID);
+    if (batch.cardLocale) setCardLocale(batch.cardLocale);
   };
 
-  // Security: Check for suspicious URL patterns
-  const checkSuspiciousUrl = (url: string): { hasWarning: boolean; message?: string } => {
-    const suspiciousPatterns = [
-      { pattern: /javascript:/i, message: 'JavaScript URLs are not allowed' },
-      { pattern: /data:/i, message: 'Data URLs are not allowed' },
-      { pattern: /file:/i, message: 'File URLs are not allowed' },
-      { pattern: /vbscript:/i, message: 'VBScript URLs are not allowed' },
-      { pattern: /<script/i, message: 'Script tags detected in URL' },
-      { pattern: /\.\.(\/|\\)/g, message: 'Path traversal detected' },
-    ];
-
-    for (const { pattern, message } of suspiciousPatterns) {
-      if (pattern.test(url)) {
-        return { hasWarning: true, message };
-      }
+  // Replace the cards after an edit, numbering them per the chosen mode, and
+  // keep the open batch's list in step
+  const updateCards = (next: QRCodeData[], mode: NumberingMode = numbering) => {
+    if (next.length === 0) {
+      clearAll();
+      return;
     }
+    const numbered = numberCards(next, mode);
+    setQrCodes(numbered);
+    setActiveBatch(prev => prev && { ...prev, entries: cardEntries(numbered) });
+
+    // Tracker entries follow their cards to any new number
+    if (!activeBatch) return;
+    const previous = new Set(qrCodes.map(qr => qr.id));
+    const moves = new Map<number, number>();
+    next.forEach((qr, index) => previous.has(qr.id) && moves.set(qr.id, numbered[index].id));
+    moveLedgerEntries(activeBatch.id, moves).catch(error => {
+      console.error('Ledger update error:', error);
+      showToast(t('toast.ledgerNotMoved'), 'error');
+    });
+  };
 
-    // Check for non-standard TLDs or suspicious patterns
-    try {
-      const urlObj = new URL(url.startsWith('http') ? url : `https://${url}`);
-      const hostname = urlObj.hostname.toLowerCase();
-      
-      // Warn about IP addresses (potential phishing)
-      if (/^\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}$/.test(hostname)) {
-        return { hasWarning: true, message: 'Warning: IP address detected (verify source)' };
-      }
+  const removeCodes = (ids: Set<number>) => {
+    updateCards(qrCodes.filter(qr => !ids.has(qr.id)));
+    const removed = t('toast.removed', { count: ids.size });
+    showToast(
+      numbering === 'renumber'
+        ? `${removed} ${t('toast.removedRenumbered')}`
+        : `${removed} ${t('toast.removedKept', { count: ids.size })}`,
+      'info'
+    );
+  };
 
-      // Warn about very long URLs (potential obfuscation)
-      if (url.length > 200) {
-        return { hasWarning: true, message: 'Warning: Unusually long URL' };
-      }
-    } catch {
-      // Invalid URL format
-      return { hasWarning: false };
+  // Re-check just the changed card and say if it still has a problem
+  const reportCard = (qr: QRCodeData, action: 'added' | 'updated') => {
+    const number = formatCardNumber(qr, numberScheme);
+    if (!qr.isValid) {
+      const problem = qr.errorMessage ? t(qr.errorMessage.key, qr.errorMessage.params) : invalidPayloadText(qr.payload.kind, uiLocale);
+      showToast(t(action === 'added' ? 'toast.cardAddedInvalid' : 'toast.cardUpdatedInvalid', { number, problem }), 'warning');
+    } else if (qr.hasWarning) {
+      const warning = translateRefs(t, qr.warningMessages ?? []);
+      showToast(t(action === 'added' ? 'toast.cardAddedWarning' : 'toast.cardUpdatedWarning', { number, warning }), 'info');
     }
+  };
 
-    return { hasWarning: false };
+  const editCard = (id: number, url: string, label: string) => {
+    const card = qrCodes.find(qr => qr.id === id);
+    if (!card) return;
+    const payload = card.payload.kind === 'url' ? { kind: 'url' as const, url } : card.payload;
+    const updated = buildQrCode({ payload, label: label || undefined, cardNumber: card.cardNumber }, id, CURSOR_BASE_URL);
+    updateCards(qrCodes.map(qr => (qr.id === id ? updated : qr)));
+    setEditingId(null);
+    reportCard(updated, 'updated');
   };
 
-  const isValidUrl = (url: string): boolean => {
-    if (!url || url.trim().length === 0) return false;
-    
-    // First check scheme
-    if (!isValidUrlScheme(url)) {
-      return false;
+  // New cards take the next free number, after any that were already printed
+  const addCard = (url: string, label: string) => {
+    if (qrCodes.length >= MAX_QR_CODES) {
+      showToast(t('toast.batchFull', { max: MAX_QR_CODES }), 'error');
+      return;
     }
+    const card = buildQrCode(urlEntry({ url, label: label || undefined }), highestCardNumber(qrCodes) + 1, CURSOR_BASE_URL);
+    updateCards([...qrCodes, card]);
+    setShowAddCard(false);
+    reportCard(card, 'added');
+  };
 
-    try {
-      new URL(url);
-      return true;
-    } catch {
-      // If it doesn't start with http/https, try adding https://
-      try {
-        new URL(`https://${url}`);
-        return true;
-      } catch {
-        return false;
-      }
-    }
+  // Reordering only applies when cards are renumbered; kept numbers fix the order
+  const reorderCard = (id: number, toId: number) => updateCards(moveCard(qrCodes, id, toId));
+
+  // Keyboard alternative to dragging: swap a card with its neighbour
+  const moveCardBy = (id: number, offset: number) => {
+    const index = qrCodes.findIndex(qr => qr.id === id);
+    const target = qrCodes[index + offset];
+    if (index === -1 || !target) return;
+    reorderCard(id, target.id);
+    setMovedId(id);
   };
 
-  const normalizeUrl = (url: string): string => {
-    if (url.startsWith('http://') || url.startsWith('https://')) {
-      return url;
+  useEffect(() => {
+    if (movedId === null) return;
+    document.querySelector<HTMLElement>(`[data-move-handle="${movedId}"]`)?.focus();
+    setMovedId(null);
+  }, [movedId, qrCodes]);
+
+  const changeNumbering = (mode: NumberingMode) => {
+    setNumbering(mode);
+    if (mode === 'renumber' && hasNumberGaps(qrCodes)) {
+      updateCards(qrCodes, mode);
+      showToast(t('toast.renumbered'), 'info');
     }
-    return `https://${url}`;
   };
 
-  const generateQRCodes = () => {
+  const keepFirstDuplicates = (groups: DuplicateGroup[]) =>
+    removeCodes(new Set(groups.flatMap(group => group.ids.slice(1))));
+
+  // Keep the open batch's style, layout and card text in step with the screen
+  useEffect(() => {
+    if (!activeBatch) return;
+    const timer = setTimeout(() => {
+      saveBatch({
+        ...activeBatch,
+        style: qrStyle,
+        layout,
+        cardTextMode,
+        showReferralCode,
+        keptDuplicates,
+        policyId,
+        numbering,
+        cutOptions,
+        numberScheme,
+        duplex,
+        templateId,
+        cardLocale,
+        updatedAt: new Date().toISOString(),
+      })
+        .catch(error => {
+          console.error('Batch save error:', error);
+          showToast(t('toast.batchNotSaved'), 'warning');
+        });
+    }, BATCH_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [activeBatch, qrStyle, layout, cardTextMode, showReferralCode, keptDuplicates, policyId, numbering, cutOptions, numberScheme, duplex, templateId, cardLocale, showToast, t]);
+
+  const generateQRCodes = async () => {
     setIsProcessing(true);
     
     try {
+      // Each line is "url" or "url, label"
       const linkList = links
         .split('\n')
         .map(link => link.trim())
-        .filter(link => link.length > 0);
+        .filter(link => link.length > 0)
+        .map(parseLabeledLine);
 
       if (linkList.length === 0) {
-        showToast('Please enter at least one URL', 'error');
+        showToast(t('toast.noUrls'), 'error');
         setIsProcessing(false);
         return;
       }
 
       // Security: Check maximum limit
       if (linkList.length > MAX_QR_CODES) {
-        showToast(
-          `Processing first ${MAX_QR_CODES} of ${linkList.length} URLs (maximum limit).`,
-          'warning'
-        );
+        showToast(t('toast.urlLimit', { max: MAX_QR_CODES, count: linkList.length }), 'warning');
       }
 
       const limitedList = linkList.slice(0, MAX_QR_CODES);
-      let invalidCount = 0;
-      let warningCount = 0;
-
-      const qrCodeData: QRCodeData[] = limitedList.map((link, index) => {
-        const isValid = isValidUrl(link);
-        const normalizedUrl = isValid ? normalizeUrl(link) : link;
-        const suspiciousCheck = checkSuspiciousUrl(normalizedUrl);
-
-        if (!isValid) invalidCount++;
-        if (suspiciousCheck.hasWarning) warningCount++;
-
-        return {
-          id: index + 1,
-          url: normalizedUrl,
-          isValid,
-          hasWarning: suspiciousCheck.hasWarning,
-          warningMessage: suspiciousCheck.message,
-        };
-      });
+      const entries = limitedList.map(urlEntry);
+      const { qrCodeData, invalidCount, warningCount } = await buildQRCodeData(entries);
 
       setQrCodes(qrCodeData);
+      rememberBatch(t('batch.manualList'), entries);
 
       // Show summary toast only for errors/warnings
       if (invalidCount > 0) {
-        showToast(
-          `Generated ${qrCodeData.length} QR codes with ${invalidCount} invalid URL(s). Invalid URLs will be marked.`,
-          'warning'
-        );
+        showToast(t('toast.generatedInvalid', { count: qrCodeData.length, invalid: invalidCount }), 'warning');
       } else if (warningCount > 0) {
-        showToast(
-          `Generated ${qrCodeData.length} QR codes with ${warningCount} warning(s). Please review flagged URLs.`,
-          'info'
-        );
+        showToast(t('toast.generatedWarnings', { count: qrCodeData.length, warnings: warningCount }), 'info');
       }
       // No success toast - cleaner UX
     } catch (error) {
       console.error('Error generating QR codes:', error);
-      showToast('Failed to generate QR codes. Please check your input and try again.', 'error');
+      showToast(t('toast.generateFailed'), 'error');
     } finally {
       setIsProcessing(false);
     }
   };
 
+  // Entries from the Wi-Fi/contact/event builder are already checked field by field
+  const handleGeneratePayloads = async (entries: PayloadEntry[]) => {
+    setIsProcessing(true);
+    try {
+      const limitedEntries = entries.slice(0, MAX_QR_CODES);
+      const { qrCodeData, warningCount } = await buildQRCodeData(limitedEntries);
+      setQrCodes(qrCodeData);
+      rememberBatch(t('batch.customCodes'), limitedEntries);
+
+      if (warningCount > 0) {
+        showToast(t('toast.builtWarnings', { count: qrCodeData.length, warnings: warningCount }), 'info');
+      }
+    } catch (error) {
+      console.error('Error building QR codes:', error);
+      showToast(t('toast.generateFailed'), 'error');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Decode every code with the current style whenever the batch or style changes
+  useEffect(() => {
+    setVerification(null);
+    if (qrCodes.length === 0) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const known = verifiedValues.current?.style === qrStyle ? verifiedValues.current.results : new Map<string, VerifyResult>();
+      const unchecked = qrCodes.filter(qr => qr.isValid && !known.has(qr.value));
+      const checked = await verifyQrCodes(
+        unchecked,
+        qrStyle,
+        (done, total) => !cancelled && setVerifyProgress({ done, total }),
+        () => cancelled
+      );
+      if (cancelled || !checked) return;
+      for (const qr of unchecked) {
+        const result = checked.get(qr.id);
+        if (result) known.set(qr.value, result);
+      }
+      verifiedValues.current = { style: qrStyle, results: known };
+
+      const results = new Map<number, VerifyResult>();
+      for (const qr of qrCodes) {
+        const result = qr.isValid ? known.get(qr.value) : undefined;
+        if (result) results.set(qr.id, result);
+      }
+      setVerifyProgress(null);
+      setVerification(results);
+
+      // Summarise once per batch, then only when the number of failures changes
+      const failing = Array.from(results.values()).filter(result => result.status === 'fail').length;
+      const previous = lastVerifySummary.current;
+      lastVerifySummary.current = { qrCodes, failing };
+      if (previous?.qrCodes === qrCodes && previous.failing === failing) return;
+      if (failing > 0) {
+        showToast(t('toast.scanFailing', { failing, total: results.size }), 'error');
+      } else if (results.size > 0) {
+        showToast(t('toast.scanPassing', { count: results.size }), 'success');
+      }
+    }, VERIFY_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setVerifyProgress(null);
+    };
+  }, [qrCodes, qrStyle, showToast, t]);
+
+  // Refuse to produce codes the logo and error-correction level make unreadable
+  const checkScannable = (): boolean => {
+    const blocked = Array.from(scanBudgets.values()).filter(budget => budget.risk === 'block');
+    if (blocked.length === 0) return true;
+    showToast(t('toast.unscannable', { count: blocked.length, reason: translateRefs(t, blocked[0].message ?? []) }), 'error');
+    return false;
+  };
+
+  // A blocking policy keeps off-policy links out of print and every export
+  const checkPolicy = (): boolean => {
+    if (!policyBlocks || !activePolicy) return true;
+    const [id, problem] = Array.from(violations)[0];
+    showToast(
+      t('toast.policyBlocks', { count: violations.size, name: policyName(activePolicy, t), number: formatId(id), problem: t(problem.key, problem.params) }),
+      'error'
+    );
+    return false;
+  };
+
+  const checkPrintable = () => checkScannable() && checkPolicy();
+
+  // Layout, cutting, numbering, back-side and template problems all stop printing and the PDF
+  const printSettingsError = () =>
+    validateLayout(layout) ??
+    validateCutOptions(layout, cutOptions) ??
+    validateNumberScheme(numberScheme) ??
+    validateDuplexOptions(duplex) ??
+    (activeTemplate.builtIn ? null : validateCardTemplate(activeTemplate, layout, cutOptions));
+
   const handlePrint = () => {
-    window.print();
+    const layoutError = printSettingsError();
+    if (layoutError) {
+      showToast(t('toast.cannotPrint', { error: t(layoutError.key, layoutError.params) }), 'error');
+      return;
+    }
+    if (!checkPrintable()) return;
+    setPrintJob({ pages: 0, openDialog: true });
+  };
+
+  // The test sheet needs no cards, only a layout the printer can line up
+  const printAlignmentTest = () => {
+    const layoutError = validateLayout(layout) ?? validateDuplexOptions(duplex);
+    if (layoutError) {
+      showToast(t('toast.cannotPrintTest', { error: t(layoutError.key, layoutError.params) }), 'error');
+      return;
+    }
+    setPrintJob({ pages: 0, openDialog: true, alignmentTest: true });
+  };
+
+  const downloadAlignmentTest = async () => {
+    const layoutError = validateLayout(layout) ?? validateDuplexOptions(duplex);
+    if (layoutError) {
+      showToast(t('toast.cannotExportTest', { error: t(layoutError.key, layoutError.params) }), 'error');
+      return;
+    }
+    try {
+      const pdf = await buildAlignmentTestPdf(layout, duplex, cardLocale);
+      downloadBlob(pdf, `duplex-alignment-test-${fileDateStamp()}.pdf`);
+    } catch (error) {
+      console.error('PDF export error:', error);
+      showToast(t('toast.testPdfFailed'), 'error');
+    }
+  };
+
+  const openPreview = () => {
+    const layoutError = printSettingsError();
+    if (layoutError) {
+      showToast(t('toast.cannotPreview', { error: t(layoutError.key, layoutError.params) }), 'error');
+      return;
+    }
+    setShowPreview(true);
+  };
+
+  // Kept card numbers can leave gaps, so the highest number sets the page count
+  const lastCardNumber = highestCardNumber(qrCodes);
+  const printSequence = printJob?.alignmentTest
+    ? ALIGNMENT_TEST_PAGES
+    : printPages(Math.ceil(lastCardNumber / cellsPerPage(layout)), cutOptions.coverPage, duplex.mode);
+  const printPageCount = printSequence.length;
+
+  // Mount the print pages a frame at a time, then open the print dialog
+  useEffect(() => {
+    if (!printJob) return;
+    if (printJob.pages < printPageCount) {
+      const frame = requestAnimationFrame(() =>
+        setPrintJob(prev => prev && { ...prev, pages: Math.min(printPageCount, prev.pages + PRINT_PAGES_PER_FRAME) })
+      );
+      return () => cancelAnimationFrame(frame);
+    }
+    if (!printJob.openDialog) return;
+    const timer = setTimeout(() => {
+      setPrintJob(prev => prev && { ...prev, openDialog: false });
+      window.print();
+    }, PRINT_SETTLE_MS);
+    return () => clearTimeout(timer);
+  }, [printJob, printPageCount]);
+
+  // Printing from the browser menu skips the Print button, so mount every
+  // page synchronously before the browser lays them out
+  useEffect(() => {
+    const handleBeforePrint = () => {
+      flushSync(() => setPrintJob(prev => (prev?.pages === printPageCount ? prev : { ...prev, pages: printPageCount, openDialog: false })));
+    };
+    const handleAfterPrint = () => setPrintJob(null);
+    window.addEventListener('beforeprint', handleBeforePrint);
+    window.addEventListener('afterprint', handleAfterPrint);
+    return () => {
+      window.removeEventListener('beforeprint', handleBeforePrint);
+      window.removeEventListener('afterprint', handleAfterPrint);
+    };
+  }, [printPageCount]);
+
+  const handleDownloadPdf = async () => {
+    const layoutError = printSettingsError();
+    if (layoutError) {
+      showToast(t('toast.cannotExport', { error: t(layoutError.key, layoutError.params) }), 'error');
+      return;
+    }
+    if (!checkPrintable()) return;
+
+    setIsExporting(true);
+    try {
+      const pdf = await buildPrintPdf(qrCodes, layout, qrStyle, cardTextMode, showReferralCode, cutOptions, numberScheme, duplex, activeTemplate, cardLocale, activeBatch?.name);
+      downloadBlob(pdf, `qr-codes-${fileDateStamp()}.pdf`);
+    } catch (error) {
+      console.error('PDF export error:', error);
+      showToast(t('toast.pdfFailed'), 'error');
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   const clearAll = () => {
     setLinks('');
     setQrCodes([]);
+    setShowFailingOnly(false);
+    setShowTracker(false);
+    setShowPreview(false);
+    setActiveBatch(null);
+    setKeptDuplicates([]);
+    setEditingId(null);
+    setShowAddCard(false);
     // No toast needed - action is obvious
   };
 
   const goBack = () => {
     setQrCodes([]);
+    setShowFailingOnly(false);
+    setShowTracker(false);
+    setShowPreview(false);
+    setActiveBatch(null);
+    setKeptDuplicates([]);
+    setEditingId(null);
+    setShowAddCard(false);
     setCurrentView('options');
     setLinks('');
+    setCsvImport(null);
   };
 
-  const handleFileUpload = async (file: File) => {
+  // Merge the imported tables and let the user confirm which columns hold what
+  const startMapping = (sources: ImportSource[]) => {
+    const rows = mergeSources(sources);
+    if (rows.length === 0) {
+      showToast(t('toast.emptyFile'), 'error');
+      return;
+    }
+
+    // Security: Check for extremely large number of rows
+    if (rows.length > MAX_QR_CODES + 10) {
+      showToast(t('toast.rowLimit', { count: rows.length, max: MAX_QR_CODES }), 'warning');
+    }
+
+    const savedMapping = loadSavedMapping(rows);
+    setCsvImport({
+      name: describeSources(sources),
+      sources,
+      rows,
+      mapping: savedMapping ?? guessMapping(rows, CURSOR_BASE_URL),
+      remembered: savedMapping !== null,
+    });
+    setCurrentView('mapping');
+  };
+
+  const handleFileUpload = async (files: File[]) => {
     setIsProcessing(true);
 
     try {
-      // Security: Check file size
-      if (file.size > MAX_FILE_SIZE) {
-        showToast(
-          `File size (${(file.size / (1024 * 1024)).toFixed(2)}MB) exceeds maximum allowed size of 5MB. Please use a smaller file.`,
-          'error'
-        );
-        setIsProcessing(false);
-        return;
+      if (files.length > MAX_IMPORT_FILES) {
+        showToast(t('toast.fileLimit', { max: MAX_IMPORT_FILES, count: files.length }), 'warning');
       }
 
-      // Security: Validate MIME type
-      const validMimeTypes = ['text/csv', 'text/plain', 'application/csv'];
-      if (!validMimeTypes.includes(file.type) && !file.name.endsWith('.csv')) {
-        showToast(
-          'Invalid file type. Please upload a valid CSV file (.csv extension, text/csv MIME type).',
-          'error'
-        );
+      const sources: ImportSource[] = [];
+      for (const file of files.slice(0, MAX_IMPORT_FILES)) {
+        // Security: Check file size
+        if (file.size > MAX_FILE_SIZE) {
+          showToast(t('toast.fileTooLarge', { name: file.name, size: (file.size / (1024 * 1024)).toFixed(2) }), 'error');
+          continue;
+        }
+
+        // Security: Validate file type
+        const format = importFormat(file);
+        if (!format) {
+          showToast(t('toast.unsupportedFile', { name: file.name }), 'error');
+          continue;
+        }
+
+        try {
+          sources.push(await readImportFile(file, format));
+        } catch (error) {
+          console.error('File parsing error:', error);
+          const reason = error instanceof MessageError ? t(error.problem.key, error.problem.params) : t('toast.unknownError');
+          showToast(t('toast.fileUnreadable', { name: file.name, reason }), 'error');
+        }
+      }
+
+      if (sources.length > 0) startMapping(sources);
+    } catch (error) {
+      console.error('File upload error:', error);
+      showToast(t('toast.readFailed'), 'error');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // A range copied from a spreadsheet goes straight to column mapping
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const text = e.clipboardData.getData('text/plain');
+    if (!text.trim()) return;
+    e.preventDefault();
+    if (text.length > MAX_FILE_SIZE) {
+      showToast(t('toast.pasteTooLarge'), 'error');
+      return;
+    }
+    startMapping([pastedSource(text)]);
+  };
+
+  // Pick a different sheet from one of the imported workbooks
+  const selectSheet = (sourceIndex: number, sheetIndex: number) => {
+    if (!csvImport) return;
+    startMapping(
+      csvImport.sources.map((source, index) => (index === sourceIndex ? { ...source, sheetIndex } : source))
+    );
+  };
+
+  const handleConfirmMapping = async (mapping: ColumnMapping) => {
+    if (!csvImport) return;
+    setIsProcessing(true);
+
+    try {
+      saveMapping(csvImport.rows, mapping);
+      const entries = applyMapping(csvImport.rows, mapping);
+
+      if (entries.length === 0) {
+        showToast(t('toast.noLinkValues'), 'error');
         setIsProcessing(false);
         return;
       }
 
-      // Read file content
-      const text = await file.text();
+      if (entries.length > MAX_QR_CODES) {
+        showToast(t('toast.urlLimit', { max: MAX_QR_CODES, count: entries.length }), 'warning');
+      }
+
+      const limitedEntries = entries.slice(0, MAX_QR_CODES);
+      setLinks(limitedEntries.map(entry => (entry.label ? `${entry.url}, ${entry.label}` : entry.url)).join('\n'));
+
+      const payloadEntries = limitedEntries.map(urlEntry);
+      const { qrCodeData, invalidCount, warningCount } = await buildQRCodeData(payloadEntries);
+      setQrCodes(qrCodeData);
+      const importName = t(csvImport.name.key, csvImport.name.params);
+      rememberBatch(importName, payloadEntries);
+      setCsvImport(null);
 
-      // Security: Check for extremely large number of lines
-      const lineCount = text.split('\n').length;
-      if (lineCount > MAX_QR_CODES + 10) {
+      // Show results only for errors/warnings
+      if (invalidCount > 0) {
         showToast(
-          `File contains ${lineCount} lines. Maximum ${MAX_QR_CODES} QR codes will be generated.`,
+          t('toast.importedInvalid', { count: qrCodeData.length, file: importName, invalid: invalidCount }),
           'warning'
         );
+      } else if (warningCount > 0) {
+        showToast(t('toast.importedWarnings', { count: qrCodeData.length, warnings: warningCount }), 'info');
       }
-
-      // Use PapaParse for proper CSV parsing
-      Papa.parse(text, {
-        header: false,
-        skipEmptyLines: true,
-        complete: (results) => {
-          try {
-            const urls: string[] = [];
-            
-            // Extract URLs from CSV, skip header row
-            for (let i = 0; i < results.data.length; i++) {
-              const row = results.data[i] as string[];
-              if (i === 0 && row[0]?.toLowerCase().includes('url')) {
-                // Skip header row
-                continue;
-              }
-              
-              // Check if this looks like a split Cursor URL format
-              let foundReferral = false;
-              for (let j = 0; j < row.length; j++) {
-                if (row[j] && row[j].trim() && row[j].toLowerCase().startsWith('referral')) {
-                  // Found the referral column - build the full URL
-                  const referralPath = row[j].trim();
-                  const fullUrl = `${CURSOR_BASE_URL}${referralPath}`;
-                  urls.push(fullUrl);
-                  foundReferral = true;
-                  break;
-                }
-              }
-              
-              // If we didn't find a referral column, check if it's a standard complete URL
-              if (!foundReferral && row[0] && row[0].trim()) {
-                const url = row[0].trim();
-                // Check if it's already a complete URL (starts with http:// or https://)
-                if (url.startsWith('http://') || url.startsWith('https://')) {
-                  urls.push(url);
-                } else if (url.toLowerCase().startsWith('referral')) {
-                  // Just the referral path without base URL
-                  urls.push(`${CURSOR_BASE_URL}${url}`);
-                } else {
-                  // Unknown format, add as-is
-                  urls.push(url);
-                }
-              }
-            }
-
-            if (urls.length === 0) {
-              showToast(
-                'No valid URLs found in the CSV file. Please ensure URLs are in the first column.',
-                'error'
-              );
-              setIsProcessing(false);
-              return;
-            }
-
-            if (urls.length > MAX_QR_CODES) {
-              showToast(
-                `Processing first ${MAX_QR_CODES} of ${urls.length} URLs (maximum limit).`,
-                'warning'
-              );
-            }
-
-            setLinks(urls.slice(0, MAX_QR_CODES).join('\n'));
-            
-            // Auto-generate QR codes
-            setTimeout(() => {
-              const linkList = urls.slice(0, MAX_QR_CODES);
-              let invalidCount = 0;
-              let warningCount = 0;
-
-              const qrCodeData: QRCodeData[] = linkList.map((link, index) => {
-                const isValid = isValidUrl(link);
-                const normalizedUrl = isValid ? normalizeUrl(link) : link;
-                const suspiciousCheck = checkSuspiciousUrl(normalizedUrl);
-
-                if (!isValid) invalidCount++;
-                if (suspiciousCheck.hasWarning) warningCount++;
-
-                return {
-                  id: index + 1,
-                  url: normalizedUrl,
-                  isValid,
-                  hasWarning: suspiciousCheck.hasWarning,
-                  warningMessage: suspiciousCheck.message,
-                };
-              });
-
-              setQrCodes(qrCodeData);
-              setIsProcessing(false);
-
-              // Show results only for errors/warnings
-              if (invalidCount > 0) {
-                showToast(
-                  `Processed ${qrCodeData.length} URLs from CSV. ${invalidCount} invalid URL(s) found.`,
-                  'warning'
-                );
-              } else if (warningCount > 0) {
-                showToast(
-                  `Processed ${qrCodeData.length} URLs with ${warningCount} warning(s).`,
-                  'info'
-                );
-              }
-              // No success toast - cleaner UX
-            }, 100);
-          } catch (error) {
-            console.error('Error processing CSV:', error);
-            showToast('Failed to process CSV file. Please check the file format and try again.', 'error');
-            setIsProcessing(false);
-          }
-        },
-        error: (error: Error) => {
-          console.error('CSV parsing error:', error);
-          showToast(
-            `CSV parsing failed: ${error.message}. Please ensure the file is properly formatted.`,
-            'error'
-          );
-          setIsProcessing(false);
-        },
-      });
+      // No success toast - cleaner UX
     } catch (error) {
-      console.error('File upload error:', error);
-      showToast('Failed to read file. Please try again with a different file.', 'error');
+      console.error('Error processing import:', error);
+      showToast(t('toast.importFailed'), 'error');
+    } finally {
       setIsProcessing(false);
     }
   };
@@ -423,24 +896,15 @@ function QRCodeGeneratorContent() {
     e.stopPropagation();
     setDragActive(false);
     
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      const file = e.dataTransfer.files[0];
-      
-      // Security: Validate file type
-      if (file.type === 'text/csv' || file.name.endsWith('.csv')) {
-        handleFileUpload(file);
-      } else {
-        showToast(
-          'Invalid file type. Please upload a CSV file (.csv extension).',
-          'error'
-        );
-      }
+    // Several files are merged into one batch; each is checked on its own
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      handleFileUpload(Array.from(e.dataTransfer.files));
     }
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      handleFileUpload(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+      handleFileUpload(Array.from(e.target.files));
     }
     // Reset input to allow re-uploading the same file
     e.target.value = '';
@@ -462,7 +926,9 @@ function QRCodeGeneratorContent() {
           animate={{ y: 0, opacity: 1 }}
           transition={{ duration: 0.2, delay: 0.05 }}
         >
-          <span style={{ color: 'var(--accent-blue)' }}>Cursor Credits</span> QR Code Generator
+          {translateParts(uiLocale, 'options.headline', {
+            brand: <span key="brand" style={{ color: 'var(--accent-blue)' }}>{t('options.brand')}</span>,
+          })}
         </motion.h1>
         <motion.p 
           className="text-lg mb-4" 
@@ -471,7 +937,7 @@ function QRCodeGeneratorContent() {
           animate={{ y: 0, opacity: 1 }}
           transition={{ duration: 0.2, delay: 0.1 }}
         >
-          Generate QR codes for your referral links
+          {t('options.subtitle')}
         </motion.p>
         
         <motion.div 
@@ -487,7 +953,7 @@ function QRCodeGeneratorContent() {
             whileTap={{ scale: 0.98 }}
             transition={{ type: "spring", stiffness: 500, damping: 25 }}
           >
-            Upload CSV File
+            {t('options.upload')}
           </motion.button>
           
           <motion.button
@@ -497,7 +963,27 @@ function QRCodeGeneratorContent() {
             whileTap={{ scale: 0.98 }}
             transition={{ type: "spring", stiffness: 500, damping: 25 }}
           >
-            Enter Links Manually
+            {t('options.manual')}
+          </motion.button>
+
+          <motion.button
+            onClick={() => setCurrentView('builder')}
+            className="btn-secondary w-full py-4 px-6 rounded-lg text-lg font-medium"
+            whileHover={{ scale: 1.02, y: -1 }}
+            whileTap={{ scale: 0.98 }}
+            transition={{ type: "spring", stiffness: 500, damping: 25 }}
+          >
+            {t('options.builder')}
+          </motion.button>
+
+          <motion.button
+            onClick={() => setCurrentView('library')}
+            className="btn-secondary w-full py-4 px-6 rounded-lg text-lg font-medium"
+            whileHover={{ scale: 1.02, y: -1 }}
+            whileTap={{ scale: 0.98 }}
+            transition={{ type: "spring", stiffness: 500, damping: 25 }}
+          >
+            {t('options.library')}
           </motion.button>
         </motion.div>
       </div>
@@ -522,7 +1008,7 @@ function QRCodeGeneratorContent() {
           whileHover={{ x: -3, color: 'var(--accent-blue)' }}
           transition={{ type: "spring", stiffness: 500, damping: 25 }}
         >
-          ← Back
+          {t('common.back')}
         </motion.button>
         
         <motion.h2 
@@ -531,7 +1017,7 @@ function QRCodeGeneratorContent() {
           animate={{ y: 0, opacity: 1 }}
           transition={{ duration: 0.2, delay: 0.05 }}
         >
-          Upload CSV File
+          {t('upload.title')}
         </motion.h2>
         
         <motion.div 
@@ -539,6 +1025,19 @@ function QRCodeGeneratorContent() {
             dragActive ? 'drag-active' : ''
           } ${isProcessing ? 'opacity-50 pointer-events-none' : ''}`}
           style={{ borderColor: 'var(--border-color)' }}
+          role="button"
+          tabIndex={isProcessing ? -1 : 0}
+          aria-label={t('upload.choose')}
+          aria-describedby="upload-drop-hint upload-limits"
+          aria-busy={isProcessing}
+          aria-disabled={isProcessing}
+          onClick={() => fileInputRef.current?.click()}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ' ') {
+              e.preventDefault();
+              fileInputRef.current?.click();
+            }
+          }}
           onDragEnter={handleDrag}
           onDragLeave={handleDrag}
           onDragOver={handleDrag}
@@ -554,7 +1053,7 @@ function QRCodeGeneratorContent() {
               animate={{ opacity: 1 }}
             >
               <div className="inline-block animate-spin rounded-full h-12 w-12 border-b-2 border-t-2" style={{ borderColor: 'var(--accent-blue)' }}></div>
-              <p className="text-white font-medium text-lg mt-4">Processing file...</p>
+              <p className="text-white font-medium text-lg mt-4">{t('upload.processing')}</p>
             </motion.div>
           ) : (
             <>
@@ -573,30 +1072,44 @@ function QRCodeGeneratorContent() {
                   <rect x="7" y="6" width="10" height="2" rx="1" fill="var(--accent-blue)" opacity="0.9"/>
                 </svg>
               </motion.div>
-              <p className="text-white font-medium text-lg mb-2">Drop CSV file here</p>
-              <p className="mb-6" style={{ color: 'var(--secondary-text)' }}>or</p>
-              <motion.button
-                onClick={() => fileInputRef.current?.click()}
-                className="btn-primary px-8 py-3 rounded-lg font-medium"
+              <p id="upload-drop-hint" className="text-white font-medium text-lg mb-2">{t('upload.drop')}</p>
+              <p className="mb-6" style={{ color: 'var(--secondary-text)' }} aria-hidden="true">{t('upload.or')}</p>
+              {/* The whole drop zone is the button; this only looks like one */}
+              <motion.span
+                className="btn-primary inline-block px-8 py-3 rounded-lg font-medium"
+                aria-hidden="true"
                 whileHover={{ scale: 1.03, y: -1 }}
                 whileTap={{ scale: 0.97 }}
                 transition={{ type: "spring", stiffness: 500, damping: 25 }}
               >
-                Choose File
-              </motion.button>
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept=".csv,text/csv"
-                onChange={handleFileChange}
-                className="hidden"
-              />
-              <p className="text-sm mt-4" style={{ color: 'var(--secondary-text)' }}>
-                Max 5MB, up to {MAX_QR_CODES} URLs
+                {t('upload.choose')}
+              </motion.span>
+              <p id="upload-limits" className="text-sm mt-4" style={{ color: 'var(--secondary-text)' }}>
+                {t('upload.limits', { max: MAX_QR_CODES })}
               </p>
             </>
           )}
         </motion.div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={IMPORT_ACCEPT}
+          multiple
+          onChange={handleFileChange}
+          className="hidden"
+        />
+
+        <motion.textarea
+          className="w-full h-24 mt-6 p-4 rounded-lg resize-none text-white text-sm"
+          style={{ background: 'var(--card-background)', border: '1px solid var(--border-color)' }}
+          placeholder={t('upload.pastePlaceholder')}
+          aria-label={t('upload.pasteLabel')}
+          onPaste={handlePaste}
+          disabled={isProcessing}
+          initial={{ y: 10, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.2, delay: 0.15 }}
+        />
       </div>
     </motion.div>
   );
@@ -619,7 +1132,7 @@ function QRCodeGeneratorContent() {
           whileHover={{ x: -3, color: 'var(--accent-blue)' }}
           transition={{ type: "spring", stiffness: 500, damping: 25 }}
         >
-          ← Back
+          {t('common.back')}
         </motion.button>
         
         <motion.h2 
@@ -628,7 +1141,7 @@ function QRCodeGeneratorContent() {
           animate={{ y: 0, opacity: 1 }}
           transition={{ duration: 0.2, delay: 0.05 }}
         >
-          Enter Links
+          {t('manual.title')}
         </motion.h2>
         
         <motion.textarea
@@ -637,7 +1150,7 @@ function QRCodeGeneratorContent() {
             background: 'var(--card-background)', 
             border: '1px solid var(--border-color)'
           }}
-          placeholder={`Enter your Cursor referral links, one per line:\n\n${CURSOR_BASE_URL}referral?code=EXAMPLE1\n${CURSOR_BASE_URL}referral?code=EXAMPLE2\n${CURSOR_BASE_URL}referral?code=EXAMPLE3`}
+          placeholder={`${t('manual.placeholder')}\n\n${CURSOR_BASE_URL}referral?code=EXAMPLE1\n${CURSOR_BASE_URL}referral?code=EXAMPLE2, ${t('manual.exampleLabel')}\n${CURSOR_BASE_URL}referral?code=EXAMPLE3`}
           value={links}
           onChange={(e) => setLinks(e.target.value)}
           initial={{ y: 10, opacity: 0 }}
@@ -660,7 +1173,7 @@ function QRCodeGeneratorContent() {
             whileTap={links.trim() && !isProcessing ? { scale: 0.97 } : {}}
             transition={{ type: "spring", stiffness: 500, damping: 25 }}
           >
-            {isProcessing ? 'Processing...' : 'Generate QR Codes'}
+            {isProcessing ? t('manual.processing') : t('manual.generate')}
           </motion.button>
         </motion.div>
       </div>
@@ -668,6 +1181,13 @@ function QRCodeGeneratorContent() {
   );
 
   // QR Codes Results View
+  const failingCount = verification
+    ? Array.from(verification.values()).filter(result => result.status === 'fail').length
+    : 0;
+  const visibleCodes = showFailingOnly && failingCount > 0
+    ? qrCodes.filter(qr => verification?.get(qr.id)?.status === 'fail')
+    : qrCodes;
+
   const renderResultsView = () => (
     <motion.div 
       className="min-h-screen" 
@@ -685,7 +1205,7 @@ function QRCodeGeneratorContent() {
           whileHover={{ x: -3, color: 'var(--accent-blue)' }}
           transition={{ type: "spring", stiffness: 500, damping: 25 }}
         >
-          ← Back
+          {t('common.back')}
         </motion.button>
         
         <motion.div 
@@ -694,19 +1214,64 @@ function QRCodeGeneratorContent() {
           animate={{ y: 0, opacity: 1 }}
           transition={{ duration: 0.2, delay: 0.05 }}
         >
-          <h2 className="text-2xl font-semibold text-white">
-            QR Codes ({qrCodes.length})
-          </h2>
+          <div>
+            <h2 className="text-2xl font-semibold text-white">
+              {t('results.title', { count: qrCodes.length })}
+            </h2>
+            {activeBatch && (
+              <p className="text-xs mt-1" style={{ color: 'var(--secondary-text)' }}>
+                {t('results.savedAs', { name: activeBatch.name })}
+              </p>
+            )}
+          </div>
           
           <div className="flex gap-3">
+            <motion.button
+              onClick={openPreview}
+              className="btn-secondary px-6 py-2 rounded-lg text-sm font-medium"
+              whileHover={{ scale: 1.03, y: -1 }}
+              whileTap={{ scale: 0.97 }}
+              transition={{ type: "spring", stiffness: 500, damping: 25 }}
+            >
+              {t('results.preview')}
+            </motion.button>
             <motion.button
               onClick={handlePrint}
+              disabled={!!printJob?.openDialog}
+              className={`btn-secondary px-6 py-2 rounded-lg text-sm font-medium ${printJob?.openDialog ? 'opacity-50 cursor-wait' : ''}`}
+              whileHover={!printJob?.openDialog ? { scale: 1.03, y: -1 } : {}}
+              whileTap={!printJob?.openDialog ? { scale: 0.97 } : {}}
+              transition={{ type: "spring", stiffness: 500, damping: 25 }}
+            >
+              {printJob?.openDialog ? t('results.preparing', { done: printJob.pages, total: printPageCount }) : t('results.print')}
+            </motion.button>
+            <motion.button
+              onClick={handleDownloadPdf}
+              disabled={isExporting}
+              className={`btn-secondary px-6 py-2 rounded-lg text-sm font-medium ${isExporting ? 'opacity-50 cursor-wait' : ''}`}
+              whileHover={!isExporting ? { scale: 1.03, y: -1 } : {}}
+              whileTap={!isExporting ? { scale: 0.97 } : {}}
+              transition={{ type: "spring", stiffness: 500, damping: 25 }}
+            >
+              {isExporting ? t('results.buildingPdf') : t('results.downloadPdf')}
+            </motion.button>
+            <motion.button
+              onClick={() => checkPrintable() && setShowImageExport(true)}
               className="btn-secondary px-6 py-2 rounded-lg text-sm font-medium"
               whileHover={{ scale: 1.03, y: -1 }}
               whileTap={{ scale: 0.97 }}
               transition={{ type: "spring", stiffness: 500, damping: 25 }}
             >
-              Print
+              {t('results.downloadImages')}
+            </motion.button>
+            <motion.button
+              onClick={() => setShowTracker(true)}
+              className="btn-secondary px-6 py-2 rounded-lg text-sm font-medium"
+              whileHover={{ scale: 1.03, y: -1 }}
+              whileTap={{ scale: 0.97 }}
+              transition={{ type: "spring", stiffness: 500, damping: 25 }}
+            >
+              {t('results.tracker')}
             </motion.button>
             <motion.button
               onClick={clearAll}
@@ -715,10 +1280,223 @@ function QRCodeGeneratorContent() {
               whileTap={{ scale: 0.97 }}
               transition={{ type: "spring", stiffness: 500, damping: 25 }}
             >
-              Clear
+              {t('results.clear')}
             </motion.button>
           </div>
         </motion.div>
+
+        <motion.div
+          className="mb-4"
+          initial={{ y: 10, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.2, delay: 0.075 }}
+        >
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <LayoutPicker layout={layout} onChange={setLayout} t={t} />
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <label htmlFor="card-text-mode" style={{ color: 'var(--secondary-text)' }}>
+                {t('toolbar.cardText')}
+              </label>
+              <select
+                id="card-text-mode"
+                value={cardTextMode}
+                onChange={(e) => setCardTextMode(e.target.value as CardTextMode)}
+                className="px-3 py-2 rounded-lg border text-sm"
+              >
+                {CARD_TEXT_MODES.map(({ value }) => (
+                  <option key={value} value={value}>{t(`cardText.${value}`)}</option>
+                ))}
+              </select>
+              <label htmlFor="card-locale" style={{ color: 'var(--secondary-text)' }}>
+                {t('toolbar.cardLanguage')}
+              </label>
+              <select
+                id="card-locale"
+                value={cardLocale}
+                onChange={(e) => changeCardLocale(e.target.value as Locale)}
+                className="px-3 py-2 rounded-lg border text-sm"
+              >
+                {LOCALES.map(({ value, label }) => (
+                  <option key={value} value={value} lang={value}>{label}</option>
+                ))}
+              </select>
+              {qrCodes.some(qr => qr.referralCode) && (
+                <label className="flex items-center gap-2 text-white">
+                  <input
+                    type="checkbox"
+                    checked={showReferralCode}
+                    onChange={(e) => setShowReferralCode(e.target.checked)}
+                  />
+                  {t('toolbar.printCode')}
+                </label>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setShowTemplatePanel(prev => !prev)}
+                className="btn-secondary px-4 py-2 rounded-lg text-sm font-medium"
+                aria-expanded={showTemplatePanel}
+              >
+                {showTemplatePanel ? t('toolbar.hideTemplate') : t('toolbar.template', { name: templateName(activeTemplate, t) })}
+              </button>
+              <button
+                onClick={() => setShowDuplexPanel(prev => !prev)}
+                className="btn-secondary px-4 py-2 rounded-lg text-sm font-medium"
+                aria-expanded={showDuplexPanel}
+              >
+                {showDuplexPanel ? t('toolbar.hideDuplex') : t('toolbar.duplex')}
+              </button>
+              <button
+                onClick={() => setShowNumberingPanel(prev => !prev)}
+                className="btn-secondary px-4 py-2 rounded-lg text-sm font-medium"
+                aria-expanded={showNumberingPanel}
+              >
+                {showNumberingPanel ? t('toolbar.hideNumbering') : t('toolbar.numbering')}
+              </button>
+              <button
+                onClick={() => setShowCuttingPanel(prev => !prev)}
+                className="btn-secondary px-4 py-2 rounded-lg text-sm font-medium"
+                aria-expanded={showCuttingPanel}
+              >
+                {showCuttingPanel ? t('toolbar.hideCutting') : t('toolbar.cutting')}
+              </button>
+              <button
+                onClick={() => setShowPolicyPanel(prev => !prev)}
+                className="btn-secondary px-4 py-2 rounded-lg text-sm font-medium"
+                aria-expanded={showPolicyPanel}
+              >
+                {showPolicyPanel
+                  ? t('toolbar.hidePolicy')
+                  : activePolicy ? t('toolbar.policyNamed', { name: policyName(activePolicy, t) }) : t('toolbar.policy')}
+              </button>
+              <button
+                onClick={() => setShowStylePanel(prev => !prev)}
+                className="btn-secondary px-4 py-2 rounded-lg text-sm font-medium"
+                aria-expanded={showStylePanel}
+              >
+                {showStylePanel ? t('toolbar.hideAppearance') : t('toolbar.appearance')}
+              </button>
+            </div>
+          </div>
+          <AnimatePresence>
+            {showTemplatePanel && (
+              <motion.div
+                className="mt-4"
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: 'auto' }}
+                exit={{ opacity: 0, height: 0 }}
+                transition={{ duration: 0.2 }}
+              >
+                <TemplatePanel
+                  templates={templates}
+                  selectedId={activeTemplate.id}
+                  previewCard={qrCodes[0]}
+                  layout={layout}
+                  style={qrStyle}
+                  cutOptions={cutOptions}
+                  numberScheme={numberScheme}
+                  cardLocale={cardLocale}
+                  onSelect={setTemplateId}
+                  onSave={saveTemplate}
+                  onDelete={deleteTemplate}
+                  onError={(message) => showToast(message, 'error')}
+                  t={t}
+                />
+              </motion.div>
+            )}
+          </AnimatePresence>
+          <AnimatePresence>
+            {showDuplexPanel && (
+              <motion.div
+                className="mt-4"
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: 'auto' }}
+                exit={{ opacity: 0, height: 0 }}
+                transition={{ duration: 0.2 }}
+              >
+                <DuplexPanel
+                  options={duplex}
+                  onChange={setDuplex}
+                  onPrintTest={printAlignmentTest}
+                  onDownloadTest={downloadAlignmentTest}
+                  t={t}
+                />
+              </motion.div>
+            )}
+          </AnimatePresence>
+          <AnimatePresence>
+            {showNumberingPanel && (
+              <motion.div
+                className="mt-4"
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: 'auto' }}
+                exit={{ opacity: 0, height: 0 }}
+                transition={{ duration: 0.2 }}
+              >
+                <NumberSchemePanel
+                  scheme={numberScheme}
+                  lastCardNumber={lastCardNumber}
+                  hasImportedNumbers={qrCodes.some(qr => qr.cardNumber)}
+                  onChange={setNumberScheme}
+                  t={t}
+                />
+              </motion.div>
+            )}
+          </AnimatePresence>
+          <AnimatePresence>
+            {showCuttingPanel && (
+              <motion.div
+                className="mt-4"
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: 'auto' }}
+                exit={{ opacity: 0, height: 0 }}
+                transition={{ duration: 0.2 }}
+              >
+                <CuttingPanel options={cutOptions} layout={layout} onChange={setCutOptions} t={t} />
+              </motion.div>
+            )}
+          </AnimatePresence>
+          <AnimatePresence>
+            {showPolicyPanel && (
+              <motion.div
+                className="mt-4"
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: 'auto' }}
+                exit={{ opacity: 0, height: 0 }}
+                transition={{ duration: 0.2 }}
+              >
+                <PolicyPanel
+                  policies={policies}
+                  selectedId={policyId}
+                  violationCount={violations.size}
+                  onSelect={setPolicyId}
+                  onSave={savePolicy}
+                  onDelete={deletePolicy}
+                  t={t}
+                />
+              </motion.div>
+            )}
+          </AnimatePresence>
+          <AnimatePresence>
+            {showStylePanel && (
+              <motion.div
+                className="mt-4"
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: 'auto' }}
+                exit={{ opacity: 0, height: 0 }}
+                transition={{ duration: 0.2 }}
+              >
+                <QRStylePanel
+                  style={qrStyle}
+                  onChange={setQrStyle}
+                  previewValue={qrCodes.find(qr => qr.isValid)?.value ?? `${CURSOR_BASE_URL}referral?code=EXAMPLE`}
+                  onError={(message) => showToast(message, 'error')}
+                  t={t}
+                />
+              </motion.div>
+            )}
+          </AnimatePresence>
+        </motion.div>
         
         <motion.p 
           className="text-xs mb-8 text-center px-4 py-2 rounded-lg"
@@ -727,96 +1505,367 @@ function QRCodeGeneratorContent() {
           animate={{ y: 0, opacity: 1 }}
           transition={{ duration: 0.2, delay: 0.1 }}
         >
-          💡 Numbers are positioned for easy stacking: after printing, cut pages into squares and stack by position for perfect order
+          {numberScheme.order === 'cut-and-stack' ? t('tip.cutAndStack') : t('tip.sequential')}
         </motion.p>
+
+        {activePolicy && violations.size > 0 && (
+          <p
+            className="text-sm mb-6 px-4 py-2 rounded-lg"
+            style={policyBlocks
+              ? { color: '#f87171', backgroundColor: 'rgba(239, 68, 68, 0.1)', border: '1px solid rgba(239, 68, 68, 0.4)' }
+              : { color: '#f59e0b', backgroundColor: 'rgba(245, 158, 11, 0.1)', border: '1px solid rgba(245, 158, 11, 0.4)' }}
+          >
+            {t(policyBlocks ? 'policy.blocked' : 'policy.flagged', { count: violations.size, name: policyName(activePolicy, t) })}
+          </p>
+        )}
+
+        {duplicateGroups.length > 0 && (
+          <DuplicateReviewPanel
+            groups={duplicateGroups}
+            formatNumber={formatId}
+            onKeepFirst={keepFirstDuplicates}
+            onRemoveAll={(group) => removeCodes(new Set(group.ids))}
+            onKeepAll={(group) => setKeptDuplicates(prev => [...prev, group.key])}
+            t={t}
+          />
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-6 text-sm" aria-live="polite">
+          {verifyProgress ? (
+            <span style={{ color: 'var(--secondary-text)' }}>
+              {t('verify.progress', { done: verifyProgress.done, total: verifyProgress.total })}
+            </span>
+          ) : verification && failingCount > 0 ? (
+            <span className="text-red-400">
+              {t('verify.failing', { failing: failingCount, total: verification.size })}
+            </span>
+          ) : verification && verification.size > 0 ? (
+            <span className="text-green-400">{t('verify.passing', { count: verification.size })}</span>
+          ) : (
+            <span />
+          )}
+          {failingCount > 0 && (
+            <label className="flex items-center gap-2 text-white">
+              <input
+                type="checkbox"
+                checked={showFailingOnly}
+                onChange={(e) => setShowFailingOnly(e.target.checked)}
+              />
+              {t('verify.showFailing')}
+            </label>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-6 text-sm">
+          <button
+            onClick={() => setShowAddCard(prev => !prev)}
+            className="btn-secondary px-4 py-2 rounded-lg text-sm font-medium"
+            aria-expanded={showAddCard}
+          >
+            {showAddCard ? t('common.cancel') : t('cards.add')}
+          </button>
+          <label className="flex items-center gap-2" style={{ color: 'var(--secondary-text)' }}>
+            {t('cards.afterEdits')}
+            <select
+              value={numbering}
+              onChange={(e) => changeNumbering(e.target.value as NumberingMode)}
+              className="px-3 py-2 rounded-lg border text-sm"
+            >
+              {NUMBERING_MODES.map(({ value }) => (
+                <option key={value} value={value}>{t(`numbering.${value}`)}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        {showAddCard && (
+          <div
+            className="mb-6 p-4 rounded-lg max-w-md"
+            style={{ background: 'var(--card-background)', border: '1px solid var(--border-color)' }}
+          >
+            <CardEditForm
+              urlEditable
+              submitLabel={t('cards.addAs', { number: formatNumber(lastCardNumber + 1, numberScheme) })}
+              onSubmit={addCard}
+              onCancel={() => setShowAddCard(false)}
+              t={t}
+            />
+          </div>
+        )}
         
-        <motion.div 
-          className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6"
-          initial={{ y: 10, opacity: 0 }}
-          animate={{ y: 0, opacity: 1 }}
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
           transition={{ duration: 0.2, delay: 0.1 }}
         >
-          {qrCodes.map((qr, index) => (
-            <motion.div 
-              key={qr.id} 
-              className="qr-item rounded-lg p-4 text-center" 
-              style={{ 
-                background: 'var(--card-background)', 
-                border: qr.hasWarning ? '1px solid rgba(245, 158, 11, 0.5)' : '1px solid var(--border-color)'
-              }}
-              initial={{ opacity: 0, y: 10, scale: 0.95 }}
-              animate={{ opacity: 1, y: 0, scale: 1 }}
-              transition={{ 
-                duration: 0.15, 
-                delay: index * 0.02,
-                type: "spring",
-                stiffness: 500,
-                damping: 25
-              }}
-              whileHover={{ 
-                scale: 1.02, 
-                y: -2,
-                borderColor: qr.hasWarning ? 'rgba(245, 158, 11, 0.8)' : 'var(--accent-blue)',
-                boxShadow: '0 4px 12px rgba(37, 99, 235, 0.15)'
-              }}
-              whileTap={{ scale: 0.98 }}
-            >
-              <div className="text-sm mb-3 qr-card-text">
-                #{qr.id}
-              </div>
-              {qr.hasWarning && (
-                <div className="text-xs mb-2 px-2 py-1 rounded" style={{ 
-                  backgroundColor: 'rgba(245, 158, 11, 0.2)', 
-                  color: '#f59e0b'
-                }}>
-                  ⚠️ {qr.warningMessage}
-                </div>
-              )}
-              {qr.isValid ? (
-                <motion.div
-                  className="flex justify-center items-center mb-3"
-                  whileHover={{ scale: 1.03 }}
-                  transition={{ type: "spring", stiffness: 500, damping: 25 }}
+          <VirtualCardGrid
+            items={visibleCodes}
+            renderItem={(qr) => {
+              const budget = scanBudgets.get(qr.id);
+              const check = verification?.get(qr.id);
+              const failedCheck = check?.status === 'fail';
+              const highRisk = qr.warningSeverity === 'high';
+              const violation = violations.get(qr.id);
+              const canReorder = numbering === 'renumber' && editingId === null;
+              const cardNumber = formatCardNumber(qr, numberScheme);
+              const content = sanitizeUrlForDisplay(describePayload(qr.payload, uiLocale));
+              return (
+                <motion.div 
+                  key={qr.id} 
+                  className="qr-item rounded-lg p-4 text-center" 
+                  role="group"
+                  aria-label={qr.label ? t('card.labelNamed', { number: cardNumber, label: qr.label }) : t('card.label', { number: cardNumber })}
+                  style={{ 
+                    background: 'var(--card-background)', 
+                    border: failedCheck || highRisk || (violation && policyBlocks)
+                      ? '1px solid rgba(239, 68, 68, 0.6)'
+                      : qr.hasWarning ? '1px solid rgba(245, 158, 11, 0.5)' : '1px solid var(--border-color)',
+                    outline: draggingId === qr.id ? '2px dashed var(--accent-blue)' : undefined
+                  }}
+                  initial={reduceMotion ? false : { opacity: 0, y: 10, scale: 0.95 }}
+                  animate={{ opacity: 1, y: 0, scale: 1 }}
+                  transition={{ 
+                    duration: 0.15, 
+                    type: "spring",
+                    stiffness: 500,
+                    damping: 25
+                  }}
+                  whileHover={{ 
+                    ...(reduceMotion ? {} : { scale: 1.02, y: -2 }),
+                    borderColor: failedCheck || highRisk || (violation && policyBlocks)
+                      ? 'rgba(239, 68, 68, 0.9)'
+                      : qr.hasWarning ? 'rgba(245, 158, 11, 0.8)' : 'var(--accent-blue)',
+                    boxShadow: '0 4px 12px rgba(37, 99, 235, 0.15)'
+                  }}
+                  whileTap={reduceMotion ? undefined : { scale: 0.98 }}
+                  onDragOver={(e) => {
+                    if (draggingId !== null) e.preventDefault();
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    if (draggingId !== null) reorderCard(draggingId, qr.id);
+                    setDraggingId(null);
+                  }}
                 >
-                  <QRCode 
-                    value={qr.url} 
-                    size={120}
-                    bgColor="var(--card-background)"
-                    fgColor="white"
-                    logoImage="/cursor-logo-bw.png"
-                    logoWidth={32}
-                    logoOpacity={1}
-                    logoPadding={0}
-                    logoPaddingStyle="square"
-                    removeQrCodeBehindLogo={true}
-                    qrStyle="squares"
-                  />
+                  <div className="flex items-center justify-between mb-3">
+                    <div className="flex items-center gap-2 text-sm qr-card-text">
+                      {canReorder && (
+                        <button
+                          type="button"
+                          draggable
+                          data-move-handle={qr.id}
+                          onDragStart={(e) => {
+                            e.dataTransfer.effectAllowed = 'move';
+                            e.dataTransfer.setData('text/plain', String(qr.id));
+                            const card = e.currentTarget.closest('.qr-item');
+                            if (card) e.dataTransfer.setDragImage(card, 20, 20);
+                            setDraggingId(qr.id);
+                          }}
+                          onDragEnd={() => setDraggingId(null)}
+                          onKeyDown={(e) => {
+                            const rtl = localeDirection(uiLocale) === 'rtl';
+                            const offset = {
+                              ArrowUp: -1,
+                              ArrowDown: 1,
+                              ArrowLeft: rtl ? 1 : -1,
+                              ArrowRight: rtl ? -1 : 1,
+                            }[e.key];
+                            if (offset === undefined) return;
+                            e.preventDefault();
+                            moveCardBy(qr.id, offset);
+                          }}
+                          className="cursor-grab select-none rounded"
+                          title={t('card.dragToReorder')}
+                          aria-label={t('card.moveLabel', { number: cardNumber })}
+                        >
+                          <span aria-hidden="true">⠿</span>
+                        </button>
+                      )}
+                      {cardNumber}
+                    </div>
+                    {editingId !== qr.id && (
+                      <div className="flex gap-2 text-xs">
+                        <button
+                          onClick={() => setEditingId(qr.id)}
+                          className="btn-secondary px-2 py-1 rounded"
+                          aria-label={t('card.editLabel', { number: cardNumber })}
+                        >
+                          {t('card.edit')}
+                        </button>
+                        <button
+                          onClick={() => removeCodes(new Set([qr.id]))}
+                          className="btn-secondary px-2 py-1 rounded"
+                          style={{ color: '#f87171' }}
+                          aria-label={t('card.deleteLabel', { number: cardNumber })}
+                        >
+                          {t('card.delete')}
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  {qr.label && (
+                    <div className="text-sm mb-2 text-white break-words">
+                      {qr.label}
+                    </div>
+                  )}
+                  {failedCheck && (
+                    <div className="text-xs mb-2 px-2 py-1 rounded" style={{ 
+                      backgroundColor: 'rgba(239, 68, 68, 0.2)', 
+                      color: '#f87171'
+                    }}>
+                      {t('card.scanFailed', { message: translateRefs(t, check.message ?? []) })}
+                    </div>
+                  )}
+                  {violation && (
+                    <div className="text-xs mb-2 px-2 py-1 rounded" style={{ 
+                      backgroundColor: policyBlocks ? 'rgba(239, 68, 68, 0.2)' : 'rgba(245, 158, 11, 0.2)', 
+                      color: policyBlocks ? '#f87171' : '#f59e0b'
+                    }}>
+                      {policyBlocks ? '🚫' : '⚠️'} {t('card.policy', { problem: t(violation.key, violation.params) })}
+                    </div>
+                  )}
+                  {duplicateOf.has(qr.id) && (
+                    <div className="text-xs mb-2 px-2 py-1 rounded" style={{ 
+                      backgroundColor: 'rgba(245, 158, 11, 0.2)', 
+                      color: '#f59e0b'
+                    }}>
+                      {t('card.duplicateOf', { number: formatId(duplicateOf.get(qr.id)!) })}
+                    </div>
+                  )}
+                  {qr.hasWarning && (
+                    <div className="text-xs mb-2 px-2 py-1 rounded" style={{ 
+                      backgroundColor: highRisk ? 'rgba(239, 68, 68, 0.2)' : 'rgba(245, 158, 11, 0.2)', 
+                      color: highRisk ? '#f87171' : '#f59e0b'
+                    }}>
+                      {highRisk ? '⛔' : '⚠️'} {translateRefs(t, qr.warningMessages ?? [])}
+                    </div>
+                  )}
+                  {qr.isValid ? (
+                    <motion.div
+                      className="flex justify-center items-center mb-3"
+                      role="img"
+                      aria-label={t('card.qrAlt', { number: cardNumber, content })}
+                      whileHover={reduceMotion ? undefined : { scale: 1.03 }}
+                      transition={{ type: "spring", stiffness: 500, damping: 25 }}
+                    >
+                      <QrCanvas value={qr.value} style={qrStyle} size={120} />
+                    </motion.div>
+                  ) : (
+                    <div className="w-[120px] h-[120px] mx-auto p-2 text-center bg-red-900/20 border border-red-500/50 flex items-center justify-center rounded mb-3">
+                      <span className="text-red-400 text-xs">{qr.errorMessage ? t(qr.errorMessage.key, qr.errorMessage.params) : invalidPayloadText(qr.payload.kind, uiLocale)}</span>
+                    </div>
+                  )}
+                  {showReferralCode && qr.referralCode && (
+                    <div className="text-lg font-bold font-mono tracking-wider text-white break-all mb-1">
+                      {qr.referralCode}
+                    </div>
+                  )}
+                  {editingId === qr.id ? (
+                    <CardEditForm
+                      initialUrl={qr.payload.kind === 'url' ? qr.payload.url : ''}
+                      initialLabel={qr.label}
+                      urlEditable={qr.payload.kind === 'url'}
+                      submitLabel={t('common.save')}
+                      onSubmit={(url, label) => editCard(qr.id, url, label)}
+                      onCancel={() => setEditingId(null)}
+                      t={t}
+                    />
+                  ) : (
+                    <div className="break-all qr-card-text qr-card-url">
+                      {content.length > 40 ? content.substring(0, 40) + '...' : content}
+                    </div>
+                  )}
+                  {budget && (
+                    <div className="text-xs mt-2" style={{ color: 'var(--secondary-text)' }} title={budget.message && t(budget.message.key, budget.message.params)}>
+                      {t('card.modules', { version: budget.version, size: budget.moduleCount })}
+                      {budget.risk === 'warn' && <span style={{ color: '#f59e0b' }}> · {t('card.tightLogo')}</span>}
+                      {budget.risk === 'block' && <span className="text-red-400"> · {t('card.unscannable')}</span>}
+                      {check?.status === 'pass' && <span className="text-green-400"> · {t('card.scans')}</span>}
+                    </div>
+                  )}
                 </motion.div>
-              ) : (
-                <div className="w-[120px] h-[120px] mx-auto bg-red-900/20 border border-red-500/50 flex items-center justify-center rounded mb-3">
-                  <span className="text-red-400 text-xs">Invalid URL</span>
-                </div>
-              )}
-              <div className="break-all qr-card-text qr-card-url">
-                {sanitizeUrlForDisplay(qr.url).length > 40 
-                  ? sanitizeUrlForDisplay(qr.url).substring(0, 40) + '...' 
-                  : sanitizeUrlForDisplay(qr.url)}
-              </div>
-            </motion.div>
-          ))}
+              );
+            }}
+          />
         </motion.div>
       </div>
     </motion.div>
   );
 
+  // Print sizing derived from the selected sheet layout
+  const printQrSize = qrSizePx(layout);
+  const printScale = cellScale(layout);
+  const hasGutters = layout.gutter.x > 0 || layout.gutter.y > 0;
+  // Crop marks replace the card borders, and a safe zone pushes card text inwards
+  const cardBorder = cutOptions.guides === 'borders' ? '1px solid #000' : 'none';
+  const printInset = cardInset(layout, cutOptions);
+  // QR data by card number, for filling print cells
+  const printLookup = new Map(printJob ? qrCodes.map(qr => [qr.id, qr]) : []);
+  // Card text may be in a script Inter doesn't cover, e.g. Japanese
+  const printFont = withLocaleFonts('var(--font-inter), Inter, sans-serif', cardLocale);
+
   return (
     <>
-      <ToastContainer toasts={toasts} onRemove={removeToast} />
+      <ToastContainer
+        toasts={toasts}
+        onRemove={removeToast}
+        closeLabel={t('toast.close')}
+        regionLabel={t('toast.region')}
+      />
+      <AnimatePresence>
+        {showImageExport && (
+          <ImageExportDialog
+            qrCodes={qrCodes}
+            style={qrStyle}
+            numberScheme={numberScheme}
+            card={{
+              template: activeTemplate.builtIn ? classicTemplate(cardTextMode, showReferralCode) : activeTemplate,
+              layout,
+              cutOptions,
+              cardLocale,
+            }}
+            onClose={() => setShowImageExport(false)}
+            onToast={showToast}
+            t={t}
+          />
+        )}
+      </AnimatePresence>
       <div className="min-h-screen" style={{ background: 'var(--background)' }}>
         {/* Screen View */}
         <div className="print:hidden">
           <AnimatePresence mode="wait">
-            {qrCodes.length > 0 ? (
+            {qrCodes.length > 0 && showTracker ? (
+              <motion.div key="tracker">
+                <TrackerView
+                  qrCodes={qrCodes}
+                  batchId={activeBatch?.id ?? null}
+                  numberScheme={numberScheme}
+                  onBack={() => setShowTracker(false)}
+                  onToast={showToast}
+                  locale={uiLocale}
+                  t={t}
+                />
+              </motion.div>
+            ) : qrCodes.length > 0 && showPreview ? (
+              <motion.div key="preview">
+                <PrintPreviewView
+                  qrCodes={qrCodes}
+                  layout={layout}
+                  style={qrStyle}
+                  cardTextMode={cardTextMode}
+                  showReferralCode={showReferralCode}
+                  cutOptions={cutOptions}
+                  numberScheme={numberScheme}
+                  duplex={duplex}
+                  template={activeTemplate}
+                  cardLocale={cardLocale}
+                  batchName={activeBatch?.name}
+                  isPrinting={!!printJob?.openDialog}
+                  onPrint={handlePrint}
+                  onBack={() => setShowPreview(false)}
+                  t={t}
+                />
+              </motion.div>
+            ) : qrCodes.length > 0 ? (
               <motion.div key="results">
                 {renderResultsView()}
               </motion.div>
@@ -827,20 +1876,26 @@ function QRCodeGeneratorContent() {
                 <footer className="mt-auto py-6 px-6 border-t border-gray-800">
                   <div className="max-w-4xl mx-auto flex flex-col sm:flex-row justify-between items-center gap-4 text-sm text-gray-400">
                     <div className="flex items-center gap-2">
-                      <span>Made with</span>
-                      <span className="text-red-400">♥</span>
-                      <span>by</span>
-                      <a 
-                        href="https://github.com/yayaq1" 
-                        target="_blank" 
-                        rel="noopener noreferrer"
-                        className="text-blue-400 hover:text-blue-300 transition-colors font-medium"
-                      >
-                        yayaq1
-                      </a>
+                      {translateParts(uiLocale, 'footer.madeBy', {
+                        heart: <span key="heart" className="text-red-400">♥</span>,
+                        author: (
+                          <a 
+                            key="author"
+                            href="https://github.com/yayaq1" 
+                            target="_blank" 
+                            rel="noopener noreferrer"
+                            className="text-blue-400 hover:text-blue-300 transition-colors font-medium"
+                          >
+                            yayaq1
+                          </a>
+                        ),
+                      }).map((part, index) =>
+                        typeof part === 'string' ? part.trim() && <span key={index}>{part.trim()}</span> : part
+                      )}
                     </div>
                     
                     <div className="flex items-center gap-4">
+                      <LocaleSwitcher locale={uiLocale} label={t('locale.label')} onChange={changeUiLocale} />
                       <a 
                         href="https://github.com/yayaq1/qr-code-generator" 
                         target="_blank" 
@@ -850,7 +1905,7 @@ function QRCodeGeneratorContent() {
                         <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
                           <path d="M12 0C5.37 0 0 5.37 0 12c0 5.31 3.435 9.795 8.205 11.385.6.105.825-.255.825-.57 0-.285-.015-1.23-.015-2.235-3.015.555-3.795-.735-4.035-1.41-.135-.345-.72-1.41-1.23-1.695-.42-.225-1.02-.78-.015-.795.945-.015 1.62.87 1.845 1.23 1.08 1.815 2.805 1.305 3.495.99.105-.78.42-1.305.765-1.605-2.67-.3-5.46-1.335-5.46-5.925 0-1.305.465-2.385 1.23-3.225-.12-.3-.54-1.53.12-3.18 0 0 1.005-.315 3.3 1.23.96-.27 1.98-.405 3-.405s2.04.135 3 .405c2.295-1.56 3.3-1.23 3.3-1.23.66 1.65.24 2.88.12 3.18.765.84 1.23 1.905 1.23 3.225 0 4.605-2.805 5.625-5.475 5.925.435.375.81 1.095.81 2.22 0 1.605-.015 2.895-.015 3.3 0 .315.225.69.825.57A12.02 12.02 0 0024 12c0-6.63-5.37-12-12-12z"/>
                         </svg>
-                        <span>Contribute</span>
+                        <span>{t('footer.contribute')}</span>
                       </a>
                       
                       <a 
@@ -859,12 +1914,53 @@ function QRCodeGeneratorContent() {
                         rel="noopener noreferrer"
                         className="text-gray-400 hover:text-purple-400 transition-colors"
                       >
-                        Built with Cursor
+                        {t('footer.builtWith')}
                       </a>
                     </div>
                   </div>
                 </footer>
               </motion.div>
+            ) : currentView === 'mapping' && csvImport ? (
+              <motion.div key="mapping">
+                <ColumnMappingView
+                  // Start the mapping over when a different sheet is picked
+                  key={csvImport.sources.map(source => source.sheetIndex).join()}
+                  name={csvImport.name}
+                  rows={csvImport.rows}
+                  sources={csvImport.sources}
+                  initialMapping={csvImport.mapping}
+                  remembered={csvImport.remembered}
+                  isProcessing={isProcessing}
+                  onConfirm={handleConfirmMapping}
+                  onSelectSheet={selectSheet}
+                  onBack={() => {
+                    setCsvImport(null);
+                    setCurrentView('upload');
+                  }}
+                  t={t}
+                />
+              </motion.div>
+            ) : currentView === 'library' ? (
+              <motion.div key="library">
+                <BatchLibraryView
+                  onOpen={openBatch}
+                  onBack={goBack}
+                  onToast={showToast}
+                  t={t}
+                />
+              </motion.div>
+            ) : currentView === 'builder' ? (
+              <motion.div key="builder">
+                <PayloadBuilderView
+                  style={qrStyle}
+                  maxCodes={MAX_QR_CODES}
+                  isProcessing={isProcessing}
+                  onGenerate={handleGeneratePayloads}
+                  onBack={goBack}
+                  locale={uiLocale}
+                  t={t}
+                />
+              </motion.div>
             ) : currentView === 'upload' ? (
               <motion.div key="upload">
                 {renderUploadView()}
@@ -879,82 +1975,27 @@ function QRCodeGeneratorContent() {
 
         {/* Print View */}
         <div ref={printRef} className="hidden print:block">
-          {qrCodes.length > 0 && (
-            <div className="print-container">
-              {Array.from({ length: Math.ceil(qrCodes.length / CELLS_PER_PAGE) }, (_, pageIndex) => {
-                // Create a lookup map for QR data by original ID
-                const qrLookup = new Map(qrCodes.map(qr => [qr.id, qr]));
-                
-                return (
-                  <div key={pageIndex} className="print-page">
-                    <div className="print-grid">
-                      {Array.from({ length: GRID_ROWS }, (_, rowIndex) =>
-                        Array.from({ length: GRID_COLS }, (_, colIndex) => {
-                          const cellNumber = numberForCell(
-                            pageIndex, 
-                            rowIndex, 
-                            colIndex, 
-                            GRID_ROWS, 
-                            GRID_COLS, 
-                            qrCodes.length
-                          );
-                          
-                          if (cellNumber === null) {
-                            // Empty cell - maintain grid structure
-                            return (
-                              <div key={`${rowIndex}-${colIndex}`} className="print-qr-item">
-                                <div className="qr-number"></div>
-                                <div className="qr-placeholder"></div>
-                                <div className="qr-url"></div>
-                              </div>
-                            );
-                          }
-                          
-                          // Find the QR data for this cell number
-                          const qrData = qrLookup.get(cellNumber);
-                          if (!qrData) {
-                            // Shouldn't happen, but handle gracefully
-                            return (
-                              <div key={`${rowIndex}-${colIndex}`} className="print-qr-item">
-                                <div className="qr-number">#{cellNumber}</div>
-                                <div className="qr-error">No data</div>
-                                <div className="qr-url"></div>
-                              </div>
-                            );
-                          }
-                          
-                          return (
-                            <div key={`${rowIndex}-${colIndex}`} className="print-qr-item">
-                              <div className="qr-number">#{cellNumber}</div>
-                              <img src="/LOCKUP_HORIZONTAL_2D_LIGHT.svg" alt="Cursor" className="qr-logo" />
-                              {qrData.isValid ? (
-                              <QRCode 
-                                value={qrData.url} 
-                                size={180}
-                                bgColor="white"
-                                fgColor="black"
-                                logoImage="/cursor-logo-bw.png"
-                                logoWidth={50}
-                                logoOpacity={1}
-                                logoPadding={0}
-                                logoPaddingStyle="square"
-                                removeQrCodeBehindLogo={true}
-                                qrStyle="squares"
-                              />
-                              ) : (
-                                <div className="qr-error">
-                                  Invalid URL
-                                </div>
-                              )}
-                              <div className="qr-url">{sanitizeUrlForDisplay(qrData.url)}</div>
-                            </div>
-                          );
-                        })
-                      ).flat()}
-                    </div>
-                  </div>
-                );
-              })}
+          {qrCodes.length > 0 && printJob && (
+            <div className="print-container" lang={cardLocale}>
+              {printSequence.slice(0, printJob.pages).map((page, pageIndex) => (
+                <PrintedPage
+                  key={pageIndex}
+                  page={page}
+                  qrCodes={qrCodes}
+                  qrLookup={printLookup}
+                  lastCardNumber={lastCardNumber}
+                  layout={layout}
+                  style={qrStyle}
+                  cardTextMode={cardTextMode}
+                  showReferralCode={showReferralCode}
+                  cutOptions={cutOptions}
+                  numberScheme={numberScheme}
+                  duplex={duplex}
+                  template={activeTemplate}
+                  cardLocale={cardLocale}
+                  batchName={activeBatch?.name}
+                />
+              ))}
             </div>
           )}
         </div>
@@ -967,7 +2008,7 @@ function QRCodeGeneratorContent() {
             }
 
             @page {
-              size: A4;
+              size: ${layout.paper.width}mm ${layout.paper.height}mm;
               margin: 0mm;
             }
 
@@ -979,114 +2020,294 @@ function QRCodeGeneratorContent() {
 
             .print-page {
               page-break-after: always;
-              width: 100%;
-              height: 100vh;
-              display: flex;
-              flex-direction: column;
-              align-items: center;
-              justify-content: center;
-              padding: 0;
-              background: white;
-              box-sizing: border-box;
-              position: relative;
             }
 
             .print-page:last-child {
               page-break-after: avoid;
             }
+          }
 
-            .print-grid {
-              display: grid;
-              grid-template-columns: repeat(3, 1fr);
-              grid-template-rows: repeat(3, 1fr);
-              width: 100%;
-              max-width: 210mm;
-              height: 100%;
-              max-height: 297mm;
-              border: 1px solid #000;
-              box-sizing: border-box;
-            }
+          /* Sheet styles apply on screen too, so the print preview matches the paper */
+          .print-page {
+            width: ${layout.paper.width}mm;
+            height: ${layout.paper.height}mm;
+            display: flex;
+            flex-direction: column;
+            align-items: center;
+            justify-content: center;
+            padding: ${layout.margins.top}mm ${layout.margins.right}mm ${layout.margins.bottom}mm ${layout.margins.left}mm;
+            background: white;
+            box-sizing: border-box;
+            position: relative;
+            overflow: hidden;
+          }
 
-            .print-qr-item {
-              display: flex;
-              flex-direction: column;
-              align-items: center;
-              justify-content: center;
-              padding: 8px;
-              text-align: center;
-              background: white;
-              border-right: 1px solid #000;
-              border-bottom: 1px solid #000;
-              box-sizing: border-box;
-              position: relative;
-            }
+          .print-grid {
+            display: grid;
+            grid-template-columns: repeat(${layout.cols}, 1fr);
+            grid-template-rows: repeat(${layout.rows}, 1fr);
+            column-gap: ${layout.gutter.x}mm;
+            row-gap: ${layout.gutter.y}mm;
+            width: 100%;
+            height: 100%;
+            border: ${hasGutters ? 'none' : cardBorder};
+            box-sizing: border-box;
+            position: relative;
+          }
 
-            .print-qr-item:nth-child(3n) {
-              border-right: 1px solid #000;
-            }
+          .print-qr-item {
+            display: flex;
+            flex-direction: column;
+            align-items: center;
+            justify-content: center;
+            padding: ${printInset}mm;
+            text-align: center;
+            background: white;
+            border-right: ${cardBorder};
+            border-bottom: ${cardBorder};
+            ${hasGutters ? `border-top: ${cardBorder}; border-left: ${cardBorder};` : ''}
+            box-sizing: border-box;
+            position: relative;
+            overflow: hidden;
+          }
 
-            .print-qr-item:nth-child(n+7) {
-              border-bottom: 1px solid #000;
-            }
+          .print-qr-item:nth-child(${layout.cols}n) {
+            border-right: ${cardBorder};
+          }
 
-            .qr-number {
-              position: absolute;
-              top: 8px;
-              left: 8px;
-              font-weight: normal;
-              font-size: 14px;
-              color: var(--qr-card-text-color);
-              font-family: var(--font-inter), Inter, sans-serif;
-              z-index: 1;
-            }
+          .print-qr-item:nth-child(n+${cellsPerPage(layout) - layout.cols + 1}) {
+            border-bottom: ${cardBorder};
+          }
 
-            .qr-logo {
-              position: absolute;
-              top: 8px;
-              right: 8px;
-              width: 75px;
-              height: auto;
-              opacity: 0.9;
-            }
+          .print-bleed {
+            position: absolute;
+            background: white;
+          }
 
-            .qr-code {
-              margin: 4px auto;
-              display: block;
-            }
+          .print-crop-marks {
+            position: absolute;
+            inset: 0;
+            width: 100%;
+            height: 100%;
+            stroke: #000;
+            stroke-width: 0.25;
+            pointer-events: none;
+          }
 
-            .qr-url {
-              position: absolute;
-              bottom: 8px;
-              left: 0;
-              right: 0;
-              font-size: 9px;
-              color: var(--qr-card-text-color);
-              font-family: var(--font-inter), Inter, sans-serif;
-              line-height: 1.2;
-              text-align: center;
-              width: 100%;
-              padding: 0 8px;
-            }
+          .print-back-card {
+            position: absolute;
+            display: flex;
+            flex-direction: column;
+            align-items: center;
+            justify-content: center;
+            gap: ${8 * printScale}px;
+            box-sizing: border-box;
+            overflow: hidden;
+            text-align: center;
+            color: #000;
+            font-family: ${printFont};
+            line-height: 1.2;
+          }
 
-            .qr-error {
-              width: 180px;
-              height: 180px;
-              background: #fee;
-              border: 1px solid #fcc;
-              display: flex;
-              align-items: center;
-              justify-content: center;
-              font-size: 10px;
-              color: #c33;
-              margin: 4px 0;
-            }
+          .back-heading {
+            font-size: ${Math.max(8, 16 * printScale)}px;
+            font-weight: 700;
+          }
 
-            .qr-placeholder {
-              width: 180px;
-              height: 180px;
-              background: transparent;
-              margin: 4px 0;
-            }
+          .back-label {
+            font-size: ${Math.max(9, 20 * printScale)}px;
+            font-weight: 700;
+            overflow-wrap: anywhere;
+          }
+
+          .back-message {
+            font-size: ${Math.max(7, 11 * printScale)}px;
+            white-space: pre-line;
+            overflow-wrap: anywhere;
+          }
+
+          .back-number {
+            font-size: ${Math.max(7, 10 * printScale)}px;
+          }
+
+          .print-alignment-test {
+            position: absolute;
+            inset: 0;
+            width: 100%;
+            height: 100%;
+            stroke: #000;
+            stroke-width: 0.2;
+          }
+
+          .print-alignment-test text {
+            stroke: none;
+            font-size: 2.6px;
+            font-family: ${printFont};
+          }
+
+          .qr-number {
+            position: absolute;
+            top: ${printInset}mm;
+            left: ${printInset}mm;
+            font-weight: normal;
+            font-size: ${14 * printScale}px;
+            color: var(--qr-card-text-color);
+            font-family: ${printFont};
+            z-index: 1;
+          }
+
+          .qr-logo {
+            position: absolute;
+            top: ${printInset}mm;
+            right: ${printInset}mm;
+            width: ${75 * printScale}px;
+            height: auto;
+            opacity: 0.9;
+          }
+
+          .template-header {
+            position: absolute;
+            object-fit: contain;
+          }
+
+          .template-qr {
+            position: absolute;
+            transform: translate(-50%, -50%);
+            line-height: 0;
+          }
+
+          .template-text {
+            position: absolute;
+            color: var(--qr-card-text-color);
+            line-height: 1.2;
+            white-space: pre-line;
+            overflow-wrap: anywhere;
+          }
+
+          .qr-code {
+            margin: 4px auto;
+            display: block;
+          }
+
+          .qr-caption {
+            position: absolute;
+            bottom: ${printInset}mm;
+            left: 0;
+            right: 0;
+            width: 100%;
+            padding: 0 ${printInset}mm;
+            color: var(--qr-card-text-color);
+            font-family: ${printFont};
+            line-height: 1.2;
+            text-align: center;
+          }
+
+          .qr-referral-code {
+            font-size: ${Math.max(10, 18 * printScale)}px;
+            font-weight: 700;
+            font-family: ui-monospace, 'Courier New', monospace;
+            letter-spacing: 0.08em;
+            word-break: break-all;
+          }
+
+          .qr-referral-code + .qr-label,
+          .qr-referral-code + .qr-url {
+            margin-top: ${2 * printScale}px;
+          }
+
+          .qr-label {
+            font-size: ${Math.max(7, 11 * printScale)}px;
+            font-weight: 600;
+            overflow-wrap: anywhere;
+          }
+
+          .qr-url {
+            font-size: ${Math.max(6, 9 * printScale)}px;
+            word-break: break-all;
+          }
+
+          .qr-label + .qr-url {
+            margin-top: ${2 * printScale}px;
+          }
+
+          .qr-error {
+            width: ${printQrSize}px;
+            height: ${printQrSize}px;
+            background: #fee;
+            border: 1px solid #fcc;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            font-size: 10px;
+            color: #c33;
+            margin: 4px 0;
+          }
+
+          .qr-placeholder {
+            width: ${printQrSize}px;
+            height: ${printQrSize}px;
+            background: transparent;
+            margin: 4px 0;
+          }
+
+          .print-page.cutting-guide {
+            padding: 15mm;
+            justify-content: flex-start;
+            align-items: stretch;
+            gap: 6mm;
+            color: #000;
+            font-family: ${printFont};
+          }
+
+          .cutting-guide-title {
+            font-size: 24px;
+            font-weight: 700;
+          }
+
+          .cutting-guide-summary {
+            font-size: 12px;
+          }
+
+          .cutting-guide-grid {
+            flex: 1;
+            display: grid;
+            grid-template-columns: repeat(${layout.cols}, 1fr);
+            grid-template-rows: repeat(${layout.rows}, 1fr);
+            border-top: 1px solid #000;
+            border-left: 1px solid #000;
+          }
+
+          .cutting-guide-stack {
+            display: flex;
+            flex-direction: column;
+            align-items: center;
+            justify-content: center;
+            border-right: 1px solid #000;
+            border-bottom: 1px solid #000;
+            font-size: ${Math.max(7, 12 * printScale)}px;
+            text-align: center;
+          }
+
+          .cutting-guide-stack-name {
+            font-weight: 700;
+          }
+
+          .cutting-guide-steps {
+            list-style: decimal;
+            padding-left: 6mm;
+            font-size: 12px;
+            line-height: 1.5;
+          }
+
+          /* Right-to-left card text runs the right way without mirroring the
+             sheet, whose cells have to line up with the paper */
+          .qr-caption,
+          .template-text,
+          .print-back-card,
+          .cutting-guide-title,
+          .cutting-guide-summary,
+          .cutting-guide-steps li {
+            unicode-bidi: plaintext;
           }
         `}</style>
       </div>
@@ -1096,8 +2317,11 @@ function QRCodeGeneratorContent() {
 
 export default function QRCodeGenerator() {
   return (
-    <ErrorBoundary>
-      <QRCodeGeneratorContent />
-    </ErrorBoundary>
+    // Transform animations are skipped when the system asks for reduced motion
+    <MotionConfig reducedMotion="user">
+      <ErrorBoundary>
+        <QRCodeGeneratorContent />
+      </ErrorBoundary>
+    </MotionConfig>
   );
 }
@@ -0,0 +1,35 @@
+'use client';
+
+import type { SheetLayout } from '@/lib/layouts';
+import { DuplexOptions, alignmentTest } from '@/lib/duplex';
+import { Locale, translate } from '@/lib/i18n';
+
+interface AlignmentTestSheetProps {
+  layout: SheetLayout;
+  duplex: DuplexOptions;
+  side: 'front' | 'back';
+  cardLocale: Locale;
+}
+
+// One side of the duplex test sheet: crosshairs where each card's centre
+// falls, with a millimetre scale on the back to read the printer's shift
+export function AlignmentTestSheet({ layout, duplex, side, cardLocale }: AlignmentTestSheetProps) {
+  const { lines, labels } = alignmentTest(layout, duplex, side, cardLocale);
+
+  return (
+    <div className="print-page">
+      <svg
+        className="print-alignment-test"
+        viewBox={`0 0 ${layout.paper.width} ${layout.paper.height}`}
+        aria-label={translate(cardLocale, side === 'front' ? 'preview.alignmentFront' : 'preview.alignmentBack')}
+      >
+        {lines.map((line, index) => (
+          <line key={index} {...line} />
+        ))}
+        {labels.map(({ x, y, text }, index) => (
+          <text key={index} x={x} y={y} textAnchor="middle">{text}</text>
+        ))}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import type { QRCodeData } from '@/lib/types';
+import { SheetLayout, cardForCell, cellSize } from '@/lib/layouts';
+import { CutOptions, cardInset } from '@/lib/cutting';
+import type { NumberScheme } from '@/lib/numbering';
+import { DuplexOptions, backCells, backContent } from '@/lib/duplex';
+import type { Locale } from '@/lib/i18n';
+
+interface BackSheetProps {
+  // The front page this one is printed behind
+  pageIndex: number;
+  layout: SheetLayout;
+  qrLookup: Map<number, QRCodeData>;
+  lastCardNumber: number;
+  cutOptions: CutOptions;
+  numberScheme: NumberScheme;
+  duplex: DuplexOptions;
+  cardLocale: Locale;
+}
+
+// The back of one front page, mirrored so each card's back sits behind it
+export function BackSheet({
+  pageIndex,
+  layout,
+  qrLookup,
+  lastCardNumber,
+  cutOptions,
+  numberScheme,
+  duplex,
+  cardLocale,
+}: BackSheetProps) {
+  const cell = cellSize(layout);
+  const inset = cardInset(layout, cutOptions);
+
+  return (
+    <div className="print-page print-back">
+      {backCells(layout, duplex).map(({ row, col, x, y }) => {
+        const cellNumber = cardForCell(numberScheme.order, pageIndex, row, col, layout.rows, layout.cols, lastCardNumber);
+        const qrData = cellNumber === null ? undefined : qrLookup.get(cellNumber);
+        // Cells without a card on the front stay blank
+        if (!qrData) return null;
+
+        const content = backContent(qrData, duplex, numberScheme, cardLocale);
+        return (
+          <div
+            key={`${row}-${col}`}
+            className="print-back-card"
+            style={{ left: `${x}mm`, top: `${y}mm`, width: `${cell.width}mm`, height: `${cell.height}mm`, padding: `${inset}mm` }}
+          >
+            {content.heading && <div className="back-heading">{content.heading}</div>}
+            {content.label && <div className="back-label">{content.label}</div>}
+            {content.message && <div className="back-message">{content.message}</div>}
+            {content.number && <div className="back-number">{content.number}</div>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
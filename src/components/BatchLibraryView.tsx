@@ -0,0 +1,219 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import type { ToastType } from '@/components/Toast';
+import {
+  SavedBatch,
+  MAX_BATCH_NAME_LENGTH,
+  batchToJson,
+  deleteBatch,
+  duplicateBatch,
+  listBatches,
+  parseBatchJson,
+  saveBatch,
+} from '@/lib/batches';
+import { downloadBlob } from '@/lib/download';
+import { layoutName } from '@/lib/layouts';
+import { MessageError, Translate } from '@/lib/i18n';
+
+interface BatchLibraryViewProps {
+  onOpen: (batch: SavedBatch) => void;
+  onBack: () => void;
+  onToast: (message: string, type: ToastType) => void;
+  t: Translate;
+}
+
+const MAX_IMPORT_SIZE = 5 * 1024 * 1024; // 5MB, room for an uploaded logo
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function exportFileName(batch: SavedBatch): string {
+  const slug = batch.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
+  return `qr-batch-${slug || batch.id}.json`;
+}
+
+export function BatchLibraryView({ onOpen, onBack, onToast, t }: BatchLibraryViewProps) {
+  const [batches, setBatches] = useState<SavedBatch[] | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setBatches(await listBatches());
+    } catch (error) {
+      console.error('Batch list error:', error);
+      onToast(t('library.listFailed'), 'error');
+      setBatches([]);
+    }
+  }, [onToast, t]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Run a change against the library, then reload the list
+  const update = async (work: () => Promise<void>, failure: string) => {
+    try {
+      await work();
+    } catch (error) {
+      console.error('Batch save error:', error);
+      onToast(failure, 'error');
+    }
+    await refresh();
+  };
+
+  const commitRename = (batch: SavedBatch) => {
+    const name = renaming?.name.trim().slice(0, MAX_BATCH_NAME_LENGTH);
+    setRenaming(null);
+    if (!name || name === batch.name) return;
+    update(() => saveBatch({ ...batch, name, updatedAt: new Date().toISOString() }), t('library.renameFailed'));
+  };
+
+  const handleDelete = (batch: SavedBatch) => {
+    if (!window.confirm(t('library.confirmDelete', { name: batch.name }))) return;
+    update(() => deleteBatch(batch.id), t('library.deleteFailed'));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset input to allow importing the same file again
+    e.target.value = '';
+    if (!file) return;
+
+    if (file.size > MAX_IMPORT_SIZE) {
+      onToast(t('library.tooLarge'), 'error');
+      return;
+    }
+
+    try {
+      const batch = parseBatchJson(await file.text(), t('batch.imported'));
+      await saveBatch(batch);
+      onToast(t('library.imported', { name: batch.name, count: batch.entries.length }), 'success');
+    } catch (error) {
+      console.error('Batch import error:', error);
+      const reason = error instanceof MessageError ? t(error.problem.key, error.problem.params) : t('library.unknownError');
+      onToast(t('library.importFailed', { name: file.name, reason }), 'error');
+    }
+    await refresh();
+  };
+
+  return (
+    <motion.div
+      className="min-h-screen"
+      style={{ background: 'var(--background)' }}
+      initial={{ opacity: 0, x: 50 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: -50 }}
+      transition={{ duration: 0.3 }}
+    >
+      <div className="container mx-auto px-6 py-8 max-w-4xl">
+        <motion.button
+          onClick={onBack}
+          className="mb-6 text-sm"
+          style={{ color: 'var(--secondary-text)' }}
+          whileHover={{ x: -3, color: 'var(--accent-blue)' }}
+          transition={{ type: "spring", stiffness: 500, damping: 25 }}
+        >
+          {t('common.back')}
+        </motion.button>
+
+        <div className="flex flex-wrap justify-between items-center gap-3 mb-2">
+          <h2 className="text-2xl font-semibold text-white">{t('options.library')}</h2>
+          <motion.button
+            onClick={() => importInputRef.current?.click()}
+            className="btn-secondary px-6 py-2 rounded-lg text-sm font-medium"
+            whileHover={{ scale: 1.03, y: -1 }}
+            whileTap={{ scale: 0.97 }}
+            transition={{ type: "spring", stiffness: 500, damping: 25 }}
+          >
+            {t('library.importJson')}
+          </motion.button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+        <p className="text-sm mb-6" style={{ color: 'var(--secondary-text)' }}>
+          {t('library.intro')}
+        </p>
+
+        {!batches ? (
+          <p className="text-sm" style={{ color: 'var(--secondary-text)' }}>{t('library.loading')}</p>
+        ) : batches.length === 0 ? (
+          <p className="text-sm" style={{ color: 'var(--secondary-text)' }}>
+            {t('library.empty')}
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {batches.map(batch => (
+              <li
+                key={batch.id}
+                className="flex flex-wrap items-center justify-between gap-3 p-4 rounded-lg"
+                style={{ background: 'var(--card-background)', border: '1px solid var(--border-color)' }}
+              >
+                <div className="min-w-0 flex-1">
+                  {renaming?.id === batch.id ? (
+                    <input
+                      type="text"
+                      value={renaming.name}
+                      maxLength={MAX_BATCH_NAME_LENGTH}
+                      autoFocus
+                      aria-label={t('library.nameLabel')}
+                      onChange={(e) => setRenaming({ id: batch.id, name: e.target.value })}
+                      onBlur={() => commitRename(batch)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename(batch);
+                        if (e.key === 'Escape') setRenaming(null);
+                      }}
+                      className="w-full px-3 py-1 rounded-lg border text-sm"
+                    />
+                  ) : (
+                    <p className="text-white font-medium truncate">{batch.name}</p>
+                  )}
+                  <p className="text-xs mt-1" style={{ color: 'var(--secondary-text)' }}>
+                    {t('library.codes', { count: batch.entries.length })} · {layoutName(batch.layout, t)} ·{' '}
+                    {t('library.generated', { date: formatDate(batch.createdAt) })}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2 text-xs">
+                  <button onClick={() => onOpen(batch)} className="btn-primary px-3 py-1 rounded">
+                    {t('library.open')}
+                  </button>
+                  <button onClick={() => setRenaming({ id: batch.id, name: batch.name })} className="btn-secondary px-3 py-1 rounded">
+                    {t('library.rename')}
+                  </button>
+                  <button
+                    onClick={() =>
+                      update(
+                        () => saveBatch(duplicateBatch(batch, t('library.copyName', { name: batch.name }))),
+                        t('library.duplicateFailed')
+                      )
+                    }
+                    className="btn-secondary px-3 py-1 rounded"
+                  >
+                    {t('library.duplicate')}
+                  </button>
+                  <button
+                    onClick={() => downloadBlob(new Blob([batchToJson(batch)], { type: 'application/json' }), exportFileName(batch))}
+                    className="btn-secondary px-3 py-1 rounded"
+                  >
+                    {t('library.export')}
+                  </button>
+                  <button onClick={() => handleDelete(batch)} className="btn-secondary px-3 py-1 rounded" style={{ color: '#f87171' }}>
+                    {t('library.delete')}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </motion.div>
+  );
+}
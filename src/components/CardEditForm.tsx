@@ -0,0 +1,75 @@
+'use client';
+
+import { useState } from 'react';
+import type { Translate } from '@/lib/i18n';
+
+interface CardEditFormProps {
+  initialUrl?: string;
+  initialLabel?: string;
+  // Only link cards can have their content changed inline
+  urlEditable: boolean;
+  submitLabel: string;
+  onSubmit: (url: string, label: string) => void;
+  onCancel: () => void;
+  t: Translate;
+}
+
+export function CardEditForm({
+  initialUrl = '',
+  initialLabel = '',
+  urlEditable,
+  submitLabel,
+  onSubmit,
+  onCancel,
+  t,
+}: CardEditFormProps) {
+  const [url, setUrl] = useState<string>(initialUrl);
+  const [label, setLabel] = useState<string>(initialLabel);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (urlEditable && !url.trim()) return;
+    onSubmit(url.trim(), label.trim());
+  };
+
+  return (
+    <form
+      onSubmit={submit}
+      onKeyDown={(e) => e.key === 'Escape' && onCancel()}
+      className="flex flex-col gap-2 text-left text-xs"
+    >
+      {urlEditable && (
+        <label className="flex flex-col gap-1 text-white">
+          {t('cardEdit.link')}
+          <input
+            type="text"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://cursor.com/referral?code=..."
+            className="px-2 py-1 rounded border text-xs"
+            autoFocus
+          />
+        </label>
+      )}
+      <label className="flex flex-col gap-1 text-white">
+        {t('cardEdit.label')}
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder={t('cardEdit.optional')}
+          className="px-2 py-1 rounded border text-xs"
+          autoFocus={!urlEditable}
+        />
+      </label>
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="btn-secondary px-3 py-1 rounded">
+          {t('common.cancel')}
+        </button>
+        <button type="submit" disabled={urlEditable && !url.trim()} className="btn-primary px-3 py-1 rounded">
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
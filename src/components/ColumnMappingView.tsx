@@ -0,0 +1,284 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  ColumnMapping,
+  applyMapping,
+  columnCount,
+  columnName,
+} from '@/lib/csv-mapping';
+import { ImportSource, sourceName, sourceRows } from '@/lib/import-files';
+import { sanitizeUrlForDisplay } from '@/lib/url-validation';
+import type { MessageRef, Translate } from '@/lib/i18n';
+
+interface ColumnMappingViewProps {
+  name: MessageRef;
+  rows: string[][];
+  // The files merged into `rows`, with the sheet picked from each workbook
+  sources: ImportSource[];
+  initialMapping: ColumnMapping;
+  remembered: boolean;
+  isProcessing: boolean;
+  onConfirm: (mapping: ColumnMapping) => void;
+  onSelectSheet: (sourceIndex: number, sheetIndex: number) => void;
+  onBack: () => void;
+  t: Translate;
+}
+
+const PREVIEW_ROWS = 5;
+
+export function ColumnMappingView({
+  name,
+  rows,
+  sources,
+  initialMapping,
+  remembered,
+  isProcessing,
+  onConfirm,
+  onSelectSheet,
+  onBack,
+  t,
+}: ColumnMappingViewProps) {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+
+  const columns = columnCount(rows);
+  const columnIndexes = Array.from({ length: columns }, (_, index) => index);
+  const headerRow = mapping.hasHeader ? rows[0] : null;
+  const bodyRows = (mapping.hasHeader ? rows.slice(1) : rows).slice(0, PREVIEW_ROWS);
+  const mapped = applyMapping(rows, mapping);
+
+  const update = (changes: Partial<ColumnMapping>) => setMapping(prev => ({ ...prev, ...changes }));
+
+  const toggleLabelColumn = (index: number, checked: boolean) =>
+    setMapping(prev => ({
+      ...prev,
+      labelColumns: checked
+        ? [...prev.labelColumns, index].sort((a, b) => a - b)
+        : prev.labelColumns.filter(column => column !== index),
+    }));
+
+  const cellStyle = (index: number) => {
+    if (index === mapping.valueColumn) return { background: 'rgba(37, 99, 235, 0.2)' };
+    if (mapping.labelColumns.includes(index)) return { background: 'rgba(34, 197, 94, 0.15)' };
+    if (index === mapping.numberColumn) return { background: 'rgba(245, 158, 11, 0.15)' };
+    return undefined;
+  };
+
+  return (
+    <motion.div
+      className="min-h-screen"
+      style={{ background: 'var(--background)' }}
+      initial={{ opacity: 0, x: 50 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: -50 }}
+      transition={{ duration: 0.3 }}
+    >
+      <div className="container mx-auto px-6 py-8 max-w-4xl">
+        <motion.button
+          onClick={onBack}
+          className="mb-6 text-sm"
+          style={{ color: 'var(--secondary-text)' }}
+          whileHover={{ x: -3, color: 'var(--accent-blue)' }}
+          transition={{ type: "spring", stiffness: 500, damping: 25 }}
+        >
+          {t('common.back')}
+        </motion.button>
+
+        <h2 className="text-2xl font-semibold text-white mb-2">{t('mapping.title')}</h2>
+        <p className="text-sm mb-6" style={{ color: 'var(--secondary-text)' }}>
+          {t(name.key, name.params)} · {t('mapping.rows', { count: rows.length })} · {t('mapping.columns', { count: columns })}
+        </p>
+
+        {remembered && (
+          <p
+            className="text-xs mb-6 px-4 py-2 rounded-lg"
+            style={{ color: 'var(--secondary-text)', backgroundColor: 'rgba(37, 99, 235, 0.1)', border: '1px solid rgba(37, 99, 235, 0.2)' }}
+          >
+            {t('mapping.remembered')}
+          </p>
+        )}
+
+        {(sources.length > 1 || sources.some(source => source.sheets.length > 1)) && (
+          <ul className="mb-6 space-y-2 text-sm">
+            {sources.map((source, sourceIndex) => (
+              <li key={sourceIndex} className="flex flex-wrap items-center gap-3 text-white">
+                <span>{t(sourceName(source).key, sourceName(source).params)}</span>
+                {source.sheets.length > 1 && (
+                  <label className="flex items-center gap-2" style={{ color: 'var(--secondary-text)' }}>
+                    {t('mapping.sheet')}
+                    <select
+                      value={source.sheetIndex}
+                      onChange={(e) => onSelectSheet(sourceIndex, Number(e.target.value))}
+                      className="px-3 py-1 rounded-lg border text-sm"
+                    >
+                      {source.sheets.map((sheet, sheetIndex) => (
+                        <option key={sheetIndex} value={sheetIndex}>
+                          {t('mapping.sheetOption', { name: sheet.name, rows: t('mapping.rows', { count: sheet.rows.length }) })}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+                {source.sheets.length === 1 && (
+                  <span style={{ color: 'var(--secondary-text)' }}>
+                    {t('mapping.rows', { count: sourceRows(source).length })}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-2 mb-6">
+          <label className="flex items-center gap-2 text-sm text-white sm:col-span-2">
+            <input
+              type="checkbox"
+              checked={mapping.hasHeader}
+              onChange={(e) => update({ hasHeader: e.target.checked })}
+            />
+            {t('mapping.hasHeader')}
+          </label>
+
+          <label className="flex flex-col gap-1 text-sm text-white">
+            {t('mapping.linkColumn')}
+            <select
+              value={mapping.valueColumn}
+              onChange={(e) => {
+                const valueColumn = Number(e.target.value);
+                update({
+                  valueColumn,
+                  labelColumns: mapping.labelColumns.filter(index => index !== valueColumn),
+                  numberColumn: mapping.numberColumn === valueColumn ? null : mapping.numberColumn,
+                });
+              }}
+              className="px-3 py-2 rounded-lg border text-sm"
+            >
+              {columnIndexes.map(index => (
+                <option key={index} value={index}>
+                  {columnName(rows, mapping, index, t)}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <fieldset className="flex flex-col gap-1 text-sm text-white">
+            <legend className="mb-1">{t('mapping.labelColumns')}</legend>
+            <div className="flex flex-col gap-1 max-h-32 overflow-y-auto">
+              {columnIndexes.map(index => (
+                <label key={index} className="flex items-center gap-2 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={mapping.labelColumns.includes(index)}
+                    disabled={index === mapping.valueColumn}
+                    onChange={(e) => toggleLabelColumn(index, e.target.checked)}
+                  />
+                  {columnName(rows, mapping, index, t)}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <label className="flex flex-col gap-1 text-sm text-white">
+            {t('mapping.numberColumn')}
+            <select
+              value={mapping.numberColumn ?? ''}
+              onChange={(e) => update({ numberColumn: e.target.value === '' ? null : Number(e.target.value) })}
+              className="px-3 py-2 rounded-lg border text-sm"
+            >
+              <option value="">{t('mapping.noNumberColumn')}</option>
+              {columnIndexes.map(index => (
+                <option key={index} value={index} disabled={index === mapping.valueColumn}>
+                  {columnName(rows, mapping, index, t)}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <fieldset className="flex flex-col gap-2 text-sm text-white sm:col-span-2">
+            <legend className="mb-1">{t('mapping.valueKind')}</legend>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="value-kind"
+                checked={mapping.valueKind === 'url'}
+                onChange={() => update({ valueKind: 'url' })}
+              />
+              {t('mapping.fullUrls')}
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="value-kind"
+                checked={mapping.valueKind === 'code'}
+                onChange={() => update({ valueKind: 'code' })}
+              />
+              {t('mapping.codes')}
+            </label>
+            {mapping.valueKind === 'code' && (
+              <input
+                type="text"
+                value={mapping.baseUrl}
+                onChange={(e) => update({ baseUrl: e.target.value })}
+                aria-label={t('mapping.baseUrl')}
+                className="px-3 py-2 rounded-lg border text-sm"
+              />
+            )}
+          </fieldset>
+        </div>
+
+        <div className="overflow-x-auto rounded-lg mb-6" style={{ border: '1px solid var(--border-color)' }}>
+          <table className="w-full text-xs text-left">
+            <thead style={{ background: 'var(--card-background)' }}>
+              <tr>
+                {columnIndexes.map(index => (
+                  <th key={index} className="px-3 py-2 font-medium text-white whitespace-nowrap" style={cellStyle(index)}>
+                    {headerRow?.[index] || t('mapping.column', { name: index + 1 })}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {bodyRows.map((row, rowIndex) => (
+                <tr key={rowIndex} style={{ borderTop: '1px solid var(--border-color)' }}>
+                  {columnIndexes.map(index => (
+                    <td
+                      key={index}
+                      className="px-3 py-2 max-w-[16rem] truncate"
+                      style={{ color: 'var(--secondary-text)', ...cellStyle(index) }}
+                    >
+                      {row[index] ?? ''}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mb-6 space-y-1 text-xs" style={{ color: 'var(--secondary-text)' }}>
+          <p className="text-sm text-white mb-2">{t('mapping.resultPreview')}</p>
+          {mapped.slice(0, 3).map((row, index) => (
+            <p key={index} className="break-all">
+              {row.cardNumber && <span>#{row.cardNumber} · </span>}
+              <span className="qr-card-text">{sanitizeUrlForDisplay(row.url)}</span>
+              {row.label && <span> · {row.label}</span>}
+            </p>
+          ))}
+          {mapped.length === 0 && <p>{t('mapping.noRows')}</p>}
+        </div>
+
+        <motion.button
+          onClick={() => onConfirm(mapping)}
+          disabled={mapped.length === 0 || isProcessing}
+          className={`px-8 py-3 rounded-lg font-medium ${mapped.length > 0 ? 'btn-primary' : 'btn-secondary opacity-50 cursor-not-allowed'}`}
+          whileHover={mapped.length > 0 && !isProcessing ? { scale: 1.03, y: -1 } : {}}
+          whileTap={mapped.length > 0 && !isProcessing ? { scale: 0.97 } : {}}
+          transition={{ type: "spring", stiffness: 500, damping: 25 }}
+        >
+          {isProcessing ? t('manual.processing') : t('mapping.generate', { count: mapped.length })}
+        </motion.button>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { SheetLayout, PrintOrder, layoutName, pageCount } from '@/lib/layouts';
+import { CutOptions, stackGuide, stackRange, stackingSteps } from '@/lib/cutting';
+import { Locale, translate, translator } from '@/lib/i18n';
+
+interface CuttingGuideSheetProps {
+  layout: SheetLayout;
+  lastCardNumber: number;
+  cardCount: number;
+  batchName?: string;
+  cutOptions: CutOptions;
+  order: PrintOrder;
+  formatNumber: (id: number) => string;
+  cardLocale: Locale;
+}
+
+// Cover page printed ahead of the sheets: which numbers land on each stack
+// after cutting, laid out like the sheet itself, and the order to stack them in
+export function CuttingGuideSheet({
+  layout,
+  lastCardNumber,
+  cardCount,
+  batchName,
+  cutOptions,
+  order,
+  formatNumber,
+  cardLocale,
+}: CuttingGuideSheetProps) {
+  const pages = pageCount(layout, lastCardNumber);
+  const pieceKey = order === 'cut-and-stack' ? 'guide.stack' : 'guide.piece';
+  const summary = translate(cardLocale, 'guide.summary', {
+    cards: translate(cardLocale, 'guide.cards', { count: cardCount }),
+    sheets: translate(cardLocale, 'guide.sheets', { count: pages }),
+  });
+
+  return (
+    <div className="print-page cutting-guide">
+      <h1 className="cutting-guide-title">{translate(cardLocale, 'guide.title')}</h1>
+      <p className="cutting-guide-summary">
+        {batchName && <>{batchName} · </>}
+        {summary} · {layoutName(layout, translator(cardLocale))}
+      </p>
+      <div className="cutting-guide-grid">
+        {stackGuide(layout, lastCardNumber, order).flat().map(info => (
+          <div key={info.stack} className="cutting-guide-stack">
+            <div className="cutting-guide-stack-name">{translate(cardLocale, pieceKey, { number: info.stack })}</div>
+            <div>{stackRange(info, order, formatNumber, cardLocale)}</div>
+          </div>
+        ))}
+      </div>
+      <ol className="cutting-guide-steps">
+        {stackingSteps(layout, lastCardNumber, cutOptions, order, formatNumber, cardLocale).map(step => (
+          <li key={step}>{step}</li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { NumberField } from '@/components/LayoutPicker';
+import type { SheetLayout } from '@/lib/layouts';
+import {
+  CutGuides,
+  CutOptions,
+  CUT_GUIDES,
+  cropMarkMargin,
+  cropMarksFit,
+  validateCutOptions,
+} from '@/lib/cutting';
+import type { Translate } from '@/lib/i18n';
+
+interface CuttingPanelProps {
+  options: CutOptions;
+  layout: SheetLayout;
+  onChange: (options: CutOptions) => void;
+  t: Translate;
+}
+
+export function CuttingPanel({ options, layout, onChange, t }: CuttingPanelProps) {
+  const error = validateCutOptions(layout, options);
+
+  const update = (changes: Partial<CutOptions>) => {
+    onChange({ ...options, ...changes });
+  };
+
+  return (
+    <div
+      className="p-4 rounded-lg space-y-4 text-sm"
+      style={{ background: 'var(--card-background)', border: '1px solid var(--border-color)' }}
+    >
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 items-end">
+        <label className="flex flex-col gap-1 text-xs col-span-2" style={{ color: 'var(--secondary-text)' }}>
+          <span>{t('cutting.guides')}</span>
+          <select
+            value={options.guides}
+            onChange={(e) => update({ guides: e.target.value as CutGuides })}
+            className="px-2 py-1 rounded border text-sm"
+          >
+            {CUT_GUIDES.map(({ value }) => (
+              <option key={value} value={value}>{t(`cutGuide.${value}`)}</option>
+            ))}
+          </select>
+        </label>
+        <NumberField
+          label={t('cutting.bleed')}
+          suffix={t('layout.mm')}
+          step={0.5}
+          value={options.bleed}
+          onChange={(bleed) => update({ bleed })}
+        />
+        <NumberField
+          label={t('cutting.safeZone')}
+          suffix={t('layout.mm')}
+          step={0.5}
+          value={options.safeZone}
+          onChange={(safeZone) => update({ safeZone })}
+        />
+      </div>
+
+      <label className="flex items-center gap-2 text-white">
+        <input
+          type="checkbox"
+          checked={options.coverPage}
+          onChange={(e) => update({ coverPage: e.target.checked })}
+        />
+        {t('cutting.coverPage')}
+      </label>
+
+      <p className="text-xs" style={{ color: 'var(--secondary-text)' }}>
+        {t('cutting.bleedHelp')}
+      </p>
+
+      {options.guides === 'marks' && !cropMarksFit(layout, options) && (
+        <p className="text-xs px-3 py-2 rounded" style={{ backgroundColor: 'rgba(245, 158, 11, 0.1)', color: '#f59e0b' }}>
+          {t('cutting.marksNoRoom', { margin: cropMarkMargin(options) })}
+        </p>
+      )}
+
+      {error && (
+        <p className="text-xs px-3 py-2 rounded" style={{ backgroundColor: 'rgba(220, 38, 38, 0.15)', color: '#f87171' }}>
+          {t(error.key, error.params)}
+        </p>
+      )}
+    </div>
+  );
+}
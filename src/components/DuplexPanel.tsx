@@ -0,0 +1,130 @@
+'use client';
+
+import { NumberField } from '@/components/LayoutPicker';
+import {
+  DuplexMode,
+  DuplexOptions,
+  DUPLEX_MODES,
+  MAX_OFFSET,
+  validateDuplexOptions,
+} from '@/lib/duplex';
+import { CARD_PLACEHOLDERS } from '@/lib/labels';
+import type { Translate } from '@/lib/i18n';
+
+interface DuplexPanelProps {
+  options: DuplexOptions;
+  onChange: (options: DuplexOptions) => void;
+  onPrintTest: () => void;
+  onDownloadTest: () => void;
+  t: Translate;
+}
+
+export function DuplexPanel({ options, onChange, onPrintTest, onDownloadTest, t }: DuplexPanelProps) {
+  const error = validateDuplexOptions(options);
+
+  const update = (changes: Partial<DuplexOptions>) => {
+    onChange({ ...options, ...changes });
+  };
+
+  return (
+    <div
+      className="p-4 rounded-lg space-y-4 text-sm"
+      style={{ background: 'var(--card-background)', border: '1px solid var(--border-color)' }}
+    >
+      <label className="flex flex-col gap-1 text-xs max-w-sm" style={{ color: 'var(--secondary-text)' }}>
+        <span>{t('duplex.printing')}</span>
+        <select
+          value={options.mode}
+          onChange={(e) => update({ mode: e.target.value as DuplexMode })}
+          className="px-2 py-1 rounded border text-sm"
+        >
+          {DUPLEX_MODES.map(({ value }) => (
+            <option key={value} value={value}>{t(`duplexMode.${value}`)}</option>
+          ))}
+        </select>
+      </label>
+
+      {options.mode !== 'off' && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1 text-xs" style={{ color: 'var(--secondary-text)' }}>
+              <span>{t('duplex.heading')}</span>
+              <input
+                type="text"
+                value={options.heading}
+                placeholder="Cursor Meetup SF"
+                onChange={(e) => update({ heading: e.target.value })}
+                className="w-full px-2 py-1 rounded border text-sm"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs sm:row-span-2" style={{ color: 'var(--secondary-text)' }}>
+              <span>{t('duplex.message')}</span>
+              <textarea
+                value={options.message}
+                rows={3}
+                placeholder={t('duplex.messagePlaceholder')}
+                onChange={(e) => update({ message: e.target.value })}
+                className="w-full px-2 py-1 rounded border text-sm resize-y"
+              />
+              <span>{t('duplex.placeholders', { tokens: CARD_PLACEHOLDERS.map(({ token }) => token).join(', ') })}</span>
+            </label>
+            <div className="flex flex-col gap-2 text-white">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={options.showLabel}
+                  onChange={(e) => update({ showLabel: e.target.checked })}
+                />
+                {t('duplex.showLabel')}
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={options.showNumber}
+                  onChange={(e) => update({ showNumber: e.target.checked })}
+                />
+                {t('duplex.showNumber')}
+              </label>
+            </div>
+          </div>
+
+          <div className="space-y-3 pt-2" style={{ borderTop: '1px solid var(--border-color)' }}>
+            <p className="text-xs" style={{ color: 'var(--secondary-text)' }}>
+              {t('duplex.alignHelp')}
+            </p>
+            <div className="flex flex-wrap items-end gap-3">
+              <NumberField
+                label={t('duplex.moveRight')}
+                suffix={t('layout.mm')}
+                step={0.5}
+                min={-MAX_OFFSET}
+                value={options.offsetX}
+                onChange={(offsetX) => update({ offsetX })}
+              />
+              <NumberField
+                label={t('duplex.moveDown')}
+                suffix={t('layout.mm')}
+                step={0.5}
+                min={-MAX_OFFSET}
+                value={options.offsetY}
+                onChange={(offsetY) => update({ offsetY })}
+              />
+              <button onClick={onPrintTest} className="btn-secondary px-3 py-1 rounded text-xs">
+                {t('duplex.printTest')}
+              </button>
+              <button onClick={onDownloadTest} className="btn-secondary px-3 py-1 rounded text-xs">
+                {t('duplex.downloadTest')}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+
+      {error && (
+        <p className="text-xs px-3 py-2 rounded" style={{ backgroundColor: 'rgba(220, 38, 38, 0.15)', color: '#f87171' }}>
+          {t(error.key, error.params)}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { DuplicateGroup, describeDuplicateGroup } from '@/lib/duplicates';
+import type { Translate } from '@/lib/i18n';
+
+interface DuplicateReviewPanelProps {
+  groups: DuplicateGroup[];
+  formatNumber: (id: number) => string;
+  onKeepFirst: (groups: DuplicateGroup[]) => void;
+  onRemoveAll: (group: DuplicateGroup) => void;
+  onKeepAll: (group: DuplicateGroup) => void;
+  t: Translate;
+}
+
+export function DuplicateReviewPanel({ groups, formatNumber, onKeepFirst, onRemoveAll, onKeepAll, t }: DuplicateReviewPanelProps) {
+  const extraCards = groups.reduce((sum, group) => sum + group.ids.length - 1, 0);
+
+  return (
+    <section
+      className="mb-6 p-4 rounded-lg text-sm"
+      style={{ backgroundColor: 'rgba(245, 158, 11, 0.1)', border: '1px solid rgba(245, 158, 11, 0.4)' }}
+      aria-labelledby="duplicate-review-heading"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <h3 id="duplicate-review-heading" className="font-medium" style={{ color: '#f59e0b' }}>
+          ⚠️ {t('duplicates.groups', { count: groups.length })} · {t('duplicates.extra', { count: extraCards })}
+        </h3>
+        {groups.length > 1 && (
+          <button onClick={() => onKeepFirst(groups)} className="btn-secondary px-3 py-1 rounded text-xs">
+            {t('duplicates.keepFirstEverywhere')}
+          </button>
+        )}
+      </div>
+
+      <ul className="space-y-2 max-h-64 overflow-y-auto">
+        {groups.map(group => (
+          <li key={group.key} className="flex flex-wrap items-center justify-between gap-2">
+            <span className="text-white">
+              {group.ids.map(formatNumber).join(', ')}
+              <span className="ml-2" style={{ color: 'var(--secondary-text)' }}>{describeDuplicateGroup(group, t)}</span>
+            </span>
+            <span className="flex gap-2 text-xs">
+              <button onClick={() => onKeepFirst([group])} className="btn-secondary px-3 py-1 rounded">
+                {t('duplicates.keepFirst')}
+              </button>
+              <button onClick={() => onRemoveAll(group)} className="btn-secondary px-3 py-1 rounded" style={{ color: '#f87171' }}>
+                {t('duplicates.removeAll')}
+              </button>
+              <button onClick={() => onKeepAll(group)} className="btn-secondary px-3 py-1 rounded">
+                {t('duplicates.keepAll')}
+              </button>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import React, { Component, ErrorInfo, ReactNode } from 'react';
+import { loadUiLocale, translator } from '@/lib/i18n';
 
 interface Props {
   children: ReactNode;
@@ -32,24 +33,29 @@ export class ErrorBoundary extends Component<Props, State> {
 
   public render() {
     if (this.state.hasError) {
+      // The app's state is gone, so read the language back from storage
+      const t = translator(loadUiLocale());
       return (
         <div className="min-h-screen flex items-center justify-center" style={{ background: 'var(--background)' }}>
           <div className="max-w-md mx-auto px-6">
             <div className="text-center space-y-6">
               <div className="text-6xl">⚠️</div>
-              <h1 className="text-2xl font-bold text-white">Something went wrong</h1>
+              <h1 className="text-2xl font-bold text-white">{t('error.title')}</h1>
               <p className="text-gray-400">
-                We encountered an unexpected error. This might be due to:
+                {t('error.intro')}
               </p>
-              <ul className="text-sm text-gray-500 text-left space-y-2">
-                <li>• Malformed or corrupted file data</li>
-                <li>• Browser compatibility issues</li>
-                <li>• Unexpected input format</li>
+              <ul className="text-sm text-gray-500 text-start space-y-2">
+                <li>• {t('error.causeFile')}</li>
+                <li>• {t('error.causeBrowser')}</li>
+                <li>• {t('error.causeInput')}</li>
               </ul>
+              <p className="text-sm text-gray-400">
+                {t('error.saved')}
+              </p>
               {this.state.error && (
-                <details className="text-left text-xs text-gray-600 bg-gray-900 p-4 rounded-lg">
+                <details className="text-start text-xs text-gray-600 bg-gray-900 p-4 rounded-lg">
                   <summary className="cursor-pointer text-gray-400 hover:text-gray-300">
-                    Technical details
+                    {t('error.details')}
                   </summary>
                   <pre className="mt-2 overflow-auto">
                     {this.state.error.message}
@@ -60,7 +66,7 @@ export class ErrorBoundary extends Component<Props, State> {
                 onClick={this.handleReset}
                 className="btn-primary px-8 py-3 rounded-lg font-medium"
               >
-                Reload Application
+                {t('error.reload')}
               </button>
             </div>
           </div>
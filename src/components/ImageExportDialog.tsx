@@ -0,0 +1,190 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import type { ToastType } from '@/components/Toast';
+import type { QRCodeData } from '@/lib/types';
+import type { QRStyle } from '@/lib/qr-style';
+import {
+  CardImageSettings,
+  ImageExportOptions,
+  DEFAULT_IMAGE_EXPORT_OPTIONS,
+  NAME_TEMPLATE_TOKENS,
+  buildImageZip,
+  formatFileName,
+} from '@/lib/image-export';
+import { downloadBlob, fileDateStamp } from '@/lib/download';
+import type { NumberScheme } from '@/lib/numbering';
+import { layoutName } from '@/lib/layouts';
+import { templateName } from '@/lib/card-templates';
+import type { Translate } from '@/lib/i18n';
+
+interface ImageExportDialogProps {
+  qrCodes: QRCodeData[];
+  style: QRStyle;
+  numberScheme: NumberScheme;
+  // Layout and template for whole-card images
+  card: CardImageSettings;
+  onClose: () => void;
+  onToast: (message: string, type: ToastType) => void;
+  t: Translate;
+}
+
+const PNG_SIZES = [256, 512, 1024, 2048];
+
+export function ImageExportDialog({ qrCodes, style, numberScheme, card, onClose, onToast, t }: ImageExportDialogProps) {
+  const [options, setOptions] = useState<ImageExportOptions>(DEFAULT_IMAGE_EXPORT_OPTIONS);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  // Move focus into the dialog, and back to whatever opened it on close
+  useEffect(() => {
+    const opener = document.activeElement as HTMLElement | null;
+    dialogRef.current?.focus();
+    return () => opener?.focus();
+  }, []);
+
+  const validCount = qrCodes.filter(qr => qr.isValid).length;
+  const sample = qrCodes.find(qr => qr.isValid);
+  const isExporting = progress !== null;
+  const canExport = (options.png || options.svg || options.cards) && validCount > 0 && !isExporting;
+
+  const update = (changes: Partial<ImageExportOptions>) => {
+    setOptions(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleExport = async () => {
+    setProgress({ done: 0, total: validCount });
+    try {
+      const zip = await buildImageZip(qrCodes, style, options, numberScheme, card, t, (done, total) => setProgress({ done, total }));
+      downloadBlob(zip, `qr-codes-${fileDateStamp()}.zip`);
+      onClose();
+    } catch (error) {
+      console.error('Image export error:', error);
+      onToast(t('imageExport.failed'), 'error');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={() => !isExporting && onClose()}
+    >
+      <motion.div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="image-export-title"
+        tabIndex={-1}
+        onKeyDown={(e) => e.key === 'Escape' && !isExporting && onClose()}
+        className="w-full max-w-lg rounded-lg p-6 space-y-5 focus:outline-none"
+        style={{ background: 'var(--card-background)', border: '1px solid var(--border-color)' }}
+        initial={{ y: 20, scale: 0.97 }}
+        animate={{ y: 0, scale: 1 }}
+        exit={{ y: 10, scale: 0.97 }}
+        transition={{ type: 'spring', stiffness: 500, damping: 30 }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div>
+          <h3 id="image-export-title" className="text-xl font-semibold text-white">
+            {t('imageExport.title')}
+          </h3>
+          <p className="text-sm mt-1" style={{ color: 'var(--secondary-text)' }}>
+            {t('imageExport.summary', { count: validCount })}
+          </p>
+        </div>
+
+        <fieldset className="space-y-2">
+          <legend className="text-sm text-white mb-2">{t('imageExport.formats')}</legend>
+          <label className="flex items-center gap-2 text-sm text-white">
+            <input type="checkbox" checked={options.png} onChange={(e) => update({ png: e.target.checked })} />
+            PNG
+          </label>
+          <label className="flex items-center gap-2 text-sm text-white">
+            <input type="checkbox" checked={options.svg} onChange={(e) => update({ svg: e.target.checked })} />
+            {t('imageExport.svg')}
+          </label>
+          <label className="flex items-center gap-2 text-sm text-white">
+            <input type="checkbox" checked={options.cards} onChange={(e) => update({ cards: e.target.checked })} />
+            {t('imageExport.cards', { template: templateName(card.template, t) })}
+          </label>
+        </fieldset>
+
+        {(options.png || options.cards) && (
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1 text-xs" style={{ color: 'var(--secondary-text)' }}>
+              {t('imageExport.pngSize')}
+              <select
+                value={options.pngSize}
+                onChange={(e) => update({ pngSize: Number(e.target.value) })}
+                className="px-2 py-1 rounded border text-sm"
+              >
+                {PNG_SIZES.map(size => (
+                  <option key={size} value={size}>
+                    {size} × {size}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs" style={{ color: 'var(--secondary-text)' }}>
+              DPI
+              <input
+                type="number"
+                min={72}
+                max={1200}
+                value={options.dpi}
+                onChange={(e) => update({ dpi: Math.min(1200, Math.max(72, Number(e.target.value) || 300)) })}
+                className="px-2 py-1 rounded border text-sm"
+              />
+            </label>
+            <p className="col-span-2 text-xs" style={{ color: 'var(--secondary-text)' }}>
+              {options.png && t('imageExport.printSize', { width: ((options.pngSize / options.dpi) * 25.4).toFixed(1), dpi: options.dpi })}
+              {options.png && options.cards && ' '}
+              {options.cards && t('imageExport.cardSize', { layout: layoutName(card.layout, t) })}
+            </p>
+          </div>
+        )}
+
+        <label className="flex flex-col gap-1 text-xs" style={{ color: 'var(--secondary-text)' }}>
+          {t('imageExport.nameTemplate')}
+          <input
+            type="text"
+            value={options.nameTemplate}
+            onChange={(e) => update({ nameTemplate: e.target.value })}
+            className="px-2 py-1 rounded border text-sm"
+          />
+          <span>
+            {NAME_TEMPLATE_TOKENS.map(({ token, description }) => `${token} ${t(description)}`).join(' · ')}
+          </span>
+          {sample && (
+            <span className="text-white">
+              {t('imageExport.example', { name: `${formatFileName(options.nameTemplate, sample, numberScheme)}.${options.png || options.cards ? 'png' : 'svg'}` })}
+            </span>
+          )}
+        </label>
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            disabled={isExporting}
+            className="btn-secondary px-6 py-2 rounded-lg text-sm font-medium"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!canExport}
+            className={`px-6 py-2 rounded-lg text-sm font-medium ${canExport ? 'btn-primary' : 'btn-secondary opacity-50 cursor-not-allowed'}`}
+          >
+            {progress ? t('imageExport.rendering', { done: progress.done, total: progress.total }) : t('imageExport.download')}
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  SheetLayout,
+  LAYOUT_PRESETS,
+  PAPER_SIZES,
+  CUSTOM_LAYOUT_ID,
+  cellSize,
+  cellsPerPage,
+  layoutName,
+  paperName,
+  validateLayout,
+} from '@/lib/layouts';
+import type { Translate } from '@/lib/i18n';
+
+interface LayoutPickerProps {
+  layout: SheetLayout;
+  onChange: (layout: SheetLayout) => void;
+  t: Translate;
+}
+
+export function NumberField({
+  label,
+  value,
+  onChange,
+  step = 1,
+  min = 0,
+  suffix,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  step?: number;
+  min?: number;
+  suffix?: string;
+}) {
+  return (
+    <label className="flex flex-col gap-1 text-xs" style={{ color: 'var(--secondary-text)' }}>
+      <span>
+        {label}
+        {suffix && <span className="opacity-70"> ({suffix})</span>}
+      </span>
+      <input
+        type="number"
+        min={min}
+        step={step}
+        value={Number.isFinite(value) ? value : ''}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="w-full px-2 py-1 rounded border text-sm"
+      />
+    </label>
+  );
+}
+
+export function LayoutPicker({ layout, onChange, t }: LayoutPickerProps) {
+  const isCustom = layout.id === CUSTOM_LAYOUT_ID;
+  const error = validateLayout(layout);
+  const cell = cellSize(layout);
+
+  const handlePresetChange = (id: string) => {
+    if (id === CUSTOM_LAYOUT_ID) {
+      // Start the custom layout from whatever is currently selected
+      onChange({ ...layout, id: CUSTOM_LAYOUT_ID, name: 'Custom' });
+      return;
+    }
+    const preset = LAYOUT_PRESETS.find(p => p.id === id);
+    if (preset) onChange(preset);
+  };
+
+  const update = (changes: Partial<SheetLayout>) => {
+    onChange({ ...layout, ...changes });
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <label htmlFor="layout-preset" style={{ color: 'var(--secondary-text)' }}>
+          {t('layout.sheet')}
+        </label>
+        <select
+          id="layout-preset"
+          value={layout.id}
+          onChange={(e) => handlePresetChange(e.target.value)}
+          className="px-3 py-2 rounded-lg border text-sm"
+        >
+          {LAYOUT_PRESETS.map(preset => (
+            <option key={preset.id} value={preset.id}>
+              {layoutName(preset, t)}
+            </option>
+          ))}
+          <option value={CUSTOM_LAYOUT_ID}>{t('layout.customOption')}</option>
+        </select>
+        <span className="text-xs" style={{ color: 'var(--secondary-text)' }}>
+          {t('layout.summary', { count: cellsPerPage(layout), width: cell.width.toFixed(1), height: cell.height.toFixed(1) })}
+        </span>
+      </div>
+
+      <AnimatePresence>
+        {isCustom && (
+          <motion.div
+            className="grid grid-cols-2 sm:grid-cols-4 gap-3 p-4 rounded-lg"
+            style={{ background: 'var(--card-background)', border: '1px solid var(--border-color)' }}
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            transition={{ duration: 0.2 }}
+          >
+            <label className="flex flex-col gap-1 text-xs col-span-2 sm:col-span-4" style={{ color: 'var(--secondary-text)' }}>
+              <span>{t('layout.paper')}</span>
+              <select
+                value={layout.paper.id}
+                onChange={(e) => {
+                  const paper = PAPER_SIZES.find(p => p.id === e.target.value);
+                  if (paper) update({ paper });
+                }}
+                className="px-2 py-1 rounded border text-sm"
+              >
+                {PAPER_SIZES.map(paper => (
+                  <option key={paper.id} value={paper.id}>
+                    {t('layout.paperOption', { name: paperName(paper, t), width: paper.width, height: paper.height })}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <NumberField label={t('layout.rows')} value={layout.rows} onChange={(rows) => update({ rows })} />
+            <NumberField label={t('layout.columns')} value={layout.cols} onChange={(cols) => update({ cols })} />
+            <NumberField
+              label={t('layout.columnGutter')}
+              suffix={t('layout.mm')}
+              step={0.5}
+              value={layout.gutter.x}
+              onChange={(x) => update({ gutter: { ...layout.gutter, x } })}
+            />
+            <NumberField
+              label={t('layout.rowGutter')}
+              suffix={t('layout.mm')}
+              step={0.5}
+              value={layout.gutter.y}
+              onChange={(y) => update({ gutter: { ...layout.gutter, y } })}
+            />
+            {(['top', 'right', 'bottom', 'left'] as const).map(side => (
+              <NumberField
+                key={side}
+                label={t(`layout.margin.${side}`)}
+                suffix={t('layout.mm')}
+                step={0.5}
+                value={layout.margins[side]}
+                onChange={(value) => update({ margins: { ...layout.margins, [side]: value } })}
+              />
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {error && (
+        <p className="text-xs px-3 py-2 rounded" style={{ backgroundColor: 'rgba(220, 38, 38, 0.15)', color: '#f87171' }}>
+          {t(error.key, error.params)}
+        </p>
+      )}
+    </div>
+  );
+}
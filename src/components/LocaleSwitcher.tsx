@@ -0,0 +1,28 @@
+'use client';
+
+import { Locale, LOCALES } from '@/lib/i18n';
+
+interface LocaleSwitcherProps {
+  locale: Locale;
+  label: string;
+  onChange: (locale: Locale) => void;
+}
+
+// Language of the interface; printed cards have their own setting
+export function LocaleSwitcher({ locale, label, onChange }: LocaleSwitcherProps) {
+  return (
+    <label className="flex items-center gap-2">
+      <span aria-hidden="true">🌐</span>
+      <span className="sr-only">{label}</span>
+      <select
+        value={locale}
+        onChange={(e) => onChange(e.target.value as Locale)}
+        className="px-2 py-1 rounded border text-sm"
+      >
+        {LOCALES.map(({ value, label: name }) => (
+          <option key={value} value={value} lang={value}>{name}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { NumberField } from '@/components/LayoutPicker';
+import { PrintOrder, PRINT_ORDERS } from '@/lib/layouts';
+import { NumberScheme, formatNumber, validateNumberScheme } from '@/lib/numbering';
+import type { Translate } from '@/lib/i18n';
+
+interface NumberSchemePanelProps {
+  scheme: NumberScheme;
+  lastCardNumber: number;
+  // Whether any card came with a number from the imported file
+  hasImportedNumbers: boolean;
+  onChange: (scheme: NumberScheme) => void;
+  t: Translate;
+}
+
+export function NumberSchemePanel({ scheme, lastCardNumber, hasImportedNumbers, onChange, t }: NumberSchemePanelProps) {
+  const error = validateNumberScheme(scheme);
+
+  const update = (changes: Partial<NumberScheme>) => {
+    onChange({ ...scheme, ...changes });
+  };
+
+  return (
+    <div
+      className="p-4 rounded-lg space-y-4 text-sm"
+      style={{ background: 'var(--card-background)', border: '1px solid var(--border-color)' }}
+    >
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 items-end">
+        <label className="flex flex-col gap-1 text-xs" style={{ color: 'var(--secondary-text)' }}>
+          <span>{t('numbering.printOrder')}</span>
+          <select
+            value={scheme.order}
+            onChange={(e) => update({ order: e.target.value as PrintOrder })}
+            className="px-2 py-1 rounded border text-sm"
+          >
+            {PRINT_ORDERS.map(({ value }) => (
+              <option key={value} value={value}>{t(`printOrder.${value}`)}</option>
+            ))}
+          </select>
+        </label>
+        <NumberField label={t('numbering.firstNumber')} value={scheme.start} onChange={(start) => update({ start })} />
+        <label className="flex flex-col gap-1 text-xs" style={{ color: 'var(--secondary-text)' }}>
+          <span>{t('numbering.prefix')}</span>
+          <input
+            type="text"
+            value={scheme.prefix}
+            placeholder="SF-"
+            onChange={(e) => update({ prefix: e.target.value })}
+            className="w-full px-2 py-1 rounded border text-sm"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs" style={{ color: 'var(--secondary-text)' }}>
+          <span>{t('numbering.suffix')}</span>
+          <input
+            type="text"
+            value={scheme.suffix}
+            onChange={(e) => update({ suffix: e.target.value })}
+            className="w-full px-2 py-1 rounded border text-sm"
+          />
+        </label>
+        <NumberField
+          label={t('numbering.padTo')}
+          suffix={t('numbering.digits')}
+          value={scheme.padding}
+          onChange={(padding) => update({ padding })}
+        />
+      </div>
+
+      {hasImportedNumbers && (
+        <label className="flex items-center gap-2 text-white">
+          <input
+            type="checkbox"
+            checked={scheme.fromColumn}
+            onChange={(e) => update({ fromColumn: e.target.checked })}
+          />
+          {t('numbering.fromColumn')}
+        </label>
+      )}
+
+      {error ? (
+        <p className="text-xs px-3 py-2 rounded" style={{ backgroundColor: 'rgba(220, 38, 38, 0.15)', color: '#f87171' }}>
+          {t(error.key, error.params)}
+        </p>
+      ) : (
+        <p className="text-xs" style={{ color: 'var(--secondary-text)' }}>
+          {t(hasImportedNumbers && scheme.fromColumn ? 'numbering.summaryImported' : 'numbering.summary', {
+            first: formatNumber(1, scheme),
+            last: formatNumber(Math.max(1, lastCardNumber), scheme),
+          })}{' '}
+          {t(scheme.order === 'cut-and-stack' ? 'numbering.aboutCutAndStack' : 'numbering.aboutSequential')}
+        </p>
+      )}
+    </div>
+  );
+}
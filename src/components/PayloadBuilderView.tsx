@@ -0,0 +1,209 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { PayloadForm } from '@/components/PayloadForm';
+import { QrCanvas } from '@/components/QrCanvas';
+import {
+  Payload,
+  PayloadEntry,
+  PayloadKind,
+  PAYLOAD_KINDS,
+  describePayload,
+  emptyPayload,
+  encodePayload,
+  normalizePayload,
+  payloadWarning,
+  validatePayload,
+} from '@/lib/payloads';
+import { joinLabelFields } from '@/lib/labels';
+import type { QRStyle } from '@/lib/qr-style';
+import { Locale, Translate, translateRefs } from '@/lib/i18n';
+
+interface PayloadBuilderViewProps {
+  style: QRStyle;
+  maxCodes: number;
+  isProcessing: boolean;
+  onGenerate: (entries: PayloadEntry[]) => void;
+  onBack: () => void;
+  locale: Locale;
+  t: Translate;
+}
+
+interface BuilderItem extends PayloadEntry {
+  copies: number;
+}
+
+const PREVIEW_SIZE = 140;
+
+export function PayloadBuilderView({ style, maxCodes, isProcessing, onGenerate, onBack, locale, t }: PayloadBuilderViewProps) {
+  const [draft, setDraft] = useState<Payload>(emptyPayload('wifi'));
+  const [label, setLabel] = useState<string>('');
+  const [copies, setCopies] = useState<number>(1);
+  const [items, setItems] = useState<BuilderItem[]>([]);
+
+  const normalized = normalizePayload(draft);
+  const error = validatePayload(normalized);
+  const warning = error ? undefined : payloadWarning(normalized);
+  const totalCodes = items.reduce((sum, item) => sum + item.copies, 0);
+  const remaining = maxCodes - totalCodes;
+  const canAdd = !error && copies >= 1 && copies <= remaining;
+
+  const selectKind = (kind: PayloadKind) => {
+    if (kind !== draft.kind) setDraft(emptyPayload(kind));
+  };
+
+  const addItem = () => {
+    if (!canAdd) return;
+    setItems(prev => [...prev, { payload: normalized, label: joinLabelFields([label]), copies }]);
+    setDraft(emptyPayload(draft.kind));
+    setLabel('');
+    setCopies(1);
+  };
+
+  const generate = () => {
+    onGenerate(items.flatMap(({ copies, ...entry }) => Array.from({ length: copies }, () => entry)));
+  };
+
+  return (
+    <motion.div
+      className="min-h-screen"
+      style={{ background: 'var(--background)' }}
+      initial={{ opacity: 0, x: 50 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: -50 }}
+      transition={{ duration: 0.3 }}
+    >
+      <div className="container mx-auto px-6 py-8 max-w-4xl">
+        <motion.button
+          onClick={onBack}
+          className="mb-6 text-sm"
+          style={{ color: 'var(--secondary-text)' }}
+          whileHover={{ x: -3, color: 'var(--accent-blue)' }}
+          transition={{ type: "spring", stiffness: 500, damping: 25 }}
+        >
+          {t('common.back')}
+        </motion.button>
+
+        <h2 className="text-2xl font-semibold text-white mb-2">{t('builder.title')}</h2>
+        <p className="text-sm mb-6" style={{ color: 'var(--secondary-text)' }}>
+          {t('builder.subtitle')}
+        </p>
+
+        <div className="flex flex-wrap gap-2 mb-6" role="radiogroup" aria-label={t('builder.contentType')}>
+          {PAYLOAD_KINDS.map(({ kind }) => (
+            <button
+              key={kind}
+              role="radio"
+              aria-checked={draft.kind === kind}
+              onClick={() => selectKind(kind)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium ${draft.kind === kind ? 'btn-primary' : 'btn-secondary'}`}
+            >
+              {t(`kind.${kind}`)}
+            </button>
+          ))}
+        </div>
+
+        <div
+          className="grid gap-6 md:grid-cols-[1fr_auto] p-4 rounded-lg mb-6"
+          style={{ background: 'var(--card-background)', border: '1px solid var(--border-color)' }}
+        >
+          <div className="space-y-4">
+            <PayloadForm payload={draft} onChange={setDraft} t={t} />
+
+            <div className="grid gap-4 sm:grid-cols-[1fr_8rem]">
+              <label className="flex flex-col gap-1 text-sm text-white">
+                {t('builder.label')}
+                <input
+                  type="text"
+                  value={label}
+                  placeholder={t('builder.labelPlaceholder')}
+                  onChange={(e) => setLabel(e.target.value)}
+                  className="px-3 py-2 rounded-lg border text-sm"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-sm text-white">
+                {t('builder.copies')}
+                <input
+                  type="number"
+                  min={1}
+                  max={Math.max(1, remaining)}
+                  value={Number.isFinite(copies) ? copies : ''}
+                  onChange={(e) => setCopies(Math.floor(Number(e.target.value)))}
+                  className="px-3 py-2 rounded-lg border text-sm"
+                />
+              </label>
+            </div>
+
+            {error && <p className="text-xs text-red-400">{t(error.key, error.params)}</p>}
+            {warning && (
+              <p className="text-xs px-3 py-2 rounded" style={{ backgroundColor: 'rgba(245, 158, 11, 0.2)', color: '#f59e0b' }}>
+                ⚠️ {translateRefs(t, warning.messages)}
+              </p>
+            )}
+
+            <motion.button
+              onClick={addItem}
+              disabled={!canAdd}
+              className={`px-6 py-2 rounded-lg text-sm font-medium ${canAdd ? 'btn-primary' : 'btn-secondary opacity-50 cursor-not-allowed'}`}
+              whileHover={canAdd ? { scale: 1.03, y: -1 } : {}}
+              whileTap={canAdd ? { scale: 0.97 } : {}}
+              transition={{ type: "spring", stiffness: 500, damping: 25 }}
+            >
+              {t('builder.addCopies', { count: copies })}
+            </motion.button>
+          </div>
+
+          <div className="flex flex-col items-center gap-2">
+            <div className="rounded overflow-hidden" style={{ opacity: error ? 0.3 : 1 }}>
+              <QrCanvas value={error ? ' ' : encodePayload(normalized)} style={style} size={PREVIEW_SIZE} />
+            </div>
+            <span className="text-xs" style={{ color: 'var(--secondary-text)' }}>
+              {error ? t('builder.fillIn') : t('builder.scanToTest')}
+            </span>
+          </div>
+        </div>
+
+        {items.length > 0 && (
+          <ul className="mb-6 space-y-2">
+            {items.map((item, index) => (
+              <li
+                key={index}
+                className="flex items-center justify-between gap-3 px-4 py-2 rounded-lg text-sm"
+                style={{ background: 'var(--card-background)', border: '1px solid var(--border-color)' }}
+              >
+                <span className="min-w-0 truncate text-white">
+                  <span className="qr-card-text">{t(`kind.${item.payload.kind}`)}</span>
+                  {' · '}
+                  {describePayload(item.payload, locale)}
+                  {item.label && <span style={{ color: 'var(--secondary-text)' }}> · {item.label}</span>}
+                </span>
+                <span className="flex items-center gap-3 shrink-0">
+                  {item.copies > 1 && <span style={{ color: 'var(--secondary-text)' }}>×{item.copies}</span>}
+                  <button
+                    onClick={() => setItems(prev => prev.filter((_, i) => i !== index))}
+                    className="text-xs text-red-400 hover:text-red-300"
+                    aria-label={t('builder.removeItem', { name: describePayload(item.payload, locale) })}
+                  >
+                    {t('builder.remove')}
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <motion.button
+          onClick={generate}
+          disabled={totalCodes === 0 || isProcessing}
+          className={`px-8 py-3 rounded-lg font-medium ${totalCodes > 0 ? 'btn-primary' : 'btn-secondary opacity-50 cursor-not-allowed'}`}
+          whileHover={totalCodes > 0 && !isProcessing ? { scale: 1.03, y: -1 } : {}}
+          whileTap={totalCodes > 0 && !isProcessing ? { scale: 0.97 } : {}}
+          transition={{ type: "spring", stiffness: 500, damping: 25 }}
+        >
+          {isProcessing ? t('manual.processing') : t('mapping.generate', { count: totalCodes })}
+        </motion.button>
+      </div>
+    </motion.div>
+  );
+}
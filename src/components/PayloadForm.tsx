@@ -0,0 +1,152 @@
+'use client';
+
+import { Payload, WifiSecurity } from '@/lib/payloads';
+import type { Translate } from '@/lib/i18n';
+
+interface PayloadFormProps {
+  payload: Payload;
+  onChange: (payload: Payload) => void;
+  t: Translate;
+}
+
+function TextField({
+  label,
+  value,
+  onChange,
+  type = 'text',
+  placeholder,
+  wide = false,
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  type?: 'text' | 'url' | 'email' | 'tel' | 'password' | 'datetime-local';
+  placeholder?: string;
+  wide?: boolean;
+}) {
+  return (
+    <label className={`flex flex-col gap-1 text-sm text-white ${wide ? 'sm:col-span-2' : ''}`}>
+      {label}
+      <input
+        type={type}
+        value={value}
+        placeholder={placeholder}
+        onChange={(e) => onChange(e.target.value)}
+        className="px-3 py-2 rounded-lg border text-sm"
+      />
+    </label>
+  );
+}
+
+function TextAreaField({ label, value, onChange }: { label: string; value: string; onChange: (value: string) => void }) {
+  return (
+    <label className="flex flex-col gap-1 text-sm text-white sm:col-span-2">
+      {label}
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        rows={3}
+        className="px-3 py-2 rounded-lg border text-sm resize-none"
+      />
+    </label>
+  );
+}
+
+// Form inputs for one payload; the parent owns the value and validation
+export function PayloadForm({ payload, onChange, t }: PayloadFormProps) {
+  // Each branch narrows `payload`, so updates stay within its own kind
+  const update = <P extends Payload>(current: P, changes: Partial<P>) => onChange({ ...current, ...changes });
+
+  switch (payload.kind) {
+    case 'url':
+      return (
+        <div className="grid gap-4">
+          <TextField
+            label={t('payload.url')}
+            type="url"
+            value={payload.url}
+            placeholder="https://cursor.com/referral?code=EXAMPLE"
+            onChange={(url) => update(payload, { url })}
+          />
+        </div>
+      );
+
+    case 'wifi':
+      return (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <TextField label={t('payload.ssid')} value={payload.ssid} onChange={(ssid) => update(payload, { ssid })} />
+          <label className="flex flex-col gap-1 text-sm text-white">
+            {t('payload.security')}
+            <select
+              value={payload.security}
+              onChange={(e) => update(payload, { security: e.target.value as WifiSecurity })}
+              className="px-3 py-2 rounded-lg border text-sm"
+            >
+              <option value="WPA">WPA/WPA2/WPA3</option>
+              <option value="WEP">WEP</option>
+              <option value="nopass">{t('payload.securityNone')}</option>
+            </select>
+          </label>
+          {payload.security !== 'nopass' && (
+            <TextField label={t('payload.password')} value={payload.password} onChange={(password) => update(payload, { password })} />
+          )}
+          <label className="flex items-center gap-2 text-sm text-white">
+            <input
+              type="checkbox"
+              checked={payload.hidden}
+              onChange={(e) => update(payload, { hidden: e.target.checked })}
+            />
+            {t('payload.hidden')}
+          </label>
+        </div>
+      );
+
+    case 'vcard':
+      return (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <TextField label={t('payload.firstName')} value={payload.firstName} onChange={(firstName) => update(payload, { firstName })} />
+          <TextField label={t('payload.lastName')} value={payload.lastName} onChange={(lastName) => update(payload, { lastName })} />
+          <TextField label={t('payload.organization')} value={payload.organization} onChange={(organization) => update(payload, { organization })} />
+          <TextField label={t('payload.jobTitle')} value={payload.title} onChange={(title) => update(payload, { title })} />
+          <TextField label={t('payload.phone')} type="tel" value={payload.phone} onChange={(phone) => update(payload, { phone })} />
+          <TextField label={t('payload.email')} type="email" value={payload.email} onChange={(email) => update(payload, { email })} />
+          <TextField label={t('payload.website')} type="url" value={payload.website} onChange={(website) => update(payload, { website })} wide />
+        </div>
+      );
+
+    case 'email':
+      return (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <TextField label={t('payload.to')} type="email" value={payload.to} onChange={(to) => update(payload, { to })} />
+          <TextField label={t('payload.subject')} value={payload.subject} onChange={(subject) => update(payload, { subject })} />
+          <TextAreaField label={t('payload.message')} value={payload.body} onChange={(body) => update(payload, { body })} />
+        </div>
+      );
+
+    case 'sms':
+      return (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <TextField label={t('payload.phoneNumber')} type="tel" value={payload.phone} onChange={(phone) => update(payload, { phone })} />
+          <TextAreaField label={t('payload.message')} value={payload.message} onChange={(message) => update(payload, { message })} />
+        </div>
+      );
+
+    case 'event':
+      return (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <TextField label={t('payload.title')} value={payload.title} onChange={(title) => update(payload, { title })} />
+          <TextField label={t('payload.location')} value={payload.location} onChange={(location) => update(payload, { location })} />
+          <TextField label={t('payload.starts')} type="datetime-local" value={payload.start} onChange={(start) => update(payload, { start })} />
+          <TextField label={t('payload.ends')} type="datetime-local" value={payload.end} onChange={(end) => update(payload, { end })} />
+          <TextAreaField label={t('payload.description')} value={payload.description} onChange={(description) => update(payload, { description })} />
+        </div>
+      );
+
+    case 'text':
+      return (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <TextAreaField label={t('payload.text')} value={payload.text} onChange={(text) => update(payload, { text })} />
+        </div>
+      );
+  }
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  UrlPolicy,
+  PolicyStrictness,
+  NO_POLICY_ID,
+  newPolicy,
+  parsePatternList,
+  policyName,
+} from '@/lib/policies';
+import type { Translate } from '@/lib/i18n';
+
+interface PolicyPanelProps {
+  policies: UrlPolicy[];
+  selectedId: string;
+  violationCount: number;
+  onSelect: (id: string) => void;
+  onSave: (policy: UrlPolicy) => void;
+  onDelete: (id: string) => void;
+  t: Translate;
+}
+
+const STRICTNESS_OPTIONS: PolicyStrictness[] = ['warn', 'block'];
+
+export function PolicyPanel({ policies, selectedId, violationCount, onSelect, onSave, onDelete, t }: PolicyPanelProps) {
+  const policy = policies.find(entry => entry.id === selectedId) ?? null;
+
+  const addPolicy = (from?: UrlPolicy) => {
+    const created = newPolicy(from ? t('policy.copyName', { name: policyName(from, t) }) : t('policy.newName'), from);
+    onSave(created);
+    onSelect(created.id);
+  };
+
+  return (
+    <div
+      className="p-4 rounded-lg space-y-4 text-sm"
+      style={{ background: 'var(--card-background)', border: '1px solid var(--border-color)' }}
+    >
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-white">
+          {t('policy.forBatch')}
+          <select
+            value={policy ? policy.id : NO_POLICY_ID}
+            onChange={(e) => onSelect(e.target.value)}
+            className="px-3 py-2 rounded-lg border text-sm"
+          >
+            <option value={NO_POLICY_ID}>{t('policy.none')}</option>
+            {policies.map(entry => (
+              <option key={entry.id} value={entry.id}>{policyName(entry, t)}</option>
+            ))}
+          </select>
+        </label>
+        <button onClick={() => addPolicy()} className="btn-secondary px-4 py-2 rounded-lg text-xs">
+          {t('policy.new')}
+        </button>
+        {policy && (
+          <button onClick={() => addPolicy(policy)} className="btn-secondary px-4 py-2 rounded-lg text-xs">
+            {t('policy.duplicate')}
+          </button>
+        )}
+        {policy && (
+          <span className={violationCount > 0 ? 'text-red-400' : 'text-green-400'}>
+            {violationCount > 0 ? t('policy.breaking', { count: violationCount }) : t('policy.allFollow')}
+          </span>
+        )}
+      </div>
+
+      {policy && (policy.builtIn ? (
+        <PolicySummary policy={policy} t={t} />
+      ) : (
+        // Remount per policy so the text fields start from its saved values
+        <PolicyEditor key={policy.id} policy={policy} onSave={onSave} onDelete={onDelete} t={t} />
+      ))}
+    </div>
+  );
+}
+
+function PolicySummary({ policy, t }: { policy: UrlPolicy; t: Translate }) {
+  return (
+    <div className="space-y-1" style={{ color: 'var(--secondary-text)' }}>
+      <p>{t('policy.allowedHosts', { hosts: policy.allowedHosts.join(', ') || t('policy.anyHost') })}</p>
+      {policy.deniedHosts.length > 0 && <p>{t('policy.deniedHosts', { hosts: policy.deniedHosts.join(', ') })}</p>}
+      {policy.requiredShape && <p>{t('policy.shape', { shape: policy.requiredShape })}</p>}
+      <p>{t(policy.strictness === 'block' ? 'policy.blocksSummary' : 'policy.flagsSummary')}</p>
+      <p className="text-xs">{t('policy.builtIn')}</p>
+    </div>
+  );
+}
+
+interface PolicyEditorProps {
+  policy: UrlPolicy;
+  onSave: (policy: UrlPolicy) => void;
+  onDelete: (id: string) => void;
+  t: Translate;
+}
+
+function PolicyEditor({ policy, onSave, onDelete, t }: PolicyEditorProps) {
+  const [allowed, setAllowed] = useState<string>(policy.allowedHosts.join('\n'));
+  const [denied, setDenied] = useState<string>(policy.deniedHosts.join('\n'));
+
+  const update = (changes: Partial<UrlPolicy>) => onSave({ ...policy, ...changes });
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      <label className="flex flex-col gap-1 text-white">
+        {t('policy.name')}
+        <input
+          type="text"
+          value={policy.name}
+          onChange={(e) => update({ name: e.target.value })}
+          className="px-3 py-2 rounded-lg border text-sm"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-white">
+        {t('policy.requiredShape')}
+        <input
+          type="text"
+          value={policy.requiredShape}
+          placeholder="/referral?code="
+          onChange={(e) => update({ requiredShape: e.target.value })}
+          className="px-3 py-2 rounded-lg border text-sm"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-white">
+        {t('policy.allowedHostsField')}
+        <textarea
+          value={allowed}
+          rows={3}
+          onChange={(e) => setAllowed(e.target.value)}
+          onBlur={() => update({ allowedHosts: parsePatternList(allowed) })}
+          className="px-3 py-2 rounded-lg border text-sm font-mono"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-white">
+        {t('policy.deniedHostsField')}
+        <textarea
+          value={denied}
+          rows={3}
+          onChange={(e) => setDenied(e.target.value)}
+          onBlur={() => update({ deniedHosts: parsePatternList(denied) })}
+          className="px-3 py-2 rounded-lg border text-sm font-mono"
+        />
+      </label>
+      <div className="flex flex-wrap items-center justify-between gap-3 sm:col-span-2">
+        <div className="flex gap-2" role="radiogroup" aria-label={t('policy.whenBroken')}>
+          {STRICTNESS_OPTIONS.map(value => (
+            <button
+              key={value}
+              role="radio"
+              aria-checked={policy.strictness === value}
+              onClick={() => update({ strictness: value })}
+              className={`px-3 py-1 rounded text-xs ${policy.strictness === value ? 'btn-primary' : 'btn-secondary'}`}
+            >
+              {t(`policy.strictness.${value}`)}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => onDelete(policy.id)}
+          className="btn-secondary px-3 py-1 rounded text-xs"
+          style={{ color: '#f87171' }}
+        >
+          {t('policy.delete')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { PrintedPage } from '@/components/PrintedPage';
+import type { QRCodeData } from '@/lib/types';
+import { SheetLayout, PX_PER_MM, cellsPerPage, layoutName } from '@/lib/layouts';
+import type { QRStyle } from '@/lib/qr-style';
+import type { CardTextMode } from '@/lib/labels';
+import { NumberScheme, highestCardNumber } from '@/lib/numbering';
+import type { CutOptions } from '@/lib/cutting';
+import { DuplexOptions, PrintPage, printPages } from '@/lib/duplex';
+import type { CardTemplate } from '@/lib/card-templates';
+import type { Locale, Translate } from '@/lib/i18n';
+
+interface PrintPreviewViewProps {
+  qrCodes: QRCodeData[];
+  layout: SheetLayout;
+  style: QRStyle;
+  cardTextMode: CardTextMode;
+  showReferralCode: boolean;
+  cutOptions: CutOptions;
+  numberScheme: NumberScheme;
+  duplex: DuplexOptions;
+  template: CardTemplate;
+  cardLocale: Locale;
+  batchName?: string;
+  isPrinting: boolean;
+  onPrint: () => void;
+  onBack: () => void;
+  t: Translate;
+}
+
+// Leave room for the controls above the sheet
+const MAX_VIEWPORT_HEIGHT = 0.75;
+
+function pageName(page: PrintPage, twoSided: boolean, t: Translate): string {
+  switch (page.kind) {
+    case 'cutting-guide':
+      return t('preview.cuttingGuide');
+    case 'blank':
+      return t('preview.cuttingGuideBack');
+    case 'alignment-test':
+      return page.side === 'front' ? t('preview.alignmentFront') : t('preview.alignmentBack');
+    case 'front':
+      return t(twoSided ? 'preview.sheetFront' : 'preview.sheet', { number: page.sheet + 1 });
+    case 'back':
+      return t('preview.sheetBack', { number: page.sheet + 1 });
+  }
+}
+
+export function PrintPreviewView({
+  qrCodes,
+  layout,
+  style,
+  cardTextMode,
+  showReferralCode,
+  cutOptions,
+  numberScheme,
+  duplex,
+  template,
+  cardLocale,
+  batchName,
+  isPrinting,
+  onPrint,
+  onBack,
+  t,
+}: PrintPreviewViewProps) {
+  const [pageIndex, setPageIndex] = useState<number>(0);
+  const [showGuides, setShowGuides] = useState<boolean>(true);
+  const [frame, setFrame] = useState<{ width: number; height: number } | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+
+  const qrLookup = useMemo(() => new Map(qrCodes.map(qr => [qr.id, qr])), [qrCodes]);
+  const lastCardNumber = highestCardNumber(qrCodes);
+  const cells = cellsPerPage(layout);
+  const sheetCount = Math.max(1, Math.ceil(lastCardNumber / cells));
+  const pages = printPages(sheetCount, cutOptions.coverPage, duplex.mode);
+  const pageCount = pages.length;
+  const currentPage = Math.min(pageIndex, pageCount - 1);
+  const page = pages[currentPage];
+  // Cut-and-stack leaves the spare cells at the end of the last page; kept
+  // card numbers can leave gaps anywhere
+  const emptyCells = sheetCount * cells - qrCodes.length;
+
+  // Fit the sheet to the available width and most of the window height
+  useEffect(() => {
+    const element = frameRef.current;
+    if (!element) return;
+    const measure = () => setFrame({ width: element.clientWidth, height: window.innerHeight * MAX_VIEWPORT_HEIGHT });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    window.addEventListener('resize', measure);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('resize', measure);
+    };
+  }, []);
+
+  // Arrow keys turn pages unless a form field has focus
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+      if (e.key === 'ArrowLeft') setPageIndex(prev => Math.max(0, Math.min(prev, pageCount - 1) - 1));
+      if (e.key === 'ArrowRight') setPageIndex(prev => Math.min(pageCount - 1, prev + 1));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [pageCount]);
+
+  const pageWidth = layout.paper.width * PX_PER_MM;
+  const pageHeight = layout.paper.height * PX_PER_MM;
+  const scale = frame ? Math.min(frame.width / pageWidth, frame.height / pageHeight) : 0;
+
+  const goToPage = (index: number) => setPageIndex(Math.max(0, Math.min(pageCount - 1, index)));
+
+  return (
+    <motion.div
+      className="min-h-screen"
+      style={{ background: 'var(--background)' }}
+      initial={{ opacity: 0, x: 50 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: -50 }}
+      transition={{ duration: 0.3 }}
+    >
+      <div className="container mx-auto px-6 py-8 max-w-6xl">
+        <motion.button
+          onClick={onBack}
+          className="mb-6 text-sm"
+          style={{ color: 'var(--secondary-text)' }}
+          whileHover={{ x: -3, color: 'var(--accent-blue)' }}
+          transition={{ type: "spring", stiffness: 500, damping: 25 }}
+        >
+          {t('common.backToCodes')}
+        </motion.button>
+
+        <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+          <div>
+            <h2 className="text-2xl font-semibold text-white">{t('preview.title')}</h2>
+            <p className="text-xs mt-1" style={{ color: 'var(--secondary-text)' }}>
+              {layoutName(layout, t)} · {t('preview.pages', { count: pageCount })}
+              {emptyCells > 0 && ` · ${t('preview.emptyCells', { count: emptyCells })}`}
+            </p>
+          </div>
+          <motion.button
+            onClick={onPrint}
+            disabled={isPrinting}
+            className={`btn-primary px-6 py-2 rounded-lg text-sm font-medium ${isPrinting ? 'opacity-50 cursor-wait' : ''}`}
+            whileHover={!isPrinting ? { scale: 1.03, y: -1 } : {}}
+            whileTap={!isPrinting ? { scale: 0.97 } : {}}
+            transition={{ type: "spring", stiffness: 500, damping: 25 }}
+          >
+            {isPrinting ? t('preview.preparing') : t('results.print')}
+          </motion.button>
+        </div>
+
+        <div
+          className="flex flex-wrap items-center justify-between gap-3 p-4 rounded-lg mb-6 text-sm"
+          style={{ background: 'var(--card-background)', border: '1px solid var(--border-color)' }}
+        >
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => goToPage(currentPage - 1)}
+              disabled={currentPage === 0}
+              className={`btn-secondary px-4 py-2 rounded-lg ${currentPage === 0 ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              {t('preview.previous')}
+            </button>
+            <label className="flex items-center gap-2 text-white">
+              {t('preview.page')}
+              <input
+                type="number"
+                min={1}
+                max={pageCount}
+                value={currentPage + 1}
+                onChange={(e) => e.target.value && goToPage(Number(e.target.value) - 1)}
+                className="px-2 py-1 rounded border text-sm w-20"
+              />
+              <span style={{ color: 'var(--secondary-text)' }}>
+                {t('preview.pageOf', { count: pageCount, name: pageName(page, duplex.mode !== 'off', t) })}
+              </span>
+            </label>
+            <button
+              onClick={() => goToPage(currentPage + 1)}
+              disabled={currentPage === pageCount - 1}
+              className={`btn-secondary px-4 py-2 rounded-lg ${currentPage === pageCount - 1 ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              {t('preview.next')}
+            </button>
+          </div>
+          <label className="flex items-center gap-2 text-white cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showGuides}
+              onChange={(e) => setShowGuides(e.target.checked)}
+            />
+            {numberScheme.order === 'cut-and-stack'
+              ? t(cutOptions.safeZone > 0 ? 'preview.showStacksSafe' : 'preview.showStacks')
+              : t(cutOptions.safeZone > 0 ? 'preview.showPiecesSafe' : 'preview.showPieces')}
+          </label>
+        </div>
+
+        <div ref={frameRef} className="flex justify-center">
+          {scale > 0 && (
+            <div
+              className="rounded-sm overflow-hidden"
+              style={{ width: pageWidth * scale, height: pageHeight * scale, boxShadow: '0 8px 24px rgba(0, 0, 0, 0.5)' }}
+            >
+              <div
+                lang={cardLocale}
+                style={{ width: pageWidth, height: pageHeight, transform: `scale(${scale})`, transformOrigin: 'top left' }}
+              >
+                <PrintedPage
+                  page={page}
+                  qrCodes={qrCodes}
+                  qrLookup={qrLookup}
+                  lastCardNumber={lastCardNumber}
+                  layout={layout}
+                  style={style}
+                  cardTextMode={cardTextMode}
+                  showReferralCode={showReferralCode}
+                  cutOptions={cutOptions}
+                  numberScheme={numberScheme}
+                  duplex={duplex}
+                  template={template}
+                  cardLocale={cardLocale}
+                  batchName={batchName}
+                  showGuides={showGuides}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        {showGuides && (
+          <p className="text-xs text-center mt-4" style={{ color: 'var(--secondary-text)' }}>
+            {numberScheme.order === 'cut-and-stack' ? t('preview.cutAndStackHelp') : t('preview.sequentialHelp')}
+          </p>
+        )}
+        {page.kind === 'back' && (
+          <p className="text-xs text-center mt-2" style={{ color: 'var(--secondary-text)' }}>
+            {duplex.mode === 'long-edge' ? t('preview.mirroredLong') : t('preview.mirroredShort')}
+          </p>
+        )}
+      </div>
+
+      <style jsx global>{`
+        .preview-stack {
+          position: absolute;
+          bottom: 4px;
+          right: 4px;
+          padding: 1px 6px;
+          border-radius: 9999px;
+          background: rgba(59, 130, 246, 0.85);
+          color: white;
+          font-size: 11px;
+          font-family: var(--font-inter), Inter, sans-serif;
+          z-index: 2;
+        }
+
+        .preview-safe-zone {
+          position: absolute;
+          border: 1px dashed rgba(59, 130, 246, 0.7);
+          pointer-events: none;
+        }
+
+        .preview-empty {
+          background: repeating-linear-gradient(
+            45deg,
+            #ffffff,
+            #ffffff 6px,
+            #f3f4f6 6px,
+            #f3f4f6 12px
+          );
+        }
+      `}</style>
+    </motion.div>
+  );
+}
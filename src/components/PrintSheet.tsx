@@ -0,0 +1,165 @@
+'use client';
+
+import { QrCanvas } from '@/components/QrCanvas';
+import { TemplateCard } from '@/components/TemplateCard';
+import type { QRCodeData } from '@/lib/types';
+import { SheetLayout, cardForCell, cellOrigin, cellSize, qrSizePx } from '@/lib/layouts';
+import type { QRStyle } from '@/lib/qr-style';
+import { CardTextMode, cardCaption } from '@/lib/labels';
+import { invalidPayloadText } from '@/lib/payloads';
+import { CutOptions, cardInset, cropMarks } from '@/lib/cutting';
+import { NumberScheme, formatCardNumber } from '@/lib/numbering';
+import type { CardTemplate } from '@/lib/card-templates';
+import { Locale, translate } from '@/lib/i18n';
+
+interface PrintSheetProps {
+  pageIndex: number;
+  layout: SheetLayout;
+  // QR data by card number
+  qrLookup: Map<number, QRCodeData>;
+  lastCardNumber: number;
+  style: QRStyle;
+  cardTextMode: CardTextMode;
+  showReferralCode: boolean;
+  cutOptions: CutOptions;
+  numberScheme: NumberScheme;
+  template: CardTemplate;
+  cardLocale: Locale;
+  // Preview only: label each cell with the stack it goes on after cutting and
+  // outline the safe zone
+  showGuides?: boolean;
+}
+
+// One printed page; the print view and the on-screen preview share it so
+// what's previewed is exactly what prints
+export function PrintSheet({
+  pageIndex,
+  layout,
+  qrLookup,
+  lastCardNumber,
+  style,
+  cardTextMode,
+  showReferralCode,
+  cutOptions,
+  numberScheme,
+  template,
+  cardLocale,
+  showGuides = false,
+}: PrintSheetProps) {
+  const qrSize = qrSizePx(layout);
+  const cell = cellSize(layout);
+  const { bleed, safeZone } = cutOptions;
+
+  return (
+    <div className="print-page">
+      {/* Card backgrounds run under the cut line, behind the grid */}
+      {bleed > 0 && Array.from({ length: layout.rows }, (_, rowIndex) =>
+        Array.from({ length: layout.cols }, (_, colIndex) => {
+          const origin = cellOrigin(layout, rowIndex, colIndex);
+          return (
+            <div
+              key={`bleed-${rowIndex}-${colIndex}`}
+              className="print-bleed"
+              style={{
+                left: `${origin.x - bleed}mm`,
+                top: `${origin.y - bleed}mm`,
+                width: `${cell.width + bleed * 2}mm`,
+                height: `${cell.height + bleed * 2}mm`,
+              }}
+            />
+          );
+        })
+      ).flat()}
+      {cutOptions.guides === 'marks' && (
+        <svg
+          className="print-crop-marks"
+          viewBox={`0 0 ${layout.paper.width} ${layout.paper.height}`}
+          aria-hidden="true"
+        >
+          {cropMarks(layout, cutOptions).map((line, index) => (
+            <line key={index} {...line} />
+          ))}
+        </svg>
+      )}
+      <div className="print-grid">
+        {Array.from({ length: layout.rows }, (_, rowIndex) =>
+          Array.from({ length: layout.cols }, (_, colIndex) => {
+            const cellNumber = cardForCell(
+              numberScheme.order,
+              pageIndex,
+              rowIndex,
+              colIndex,
+              layout.rows,
+              layout.cols,
+              lastCardNumber
+            );
+            // Find the QR data for this cell number; numbers freed by a
+            // removed card while numbers were kept have none
+            const qrData = cellNumber === null ? undefined : qrLookup.get(cellNumber);
+            const guides = showGuides && (
+              <>
+                {safeZone > 0 && <div className="preview-safe-zone" style={{ inset: `${cardInset(layout, cutOptions)}mm` }} />}
+                <div className="preview-stack">
+                  {translate(cardLocale, numberScheme.order === 'cut-and-stack' ? 'guide.stack' : 'guide.piece', {
+                    number: rowIndex * layout.cols + colIndex + 1,
+                  })}
+                </div>
+              </>
+            );
+
+            if (!qrData) {
+              // Empty cell - maintain grid structure
+              return (
+                <div key={`${rowIndex}-${colIndex}`} className={`print-qr-item ${showGuides ? 'preview-empty' : ''}`}>
+                  <div className="qr-number"></div>
+                  <div className="qr-placeholder"></div>
+                  <div className="qr-caption"></div>
+                  {guides}
+                </div>
+              );
+            }
+
+            // Saved templates place everything themselves
+            if (!template.builtIn) {
+              return (
+                <div key={`${rowIndex}-${colIndex}`} className="print-qr-item">
+                  <TemplateCard
+                    template={template}
+                    qrData={qrData}
+                    layout={layout}
+                    style={style}
+                    cutOptions={cutOptions}
+                    numberScheme={numberScheme}
+                    cardLocale={cardLocale}
+                  />
+                  {guides}
+                </div>
+              );
+            }
+
+            const caption = cardCaption(qrData, cardTextMode, showReferralCode, cardLocale);
+            return (
+              <div key={`${rowIndex}-${colIndex}`} className="print-qr-item">
+                <div className="qr-number">{formatCardNumber(qrData, numberScheme)}</div>
+                <img src="/LOCKUP_HORIZONTAL_2D_LIGHT.svg" alt="Cursor" className="qr-logo" />
+                {qrData.isValid ? (
+                  <QrCanvas value={qrData.value} style={style} size={qrSize} />
+                ) : (
+                  <div className="qr-error">
+                    {invalidPayloadText(qrData.payload.kind, cardLocale)}
+                  </div>
+                )}
+                <div className="qr-caption">
+                  {caption.code && <div className="qr-referral-code">{caption.code}</div>}
+                  {caption.label && <div className="qr-label">{caption.label}</div>}
+                  {caption.detail && <div className="qr-url">{caption.detail}</div>}
+                </div>
+                {guides}
+              </div>
+            );
+          })
+        ).flat()}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import { PrintSheet } from '@/components/PrintSheet';
+import { BackSheet } from '@/components/BackSheet';
+import { CuttingGuideSheet } from '@/components/CuttingGuideSheet';
+import { AlignmentTestSheet } from '@/components/AlignmentTestSheet';
+import type { QRCodeData } from '@/lib/types';
+import type { SheetLayout } from '@/lib/layouts';
+import type { QRStyle } from '@/lib/qr-style';
+import type { CardTextMode } from '@/lib/labels';
+import { NumberScheme, numberFormatter } from '@/lib/numbering';
+import type { CutOptions } from '@/lib/cutting';
+import type { DuplexOptions, PrintPage } from '@/lib/duplex';
+import type { CardTemplate } from '@/lib/card-templates';
+import type { Locale } from '@/lib/i18n';
+
+interface PrintedPageProps {
+  page: PrintPage;
+  qrCodes: QRCodeData[];
+  qrLookup: Map<number, QRCodeData>;
+  lastCardNumber: number;
+  layout: SheetLayout;
+  style: QRStyle;
+  cardTextMode: CardTextMode;
+  showReferralCode: boolean;
+  cutOptions: CutOptions;
+  numberScheme: NumberScheme;
+  duplex: DuplexOptions;
+  template: CardTemplate;
+  cardLocale: Locale;
+  batchName?: string;
+  showGuides?: boolean;
+}
+
+// Any page of the print run, shared by the print view and the preview
+export function PrintedPage({
+  page,
+  qrCodes,
+  qrLookup,
+  lastCardNumber,
+  layout,
+  style,
+  cardTextMode,
+  showReferralCode,
+  cutOptions,
+  numberScheme,
+  duplex,
+  template,
+  cardLocale,
+  batchName,
+  showGuides,
+}: PrintedPageProps) {
+  switch (page.kind) {
+    case 'cutting-guide':
+      return (
+        <CuttingGuideSheet
+          layout={layout}
+          lastCardNumber={lastCardNumber}
+          cardCount={qrCodes.length}
+          batchName={batchName}
+          cutOptions={cutOptions}
+          order={numberScheme.order}
+          formatNumber={numberFormatter(qrCodes, numberScheme)}
+          cardLocale={cardLocale}
+        />
+      );
+    case 'blank':
+      return <div className="print-page" />;
+    case 'alignment-test':
+      return <AlignmentTestSheet layout={layout} duplex={duplex} side={page.side} cardLocale={cardLocale} />;
+    case 'back':
+      return (
+        <BackSheet
+          pageIndex={page.sheet}
+          layout={layout}
+          qrLookup={qrLookup}
+          lastCardNumber={lastCardNumber}
+          cutOptions={cutOptions}
+          numberScheme={numberScheme}
+          duplex={duplex}
+          cardLocale={cardLocale}
+        />
+      );
+    case 'front':
+      return (
+        <PrintSheet
+          pageIndex={page.sheet}
+          layout={layout}
+          qrLookup={qrLookup}
+          lastCardNumber={lastCardNumber}
+          style={style}
+          cardTextMode={cardTextMode}
+          showReferralCode={showReferralCode}
+          cutOptions={cutOptions}
+          numberScheme={numberScheme}
+          template={template}
+          cardLocale={cardLocale}
+          showGuides={showGuides}
+        />
+      );
+  }
+}
@@ -0,0 +1,321 @@
+'use client';
+
+import { useRef } from 'react';
+import { QrCanvas } from '@/components/QrCanvas';
+import {
+  QRStyle,
+  ModuleStyle,
+  DEFAULT_LOGO,
+  DEFAULT_QR_STYLE,
+  LOGO_MIME_TYPES,
+  MAX_EYE_RADIUS,
+  MAX_LOGO_FILE_SIZE,
+  MAX_LOGO_PADDING,
+  MAX_LOGO_SCALE,
+  MAX_QUIET_ZONE,
+  MIN_LOGO_SCALE,
+  contrastWarning,
+  eyeColorFor,
+  readLogoFile,
+} from '@/lib/qr-style';
+import { SPEC_QUIET_ZONE_MODULES } from '@/lib/qr-render';
+import { EC_LEVELS, scanBudget } from '@/lib/scannability';
+import type { Translate } from '@/lib/i18n';
+
+interface QRStylePanelProps {
+  style: QRStyle;
+  onChange: (style: QRStyle) => void;
+  previewValue: string;
+  onError: (message: string) => void;
+  t: Translate;
+}
+
+const MODULE_STYLES: ModuleStyle[] = ['squares', 'dots', 'fluid'];
+
+const PREVIEW_SIZE = 160;
+
+function ColorField({ label, value, onChange }: { label: string; value: string; onChange: (value: string) => void }) {
+  return (
+    <label className="flex items-center justify-between gap-3 text-sm text-white">
+      <span>{label}</span>
+      <span className="flex items-center gap-2">
+        <span className="text-xs font-mono" style={{ color: 'var(--secondary-text)' }}>{value}</span>
+        <input
+          type="color"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-9 h-9 rounded cursor-pointer bg-transparent"
+        />
+      </span>
+    </label>
+  );
+}
+
+function SliderField({
+  label,
+  value,
+  min,
+  max,
+  step,
+  format,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="flex flex-col gap-1 text-sm text-white">
+      <span className="flex justify-between">
+        {label}
+        <span className="text-xs" style={{ color: 'var(--secondary-text)' }}>{format(value)}</span>
+      </span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+      />
+    </label>
+  );
+}
+
+export function QRStylePanel({ style, onChange, previewValue, onError, t }: QRStylePanelProps) {
+  const logoInputRef = useRef<HTMLInputElement>(null);
+  const warning = contrastWarning(style);
+  const budget = scanBudget(previewValue, style);
+  const logoMode = !style.logo ? 'none' : style.logo.src === DEFAULT_LOGO.src ? 'default' : 'custom';
+
+  const update = (changes: Partial<QRStyle>) => onChange({ ...style, ...changes });
+
+  const updateLogo = (changes: Partial<NonNullable<QRStyle['logo']>>) => {
+    if (style.logo) update({ logo: { ...style.logo, ...changes } });
+  };
+
+  const handleLogoFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!LOGO_MIME_TYPES.includes(file.type)) {
+      onError(t('style.logoType'));
+      return;
+    }
+    if (file.size > MAX_LOGO_FILE_SIZE) {
+      onError(t('style.logoTooLarge'));
+      return;
+    }
+
+    try {
+      const { src, aspectRatio } = await readLogoFile(file);
+      update({ logo: { ...(style.logo ?? DEFAULT_LOGO), src, aspectRatio } });
+    } catch (error) {
+      console.error('Logo upload error:', error);
+      onError(t('style.logoUnreadable'));
+    }
+  };
+
+  return (
+    <div
+      className="grid gap-6 md:grid-cols-[auto_1fr] p-4 rounded-lg"
+      style={{ background: 'var(--card-background)', border: '1px solid var(--border-color)' }}
+    >
+      <div className="flex flex-col items-center gap-3">
+        <div className="rounded overflow-hidden">
+          <QrCanvas value={previewValue} style={style} size={PREVIEW_SIZE} />
+        </div>
+        <span className="text-xs text-center" style={{ color: 'var(--secondary-text)' }}>
+          {t('style.previewInfo', { version: budget.version })}
+          <br />
+          {t('style.moduleCount', { size: budget.moduleCount })}
+        </span>
+        <button
+          onClick={() => onChange(DEFAULT_QR_STYLE)}
+          className="btn-secondary px-4 py-1 rounded text-xs"
+        >
+          {t('style.reset')}
+        </button>
+      </div>
+
+      <div className="grid gap-5 sm:grid-cols-2">
+        <div className="space-y-3">
+          <ColorField label={t('style.foreground')} value={style.fgColor} onChange={(fgColor) => update({ fgColor })} />
+          <ColorField label={t('style.background')} value={style.bgColor} onChange={(bgColor) => update({ bgColor })} />
+
+          <div className="space-y-1">
+            <span className="text-sm text-white">{t('style.modules')}</span>
+            <div className="flex gap-2" role="radiogroup" aria-label={t('style.moduleStyle')}>
+              {MODULE_STYLES.map(value => (
+                <button
+                  key={value}
+                  role="radio"
+                  aria-checked={style.moduleStyle === value}
+                  onClick={() => update({ moduleStyle: value })}
+                  className={`flex-1 px-3 py-1 rounded text-xs ${style.moduleStyle === value ? 'btn-primary' : 'btn-secondary'}`}
+                >
+                  {t(`style.moduleStyle.${value}`)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <SliderField
+            label={t('style.eyeRadius')}
+            value={style.eyeRadius}
+            min={0}
+            max={MAX_EYE_RADIUS}
+            step={0.5}
+            format={(value) => (value === 0 ? t('style.square') : t('style.modulesValue', { count: value }))}
+            onChange={(eyeRadius) => update({ eyeRadius })}
+          />
+
+          <label className="flex items-center gap-2 text-sm text-white">
+            <input
+              type="checkbox"
+              checked={style.eyeColor === null}
+              onChange={(e) => update({ eyeColor: e.target.checked ? null : eyeColorFor(style) })}
+            />
+            {t('style.eyesMatch')}
+          </label>
+          {style.eyeColor !== null && (
+            <ColorField label={t('style.eyeColor')} value={style.eyeColor} onChange={(eyeColor) => update({ eyeColor })} />
+          )}
+
+          <div className="space-y-1">
+            <span className="text-sm text-white">{t('style.errorCorrection')}</span>
+            <div className="flex gap-2" role="radiogroup" aria-label={t('style.errorCorrectionLevel')}>
+              {EC_LEVELS.map(({ level, recovery }) => (
+                <button
+                  key={level}
+                  role="radio"
+                  aria-checked={style.ecLevel === level}
+                  onClick={() => update({ ecLevel: level })}
+                  title={t('style.ecLevelHint', { name: t(`style.ecLevel.${level}`), percent: Math.round(recovery * 100) })}
+                  className={`flex-1 px-2 py-1 rounded text-xs ${style.ecLevel === level ? 'btn-primary' : 'btn-secondary'}`}
+                >
+                  {level} · {Math.round(recovery * 100)}%
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <SliderField
+            label={t('style.quietZone')}
+            value={style.quietZone}
+            min={0}
+            max={MAX_QUIET_ZONE}
+            step={1}
+            format={(value) => {
+              const modules = t('style.modulesValue', { count: value });
+              return value === SPEC_QUIET_ZONE_MODULES ? t('style.modulesSpec', { modules }) : modules;
+            }}
+            onChange={(quietZone) => update({ quietZone })}
+          />
+        </div>
+
+        <div className="space-y-3">
+          <label className="flex flex-col gap-1 text-sm text-white">
+            {t('style.logo')}
+            <select
+              value={logoMode}
+              onChange={(e) => {
+                if (e.target.value === 'none') update({ logo: null });
+                else if (e.target.value === 'default') update({ logo: { ...(style.logo ?? DEFAULT_LOGO), src: DEFAULT_LOGO.src, aspectRatio: DEFAULT_LOGO.aspectRatio } });
+                else logoInputRef.current?.click();
+              }}
+              className="px-2 py-1 rounded border text-sm"
+            >
+              <option value="default">{t('style.logoDefault')}</option>
+              <option value="custom">{t('style.logoCustom')}</option>
+              <option value="none">{t('style.logoNone')}</option>
+            </select>
+          </label>
+          <input
+            ref={logoInputRef}
+            type="file"
+            accept={LOGO_MIME_TYPES.join(',')}
+            onChange={handleLogoFile}
+            className="hidden"
+          />
+          {logoMode === 'custom' && (
+            <button onClick={() => logoInputRef.current?.click()} className="btn-secondary px-3 py-1 rounded text-xs">
+              {t('style.logoReplace')}
+            </button>
+          )}
+
+          {style.logo && (
+            <>
+              <SliderField
+                label={t('style.logoSize')}
+                value={style.logo.scale}
+                min={MIN_LOGO_SCALE}
+                max={MAX_LOGO_SCALE}
+                step={0.01}
+                format={(value) => t('style.logoSizeValue', { percent: Math.round(value * 100) })}
+                onChange={(scale) => updateLogo({ scale })}
+              />
+              <SliderField
+                label={t('style.logoPadding')}
+                value={style.logo.padding}
+                min={0}
+                max={MAX_LOGO_PADDING}
+                step={0.005}
+                format={(value) => `${(value * 100).toFixed(1)}%`}
+                onChange={(padding) => updateLogo({ padding })}
+              />
+              <label className="flex items-center justify-between text-sm text-white">
+                {t('style.paddingShape')}
+                <select
+                  value={style.logo.paddingStyle}
+                  onChange={(e) => updateLogo({ paddingStyle: e.target.value as 'square' | 'circle' })}
+                  className="px-2 py-1 rounded border text-sm"
+                >
+                  <option value="square">{t('style.paddingSquare')}</option>
+                  <option value="circle">{t('style.paddingCircle')}</option>
+                </select>
+              </label>
+            </>
+          )}
+        </div>
+
+        {style.logo && (
+          <p className="sm:col-span-2 text-xs" style={{ color: 'var(--secondary-text)' }}>
+            {t('style.logoCoverage', {
+              coverage: Math.round(budget.coverage * 100),
+              level: style.ecLevel,
+              recovery: Math.round(budget.recovery * 100),
+            })}
+          </p>
+        )}
+
+        {budget.message && (
+          <p
+            className="sm:col-span-2 text-xs px-3 py-2 rounded"
+            style={
+              budget.risk === 'block'
+                ? { backgroundColor: 'rgba(239, 68, 68, 0.2)', color: '#f87171' }
+                : { backgroundColor: 'rgba(245, 158, 11, 0.2)', color: '#f59e0b' }
+            }
+          >
+            {budget.risk === 'block' ? '⛔' : '⚠️'} {t(budget.message.key, budget.message.params)}
+          </p>
+        )}
+
+        {warning && (
+          <p
+            className="sm:col-span-2 text-xs px-3 py-2 rounded"
+            style={{ backgroundColor: 'rgba(245, 158, 11, 0.2)', color: '#f59e0b' }}
+          >
+            ⚠️ {t(warning.key, warning.params)}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
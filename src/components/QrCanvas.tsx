@@ -0,0 +1,50 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { QRStyle, quietZoneSize } from '@/lib/qr-style';
+import { drawQrCode, loadImage, qrCanvasSize } from '@/lib/qr-render';
+
+interface QrCanvasProps {
+  value: string;
+  style: QRStyle;
+  // Symbol width in CSS pixels, quiet zone excluded
+  size: number;
+}
+
+// Draws with the same renderer that exports and decode verification use, so a
+// code that passes verification is the code that ends up on screen and paper
+export function QrCanvas({ value, style, size }: QrCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const quietZone = quietZoneSize(style, value, size);
+  const side = qrCanvasSize(size, quietZone);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    let cancelled = false;
+
+    const draw = (logoImage: CanvasImageSource | null) => {
+      // Render at device resolution so codes stay sharp on high-DPI screens and in print
+      const scale = window.devicePixelRatio || 1;
+      canvas.width = canvas.height = Math.round(side * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.scale(scale, scale);
+      drawQrCode(ctx, value, style, size, quietZone, logoImage);
+    };
+
+    draw(null);
+    if (style.logo) {
+      loadImage(style.logo.src)
+        .then(image => {
+          if (!cancelled) draw(image);
+        })
+        .catch(error => console.error('QR logo error:', error));
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [value, style, size, quietZone, side]);
+
+  return <canvas ref={canvasRef} width={side} height={side} style={{ width: side, height: side }} />;
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { QrCanvas } from '@/components/QrCanvas';
+import type { QRCodeData } from '@/lib/types';
+import { SheetLayout, PX_PER_MM } from '@/lib/layouts';
+import type { QRStyle } from '@/lib/qr-style';
+import type { CutOptions } from '@/lib/cutting';
+import type { NumberScheme } from '@/lib/numbering';
+import { invalidPayloadText } from '@/lib/payloads';
+import { Locale, withLocaleFonts } from '@/lib/i18n';
+import {
+  CardTemplate,
+  blockFontSize,
+  blockWidth,
+  cardArea,
+  fontFor,
+  headerSize,
+  placeBox,
+  templateQrSize,
+  templateTexts,
+} from '@/lib/card-templates';
+
+interface TemplateCardProps {
+  template: CardTemplate;
+  qrData: QRCodeData;
+  layout: SheetLayout;
+  style: QRStyle;
+  cutOptions: CutOptions;
+  numberScheme: NumberScheme;
+  cardLocale: Locale;
+}
+
+const VALIGN_SHIFT = { top: '0', middle: '-50%', bottom: '-100%' };
+
+// The contents of one card laid out by a saved template. Everything is
+// positioned in millimetres from the card's corner, like the PDF
+export function TemplateCard({ template, qrData, layout, style, cutOptions, numberScheme, cardLocale }: TemplateCardProps) {
+  const area = cardArea(layout, cutOptions);
+  const qrSize = templateQrSize(template, layout);
+  const qrCentre = placeBox({ x: template.qr.x, y: template.qr.y, align: 'left', valign: 'top' }, 0, 0, area);
+  const header = template.header;
+  const headerBox = header && headerSize(header, layout);
+  const headerOrigin = header && headerBox && placeBox(header, headerBox.width, headerBox.height, area);
+
+  return (
+    <>
+      {header && headerBox && headerOrigin && (
+        <img
+          src={header.src}
+          alt=""
+          className="template-header"
+          style={{
+            left: `${headerOrigin.x}mm`,
+            top: `${headerOrigin.y}mm`,
+            width: `${headerBox.width}mm`,
+            height: `${headerBox.height}mm`,
+          }}
+        />
+      )}
+      <div
+        className="template-qr"
+        style={{ left: `${qrCentre.x}mm`, top: `${qrCentre.y}mm` }}
+      >
+        {qrData.isValid ? (
+          <QrCanvas value={qrData.value} style={style} size={Math.floor(qrSize * PX_PER_MM)} />
+        ) : (
+          <div className="qr-error" style={{ width: `${qrSize}mm`, height: `${qrSize}mm`, margin: 0 }}>
+            {invalidPayloadText(qrData.payload.kind, cardLocale)}
+          </div>
+        )}
+      </div>
+      {templateTexts(template, qrData, numberScheme, cardLocale).map(({ block, text }) => {
+        const width = blockWidth(block, area);
+        const origin = placeBox(block, width, 0, area);
+        return (
+          <div
+            key={block.id}
+            className="template-text"
+            style={{
+              left: `${origin.x}mm`,
+              top: `${origin.y}mm`,
+              width: `${width}mm`,
+              transform: `translateY(${VALIGN_SHIFT[block.valign]})`,
+              textAlign: block.align,
+              fontFamily: withLocaleFonts(fontFor(block.font).css, cardLocale),
+              fontSize: `${blockFontSize(block, layout)}px`,
+              fontWeight: block.bold ? 700 : 400,
+            }}
+          >
+            {text}
+          </div>
+        );
+      })}
+    </>
+  );
+}
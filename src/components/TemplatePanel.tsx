@@ -0,0 +1,386 @@
+'use client';
+
+import { useRef } from 'react';
+import { NumberField } from '@/components/LayoutPicker';
+import { TemplateCard } from '@/components/TemplateCard';
+import type { QRCodeData } from '@/lib/types';
+import { SheetLayout, PX_PER_MM, cellSize, layoutName } from '@/lib/layouts';
+import { QRStyle, LOGO_MIME_TYPES, MAX_LOGO_FILE_SIZE, readLogoFile } from '@/lib/qr-style';
+import type { CutOptions } from '@/lib/cutting';
+import type { NumberScheme } from '@/lib/numbering';
+import { CARD_PLACEHOLDERS } from '@/lib/labels';
+import type { Locale, Translate } from '@/lib/i18n';
+import {
+  CardTemplate,
+  CURSOR_HEADER,
+  HORIZONTAL_ALIGNS,
+  MAX_BLOCKS,
+  Placement,
+  TEMPLATE_FONTS,
+  TemplateFont,
+  TextBlock,
+  VERTICAL_ALIGNS,
+  HorizontalAlign,
+  VerticalAlign,
+  newTemplate,
+  templateName,
+  newTextBlock,
+  validateCardTemplate,
+} from '@/lib/card-templates';
+
+interface TemplatePanelProps {
+  templates: CardTemplate[];
+  selectedId: string;
+  // The first card, shown in the live preview
+  previewCard?: QRCodeData;
+  layout: SheetLayout;
+  style: QRStyle;
+  cutOptions: CutOptions;
+  numberScheme: NumberScheme;
+  cardLocale: Locale;
+  onSelect: (id: string) => void;
+  onSave: (template: CardTemplate) => void;
+  onDelete: (id: string) => void;
+  onError: (message: string) => void;
+  t: Translate;
+}
+
+// Longest side of the preview card, in pixels
+const PREVIEW_SIZE = 220;
+
+export function TemplatePanel({
+  templates,
+  selectedId,
+  previewCard,
+  layout,
+  style,
+  cutOptions,
+  numberScheme,
+  cardLocale,
+  onSelect,
+  onSave,
+  onDelete,
+  onError,
+  t,
+}: TemplatePanelProps) {
+  const template = templates.find(entry => entry.id === selectedId) ?? templates[0];
+  const error = template.builtIn ? null : validateCardTemplate(template, layout, cutOptions);
+
+  const addTemplate = (from?: CardTemplate) => {
+    const created = newTemplate(from ? t('template.copyName', { name: templateName(from, t) }) : t('template.newName'), from);
+    onSave(created);
+    onSelect(created.id);
+  };
+
+  const cell = cellSize(layout);
+  const previewScale = PREVIEW_SIZE / (Math.max(cell.width, cell.height) * PX_PER_MM);
+
+  return (
+    <div
+      className="p-4 rounded-lg space-y-4 text-sm"
+      style={{ background: 'var(--card-background)', border: '1px solid var(--border-color)' }}
+    >
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-white">
+          {t('template.select')}
+          <select
+            value={template.id}
+            onChange={(e) => onSelect(e.target.value)}
+            className="px-3 py-2 rounded-lg border text-sm"
+          >
+            {templates.map(entry => (
+              <option key={entry.id} value={entry.id}>{templateName(entry, t)}</option>
+            ))}
+          </select>
+        </label>
+        <button onClick={() => addTemplate()} className="btn-secondary px-4 py-2 rounded-lg text-xs">
+          {t('template.new')}
+        </button>
+        <button onClick={() => addTemplate(template)} className="btn-secondary px-4 py-2 rounded-lg text-xs">
+          {t('template.duplicate')}
+        </button>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-[auto_1fr]">
+        {previewCard && !template.builtIn && (
+          <div className="flex flex-col items-center gap-2">
+            <div
+              className="rounded-sm overflow-hidden"
+              style={{ width: cell.width * PX_PER_MM * previewScale, height: cell.height * PX_PER_MM * previewScale }}
+            >
+              <div
+                className="print-qr-item"
+                lang={cardLocale}
+                style={{ width: `${cell.width}mm`, height: `${cell.height}mm`, transform: `scale(${previewScale})`, transformOrigin: 'top left' }}
+              >
+                <TemplateCard
+                  template={template}
+                  qrData={previewCard}
+                  layout={layout}
+                  style={style}
+                  cutOptions={cutOptions}
+                  numberScheme={numberScheme}
+                  cardLocale={cardLocale}
+                />
+              </div>
+            </div>
+            <span className="text-xs" style={{ color: 'var(--secondary-text)' }}>
+              {t('template.preview', { layout: layoutName(layout, t) })}
+            </span>
+          </div>
+        )}
+
+        {template.builtIn ? (
+          <div className="space-y-1" style={{ color: 'var(--secondary-text)' }}>
+            <p>{t('template.classicAbout')}</p>
+            <p className="text-xs">{t('template.builtInHint')}</p>
+          </div>
+        ) : (
+          <TemplateEditor template={template} onSave={onSave} onDelete={onDelete} onError={onError} t={t} />
+        )}
+      </div>
+
+      {error && (
+        <p className="text-xs px-3 py-2 rounded" style={{ backgroundColor: 'rgba(220, 38, 38, 0.15)', color: '#f87171' }}>
+          {t(error.key, error.params)}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function PlacementFields({
+  placement,
+  onChange,
+  t,
+}: {
+  placement: Placement;
+  onChange: (changes: Partial<Placement>) => void;
+  t: Translate;
+}) {
+  return (
+    <>
+      <NumberField label={t('template.across')} suffix="%" value={placement.x} onChange={(x) => onChange({ x })} />
+      <NumberField label={t('template.down')} suffix="%" value={placement.y} onChange={(y) => onChange({ y })} />
+      <label className="flex flex-col gap-1 text-xs" style={{ color: 'var(--secondary-text)' }}>
+        <span>{t('template.align')}</span>
+        <select
+          value={placement.align}
+          onChange={(e) => onChange({ align: e.target.value as HorizontalAlign })}
+          className="px-2 py-1 rounded border text-sm"
+        >
+          {HORIZONTAL_ALIGNS.map(({ value }) => (
+            <option key={value} value={value}>{t(`template.align.${value}`)}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1 text-xs" style={{ color: 'var(--secondary-text)' }}>
+        <span>{t('template.valign')}</span>
+        <select
+          value={placement.valign}
+          onChange={(e) => onChange({ valign: e.target.value as VerticalAlign })}
+          className="px-2 py-1 rounded border text-sm"
+        >
+          {VERTICAL_ALIGNS.map(({ value }) => (
+            <option key={value} value={value}>{t(`template.align.${value}`)}</option>
+          ))}
+        </select>
+      </label>
+    </>
+  );
+}
+
+interface TemplateEditorProps {
+  template: CardTemplate;
+  onSave: (template: CardTemplate) => void;
+  onDelete: (id: string) => void;
+  onError: (message: string) => void;
+  t: Translate;
+}
+
+function TemplateEditor({ template, onSave, onDelete, onError, t }: TemplateEditorProps) {
+  const headerInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (changes: Partial<CardTemplate>) => onSave({ ...template, ...changes });
+
+  const updateBlock = (id: string, changes: Partial<TextBlock>) =>
+    update({ blocks: template.blocks.map(block => (block.id === id ? { ...block, ...changes } : block)) });
+
+  const headerMode = !template.header ? 'none' : template.header.src === CURSOR_HEADER.src ? 'cursor' : 'custom';
+
+  const handleHeaderFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!LOGO_MIME_TYPES.includes(file.type)) {
+      onError(t('template.headerType'));
+      return;
+    }
+    if (file.size > MAX_LOGO_FILE_SIZE) {
+      onError(t('template.headerTooLarge'));
+      return;
+    }
+
+    try {
+      const { src, aspectRatio } = await readLogoFile(file);
+      update({ header: { ...(template.header ?? CURSOR_HEADER), src, aspectRatio } });
+    } catch (error) {
+      console.error('Header image upload error:', error);
+      onError(t('template.headerUnreadable'));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="flex flex-col gap-1 text-white max-w-sm">
+        {t('template.name')}
+        <input
+          type="text"
+          value={template.name}
+          onChange={(e) => update({ name: e.target.value })}
+          className="px-3 py-2 rounded-lg border text-sm"
+        />
+      </label>
+
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-3 text-white">
+          <span>{t('template.header')}</span>
+          <select
+            value={headerMode}
+            onChange={(e) => {
+              if (e.target.value === 'none') update({ header: null });
+              else if (e.target.value === 'cursor') update({ header: { ...(template.header ?? CURSOR_HEADER), src: CURSOR_HEADER.src, aspectRatio: CURSOR_HEADER.aspectRatio } });
+              else headerInputRef.current?.click();
+            }}
+            className="px-2 py-1 rounded border text-sm"
+          >
+            <option value="none">{t('template.headerNone')}</option>
+            <option value="cursor">{t('template.headerCursor')}</option>
+            <option value="custom">{t('template.headerCustom')}</option>
+          </select>
+          <input
+            ref={headerInputRef}
+            type="file"
+            accept={LOGO_MIME_TYPES.join(',')}
+            onChange={handleHeaderFile}
+            className="hidden"
+          />
+          {headerMode === 'custom' && (
+            <button onClick={() => headerInputRef.current?.click()} className="btn-secondary px-3 py-1 rounded text-xs">
+              {t('template.headerReplace')}
+            </button>
+          )}
+        </div>
+        {template.header && (
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+            <PlacementFields
+              placement={template.header}
+              onChange={(changes) => template.header && update({ header: { ...template.header, ...changes } })}
+              t={t}
+            />
+            <NumberField
+              label={t('template.width')}
+              suffix="px"
+              value={template.header.width}
+              onChange={(width) => template.header && update({ header: { ...template.header, width } })}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <span className="text-white">{t('template.qrCentre')}</span>
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+          <NumberField label={t('template.across')} suffix="%" value={template.qr.x} onChange={(x) => update({ qr: { ...template.qr, x } })} />
+          <NumberField label={t('template.down')} suffix="%" value={template.qr.y} onChange={(y) => update({ qr: { ...template.qr, y } })} />
+          <NumberField
+            label={t('template.size')}
+            suffix={t('template.percentOfClassic')}
+            step={5}
+            value={template.qr.scale}
+            onChange={(scale) => update({ qr: { ...template.qr, scale } })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-baseline justify-between gap-2">
+          <span className="text-white">{t('template.blocks')}</span>
+          <span className="text-xs" style={{ color: 'var(--secondary-text)' }}>
+            {CARD_PLACEHOLDERS.map(({ token, description }) => `${token} ${t(description)}`).join(' · ')}
+          </span>
+        </div>
+        {template.blocks.map((block, index) => (
+          <div key={block.id} className="space-y-2 p-3 rounded" style={{ border: '1px solid var(--border-color)' }}>
+            <div className="flex items-start gap-2">
+              <textarea
+                value={block.text}
+                rows={2}
+                aria-label={t('template.block', { number: index + 1 })}
+                onChange={(e) => updateBlock(block.id, { text: e.target.value })}
+                className="flex-1 px-2 py-1 rounded border text-sm resize-y"
+              />
+              <button
+                onClick={() => update({ blocks: template.blocks.filter(entry => entry.id !== block.id) })}
+                className="btn-secondary px-3 py-1 rounded text-xs"
+                style={{ color: '#f87171' }}
+              >
+                {t('template.remove')}
+              </button>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-8 gap-3 items-end">
+              <PlacementFields placement={block} onChange={(changes) => updateBlock(block.id, changes)} t={t} />
+              <NumberField label={t('template.width')} suffix="%" value={block.width} onChange={(width) => updateBlock(block.id, { width })} />
+              <label className="flex flex-col gap-1 text-xs" style={{ color: 'var(--secondary-text)' }}>
+                <span>{t('template.font')}</span>
+                <select
+                  value={block.font}
+                  onChange={(e) => updateBlock(block.id, { font: e.target.value as TemplateFont })}
+                  className="px-2 py-1 rounded border text-sm"
+                >
+                  {TEMPLATE_FONTS.map(({ value }) => (
+                    <option key={value} value={value}>{t(`template.font.${value}`)}</option>
+                  ))}
+                </select>
+              </label>
+              <NumberField label={t('template.size')} suffix="px" value={block.fontSize} onChange={(fontSize) => updateBlock(block.id, { fontSize })} />
+              <label className="flex items-center gap-2 text-white pb-1">
+                <input
+                  type="checkbox"
+                  checked={block.bold}
+                  onChange={(e) => updateBlock(block.id, { bold: e.target.checked })}
+                />
+                {t('template.bold')}
+              </label>
+            </div>
+          </div>
+        ))}
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          {template.blocks.length < MAX_BLOCKS ? (
+            <button
+              onClick={() => update({ blocks: [...template.blocks, newTextBlock()] })}
+              className="btn-secondary px-3 py-1 rounded text-xs"
+            >
+              {t('template.addBlock')}
+            </button>
+          ) : (
+            <span className="text-xs" style={{ color: 'var(--secondary-text)' }}>
+              {t('template.maxBlocks', { count: MAX_BLOCKS })}
+            </span>
+          )}
+          <button
+            onClick={() => onDelete(template.id)}
+            className="btn-secondary px-3 py-1 rounded text-xs"
+            style={{ color: '#f87171' }}
+          >
+            {t('template.delete')}
+          </button>
+        </div>
+        <p className="text-xs" style={{ color: 'var(--secondary-text)' }}>
+          {t('template.help', { setting: t('toolbar.cardText'), classic: t('template.classic') })}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -9,10 +9,11 @@ interface ToastProps {
   message: string;
   type: ToastType;
   onClose: () => void;
+  closeLabel?: string;
   duration?: number;
 }
 
-export function Toast({ message, type, onClose, duration = 5000 }: ToastProps) {
+export function Toast({ message, type, onClose, closeLabel = 'Close notification', duration = 5000 }: ToastProps) {
   useEffect(() => {
     const timer = setTimeout(() => {
       onClose();
@@ -60,12 +61,14 @@ export function Toast({ message, type, onClose, duration = 5000 }: ToastProps) {
       transition={{ type: 'spring', stiffness: 500, damping: 25 }}
       style={{
         background: colors.bg,
-        borderLeft: `4px solid ${colors.border}`,
+        borderInlineStart: `4px solid ${colors.border}`,
       }}
-      className="fixed top-4 right-4 z-[9999] max-w-md rounded-lg shadow-2xl backdrop-blur-sm"
+      className="fixed top-4 end-4 z-[9999] max-w-md rounded-lg shadow-2xl backdrop-blur-sm"
+      // Errors interrupt the screen reader; everything else waits its turn
+      role={type === 'error' ? 'alert' : 'status'}
     >
       <div className="flex items-start gap-3 p-4">
-        <span className="text-xl flex-shrink-0">{colors.icon}</span>
+        <span className="text-xl flex-shrink-0" aria-hidden="true">{colors.icon}</span>
         <div className="flex-1 min-w-0">
           <p className="text-white text-sm font-medium leading-relaxed break-words">
             {message}
@@ -74,9 +77,9 @@ export function Toast({ message, type, onClose, duration = 5000 }: ToastProps) {
         <button
           onClick={onClose}
           className="flex-shrink-0 text-white hover:text-gray-200 transition-colors"
-          aria-label="Close notification"
+          aria-label={closeLabel}
         >
-          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20" aria-hidden="true">
             <path
               fillRule="evenodd"
               d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z"
@@ -91,7 +94,8 @@ export function Toast({ message, type, onClose, duration = 5000 }: ToastProps) {
         animate={{ width: '0%' }}
         transition={{ duration: duration / 1000, ease: 'linear' }}
         style={{ background: colors.border }}
-        className="h-1 rounded-bl-lg"
+        className="h-1 rounded-es-lg"
+        aria-hidden="true"
       />
     </motion.div>
   );
@@ -100,12 +104,15 @@ export function Toast({ message, type, onClose, duration = 5000 }: ToastProps) {
 interface ToastContainerProps {
   toasts: Array<{ id: string; message: string; type: ToastType }>;
   onRemove: (id: string) => void;
+  closeLabel?: string;
+  regionLabel?: string;
 }
 
-export function ToastContainer({ toasts, onRemove }: ToastContainerProps) {
+export function ToastContainer({ toasts, onRemove, closeLabel, regionLabel = 'Notifications' }: ToastContainerProps) {
+  // The live region stays mounted so screen readers pick up toasts as they arrive
   return (
-    <div className="fixed top-0 right-0 p-4 z-[9999] pointer-events-none">
-      <div className="flex flex-col gap-2 pointer-events-auto">
+    <div className="fixed top-0 end-0 p-4 z-[9999] pointer-events-none" role="region" aria-label={regionLabel}>
+      <div className="flex flex-col gap-2 pointer-events-auto" aria-live="polite">
         <AnimatePresence mode="popLayout">
           {toasts.map((toast) => (
             <Toast
@@ -113,6 +120,7 @@ export function ToastContainer({ toasts, onRemove }: ToastContainerProps) {
               message={toast.message}
               type={toast.type}
               onClose={() => onRemove(toast.id)}
+              closeLabel={closeLabel}
             />
           ))}
         </AnimatePresence>
@@ -0,0 +1,357 @@
+'use client';
+
+import { ReactNode, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useWindowVirtualizer } from '@tanstack/react-virtual';
+import type { ToastType } from '@/components/Toast';
+import type { QRCodeData } from '@/lib/types';
+import {
+  HandoutStatus,
+  LedgerEntry,
+  HANDOUT_STATUSES,
+  contentKey,
+  emptyLedgerEntry,
+  ledgerCsv,
+  loadLedger,
+  parseNumberRange,
+  saveLedgerEntries,
+} from '@/lib/ledger';
+import { describePayload } from '@/lib/payloads';
+import { NumberScheme, formatCardNumber, idsByNumber } from '@/lib/numbering';
+import { downloadBlob, fileDateStamp } from '@/lib/download';
+import { sanitizeUrlForDisplay } from '@/lib/url-validation';
+import type { Locale, Translate } from '@/lib/i18n';
+
+interface TrackerViewProps {
+  qrCodes: QRCodeData[];
+  // Saved batch the ledger belongs to
+  batchId: string | null;
+  numberScheme: NumberScheme;
+  onBack: () => void;
+  onToast: (message: string, type: ToastType) => void;
+  locale: Locale;
+  t: Translate;
+}
+
+// A row with a label line; real rows are measured once rendered
+const ESTIMATED_ROW_HEIGHT = 58;
+const OVERSCAN_ROWS = 10;
+
+interface TrackerRowsProps {
+  codes: QRCodeData[];
+  // Put `measure` on the row's <tr> along with data-index={index}
+  renderRow: (qr: QRCodeData, index: number, measure: (row: HTMLTableRowElement | null) => void) => ReactNode;
+}
+
+// Table body that only mounts the rows near the viewport, padded above and
+// below so the page scrolls as if every row were there
+function TrackerRows({ codes, renderRow }: TrackerRowsProps) {
+  const bodyRef = useRef<HTMLTableSectionElement>(null);
+  const [scrollMargin, setScrollMargin] = useState<number>(0);
+
+  // The bulk panel above can wrap onto more lines, moving where the rows start
+  useLayoutEffect(() => {
+    const body = bodyRef.current;
+    if (!body) return;
+    const update = () => setScrollMargin(body.getBoundingClientRect().top + window.scrollY);
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(document.body);
+    return () => observer.disconnect();
+  }, []);
+
+  const virtualizer = useWindowVirtualizer({
+    count: codes.length,
+    estimateSize: () => ESTIMATED_ROW_HEIGHT,
+    overscan: OVERSCAN_ROWS,
+    scrollMargin,
+    getItemKey: index => codes[index].id,
+  });
+
+  const rows = virtualizer.getVirtualItems();
+  const before = rows.length > 0 ? rows[0].start - scrollMargin : 0;
+  const after = rows.length > 0 ? virtualizer.getTotalSize() - (rows[rows.length - 1].end - scrollMargin) : 0;
+
+  return (
+    <tbody ref={bodyRef}>
+      {before > 0 && <tr aria-hidden="true" style={{ height: before }} />}
+      {rows.map(row => renderRow(codes[row.index], row.index, virtualizer.measureElement))}
+      {after > 0 && <tr aria-hidden="true" style={{ height: after }} />}
+    </tbody>
+  );
+}
+
+export function TrackerView({ qrCodes, batchId, numberScheme, onBack, onToast, locale, t }: TrackerViewProps) {
+  // The content hash finds ledgers kept before batches were saved, and stands in
+  // for a batch that couldn't be saved
+  const legacyKey = useMemo(() => contentKey(qrCodes), [qrCodes]);
+  const key = batchId ?? legacyKey;
+  const [ledger, setLedger] = useState<Map<number, LedgerEntry> | null>(null);
+  const [range, setRange] = useState<string>('');
+  const [bulkStatus, setBulkStatus] = useState<HandoutStatus>('handed-out');
+  const [bulkRecipient, setBulkRecipient] = useState<string>('');
+  const [statusFilter, setStatusFilter] = useState<HandoutStatus | 'all'>('all');
+
+  useEffect(() => {
+    let cancelled = false;
+    loadLedger(key, legacyKey)
+      .then(entries => !cancelled && setLedger(entries))
+      .catch(error => {
+        console.error('Ledger load error:', error);
+        onToast(t('tracker.openFailed'), 'error');
+        if (!cancelled) setLedger(new Map());
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [key, legacyKey, onToast, t]);
+
+  const entryFor = (id: number) => ledger?.get(id) ?? emptyLedgerEntry(key, id);
+
+  const persist = async (entries: LedgerEntry[]) => {
+    try {
+      await saveLedgerEntries(entries);
+    } catch (error) {
+      console.error('Ledger save error:', error);
+      onToast(t('tracker.saveFailed'), 'error');
+    }
+  };
+
+  // Text fields update on every keystroke and save when they lose focus
+  const updateEntry = (id: number, changes: Partial<LedgerEntry>, save: boolean) => {
+    const entry = { ...entryFor(id), ...changes, updatedAt: new Date().toISOString() };
+    setLedger(prev => new Map(prev).set(id, entry));
+    if (save) persist([entry]);
+  };
+
+  const applyBulk = () => {
+    // Ranges use the numbers printed on the cards, which may not start at 1
+    const ids = idsByNumber(qrCodes, numberScheme);
+    const printed = [...ids.keys()];
+    const lowest = printed.reduce((min, n) => Math.min(min, n), Infinity);
+    const highest = printed.reduce((max, n) => Math.max(max, n), 0);
+    const numbers = printed.length > 0 ? parseNumberRange(range, lowest, highest) : null;
+    if (!numbers) {
+      onToast(
+        printed.length > 0
+          ? t('tracker.rangeHint', { example: `${lowest}-${Math.min(highest, lowest + 19)}`, lowest, highest })
+          : t('tracker.noPlainNumbers'),
+        'error'
+      );
+      return;
+    }
+    const matched = numbers.map(n => ids.get(n)).filter((id): id is number => id !== undefined);
+    if (matched.length === 0) {
+      onToast(t('tracker.noMatch'), 'error');
+      return;
+    }
+
+    const updatedAt = new Date().toISOString();
+    const recipient = bulkRecipient.trim();
+    const entries = matched.map(id => ({
+      ...entryFor(id),
+      status: bulkStatus,
+      ...(recipient ? { recipient } : {}),
+      updatedAt,
+    }));
+    setLedger(prev => {
+      const next = new Map(prev);
+      for (const entry of entries) next.set(entry.id, entry);
+      return next;
+    });
+    persist(entries);
+    setRange('');
+    onToast(t('tracker.updated', { count: entries.length }), 'success');
+  };
+
+  const exportCsv = () => {
+    const csv = ledgerCsv(qrCodes, ledger ?? new Map(), numberScheme, t);
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `qr-tracker-${fileDateStamp()}.csv`);
+  };
+
+  const counts = HANDOUT_STATUSES.map(({ value, color }) => ({
+    value,
+    color,
+    count: qrCodes.filter(qr => entryFor(qr.id).status === value).length,
+  }));
+  const visibleCodes = statusFilter === 'all'
+    ? qrCodes
+    : qrCodes.filter(qr => entryFor(qr.id).status === statusFilter);
+
+  return (
+    <motion.div
+      className="min-h-screen"
+      style={{ background: 'var(--background)' }}
+      initial={{ opacity: 0, x: 50 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: -50 }}
+      transition={{ duration: 0.3 }}
+    >
+      <div className="container mx-auto px-6 py-8 max-w-6xl">
+        <motion.button
+          onClick={onBack}
+          className="mb-6 text-sm"
+          style={{ color: 'var(--secondary-text)' }}
+          whileHover={{ x: -3, color: 'var(--accent-blue)' }}
+          transition={{ type: "spring", stiffness: 500, damping: 25 }}
+        >
+          {t('common.backToCodes')}
+        </motion.button>
+
+        <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+          <h2 className="text-2xl font-semibold text-white">{t('tracker.title')}</h2>
+          <motion.button
+            onClick={exportCsv}
+            disabled={!ledger}
+            className="btn-secondary px-6 py-2 rounded-lg text-sm font-medium"
+            whileHover={{ scale: 1.03, y: -1 }}
+            whileTap={{ scale: 0.97 }}
+            transition={{ type: "spring", stiffness: 500, damping: 25 }}
+          >
+            {t('tracker.exportCsv')}
+          </motion.button>
+        </div>
+
+        <div className="flex flex-wrap gap-4 mb-6 text-sm">
+          {counts.map(({ value, color, count }) => (
+            <span key={value} style={{ color }}>
+              {t('tracker.count', { status: t(`status.${value}`), count })}
+            </span>
+          ))}
+        </div>
+
+        <div
+          className="flex flex-wrap items-end gap-3 p-4 rounded-lg mb-6"
+          style={{ background: 'var(--card-background)', border: '1px solid var(--border-color)' }}
+        >
+          <label className="flex flex-col gap-1 text-sm text-white">
+            {t('tracker.cards')}
+            <input
+              type="text"
+              value={range}
+              placeholder={`${numberScheme.start}-${numberScheme.start + 19}, ${numberScheme.start + 24}`}
+              onChange={(e) => setRange(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && applyBulk()}
+              className="px-3 py-2 rounded-lg border text-sm w-40"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-white">
+            {t('tracker.setStatus')}
+            <select
+              value={bulkStatus}
+              onChange={(e) => setBulkStatus(e.target.value as HandoutStatus)}
+              className="px-3 py-2 rounded-lg border text-sm"
+            >
+              {HANDOUT_STATUSES.map(({ value }) => (
+                <option key={value} value={value}>{t(`status.${value}`)}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-white">
+            {t('tracker.recipientOptional')}
+            <input
+              type="text"
+              value={bulkRecipient}
+              onChange={(e) => setBulkRecipient(e.target.value)}
+              className="px-3 py-2 rounded-lg border text-sm"
+            />
+          </label>
+          <button
+            onClick={applyBulk}
+            disabled={!range.trim() || !ledger}
+            className={`px-6 py-2 rounded-lg text-sm font-medium ${range.trim() ? 'btn-primary' : 'btn-secondary opacity-50 cursor-not-allowed'}`}
+          >
+            {t('tracker.apply')}
+          </button>
+        </div>
+
+        <div className="flex items-center gap-3 mb-3 text-sm">
+          <label htmlFor="tracker-filter" style={{ color: 'var(--secondary-text)' }}>{t('tracker.show')}</label>
+          <select
+            id="tracker-filter"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as HandoutStatus | 'all')}
+            className="px-3 py-2 rounded-lg border text-sm"
+          >
+            <option value="all">{t('tracker.allCards')}</option>
+            {HANDOUT_STATUSES.map(({ value }) => (
+              <option key={value} value={value}>{t(`status.${value}`)}</option>
+            ))}
+          </select>
+        </div>
+
+        {!ledger ? (
+          <p className="text-sm" style={{ color: 'var(--secondary-text)' }}>{t('tracker.loading')}</p>
+        ) : (
+          <div className="overflow-x-auto rounded-lg" style={{ border: '1px solid var(--border-color)' }}>
+            <table className="w-full text-sm text-left">
+              <thead style={{ background: 'var(--card-background)' }}>
+                <tr className="text-white">
+                  <th className="px-3 py-2 font-medium">#</th>
+                  <th className="px-3 py-2 font-medium">{t('tracker.code')}</th>
+                  <th className="px-3 py-2 font-medium">{t('tracker.status')}</th>
+                  <th className="px-3 py-2 font-medium">{t('tracker.recipient')}</th>
+                  <th className="px-3 py-2 font-medium">{t('tracker.notes')}</th>
+                </tr>
+              </thead>
+              <TrackerRows
+                codes={visibleCodes}
+                renderRow={(qr, index, measure) => {
+                  const entry = entryFor(qr.id);
+                  const color = HANDOUT_STATUSES.find(s => s.value === entry.status)?.color;
+                  return (
+                    <tr key={qr.id} data-index={index} ref={measure} style={{ borderTop: '1px solid var(--border-color)' }}>
+                      <td className="px-3 py-2 qr-card-text">{formatCardNumber(qr, numberScheme)}</td>
+                      <td className="px-3 py-2 max-w-[16rem]">
+                        {qr.label && <div className="text-white truncate">{qr.label}</div>}
+                        <div className="text-xs truncate" style={{ color: 'var(--secondary-text)' }}>
+                          {sanitizeUrlForDisplay(describePayload(qr.payload, locale))}
+                        </div>
+                      </td>
+                      <td className="px-3 py-2">
+                        <select
+                          value={entry.status}
+                          onChange={(e) => updateEntry(qr.id, { status: e.target.value as HandoutStatus }, true)}
+                          aria-label={t('tracker.statusOf', { number: formatCardNumber(qr, numberScheme) })}
+                          className="px-2 py-1 rounded border text-sm"
+                          style={{ color }}
+                        >
+                          {HANDOUT_STATUSES.map(({ value }) => (
+                            <option key={value} value={value}>{t(`status.${value}`)}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="text"
+                          value={entry.recipient}
+                          onChange={(e) => updateEntry(qr.id, { recipient: e.target.value }, false)}
+                          onBlur={() => persist([entryFor(qr.id)])}
+                          aria-label={t('tracker.recipientOf', { number: formatCardNumber(qr, numberScheme) })}
+                          className="w-full px-2 py-1 rounded border text-sm"
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="text"
+                          value={entry.notes}
+                          onChange={(e) => updateEntry(qr.id, { notes: e.target.value }, false)}
+                          onBlur={() => persist([entryFor(qr.id)])}
+                          aria-label={t('tracker.notesFor', { number: formatCardNumber(qr, numberScheme) })}
+                          className="w-full px-2 py-1 rounded border text-sm"
+                        />
+                      </td>
+                    </tr>
+                  );
+                }}
+              />
+            </table>
+            {visibleCodes.length === 0 && (
+              <p className="px-3 py-4 text-sm" style={{ color: 'var(--secondary-text)' }}>{t('tracker.empty')}</p>
+            )}
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { ReactNode, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { useWindowVirtualizer } from '@tanstack/react-virtual';
+
+interface VirtualCardGridProps<T> {
+  items: T[];
+  // Each card needs its own key
+  renderItem: (item: T) => ReactNode;
+}
+
+// Same breakpoints as the grid's sm/lg/xl column classes
+const COLUMN_QUERIES: [string, number][] = [
+  ['(min-width: 80rem)', 4],
+  ['(min-width: 64rem)', 3],
+  ['(min-width: 40rem)', 2],
+];
+
+// Roughly a card with a badge or two; real rows are measured once rendered
+const ESTIMATED_ROW_HEIGHT = 300;
+// Matches gap-6 between cards
+const ROW_GAP = 24;
+const OVERSCAN_ROWS = 3;
+
+function columnCount(): number {
+  return COLUMN_QUERIES.find(([query]) => window.matchMedia(query).matches)?.[1] ?? 1;
+}
+
+function useColumnCount(): number {
+  const [columns, setColumns] = useState<number>(1);
+  useEffect(() => {
+    const update = () => setColumns(columnCount());
+    update();
+    window.addEventListener('resize', update);
+    return () => window.removeEventListener('resize', update);
+  }, []);
+  return columns;
+}
+
+// Card grid that only mounts the rows near the viewport, so batches of
+// thousands of codes don't draw thousands of canvases
+export function VirtualCardGrid<T>({ items, renderItem }: VirtualCardGridProps<T>) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const columns = useColumnCount();
+  const [scrollMargin, setScrollMargin] = useState<number>(0);
+
+  // Panels above the grid open and close, moving where it starts on the page
+  useLayoutEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+    const update = () => setScrollMargin(list.getBoundingClientRect().top + window.scrollY);
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(document.body);
+    return () => observer.disconnect();
+  }, []);
+
+  const virtualizer = useWindowVirtualizer({
+    count: Math.ceil(items.length / columns),
+    estimateSize: () => ESTIMATED_ROW_HEIGHT + ROW_GAP,
+    overscan: OVERSCAN_ROWS,
+    scrollMargin,
+  });
+
+  // Row heights change when the cards are spread over a different column count
+  useEffect(() => {
+    virtualizer.measure();
+  }, [columns, virtualizer]);
+
+  return (
+    <div ref={listRef} className="relative" style={{ height: virtualizer.getTotalSize() }}>
+      {virtualizer.getVirtualItems().map(row => (
+        <div
+          key={row.key}
+          data-index={row.index}
+          ref={virtualizer.measureElement}
+          className="absolute top-0 left-0 w-full grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6"
+          style={{ paddingBottom: ROW_GAP, transform: `translateY(${row.start - scrollMargin}px)` }}
+        >
+          {items.slice(row.index * columns, (row.index + 1) * columns).map(renderItem)}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,332 @@
+// Saved batches: the input list plus the style, layout and card text used to
+// print it, kept in IndexedDB so a batch survives reloads and "Back", and
+// exported as JSON so a teammate can load the same set.
+
+import { BATCH_STORE, requestResult, withStore } from '@/lib/db';
+import { PayloadEntry, WifiSecurity, PAYLOAD_KINDS, emptyPayload } from '@/lib/payloads';
+import {
+  QRStyle,
+  DEFAULT_QR_STYLE,
+  LOGO_MIME_TYPES,
+  MAX_EYE_RADIUS,
+  MAX_LOGO_PADDING,
+  MAX_LOGO_SCALE,
+  MAX_QUIET_ZONE,
+  MIN_LOGO_SCALE,
+} from '@/lib/qr-style';
+import { SheetLayout, DEFAULT_LAYOUT, PRINT_ORDERS, validateLayout } from '@/lib/layouts';
+import { CardTextMode, CARD_TEXT_MODES, DEFAULT_CARD_TEXT_MODE } from '@/lib/labels';
+import { EC_LEVELS } from '@/lib/scannability';
+import {
+  NumberingMode,
+  NumberScheme,
+  NUMBERING_MODES,
+  DEFAULT_NUMBER_SCHEME,
+  validateNumberScheme,
+} from '@/lib/numbering';
+import { CutOptions, CUT_GUIDES, DEFAULT_CUT_OPTIONS, validateCutOptions } from '@/lib/cutting';
+import { DuplexOptions, DUPLEX_MODES, DEFAULT_DUPLEX_OPTIONS, validateDuplexOptions } from '@/lib/duplex';
+import { Locale, MessageError, isLocale } from '@/lib/i18n';
+
+export interface SavedBatch {
+  id: string;
+  name: string;
+  entries: PayloadEntry[];
+  style: QRStyle;
+  layout: SheetLayout;
+  cardTextMode: CardTextMode;
+  showReferralCode?: boolean;
+  // Normalised keys of duplicate groups the user chose to keep
+  keptDuplicates?: string[];
+  // Link policy picked for this batch
+  policyId?: string;
+  // Whether edits renumber the cards or keep their numbers
+  numbering?: NumberingMode;
+  // Print order and how numbers are shown
+  numberScheme?: NumberScheme;
+  // Crop marks or borders, bleed, safe zone and cutting guide
+  cutOptions?: CutOptions;
+  // Double-sided printing and what goes on the back of each card
+  duplex?: DuplexOptions;
+  // Card template picked for this batch
+  templateId?: string;
+  // Language of the text printed on the cards
+  cardLocale?: Locale;
+  // When the codes were first generated
+  createdAt: string;
+  updatedAt: string;
+}
+
+const EXPORT_FORMAT = 'qr-code-generator-batch';
+const EXPORT_VERSION = 1;
+
+export const MAX_BATCH_NAME_LENGTH = 80;
+
+const MODULE_STYLES: QRStyle['moduleStyle'][] = ['squares', 'dots', 'fluid'];
+const WIFI_SECURITIES: WifiSecurity[] = ['WPA', 'WEP', 'nopass'];
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const LOGO_PADDING_STYLES = ['square', 'circle'];
+
+function newBatchId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+export function defaultBatchName(source: string, date: Date = new Date()): string {
+  const stamp = date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+  return `${source} — ${stamp}`;
+}
+
+export function createBatch(
+  name: string,
+  entries: PayloadEntry[],
+  settings: Pick<SavedBatch, 'style' | 'layout' | 'cardTextMode'>
+): SavedBatch {
+  const now = new Date().toISOString();
+  return { id: newBatchId(), name, entries, ...settings, createdAt: now, updatedAt: now };
+}
+
+export function duplicateBatch(batch: SavedBatch, name: string): SavedBatch {
+  return { ...createBatch(name, batch.entries, batch), createdAt: batch.createdAt };
+}
+
+// Most recently used first
+export async function listBatches(): Promise<SavedBatch[]> {
+  const batches = await withStore(BATCH_STORE, 'readonly', store =>
+    requestResult(store.getAll() as IDBRequest<SavedBatch[]>)
+  );
+  return batches.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function saveBatch(batch: SavedBatch): Promise<void> {
+  await withStore(BATCH_STORE, 'readwrite', store => {
+    store.put(batch);
+  });
+}
+
+export async function deleteBatch(id: string): Promise<void> {
+  await withStore(BATCH_STORE, 'readwrite', store => {
+    store.delete(id);
+  });
+}
+
+export function batchToJson(batch: SavedBatch): string {
+  const {
+    name,
+    entries,
+    style,
+    layout,
+    cardTextMode,
+    showReferralCode,
+    keptDuplicates,
+    policyId,
+    numbering,
+    numberScheme,
+    cutOptions,
+    duplex,
+    templateId,
+    cardLocale,
+    createdAt,
+  } = batch;
+  return JSON.stringify(
+    {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      name,
+      createdAt,
+      entries,
+      style,
+      layout,
+      cardTextMode,
+      showReferralCode,
+      keptDuplicates,
+      policyId,
+      numbering,
+      numberScheme,
+      cutOptions,
+      duplex,
+      templateId,
+      cardLocale,
+    },
+    null,
+    2
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Copy the fields of `template` whose type matches in `raw`, keeping the
+// template's value for anything missing or mistyped
+function pickFields<T extends object>(template: T, raw: unknown): T {
+  if (!isRecord(raw)) return { ...template };
+  const result = { ...template } as Record<string, unknown>;
+  for (const [key, fallback] of Object.entries(template)) {
+    if (typeof raw[key] === typeof fallback && (typeof fallback !== 'object' || fallback === null)) {
+      result[key] = raw[key];
+    }
+  }
+  return result as T;
+}
+
+function parseEntries(raw: unknown): PayloadEntry[] | null {
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+  const entries: PayloadEntry[] = [];
+  for (const item of raw) {
+    if (!isRecord(item) || !isRecord(item.payload)) return null;
+    const kind = PAYLOAD_KINDS.find(entry => entry.kind === (item.payload as Record<string, unknown>).kind)?.kind;
+    if (!kind) return null;
+    // Start from the kind's empty payload so only its own fields come across
+    const payload = pickFields(emptyPayload(kind), item.payload);
+    if (payload.kind === 'wifi' && !WIFI_SECURITIES.includes(payload.security)) payload.security = 'WPA';
+    const entry: PayloadEntry = typeof item.label === 'string' && item.label ? { payload, label: item.label } : { payload };
+    if (typeof item.number === 'number' && Number.isInteger(item.number) && item.number > 0) {
+      entry.number = item.number;
+    }
+    if (typeof item.cardNumber === 'string' && item.cardNumber.trim()) {
+      entry.cardNumber = item.cardNumber.trim();
+    }
+    entries.push(entry);
+  }
+  // Kept card numbers only make sense if every card has its own
+  const numbers = new Set(entries.map(entry => entry.number));
+  if (numbers.has(undefined) || numbers.size !== entries.length) {
+    entries.forEach(entry => delete entry.number);
+  }
+  return entries;
+}
+
+// Numbers from a file are only type-checked by pickFields; keep them within
+// what the style panel's controls can set
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Logos are limited to the bundled default and uploaded images stored inline
+function isSafeLogoSrc(src: string): boolean {
+  return src === DEFAULT_QR_STYLE.logo?.src || LOGO_MIME_TYPES.some(type => src.startsWith(`data:${type};`));
+}
+
+function parseStyle(raw: unknown): QRStyle {
+  const style = pickFields(DEFAULT_QR_STYLE, raw);
+  const record = isRecord(raw) ? raw : {};
+
+  if (!HEX_COLOR.test(style.fgColor)) style.fgColor = DEFAULT_QR_STYLE.fgColor;
+  if (!HEX_COLOR.test(style.bgColor)) style.bgColor = DEFAULT_QR_STYLE.bgColor;
+  style.eyeColor = typeof record.eyeColor === 'string' && HEX_COLOR.test(record.eyeColor) ? record.eyeColor : null;
+  if (!MODULE_STYLES.includes(style.moduleStyle)) style.moduleStyle = DEFAULT_QR_STYLE.moduleStyle;
+  if (!EC_LEVELS.some(entry => entry.level === style.ecLevel)) style.ecLevel = DEFAULT_QR_STYLE.ecLevel;
+  style.eyeRadius = clamp(style.eyeRadius, 0, MAX_EYE_RADIUS);
+  style.quietZone = clamp(Math.round(style.quietZone), 0, MAX_QUIET_ZONE);
+
+  if (record.logo === null) {
+    style.logo = null;
+  } else if (isRecord(record.logo) && DEFAULT_QR_STYLE.logo) {
+    const logo = pickFields(DEFAULT_QR_STYLE.logo, record.logo);
+    logo.scale = clamp(logo.scale, MIN_LOGO_SCALE, MAX_LOGO_SCALE);
+    logo.padding = clamp(logo.padding, 0, MAX_LOGO_PADDING);
+    if (!(logo.aspectRatio > 0)) logo.aspectRatio = 1;
+    if (!LOGO_PADDING_STYLES.includes(logo.paddingStyle)) logo.paddingStyle = DEFAULT_QR_STYLE.logo.paddingStyle;
+    style.logo = isSafeLogoSrc(logo.src) ? logo : { ...logo, src: DEFAULT_QR_STYLE.logo.src, aspectRatio: 1 };
+  }
+  return style;
+}
+
+function parseLayout(raw: unknown): SheetLayout | null {
+  if (!isRecord(raw)) return null;
+  const layout: SheetLayout = {
+    ...pickFields(DEFAULT_LAYOUT, raw),
+    paper: pickFields(DEFAULT_LAYOUT.paper, raw.paper),
+    margins: pickFields(DEFAULT_LAYOUT.margins, raw.margins),
+    gutter: pickFields(DEFAULT_LAYOUT.gutter, raw.gutter),
+  };
+  return validateLayout(layout) ? null : layout;
+}
+
+// Read an exported batch file; throws a MessageError if it isn't one.
+// `source` names the batch when the file doesn't
+export function parseBatchJson(text: string, source: string): SavedBatch {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new MessageError({ key: 'batch.error.json' });
+  }
+  if (!isRecord(data) || data.format !== EXPORT_FORMAT) {
+    throw new MessageError({ key: 'batch.error.format' });
+  }
+  if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+    throw new MessageError({ key: 'batch.error.newer' });
+  }
+  return readBatch(data, source);
+}
+
+// Check a batch from the library before opening it, since one saved by an
+// older version may lack fields or hold values this version no longer accepts
+export function restoreBatch(saved: SavedBatch, source: string): SavedBatch {
+  if (!isRecord(saved)) {
+    throw new MessageError({ key: 'batch.error.unreadable' });
+  }
+  const batch = readBatch(saved as unknown as Record<string, unknown>, source);
+  if (typeof saved.id === 'string') batch.id = saved.id;
+  if (typeof saved.updatedAt === 'string') batch.updatedAt = saved.updatedAt;
+  return batch;
+}
+
+function readBatch(data: Record<string, unknown>, source: string): SavedBatch {
+  const entries = parseEntries(data.entries);
+  if (!entries) {
+    throw new MessageError({ key: 'batch.error.noCodes' });
+  }
+  const layout = parseLayout(data.layout);
+  if (!layout) {
+    throw new MessageError({ key: 'batch.error.layout' });
+  }
+
+  const name = typeof data.name === 'string' && data.name.trim()
+    ? data.name.trim().slice(0, MAX_BATCH_NAME_LENGTH)
+    : defaultBatchName(source);
+  const cardTextMode = CARD_TEXT_MODES.find(mode => mode.value === data.cardTextMode)?.value ?? DEFAULT_CARD_TEXT_MODE;
+  const batch = createBatch(name, entries, { style: parseStyle(data.style), layout, cardTextMode });
+  if (typeof data.showReferralCode === 'boolean') {
+    batch.showReferralCode = data.showReferralCode;
+  }
+  if (Array.isArray(data.keptDuplicates)) {
+    batch.keptDuplicates = data.keptDuplicates.filter((key): key is string => typeof key === 'string');
+  }
+  // Custom policies live in each browser; an unknown id falls back to no policy
+  if (typeof data.policyId === 'string') {
+    batch.policyId = data.policyId;
+  }
+  // Templates too; an unknown id falls back to the classic card
+  if (typeof data.templateId === 'string') {
+    batch.templateId = data.templateId;
+  }
+  if (isLocale(data.cardLocale)) {
+    batch.cardLocale = data.cardLocale;
+  }
+  const numbering = NUMBERING_MODES.find(mode => mode.value === data.numbering)?.value;
+  if (numbering) {
+    batch.numbering = numbering;
+  }
+  if (isRecord(data.numberScheme)) {
+    const numberScheme = pickFields(DEFAULT_NUMBER_SCHEME, data.numberScheme);
+    if (!PRINT_ORDERS.some(entry => entry.value === numberScheme.order)) numberScheme.order = DEFAULT_NUMBER_SCHEME.order;
+    if (!validateNumberScheme(numberScheme)) batch.numberScheme = numberScheme;
+  }
+  if (isRecord(data.cutOptions)) {
+    const cutOptions = pickFields(DEFAULT_CUT_OPTIONS, data.cutOptions);
+    if (!CUT_GUIDES.some(entry => entry.value === cutOptions.guides)) cutOptions.guides = DEFAULT_CUT_OPTIONS.guides;
+    // Options that don't fit the layout fall back to the defaults
+    if (!validateCutOptions(layout, cutOptions)) batch.cutOptions = cutOptions;
+  }
+  if (isRecord(data.duplex)) {
+    const duplex = pickFields(DEFAULT_DUPLEX_OPTIONS, data.duplex);
+    if (!DUPLEX_MODES.some(entry => entry.value === duplex.mode)) duplex.mode = DEFAULT_DUPLEX_OPTIONS.mode;
+    if (!validateDuplexOptions(duplex)) batch.duplex = duplex;
+  }
+  if (typeof data.createdAt === 'string' && !Number.isNaN(Date.parse(data.createdAt))) {
+    batch.createdAt = data.createdAt;
+  }
+  return batch;
+}
@@ -0,0 +1,57 @@
+// Turns payload entries into numbered, validated cards. Pure, so it runs the
+// same inside the generation worker and on the page.
+
+import {
+  PayloadEntry,
+  encodePayload,
+  normalizePayload,
+  payloadWarning,
+  validatePayload,
+} from '@/lib/payloads';
+import { parseReferralLink } from '@/lib/referrals';
+import type { QRCodeData } from '@/lib/types';
+
+export interface BuiltCodes {
+  qrCodeData: QRCodeData[];
+  invalidCount: number;
+  warningCount: number;
+}
+
+// Validate one entry; editing a card re-runs just this
+export function buildQrCode(entry: PayloadEntry, id: number, baseUrl: string): QRCodeData {
+  const payload = normalizePayload(entry.payload);
+  // Referral links on the base site also need a usable code
+  const referral = payload.kind === 'url' ? parseReferralLink(payload.url, baseUrl) : null;
+  const error = validatePayload(payload) ?? referral?.error ?? null;
+  const urlWarning = payloadWarning(payload);
+  const warning = referral?.warning
+    ? {
+        messages: [...(urlWarning?.messages ?? []), referral.warning],
+        severity: urlWarning?.severity ?? 'medium',
+      }
+    : urlWarning;
+
+  return {
+    id,
+    payload,
+    value: encodePayload(payload),
+    label: entry.label,
+    isValid: !error,
+    errorMessage: error ?? undefined,
+    hasWarning: !!warning,
+    warningMessages: warning?.messages,
+    warningSeverity: warning?.severity,
+    referralCode: referral?.code,
+    cardNumber: entry.cardNumber,
+  };
+}
+
+// Validate each entry and assign stable card numbers
+export function buildQrCodes(entries: PayloadEntry[], baseUrl: string): BuiltCodes {
+  const qrCodeData = entries.map((entry, index) => buildQrCode(entry, entry.number ?? index + 1, baseUrl));
+  return {
+    qrCodeData,
+    invalidCount: qrCodeData.filter(qr => !qr.isValid).length,
+    warningCount: qrCodeData.filter(qr => qr.hasWarning).length,
+  };
+}
@@ -0,0 +1,11 @@
+// Web Worker entry: builds a batch off the main thread so normalising and
+// validating tens of thousands of entries doesn't freeze the page. The QR
+// symbols themselves are encoded later, for on-screen cards and verification.
+
+import { buildQrCodes } from '@/lib/build-codes';
+import type { BuildRequest } from '@/lib/generate';
+
+self.onmessage = (event: MessageEvent<BuildRequest>) => {
+  const { entries, baseUrl } = event.data;
+  self.postMessage(buildQrCodes(entries, baseUrl));
+};
@@ -0,0 +1,30 @@
+// Text laid out on a canvas, for card images and for PDF text the built-in
+// PDF fonts have no glyphs for
+
+// Greedy word wrap like the print stylesheet; words wider than a line break anywhere
+export function wrapCanvasText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let current = '';
+    for (const word of paragraph.split(/(\s+)/)) {
+      if (current && ctx.measureText(current + word).width > maxWidth) {
+        lines.push(current.trimEnd());
+        current = word.trimStart();
+      } else {
+        current += word;
+      }
+      while (current.length > 1 && ctx.measureText(current).width > maxWidth) {
+        let fit = 1;
+        while (fit < current.length - 1 && ctx.measureText(current.slice(0, fit + 1)).width <= maxWidth) fit++;
+        lines.push(current.slice(0, fit));
+        current = current.slice(fit);
+      }
+    }
+    lines.push(current.trimEnd());
+  }
+  return lines;
+}
+
+export function canvasFont(stack: string, sizePx: number, bold: boolean): string {
+  return `${bold ? 700 : 400} ${sizePx}px ${stack}`;
+}
@@ -0,0 +1,292 @@
+// Card templates: where the header image, QR code and text blocks sit on each
+// printed card, in which fonts. The built-in classic card keeps the original
+// fixed layout; saved templates are stored in this browser.
+
+import type { QRCodeData } from '@/lib/types';
+import { SheetLayout, PX_PER_MM, REFERENCE_CELL, cellScale, cellSize, qrSizeMm } from '@/lib/layouts';
+import { CutOptions, cardInset } from '@/lib/cutting';
+import type { NumberScheme } from '@/lib/numbering';
+import { CardTextMode, fillCardPlaceholders } from '@/lib/labels';
+import { Locale, DEFAULT_LOCALE, MessageRef, Translate } from '@/lib/i18n';
+import { readStoredJson, writeStoredJson } from '@/lib/storage';
+
+export type TemplateFont = 'sans' | 'serif' | 'mono';
+
+// Each font maps to a CSS stack, the matching built-in PDF font and a stack
+// for canvas, which can't read CSS variables. Labels are the
+// `template.font.<value>` messages
+export const TEMPLATE_FONTS: { value: TemplateFont; css: string; pdf: string; canvas: string }[] = [
+  {
+    value: 'sans',
+    css: 'var(--font-inter), Inter, Helvetica, Arial, sans-serif',
+    pdf: 'helvetica',
+    canvas: 'Helvetica, Arial, sans-serif',
+  },
+  {
+    value: 'serif',
+    css: "Georgia, 'Times New Roman', Times, serif",
+    pdf: 'times',
+    canvas: "Georgia, 'Times New Roman', Times, serif",
+  },
+  {
+    value: 'mono',
+    css: "ui-monospace, 'Courier New', Courier, monospace",
+    pdf: 'courier',
+    canvas: "'Courier New', Courier, monospace",
+  },
+];
+
+export type HorizontalAlign = 'left' | 'center' | 'right';
+export type VerticalAlign = 'top' | 'middle' | 'bottom';
+
+// Labels are the `template.align.<value>` messages
+export const HORIZONTAL_ALIGNS: { value: HorizontalAlign }[] = [{ value: 'left' }, { value: 'center' }, { value: 'right' }];
+
+export const VERTICAL_ALIGNS: { value: VerticalAlign }[] = [{ value: 'top' }, { value: 'middle' }, { value: 'bottom' }];
+
+// Where an element goes, as percentages of the card inside its safe zone.
+// The alignment says which edge or centre of the element sits on that point
+export interface Placement {
+  x: number;
+  y: number;
+  align: HorizontalAlign;
+  valign: VerticalAlign;
+}
+
+export interface TextBlock extends Placement {
+  id: string;
+  // May contain the card placeholders and line breaks
+  text: string;
+  // Wrapping width, as a percentage of the card inside its safe zone
+  width: number;
+  font: TemplateFont;
+  // Pixels on the original 70 × 99 mm card; smaller cards scale it down
+  fontSize: number;
+  bold: boolean;
+}
+
+export interface HeaderImage extends Placement {
+  // A /public path or an uploaded data URL
+  src: string;
+  // Height / width, so the image keeps its shape
+  aspectRatio: number;
+  // Pixels on the original 70 × 99 mm card, like the font sizes
+  width: number;
+}
+
+export interface CardTemplate {
+  id: string;
+  name: string;
+  header: HeaderImage | null;
+  // Centre of the QR code, and its size as a percentage of the classic card's
+  qr: { x: number; y: number; scale: number };
+  blocks: TextBlock[];
+  // The classic card can be copied but not edited or deleted
+  builtIn?: boolean;
+}
+
+const STORAGE_KEY = 'qr-card-templates';
+
+export const CLASSIC_TEMPLATE_ID = 'classic';
+
+export const CURSOR_HEADER: HeaderImage = {
+  src: '/LOCKUP_HORIZONTAL_2D_LIGHT.svg',
+  aspectRatio: 532.09 / 2238.7,
+  width: 75,
+  x: 100,
+  y: 0,
+  align: 'right',
+  valign: 'top',
+};
+
+// The classic card's padding and caption spacing, in pixels
+const CLASSIC_PADDING_PX = 8;
+const CAPTION_GAP_PX = 2;
+const LINE_HEIGHT = 1.2;
+
+export const MAX_BLOCKS = 8;
+const MAX_TEXT_LENGTH = 200;
+const MIN_FONT_SIZE = 4;
+const MAX_FONT_SIZE = 72;
+const MIN_QR_SCALE = 30;
+const MAX_QR_SCALE = 150;
+
+function newBlockId(): string {
+  return `block-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function newTextBlock(changes: Partial<TextBlock> = {}): TextBlock {
+  return {
+    id: newBlockId(),
+    text: 'Scan for $20 of Cursor credits',
+    x: 50,
+    y: 50,
+    align: 'center',
+    valign: 'middle',
+    width: 100,
+    font: 'sans',
+    fontSize: 11,
+    bold: false,
+    ...changes,
+  };
+}
+
+// The classic card expressed as a template: a starting point for new
+// templates and the layout of whole-card images. Print and PDF draw the
+// classic card directly so its caption keeps stacking up from the bottom
+export function classicTemplate(cardTextMode: CardTextMode = 'both', showReferralCode: boolean = false): CardTemplate {
+  const caption: Partial<TextBlock>[] = [];
+  if (showReferralCode) caption.push({ text: '{code}', font: 'mono', fontSize: 18, bold: true });
+  if (cardTextMode === 'both' || cardTextMode === 'label') caption.push({ text: '{label}', fontSize: 11, bold: true });
+  if (cardTextMode === 'both' || cardTextMode === 'url') caption.push({ text: '{url}', fontSize: 9 });
+
+  // Stack the caption up from the bottom edge, one line each, measured on
+  // the reference card
+  const areaHeight = REFERENCE_CELL.height - (CLASSIC_PADDING_PX * 2) / PX_PER_MM;
+  let bottom = 100;
+  const captionBlocks = caption.reverse().map(changes => {
+    const block = newTextBlock({ ...changes, y: bottom, valign: 'bottom' });
+    bottom -= ((block.fontSize * LINE_HEIGHT + CAPTION_GAP_PX) / PX_PER_MM / areaHeight) * 100;
+    return block;
+  }).reverse();
+
+  return {
+    id: CLASSIC_TEMPLATE_ID,
+    name: 'Classic',
+    header: CURSOR_HEADER,
+    qr: { x: 50, y: 50, scale: 100 },
+    blocks: [
+      newTextBlock({ text: '{number}', x: 0, y: 0, align: 'left', valign: 'top', fontSize: 14 }),
+      ...captionBlocks,
+    ],
+    builtIn: true,
+  };
+}
+
+export const CLASSIC_TEMPLATE = classicTemplate();
+
+// The classic card is named in the interface language; others keep the name they were given
+export function templateName(template: CardTemplate, t: Translate): string {
+  return template.id === CLASSIC_TEMPLATE_ID ? t('template.classic') : template.name;
+}
+
+export function newTemplate(name: string, from?: CardTemplate): CardTemplate {
+  const id = `template-${Date.now().toString(36)}`;
+  const base = from ?? CLASSIC_TEMPLATE;
+  return {
+    ...base,
+    id,
+    name,
+    blocks: base.blocks.map(block => ({ ...block, id: newBlockId() })),
+    builtIn: false,
+  };
+}
+
+export function loadCustomTemplates(): CardTemplate[] {
+  const saved = readStoredJson(STORAGE_KEY);
+  return Array.isArray(saved) ? (saved as CardTemplate[]).filter(template => !template.builtIn) : [];
+}
+
+// Returns false when storage is full, e.g. from a large header image
+export function saveCustomTemplates(templates: CardTemplate[]): boolean {
+  return writeStoredJson(STORAGE_KEY, templates.filter(template => !template.builtIn));
+}
+
+const inRange = (value: number, min: number, max: number) => Number.isFinite(value) && value >= min && value <= max;
+
+// Returns an error message if the template can't be drawn on this layout
+export function validateCardTemplate(template: CardTemplate, layout: SheetLayout, options: CutOptions): MessageRef | null {
+  const positions = [template.qr, ...template.blocks, ...(template.header ? [template.header] : [])];
+  if (positions.some(({ x, y }) => !inRange(x, 0, 100) || !inRange(y, 0, 100))) {
+    return { key: 'template.error.positions' };
+  }
+  if (template.blocks.length > MAX_BLOCKS) {
+    return { key: 'template.error.blocks', params: { count: MAX_BLOCKS } };
+  }
+  for (const block of template.blocks) {
+    if (block.text.length > MAX_TEXT_LENGTH) {
+      return { key: 'template.error.textLength', params: { max: MAX_TEXT_LENGTH } };
+    }
+    if (!inRange(block.fontSize, MIN_FONT_SIZE, MAX_FONT_SIZE)) {
+      return { key: 'template.error.fontSize', params: { min: MIN_FONT_SIZE, max: MAX_FONT_SIZE } };
+    }
+    if (!inRange(block.width, 10, 100)) {
+      return { key: 'template.error.blockWidth', params: { min: 10, max: 100 } };
+    }
+  }
+  if (template.header && !inRange(template.header.width, 10, 400)) {
+    return { key: 'template.error.headerWidth', params: { min: 10, max: 400 } };
+  }
+  if (!inRange(template.qr.scale, MIN_QR_SCALE, MAX_QR_SCALE)) {
+    return { key: 'template.error.qrSize', params: { min: MIN_QR_SCALE, max: MAX_QR_SCALE } };
+  }
+  const area = cardArea(layout, options);
+  if (templateQrSize(template, layout) > Math.min(area.width, area.height)) {
+    return { key: 'template.error.qrTooLarge' };
+  }
+  return null;
+}
+
+// The part of a card elements are placed in, in millimetres from its corner
+export interface CardArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export function cardArea(layout: SheetLayout, options: CutOptions): CardArea {
+  const cell = cellSize(layout);
+  const inset = cardInset(layout, options);
+  return { x: inset, y: inset, width: cell.width - inset * 2, height: cell.height - inset * 2 };
+}
+
+export function templateQrSize(template: CardTemplate, layout: SheetLayout): number {
+  return (qrSizeMm(layout) * template.qr.scale) / 100;
+}
+
+const ALIGN_FRACTION: Record<HorizontalAlign | VerticalAlign, number> = {
+  left: 0,
+  center: 0.5,
+  right: 1,
+  top: 0,
+  middle: 0.5,
+  bottom: 1,
+};
+
+// Top-left corner of an element of the given size, in millimetres from the card's corner
+export function placeBox(placement: Placement, width: number, height: number, area: CardArea): { x: number; y: number } {
+  return {
+    x: area.x + (placement.x / 100) * area.width - width * ALIGN_FRACTION[placement.align],
+    y: area.y + (placement.y / 100) * area.height - height * ALIGN_FRACTION[placement.valign],
+  };
+}
+
+export function headerSize(header: HeaderImage, layout: SheetLayout): { width: number; height: number } {
+  const width = (header.width * cellScale(layout)) / PX_PER_MM;
+  return { width, height: width * header.aspectRatio };
+}
+
+export function blockFontSize(block: TextBlock, layout: SheetLayout): number {
+  return block.fontSize * cellScale(layout);
+}
+
+export function blockWidth(block: TextBlock, area: CardArea): number {
+  return (block.width / 100) * area.width;
+}
+
+export function fontFor(font: TemplateFont) {
+  return TEMPLATE_FONTS.find(entry => entry.value === font) ?? TEMPLATE_FONTS[0];
+}
+
+// Text blocks with their placeholders filled in; blocks left empty are dropped
+export function templateTexts(
+  template: CardTemplate,
+  qr: QRCodeData,
+  scheme: NumberScheme,
+  locale: Locale = DEFAULT_LOCALE
+): { block: TextBlock; text: string }[] {
+  return template.blocks
+    .map(block => ({ block, text: fillCardPlaceholders(block.text, qr, scheme, locale).trim() }))
+    .filter(({ text }) => text.length > 0);
+}
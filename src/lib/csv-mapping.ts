@@ -0,0 +1,173 @@
+// Column mapping for uploaded spreadsheets: which column holds the link (or
+// a code to combine with a base URL), which columns make up the label, which
+// holds the card number, and whether the first row is a header. Mappings are
+// remembered per header row.
+
+import { joinLabelFields } from '@/lib/labels';
+import { joinReferralCell } from '@/lib/referrals';
+import { readStoredJson, writeStoredJson } from '@/lib/storage';
+import type { Translate } from '@/lib/i18n';
+
+export type ValueKind = 'url' | 'code';
+
+export interface ColumnMapping {
+  hasHeader: boolean;
+  valueColumn: number;
+  valueKind: ValueKind;
+  // Prepended to the cell when valueKind is 'code'
+  baseUrl: string;
+  // Joined in column order, e.g. "Jane — Table 4"
+  labelColumns: number[];
+  // Card numbers to print instead of numbering by position
+  numberColumn: number | null;
+}
+
+export interface MappedRow {
+  url: string;
+  label?: string;
+  cardNumber?: string;
+}
+
+const STORAGE_KEY = 'qr-csv-column-mappings';
+const MAX_SAVED_MAPPINGS = 20;
+const HEADER_HINTS = /^(url|link|code|referral|name|email|label|recipient|table|tier)/i;
+const LABEL_HINTS = /^(name|label|recipient|for\b|table|tier|seat|team)/i;
+const NUMBER_HINTS = /^(#|no\.?|num(ber)?|card[ _-]?(#|no\.?|num(ber)?))$/i;
+
+// A header names a field ("Referral link"), it doesn't hold a value ("referral?code=...")
+const looksLikeHeader = (cell: string) => HEADER_HINTS.test(cell.trim()) && !/[?/@:=]/.test(cell);
+const looksLikeUrl = (cell: string) => /^https?:\/\//i.test(cell.trim());
+const looksLikeReferralPath = (cell: string) => /^referral/i.test(cell.trim());
+
+export function columnCount(rows: string[][]): number {
+  return rows.reduce((max, row) => Math.max(max, row.length), 0);
+}
+
+// Spreadsheet-style column letters: A, B, ..., Z, AA, ...
+export function columnLetter(index: number): string {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+export function columnName(rows: string[][], mapping: Pick<ColumnMapping, 'hasHeader'>, index: number, t: Translate): string {
+  const header = mapping.hasHeader ? rows[0]?.[index]?.trim() : '';
+  return header ? `${columnLetter(index)}: ${header}` : t('mapping.column', { name: columnLetter(index) });
+}
+
+// Identifies "the same kind of export" so its mapping can be reused
+export function headerSignature(row: string[] | undefined): string {
+  return (row ?? []).map(cell => cell.trim().toLowerCase()).join('␟');
+}
+
+// Mappings saved before multiple label columns had a single `labelColumn`,
+// and ones saved before number columns have none
+type StoredMapping = Omit<ColumnMapping, 'numberColumn'> & { labelColumn?: number | null; numberColumn?: number | null };
+
+function readSavedMappings(): Record<string, StoredMapping> {
+  const saved = readStoredJson(STORAGE_KEY);
+  return saved && typeof saved === 'object' && !Array.isArray(saved) ? (saved as Record<string, StoredMapping>) : {};
+}
+
+export function loadSavedMapping(rows: string[][]): ColumnMapping | null {
+  const saved = readSavedMappings()[headerSignature(rows[0])];
+  const columns = columnCount(rows);
+  if (!saved || saved.valueColumn >= columns) return null;
+
+  const { labelColumn, labelColumns, numberColumn, ...mapping } = saved;
+  const labels = labelColumns ?? (labelColumn != null ? [labelColumn] : []);
+  return {
+    ...mapping,
+    labelColumns: labels.filter(index => index < columns),
+    numberColumn: numberColumn != null && numberColumn < columns ? numberColumn : null,
+  };
+}
+
+export function saveMapping(rows: string[][], mapping: ColumnMapping): void {
+  // Without a header row there's nothing stable to recognise the file by
+  if (!mapping.hasHeader) return;
+  const saved = readSavedMappings();
+  const signature = headerSignature(rows[0]);
+  delete saved[signature];
+  saved[signature] = mapping;
+  // Keep the most recently used mappings only
+  const entries = Object.entries(saved).slice(-MAX_SAVED_MAPPINGS);
+  writeStoredJson(STORAGE_KEY, Object.fromEntries(entries));
+}
+
+// A first row of field names, or of non-links above rows of links
+export function detectHeader(rows: string[][]): boolean {
+  const first = rows[0] ?? [];
+  return (
+    first.some(looksLikeHeader) ||
+    (!first.some(looksLikeUrl) && rows.slice(1, 21).some(row => row.some(looksLikeUrl)))
+  );
+}
+
+// Best first guess for a file we haven't seen before
+export function guessMapping(rows: string[][], cursorBaseUrl: string): ColumnMapping {
+  const columns = columnCount(rows);
+  const first = rows[0] ?? [];
+  const body = rows.slice(1, 21);
+
+  const hasHeader = detectHeader(rows);
+  const sample = hasHeader ? body : rows.slice(0, 20);
+
+  const score = (test: (cell: string) => boolean) =>
+    Array.from({ length: columns }, (_, col) => sample.filter(row => row[col] && test(row[col])).length);
+  const best = (scores: number[]) => {
+    const max = Math.max(0, ...scores);
+    return max > 0 ? scores.indexOf(max) : -1;
+  };
+
+  const urlColumn = best(score(looksLikeUrl));
+  const referralColumn = best(score(looksLikeReferralPath));
+  const codeColumn = hasHeader ? first.findIndex(cell => /^(referral[ _-]?)?code$/i.test(cell.trim())) : -1;
+
+  let mapping: ColumnMapping = {
+    hasHeader,
+    valueColumn: 0,
+    valueKind: 'url',
+    baseUrl: `${cursorBaseUrl}referral?code=`,
+    labelColumns: [],
+    numberColumn: null,
+  };
+  if (urlColumn !== -1) {
+    mapping = { ...mapping, valueColumn: urlColumn };
+  } else if (referralColumn !== -1) {
+    // Split Cursor exports hold "referral?code=..." without the host
+    mapping = { ...mapping, valueColumn: referralColumn, valueKind: 'code', baseUrl: cursorBaseUrl };
+  } else if (codeColumn !== -1) {
+    // A "Code" column of bare referral codes goes after `referral?code=`
+    mapping = { ...mapping, valueColumn: codeColumn, valueKind: 'code' };
+  }
+  if (hasHeader) {
+    const labelColumns = first
+      .map((cell, index) => (index !== mapping.valueColumn && LABEL_HINTS.test(cell.trim()) ? index : -1))
+      .filter(index => index !== -1);
+    const numberColumn = first.findIndex(
+      (cell, index) => index !== mapping.valueColumn && NUMBER_HINTS.test(cell.trim())
+    );
+    mapping = { ...mapping, labelColumns, numberColumn: numberColumn === -1 ? null : numberColumn };
+  }
+
+  return mapping;
+}
+
+export function mapRow(row: string[], mapping: ColumnMapping): MappedRow | null {
+  const value = row[mapping.valueColumn]?.trim();
+  if (!value) return null;
+
+  const url = mapping.valueKind === 'code' ? joinReferralCell(mapping.baseUrl.trim(), value) : value;
+  const label = joinLabelFields(mapping.labelColumns.map(index => row[index]));
+  const cardNumber = mapping.numberColumn === null ? '' : (row[mapping.numberColumn] ?? '').trim().replace(/^#\s*/, '');
+  return { url, ...(label ? { label } : {}), ...(cardNumber ? { cardNumber } : {}) };
+}
+
+export function applyMapping(rows: string[][], mapping: ColumnMapping): MappedRow[] {
+  return (mapping.hasHeader ? rows.slice(1) : rows)
+    .map(row => mapRow(row, mapping))
+    .filter((row): row is MappedRow => row !== null);
+}
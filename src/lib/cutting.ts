@@ -0,0 +1,190 @@
+// How printed sheets are cut: borders round every card or crop marks in the
+// page margins, the bleed and safe zone around each card, and the cutting
+// guide printed ahead of the sheets. All measurements are in millimetres.
+
+import {
+  SheetLayout,
+  PrintOrder,
+  PX_PER_MM,
+  cardForCell,
+  cellOrigin,
+  cellScale,
+  cellSize,
+  cellsPerPage,
+  pageCount,
+  qrSizeMm,
+} from '@/lib/layouts';
+import { Locale, DEFAULT_LOCALE, MessageRef, translate } from '@/lib/i18n';
+
+export type CutGuides = 'borders' | 'marks';
+
+export interface CutOptions {
+  guides: CutGuides;
+  // How far each card's background runs past its cut line
+  bleed: number;
+  // Nothing printed on a card comes closer than this to its cut line
+  safeZone: number;
+  // Print a page explaining how to cut and stack this batch before the sheets
+  coverPage: boolean;
+}
+
+// Labels are the `cutGuide.<value>` messages
+export const CUT_GUIDES: { value: CutGuides }[] = [{ value: 'borders' }, { value: 'marks' }];
+
+export const DEFAULT_CUT_OPTIONS: CutOptions = { guides: 'borders', bleed: 0, safeZone: 0, coverPage: false };
+
+// Crop marks sit this far outside the bleed so a blade never cuts through one
+const MARK_GAP = 2;
+const MARK_LENGTH = 5;
+// Shorter marks than this are hard to line a ruler up with, so they're left out
+const MIN_MARK_LENGTH = 2;
+const MAX_BLEED = 5;
+
+export interface Line {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+// Inset of the number, logo and caption from the cut line. Matches the
+// original card padding unless a larger safe zone is asked for
+export function cardInset(layout: SheetLayout, options: CutOptions): number {
+  return Math.max((8 * cellScale(layout)) / PX_PER_MM, options.safeZone);
+}
+
+// Returns an error message if the cut options don't fit the layout
+export function validateCutOptions(layout: SheetLayout, options: CutOptions): MessageRef | null {
+  const { bleed, safeZone } = options;
+  if (!Number.isFinite(bleed) || !Number.isFinite(safeZone) || bleed < 0 || safeZone < 0) {
+    return { key: 'cutting.error.negative' };
+  }
+  if (bleed > MAX_BLEED) {
+    return { key: 'cutting.error.bleed', params: { max: MAX_BLEED } };
+  }
+  if (bleed > 0 && Object.values(layout.margins).some(margin => margin < bleed)) {
+    return { key: 'cutting.error.margins' };
+  }
+  // Cards that touch share a cut line; cards apart need room for both bleeds
+  if ([layout.gutter.x, layout.gutter.y].some(gutter => gutter > 0 && gutter < bleed * 2)) {
+    return { key: 'cutting.error.gutters' };
+  }
+  const cell = cellSize(layout);
+  const qrSize = qrSizeMm(layout);
+  if (qrSize > cell.width - safeZone * 2 || qrSize > cell.height - safeZone * 2) {
+    return { key: 'cutting.error.safeZone' };
+  }
+  return null;
+}
+
+// Distinct cut positions along one axis; cards that touch share theirs
+function cutPositions(starts: number[], size: number): number[] {
+  const positions = starts.flatMap(start => [start, start + size]);
+  return positions.filter((position, index) => positions.findIndex(other => Math.abs(other - position) < 0.01) === index);
+}
+
+// Crop marks extend every cut line into the page margins. Sides whose margin
+// is too narrow for a usable mark get none
+export function cropMarks(layout: SheetLayout, options: CutOptions): Line[] {
+  const { paper, margins } = layout;
+  const cell = cellSize(layout);
+  const offset = options.bleed + MARK_GAP;
+  const xs = cutPositions(Array.from({ length: layout.cols }, (_, col) => cellOrigin(layout, 0, col).x), cell.width);
+  const ys = cutPositions(Array.from({ length: layout.rows }, (_, row) => cellOrigin(layout, row, 0).y), cell.height);
+  const length = (margin: number) => Math.min(MARK_LENGTH, margin - offset);
+
+  const lines: Line[] = [];
+  const top = length(margins.top);
+  const bottom = length(margins.bottom);
+  for (const x of xs) {
+    if (top >= MIN_MARK_LENGTH) lines.push({ x1: x, y1: margins.top - offset, x2: x, y2: margins.top - offset - top });
+    if (bottom >= MIN_MARK_LENGTH) {
+      const y = paper.height - margins.bottom + offset;
+      lines.push({ x1: x, y1: y, x2: x, y2: y + bottom });
+    }
+  }
+  const left = length(margins.left);
+  const right = length(margins.right);
+  for (const y of ys) {
+    if (left >= MIN_MARK_LENGTH) lines.push({ x1: margins.left - offset, y1: y, x2: margins.left - offset - left, y2: y });
+    if (right >= MIN_MARK_LENGTH) {
+      const x = paper.width - margins.right + offset;
+      lines.push({ x1: x, y1: y, x2: x + right, y2: y });
+    }
+  }
+  return lines;
+}
+
+// Margin every side needs for crop marks to print
+export function cropMarkMargin(options: CutOptions): number {
+  return options.bleed + MARK_GAP + MIN_MARK_LENGTH;
+}
+
+export function cropMarksFit(layout: SheetLayout, options: CutOptions): boolean {
+  return Object.values(layout.margins).every(margin => margin >= cropMarkMargin(options));
+}
+
+export interface StackInfo {
+  stack: number;
+  first: number | null;
+  last: number | null;
+}
+
+// Which card numbers end up on each stack, laid out like the sheet. Read from
+// the same collation the sheets are printed with
+export function stackGuide(layout: SheetLayout, lastCardNumber: number, order: PrintOrder): StackInfo[][] {
+  const pages = pageCount(layout, lastCardNumber);
+  return Array.from({ length: layout.rows }, (_, row) =>
+    Array.from({ length: layout.cols }, (_, col) => {
+      const numbers = Array.from({ length: pages }, (_, page) =>
+        cardForCell(order, page, row, col, layout.rows, layout.cols, lastCardNumber)
+      ).filter((n): n is number => n !== null);
+      return {
+        stack: row * layout.cols + col + 1,
+        first: numbers.length > 0 ? numbers[0] : null,
+        last: numbers.length > 0 ? numbers[numbers.length - 1] : null,
+      };
+    })
+  );
+}
+
+// Cut-and-stack stacks hold a run of numbers; in reading order they don't
+export function stackRange(
+  { first, last }: StackInfo,
+  order: PrintOrder,
+  format: (id: number) => string,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  if (first === null || last === null) return translate(locale, 'guide.empty');
+  if (first === last) return format(first);
+  return order === 'cut-and-stack' ? `${format(first)}–${format(last)}` : `${format(first)} … ${format(last)}`;
+}
+
+// Steps printed on the cutting guide
+export function stackingSteps(
+  layout: SheetLayout,
+  lastCardNumber: number,
+  options: CutOptions,
+  order: PrintOrder,
+  format: (id: number) => string,
+  locale: Locale = DEFAULT_LOCALE
+): string[] {
+  const pages = pageCount(layout, lastCardNumber);
+  const stacks = cellsPerPage(layout);
+  const cut = translate(locale, options.guides === 'marks' ? 'guide.cutMarks' : 'guide.cutBorders', { count: pages });
+  const result = translate(locale, 'guide.result', { first: format(1), last: format(lastCardNumber) });
+  if (order === 'sequential') {
+    return [
+      cut,
+      translate(locale, 'guide.sequentialPile'),
+      translate(locale, 'guide.sequentialJoin', { count: pages }),
+      result,
+    ];
+  }
+  return [
+    cut,
+    translate(locale, 'guide.stackPile'),
+    translate(locale, 'guide.stackJoin', { count: stacks }),
+    result,
+  ];
+}
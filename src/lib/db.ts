@@ -0,0 +1,64 @@
+// Thin promise wrapper around the app's IndexedDB database. Everything stays
+// in the browser; nothing is sent to a server.
+
+const DB_NAME = 'qr-code-generator';
+const DB_VERSION = 2;
+
+export const LEDGER_STORE = 'ledger';
+export const BATCH_STORE = 'batches';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function upgrade(db: IDBDatabase) {
+  if (!db.objectStoreNames.contains(LEDGER_STORE)) {
+    const ledger = db.createObjectStore(LEDGER_STORE, { keyPath: ['batchKey', 'id'] });
+    ledger.createIndex('batchKey', 'batchKey');
+  }
+  if (!db.objectStoreNames.contains(BATCH_STORE)) {
+    db.createObjectStore(BATCH_STORE, { keyPath: 'id' });
+  }
+}
+
+export function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this browser'));
+  }
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => upgrade(request.result);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Failed to open the local database'));
+  });
+  // Let a later call retry, e.g. after private browsing blocked the first attempt
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+export function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Database request failed'));
+  });
+}
+
+// Run `work` in one transaction and resolve once the transaction commits
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> {
+  const db = await openDb();
+  const transaction = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () => reject(transaction.error ?? new Error('Database transaction was aborted'));
+    transaction.onerror = () => reject(transaction.error ?? new Error('Database transaction failed'));
+  });
+  const result = await work(transaction.objectStore(storeName));
+  await done;
+  return result;
+}
@@ -0,0 +1,17 @@
+// Trigger a browser download for a generated file without leaving the page
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Date stamp used in exported filenames, e.g. 2024-05-01
+export function fileDateStamp(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,206 @@
+// Backs of the cards for double-sided printing. Each back page mirrors its
+// front so every back lands behind its own card once the sheet is flipped,
+// plus a test page for checking how far a printer shifts the second side.
+// All measurements are in millimetres.
+
+import type { QRCodeData } from '@/lib/types';
+import { SheetLayout, cellOrigin, cellSize, cellsPerPage } from '@/lib/layouts';
+import { NumberScheme, formatCardNumber } from '@/lib/numbering';
+import { fillCardPlaceholders } from '@/lib/labels';
+import type { Line } from '@/lib/cutting';
+import { Locale, DEFAULT_LOCALE, MessageRef, translate } from '@/lib/i18n';
+
+// Which edge the printer flips the sheet over
+export type DuplexMode = 'off' | 'long-edge' | 'short-edge';
+
+// Labels are the `duplexMode.<value>` messages
+export const DUPLEX_MODES: { value: DuplexMode }[] = [{ value: 'off' }, { value: 'long-edge' }, { value: 'short-edge' }];
+
+export interface DuplexOptions {
+  mode: DuplexMode;
+  // Event branding across the top of every back
+  heading: string;
+  // Redemption instructions, with the card placeholders filled in per card
+  message: string;
+  // The card's label (usually the recipient's name) in large type
+  showLabel: boolean;
+  showNumber: boolean;
+  // Moves every back to make up for a printer that shifts the second side
+  offsetX: number;
+  offsetY: number;
+}
+
+export const DEFAULT_DUPLEX_OPTIONS: DuplexOptions = {
+  mode: 'off',
+  heading: '',
+  message: '',
+  showLabel: true,
+  showNumber: true,
+  offsetX: 0,
+  offsetY: 0,
+};
+
+export const MAX_OFFSET = 10;
+const MAX_HEADING_LENGTH = 60;
+const MAX_MESSAGE_LENGTH = 400;
+
+// Crosshair arms and the scale the test page's backs are read against
+const TEST_CROSS_LENGTH = 8;
+const TEST_SCALE_STEPS = 5;
+const TEST_TICK_LENGTH = 1.5;
+
+export function validateDuplexOptions(options: DuplexOptions): MessageRef | null {
+  const { offsetX, offsetY } = options;
+  if (!Number.isFinite(offsetX) || !Number.isFinite(offsetY) || Math.abs(offsetX) > MAX_OFFSET || Math.abs(offsetY) > MAX_OFFSET) {
+    return { key: 'duplex.error.offset', params: { max: MAX_OFFSET } };
+  }
+  if (options.heading.length > MAX_HEADING_LENGTH) {
+    return { key: 'duplex.error.heading', params: { max: MAX_HEADING_LENGTH } };
+  }
+  if (options.message.length > MAX_MESSAGE_LENGTH) {
+    return { key: 'duplex.error.message', params: { max: MAX_MESSAGE_LENGTH } };
+  }
+  return null;
+}
+
+// Flipping over the vertical edge swaps left and right; over the horizontal
+// edge, top and bottom. Which edge is long depends on the paper's orientation
+function mirrorsColumns(layout: SheetLayout, mode: DuplexMode): boolean {
+  const portrait = layout.paper.height >= layout.paper.width;
+  return (mode === 'long-edge') === portrait;
+}
+
+// The front cell whose back is printed at this cell of the back page
+export function frontCellForBack(layout: SheetLayout, mode: DuplexMode, row: number, col: number): { row: number; col: number } {
+  return mirrorsColumns(layout, mode)
+    ? { row, col: layout.cols - 1 - col }
+    : { row: layout.rows - 1 - row, col };
+}
+
+// Back pages use the front layout with its margins mirrored, so uneven
+// margins (label sheets, custom layouts) still line up
+export function backLayout(layout: SheetLayout, mode: DuplexMode): SheetLayout {
+  const { top, right, bottom, left } = layout.margins;
+  const margins = mirrorsColumns(layout, mode)
+    ? { top, right: left, bottom, left: right }
+    : { top: bottom, right, bottom: top, left };
+  return { ...layout, margins };
+}
+
+export interface BackCell {
+  // Position of the matching card on the front page
+  row: number;
+  col: number;
+  // Top-left corner on the back page, offset included
+  x: number;
+  y: number;
+}
+
+export function backCells(layout: SheetLayout, options: DuplexOptions): BackCell[] {
+  const back = backLayout(layout, options.mode);
+  return Array.from({ length: layout.rows }, (_, row) =>
+    Array.from({ length: layout.cols }, (_, col) => {
+      const origin = cellOrigin(back, row, col);
+      return {
+        ...frontCellForBack(layout, options.mode, row, col),
+        x: origin.x + options.offsetX,
+        y: origin.y + options.offsetY,
+      };
+    })
+  ).flat();
+}
+
+export interface BackContent {
+  heading?: string;
+  label?: string;
+  message?: string;
+  number?: string;
+}
+
+export function backContent(
+  qr: QRCodeData,
+  options: DuplexOptions,
+  scheme: NumberScheme,
+  locale: Locale = DEFAULT_LOCALE
+): BackContent {
+  return {
+    heading: options.heading.trim() || undefined,
+    label: options.showLabel ? qr.label : undefined,
+    message: fillCardPlaceholders(options.message, qr, scheme, locale).trim() || undefined,
+    number: options.showNumber ? formatCardNumber(qr, scheme) : undefined,
+  };
+}
+
+// Everything that prints, in order. Each front is followed by its back, and
+// the cutting guide gets a blank back so fronts stay on the front
+export type PrintPage =
+  | { kind: 'cutting-guide' }
+  | { kind: 'blank' }
+  | { kind: 'front'; sheet: number }
+  | { kind: 'back'; sheet: number }
+  | { kind: 'alignment-test'; side: 'front' | 'back' };
+
+export function printPages(sheets: number, coverPage: boolean, mode: DuplexMode): PrintPage[] {
+  const duplex = mode !== 'off';
+  const pages: PrintPage[] = [];
+  if (coverPage) pages.push({ kind: 'cutting-guide' }, ...(duplex ? [{ kind: 'blank' } as const] : []));
+  for (let sheet = 0; sheet < sheets; sheet++) {
+    pages.push({ kind: 'front', sheet });
+    if (duplex) pages.push({ kind: 'back', sheet });
+  }
+  return pages;
+}
+
+export const ALIGNMENT_TEST_PAGES: PrintPage[] = [
+  { kind: 'alignment-test', side: 'front' },
+  { kind: 'alignment-test', side: 'back' },
+];
+
+export interface TestMark {
+  lines: Line[];
+  labels: { x: number; y: number; text: string }[];
+}
+
+// A crosshair in the middle of every card on both sides. The backs add a
+// millimetre scale: hold the sheet to the light and read where the front's
+// cross falls to get the offset to enter
+export function alignmentTest(
+  layout: SheetLayout,
+  options: DuplexOptions,
+  side: 'front' | 'back',
+  locale: Locale = DEFAULT_LOCALE
+): TestMark {
+  const cell = cellSize(layout);
+  const cells = side === 'front'
+    ? Array.from({ length: cellsPerPage(layout) }, (_, index) => {
+        const row = Math.floor(index / layout.cols);
+        const col = index % layout.cols;
+        return { row, col, ...cellOrigin(layout, row, col) };
+      })
+    : backCells(layout, options);
+
+  const mark: TestMark = { lines: [], labels: [] };
+  for (const { row, col, x, y } of cells) {
+    const cx = x + cell.width / 2;
+    const cy = y + cell.height / 2;
+    const arm = Math.min(TEST_CROSS_LENGTH, cell.width / 4, cell.height / 4);
+    mark.lines.push({ x1: cx - arm, y1: cy, x2: cx + arm, y2: cy }, { x1: cx, y1: cy - arm, x2: cx, y2: cy + arm });
+    if (side === 'back') {
+      for (let step = -TEST_SCALE_STEPS; step <= TEST_SCALE_STEPS; step++) {
+        if (step === 0) continue;
+        const tick = step % 5 === 0 ? TEST_TICK_LENGTH * 2 : TEST_TICK_LENGTH;
+        mark.lines.push(
+          { x1: cx + step, y1: cy - tick, x2: cx + step, y2: cy + tick },
+          { x1: cx - tick, y1: cy + step, x2: cx + tick, y2: cy + step }
+        );
+      }
+    }
+    const position = row * layout.cols + col + 1;
+    mark.labels.push({
+      x: cx,
+      y: cy + arm + 4,
+      text: translate(locale, side === 'front' ? 'test.front' : 'test.back', { number: position }),
+    });
+  }
+  return mark;
+}
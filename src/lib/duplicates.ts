@@ -0,0 +1,55 @@
+// Duplicate detection: a link pasted twice means two cards for one credit.
+// Codes are grouped by a normalised key so the same referral shows up as a
+// duplicate even when its URLs are written differently.
+
+import type { QRCodeData } from '@/lib/types';
+import type { Translate } from '@/lib/i18n';
+
+export interface DuplicateGroup {
+  // Normalised key shared by every code in the group
+  key: string;
+  // Card numbers in list order; the first is the one "Keep first" keeps
+  ids: number[];
+  // Every code in the group encodes exactly the same text
+  exact: boolean;
+}
+
+// Links with the same `code=` value are one referral, whatever the host or path
+export function duplicateKey(qr: QRCodeData): string {
+  if (qr.payload.kind !== 'url' || !qr.isValid) return `exact:${qr.value}`;
+
+  try {
+    // URL lowercases the scheme and host for us
+    const url = new URL(qr.value);
+    const code = url.searchParams.get('code');
+    if (code) return `code:${code}`;
+    const path = url.pathname.replace(/\/+$/, '');
+    return `url:${url.protocol}//${url.host}${path}${url.search}${url.hash}`;
+  } catch {
+    return `exact:${qr.value}`;
+  }
+}
+
+export function describeDuplicateGroup({ key, exact }: DuplicateGroup, t: Translate): string {
+  if (exact) return t('duplicates.identical');
+  if (key.startsWith('code:')) return t('duplicates.sameCode', { code: key.slice('code:'.length) });
+  return t('duplicates.sameLink');
+}
+
+// Groups of two or more codes, in order of each group's first card
+export function findDuplicates(qrCodes: QRCodeData[]): DuplicateGroup[] {
+  const byKey = new Map<string, QRCodeData[]>();
+  for (const qr of qrCodes) {
+    const key = duplicateKey(qr);
+    const group = byKey.get(key);
+    if (group) group.push(qr);
+    else byKey.set(key, [qr]);
+  }
+
+  return Array.from(byKey, ([key, group]) => ({ key, group }))
+    .filter(({ group }) => group.length > 1)
+    .map(({ key, group }) => {
+      const exact = group.every(qr => qr.value === group[0].value);
+      return { key, ids: group.map(qr => qr.id), exact };
+    });
+}
@@ -0,0 +1,34 @@
+// Builds a batch in a Web Worker, falling back to the page when workers are
+// unavailable or the worker fails to load.
+
+import { BuiltCodes, buildQrCodes } from '@/lib/build-codes';
+import type { PayloadEntry } from '@/lib/payloads';
+
+export interface BuildRequest {
+  entries: PayloadEntry[];
+  baseUrl: string;
+}
+
+// Below this a worker's start-up costs more than it saves
+const WORKER_MIN_ENTRIES = 500;
+
+export function generateQrCodes(entries: PayloadEntry[], baseUrl: string): Promise<BuiltCodes> {
+  if (entries.length < WORKER_MIN_ENTRIES || typeof Worker === 'undefined') {
+    return Promise.resolve(buildQrCodes(entries, baseUrl));
+  }
+
+  return new Promise(resolve => {
+    const worker = new Worker(new URL('./build-codes.worker.ts', import.meta.url));
+    const finish = (result: BuiltCodes) => {
+      worker.terminate();
+      resolve(result);
+    };
+    worker.onmessage = (event: MessageEvent<BuiltCodes>) => finish(event.data);
+    worker.onerror = (event) => {
+      console.error('Generation worker error:', event.message);
+      finish(buildQrCodes(entries, baseUrl));
+    };
+    const request: BuildRequest = { entries, baseUrl };
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,179 @@
+// Message catalogs for the interface and the printed cards. The UI and the
+// cards each have their own locale, so an English UI can print Japanese cards.
+
+import { en } from '@/lib/messages/en';
+import { de } from '@/lib/messages/de';
+import { fr } from '@/lib/messages/fr';
+import { es } from '@/lib/messages/es';
+import { ja } from '@/lib/messages/ja';
+import { zh } from '@/lib/messages/zh';
+import { ar } from '@/lib/messages/ar';
+import { readStored, writeStored } from '@/lib/storage';
+
+export type Locale = 'en' | 'de' | 'fr' | 'es' | 'ja' | 'zh' | 'ar';
+
+// A plain message, or one form per plural category of the `count` parameter
+export type Message = string | Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, Message>;
+
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+// A message picked before the language is known, such as a validation error,
+// with the parameters to fill in when it's shown
+export interface MessageRef {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+// Thrown for problems the user can fix, e.g. a file that isn't in the
+// expected format; `problem` is translated where the error is shown
+export class MessageError extends Error {
+  constructor(readonly problem: MessageRef) {
+    super(problem.key);
+    this.name = 'MessageError';
+  }
+}
+
+export const LOCALES: {
+  value: Locale;
+  // In the language itself, so people can find their own
+  label: string;
+  dir: 'ltr' | 'rtl';
+  // Fonts with glyphs for the script, tried before the generic family
+  fonts: string[];
+}[] = [
+  { value: 'en', label: 'English', dir: 'ltr', fonts: [] },
+  { value: 'de', label: 'Deutsch', dir: 'ltr', fonts: [] },
+  { value: 'fr', label: 'Français', dir: 'ltr', fonts: [] },
+  { value: 'es', label: 'Español', dir: 'ltr', fonts: [] },
+  {
+    value: 'ja',
+    label: '日本語',
+    dir: 'ltr',
+    fonts: ["'Hiragino Sans'", "'Hiragino Kaku Gothic ProN'", "'Yu Gothic'", 'Meiryo', "'Noto Sans JP'", "'Noto Sans CJK JP'"],
+  },
+  {
+    value: 'zh',
+    label: '简体中文',
+    dir: 'ltr',
+    fonts: ["'PingFang SC'", "'Hiragino Sans GB'", "'Microsoft YaHei'", "'Noto Sans SC'", "'Noto Sans CJK SC'"],
+  },
+  {
+    value: 'ar',
+    label: 'العربية',
+    dir: 'rtl',
+    fonts: ["'Geeza Pro'", "'Segoe UI'", 'Tahoma', "'Noto Sans Arabic'", "'Noto Naskh Arabic'"],
+  },
+];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const UI_LOCALE_KEY = 'qr-ui-locale';
+const CARD_LOCALE_KEY = 'qr-card-locale';
+
+const CATALOGS: Record<Locale, Messages> = { en, de, fr, es, ja, zh, ar };
+
+export function isMessageKey(key: string): key is MessageKey {
+  return Object.prototype.hasOwnProperty.call(en, key);
+}
+
+function localeInfo(locale: Locale) {
+  return LOCALES.find(entry => entry.value === locale) ?? LOCALES[0];
+}
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.some(entry => entry.value === value);
+}
+
+export function localeDirection(locale: Locale): 'ltr' | 'rtl' {
+  return localeInfo(locale).dir;
+}
+
+// Put the locale's script fonts ahead of the stack's generic family, e.g.
+// "Helvetica, Arial, sans-serif" becomes "Helvetica, Arial, 'Hiragino Sans', ..., sans-serif"
+export function withLocaleFonts(stack: string, locale: Locale): string {
+  const { fonts } = localeInfo(locale);
+  if (fonts.length === 0) return stack;
+  const families = stack.split(',').map(family => family.trim());
+  const generic = families.pop() ?? 'sans-serif';
+  return [...families, ...fonts, generic].join(', ');
+}
+
+function selectMessage(locale: Locale, message: Message, params: MessageParams): string {
+  if (typeof message === 'string') return message;
+  const count = typeof params.count === 'number' ? params.count : Number(params.count);
+  const form = Number.isFinite(count) ? new Intl.PluralRules(locale).select(count) : 'other';
+  return message[form] ?? message.other;
+}
+
+// Fill in "{name}" parameters; ones that weren't passed are left as they are
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  const message = CATALOGS[locale]?.[key] ?? en[key];
+  return selectMessage(locale, message, params).replace(/\{(\w+)\}/g, (token, name: string) =>
+    name in params ? String(params[name]) : token
+  );
+}
+
+// Like translate, but parameters can be anything (e.g. styled elements) and
+// come back in place between the text
+export function translateParts<T>(locale: Locale, key: MessageKey, params: Record<string, T>): (string | T)[] {
+  const text = selectMessage(locale, CATALOGS[locale]?.[key] ?? en[key], {});
+  return text
+    .split(/(\{\w+\})/)
+    .filter(part => part.length > 0)
+    .map(part => {
+      const name = /^\{(\w+)\}$/.exec(part)?.[1];
+      return name && name in params ? params[name] : part;
+    });
+}
+
+export function translator(locale: Locale): Translate {
+  return (key, params) => translate(locale, key, params);
+}
+
+// Show picked messages; several are run together as sentences
+export function translateRefs(t: Translate, refs: MessageRef | MessageRef[]): string {
+  return (Array.isArray(refs) ? refs : [refs]).map(({ key, params }) => t(key, params)).join(' ');
+}
+
+// The browser's preferred language, if there's a catalog for it
+function detectLocale(): Locale {
+  try {
+    for (const language of navigator.languages ?? [navigator.language]) {
+      const base = language.toLowerCase().split('-')[0];
+      if (isLocale(base)) return base;
+    }
+  } catch {
+    // No navigator outside the browser
+  }
+  return DEFAULT_LOCALE;
+}
+
+function loadLocale(key: string, fallback: () => Locale): Locale {
+  const saved = readStored(key);
+  return isLocale(saved) ? saved : fallback();
+}
+
+function saveLocale(key: string, locale: Locale) {
+  writeStored(key, locale);
+}
+
+export function loadUiLocale(): Locale {
+  return loadLocale(UI_LOCALE_KEY, detectLocale);
+}
+
+export function saveUiLocale(locale: Locale) {
+  saveLocale(UI_LOCALE_KEY, locale);
+}
+
+// Cards follow the interface until a card language is picked
+export function loadCardLocale(): Locale {
+  return loadLocale(CARD_LOCALE_KEY, loadUiLocale);
+}
+
+export function saveCardLocale(locale: Locale) {
+  saveLocale(CARD_LOCALE_KEY, locale);
+}
@@ -0,0 +1,227 @@
+import Papa from 'papaparse';
+import type { QRCodeData } from '@/lib/types';
+import { QRStyle, quietZoneSize } from '@/lib/qr-style';
+import {
+  canvasToPng,
+  loadImage,
+  renderQrCanvas,
+  renderQrPng,
+  renderQrSvg,
+  withEmbeddedLogo,
+} from '@/lib/qr-render';
+import { setPngDpi } from '@/lib/png';
+import { canvasFont, wrapCanvasText } from '@/lib/canvas-text';
+import { Locale, MessageKey, Translate, localeDirection, translateRefs, withLocaleFonts } from '@/lib/i18n';
+import { NumberScheme, cardNumberText } from '@/lib/numbering';
+import { SheetLayout, PX_PER_MM, cellSize } from '@/lib/layouts';
+import type { CutOptions } from '@/lib/cutting';
+import {
+  CardTemplate,
+  blockFontSize,
+  blockWidth,
+  cardArea,
+  fontFor,
+  headerSize,
+  placeBox,
+  templateQrSize,
+  templateTexts,
+} from '@/lib/card-templates';
+
+// SVG is resolution independent; this only sets its nominal size
+const SVG_SIZE = 512;
+
+export interface ImageExportOptions {
+  png: boolean;
+  svg: boolean;
+  // The whole printed card, laid out by the card template
+  cards: boolean;
+  // PNG symbol size in pixels, excluding the quiet zone
+  pngSize: number;
+  // Written into the PNG so print shops see the intended physical size
+  dpi: number;
+  nameTemplate: string;
+}
+
+export const DEFAULT_IMAGE_EXPORT_OPTIONS: ImageExportOptions = {
+  png: true,
+  svg: false,
+  cards: false,
+  pngSize: 1024,
+  dpi: 300,
+  nameTemplate: '{id}-{code}',
+};
+
+export const NAME_TEMPLATE_TOKENS: { token: string; description: MessageKey }[] = [
+  { token: '{id}', description: 'imageExport.token.id' },
+  { token: '{code}', description: 'imageExport.token.code' },
+  { token: '{host}', description: 'imageExport.token.host' },
+  { token: '{label}', description: 'imageExport.token.label' },
+  { token: '{type}', description: 'imageExport.token.type' },
+];
+
+function referralCode(url: string): string {
+  try {
+    const urlObj = new URL(url);
+    return urlObj.searchParams.get('code') ?? '';
+  } catch {
+    return '';
+  }
+}
+
+function hostName(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return '';
+  }
+}
+
+function sanitizeFileName(name: string): string {
+  return name
+    .replace(/[^a-zA-Z0-9._-]+/g, '-')
+    .replace(/-{2,}/g, '-')
+    .replace(/^[-.]+|[-.]+$/g, '')
+    .substring(0, 100);
+}
+
+// Expand a template like "{id}-{code}" into a safe base filename (no extension)
+export function formatFileName(template: string, qr: QRCodeData, scheme: NumberScheme): string {
+  const url = qr.payload.kind === 'url' ? qr.payload.url : '';
+  const withoutExtension = template.replace(/\.(png|svg)$/i, '');
+  const expanded = withoutExtension
+    .replace(/\{id\}/g, cardNumberText(qr, scheme))
+    .replace(/\{code\}/g, referralCode(url))
+    .replace(/\{host\}/g, hostName(url))
+    .replace(/\{type\}/g, qr.payload.kind)
+    .replace(/\{label\}/g, qr.label ?? '');
+  return sanitizeFileName(expanded) || `qr-${qr.id}`;
+}
+
+// Two rows can expand to the same name (e.g. a template without {id})
+function uniqueName(base: string, used: Set<string>): string {
+  let name = base;
+  for (let suffix = 2; used.has(name); suffix++) {
+    name = `${base}-${suffix}`;
+  }
+  used.add(name);
+  return name;
+}
+
+// What whole-card images are drawn from: the same card as the printed sheet
+export interface CardImageSettings {
+  template: CardTemplate;
+  layout: SheetLayout;
+  cutOptions: CutOptions;
+  cardLocale: Locale;
+}
+
+const LINE_HEIGHT = 1.2;
+
+// One card at its printed size, drawn like `TemplateCard` on a white background
+async function renderCardPng(
+  qr: QRCodeData,
+  style: QRStyle,
+  scheme: NumberScheme,
+  { template, layout, cutOptions, cardLocale }: CardImageSettings,
+  dpi: number
+): Promise<Blob> {
+  const pxPerMm = dpi / 25.4;
+  const cell = cellSize(layout);
+  const area = cardArea(layout, cutOptions);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(cell.width * pxPerMm);
+  canvas.height = Math.round(cell.height * pxPerMm);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this browser');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  if (template.header) {
+    const { width, height } = headerSize(template.header, layout);
+    const origin = placeBox(template.header, width, height, area);
+    const image = await loadImage(template.header.src);
+    ctx.drawImage(image, origin.x * pxPerMm, origin.y * pxPerMm, width * pxPerMm, height * pxPerMm);
+  }
+
+  const qrSize = templateQrSize(template, layout) * pxPerMm;
+  const qrCanvas = await renderQrCanvas(qr.value, style, qrSize, quietZoneSize(style, qr.value, qrSize));
+  const centre = placeBox({ x: template.qr.x, y: template.qr.y, align: 'left', valign: 'top' }, 0, 0, area);
+  ctx.drawImage(qrCanvas, centre.x * pxPerMm - qrCanvas.width / 2, centre.y * pxPerMm - qrCanvas.height / 2);
+
+  ctx.fillStyle = '#000000';
+  ctx.textBaseline = 'top';
+  ctx.direction = localeDirection(cardLocale);
+  for (const { block, text } of templateTexts(template, qr, scheme, cardLocale)) {
+    const fontSize = (blockFontSize(block, layout) / PX_PER_MM) * pxPerMm;
+    const width = blockWidth(block, area) * pxPerMm;
+    ctx.font = canvasFont(withLocaleFonts(fontFor(block.font).canvas, cardLocale), fontSize, block.bold);
+    ctx.textAlign = block.align;
+    const lines = wrapCanvasText(ctx, text, width);
+    const lineHeight = fontSize * LINE_HEIGHT;
+    const origin = placeBox(block, width / pxPerMm, (lines.length * lineHeight) / pxPerMm, area);
+    const textX = origin.x * pxPerMm + width * { left: 0, center: 0.5, right: 1 }[block.align];
+    lines.forEach((line, index) => ctx.fillText(line, textX, origin.y * pxPerMm + index * lineHeight));
+  }
+
+  return canvasToPng(canvas);
+}
+
+// Package every valid code as PNG and/or SVG files plus a manifest.csv, whose
+// warnings are written in the interface language
+export async function buildImageZip(
+  qrCodes: QRCodeData[],
+  style: QRStyle,
+  options: ImageExportOptions,
+  scheme: NumberScheme,
+  card: CardImageSettings,
+  t: Translate,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> {
+  const { default: JSZip } = await import('jszip');
+  const zip = new JSZip();
+  const validCodes = qrCodes.filter(qr => qr.isValid);
+
+  const svgStyle = options.svg ? await withEmbeddedLogo(style) : style;
+
+  const usedNames = new Set<string>();
+  const manifest: Record<string, string | number>[] = [];
+
+  for (let index = 0; index < validCodes.length; index++) {
+    const qr = validCodes[index];
+    const baseName = uniqueName(formatFileName(options.nameTemplate, qr, scheme), usedNames);
+    const entry: Record<string, string | number> = {
+      id: cardNumberText(qr, scheme),
+      type: qr.payload.kind,
+      content: qr.value,
+      label: qr.label ?? '',
+    };
+
+    const quietZone = (size: number) => quietZoneSize(style, qr.value, size);
+
+    if (options.png) {
+      const png = await renderQrPng(qr.value, style, options.pngSize, Math.round(quietZone(options.pngSize)));
+      zip.file(`png/${baseName}.png`, await setPngDpi(png, options.dpi));
+      entry.png = `png/${baseName}.png`;
+    }
+
+    if (options.svg) {
+      zip.file(`svg/${baseName}.svg`, renderQrSvg(qr.value, svgStyle, SVG_SIZE, quietZone(SVG_SIZE)));
+      entry.svg = `svg/${baseName}.svg`;
+    }
+
+    if (options.cards) {
+      const png = await renderCardPng(qr, style, scheme, card, options.dpi);
+      zip.file(`cards/${baseName}.png`, await setPngDpi(png, options.dpi));
+      entry.card = `cards/${baseName}.png`;
+    }
+
+    entry.warning = qr.hasWarning && qr.warningMessages ? translateRefs(t, qr.warningMessages) : '';
+    manifest.push(entry);
+    onProgress?.(index + 1, validCodes.length);
+  }
+
+  const columns = ['id', 'type', 'content', 'label', ...(options.png ? ['png'] : []), ...(options.svg ? ['svg'] : []), ...(options.cards ? ['card'] : []), 'warning'];
+  zip.file('manifest.csv', Papa.unparse(manifest, { columns }));
+
+  return zip.generateAsync({ type: 'blob' });
+}
@@ -0,0 +1,185 @@
+// Reading link lists in whatever shape organisers send them: CSV and TSV
+// exports, Excel workbooks, JSON from scripts and ranges pasted from a
+// spreadsheet. Everything becomes a table of text cells for column mapping.
+
+import Papa from 'papaparse';
+import { detectHeader, guessMapping, headerSignature } from '@/lib/csv-mapping';
+import { MessageError, MessageRef } from '@/lib/i18n';
+
+export type ImportFormat = 'csv' | 'tsv' | 'xlsx' | 'json';
+
+export interface ImportSheet {
+  name: string;
+  rows: string[][];
+}
+
+export interface ImportSource {
+  // Absent for a pasted range
+  fileName?: string;
+  // Workbooks can have several sheets; other formats have exactly one
+  sheets: ImportSheet[];
+  sheetIndex: number;
+}
+
+const FORMATS: { format: ImportFormat; extensions: string[]; mimeTypes: string[] }[] = [
+  { format: 'csv', extensions: ['.csv', '.txt'], mimeTypes: ['text/csv', 'application/csv', 'text/plain'] },
+  { format: 'tsv', extensions: ['.tsv', '.tab'], mimeTypes: ['text/tab-separated-values'] },
+  {
+    format: 'xlsx',
+    extensions: ['.xlsx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+  },
+  { format: 'json', extensions: ['.json'], mimeTypes: ['application/json'] },
+];
+
+// For the file picker's `accept` attribute
+export const IMPORT_ACCEPT = FORMATS.flatMap(({ extensions, mimeTypes }) => [...extensions, ...mimeTypes]).join(',');
+
+// The extension decides, since browsers report spreadsheet MIME types unevenly
+export function importFormat(file: File): ImportFormat | null {
+  const name = file.name.toLowerCase();
+  const byExtension = FORMATS.find(({ extensions }) => extensions.some(extension => name.endsWith(extension)));
+  if (byExtension) return byExtension.format;
+  return FORMATS.find(({ mimeTypes }) => mimeTypes.includes(file.type))?.format ?? null;
+}
+
+const hasContent = (row: string[]) => row.some(cell => cell && cell.trim());
+
+// Papa guesses the delimiter when none is given
+function parseDelimited(text: string, delimiter?: string): string[][] {
+  const { data } = Papa.parse<string[]>(text, { header: false, skipEmptyLines: true, delimiter });
+  return data.filter(hasContent);
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// An array of strings becomes one column. An array of objects gets a header
+// row made of their keys, in the order the keys first appear
+export function parseJsonRows(text: string): string[][] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new MessageError({ key: 'import.error.json' });
+  }
+  if (!Array.isArray(data)) {
+    throw new MessageError({ key: 'import.error.notArray' });
+  }
+
+  const items = data.filter(item => item !== null && item !== '');
+  if (items.every(item => typeof item === 'string' || typeof item === 'number')) {
+    return items.map(item => [String(item)]);
+  }
+  if (!items.every(isRecord)) {
+    throw new MessageError({ key: 'import.error.mixedItems' });
+  }
+
+  const keys: string[] = [];
+  for (const item of items) {
+    for (const key of Object.keys(item)) {
+      if (!keys.includes(key)) keys.push(key);
+    }
+  }
+  return [keys, ...items.map(item => keys.map(key => cellText(item[key])))].filter(hasContent);
+}
+
+async function readWorkbook(file: File): Promise<ImportSheet[]> {
+  const { default: readXlsxFile } = await import('read-excel-file/browser');
+  // Keep numbers as typed so codes like "00412" survive
+  const sheets = await readXlsxFile<string>(file, { parseNumber: text => text }).catch(error => {
+    console.error('Workbook read error:', error);
+    throw new MessageError({ key: 'import.error.workbook' });
+  });
+  return sheets.map(({ sheet, data }) => ({
+    name: sheet,
+    rows: data.map(row => row.map(cellText)).filter(hasContent),
+  }));
+}
+
+export async function readImportFile(file: File, format: ImportFormat): Promise<ImportSource> {
+  if (format === 'xlsx') {
+    const sheets = await readWorkbook(file);
+    if (sheets.length === 0) throw new MessageError({ key: 'import.error.noSheets' });
+    // Start on the first sheet with something in it
+    const firstFilled = sheets.findIndex(sheet => sheet.rows.length > 0);
+    return { fileName: file.name, sheets, sheetIndex: Math.max(0, firstFilled) };
+  }
+
+  const text = await file.text();
+  const rows = format === 'json' ? parseJsonRows(text) : parseDelimited(text, format === 'tsv' ? '\t' : undefined);
+  return { fileName: file.name, sheets: [{ name: file.name, rows }], sheetIndex: 0 };
+}
+
+// Ranges copied from Excel, Numbers or Google Sheets arrive tab-separated
+export function pastedSource(text: string): ImportSource {
+  const rows = parseDelimited(text, text.includes('\t') ? '\t' : undefined);
+  return { sheets: [{ name: '', rows }], sheetIndex: 0 };
+}
+
+// Header keys are trimmed, so the leading space keeps this from clashing
+const LINK_COLUMN_KEY = ' link';
+
+export function sourceRows(source: ImportSource): string[][] {
+  return source.sheets[source.sheetIndex]?.rows ?? [];
+}
+
+// Several files become one table. When every file has a header row, columns
+// are lined up by header name, and each file's link column goes in the same
+// place even when one says "URL" and another "Link". Otherwise rows are
+// stacked by position, and a later copy of the first file's header is dropped.
+export function mergeSources(sources: ImportSource[]): string[][] {
+  const tables = sources.map(sourceRows).filter(rows => rows.length > 0);
+  if (tables.length <= 1) return tables[0] ?? [];
+
+  if (!tables.every(detectHeader)) {
+    const signature = detectHeader(tables[0]) ? headerSignature(tables[0][0]) : null;
+    return tables.flatMap((rows, index) =>
+      index > 0 && headerSignature(rows[0]) === signature ? rows.slice(1) : rows
+    );
+  }
+
+  const header: string[] = [];
+  const columnFor = new Map<string, number>();
+  const positions = tables.map(rows => {
+    const linkColumn = guessMapping(rows, '').valueColumn;
+    return rows[0].map((cell, column) => {
+      const key = column === linkColumn ? LINK_COLUMN_KEY : cell.trim().toLowerCase();
+      const existing = key ? columnFor.get(key) : undefined;
+      if (existing !== undefined) return existing;
+      header.push(cell.trim());
+      if (key) columnFor.set(key, header.length - 1);
+      return header.length - 1;
+    });
+  });
+
+  const body = tables.flatMap((rows, index) =>
+    rows.slice(1).map(row => {
+      const merged = header.map(() => '');
+      // Cells past the file's own header have no column to go in
+      positions[index].forEach((position, column) => {
+        merged[position] = row[column] ?? '';
+      });
+      return merged;
+    })
+  );
+  return [header, ...body];
+}
+
+export function sourceName(source: ImportSource): MessageRef {
+  return source.fileName ? { key: 'import.file', params: { name: source.fileName } } : { key: 'import.pasted' };
+}
+
+// How the import is named in the mapping screen and the batch library. Only
+// files are read together; a pasted range is always imported on its own
+export function describeSources(sources: ImportSource[]): MessageRef {
+  if (sources.length === 1) return sourceName(sources[0]);
+  return { key: 'import.files', params: { name: sources[0].fileName ?? '', count: sources.length - 1 } };
+}
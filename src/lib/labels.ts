@@ -0,0 +1,92 @@
+import type { QRCodeData } from '@/lib/types';
+import { describePayload } from '@/lib/payloads';
+import { sanitizeUrlForDisplay } from '@/lib/url-validation';
+import { NumberScheme, formatCardNumber } from '@/lib/numbering';
+import { Locale, DEFAULT_LOCALE, MessageKey } from '@/lib/i18n';
+
+// What the printed card shows under the QR code
+export type CardTextMode = 'both' | 'url' | 'label' | 'none';
+
+// Labels are the `cardText.<value>` messages
+export const CARD_TEXT_MODES: { value: CardTextMode }[] = [
+  { value: 'both' },
+  { value: 'url' },
+  { value: 'label' },
+  { value: 'none' },
+];
+
+export const DEFAULT_CARD_TEXT_MODE: CardTextMode = 'both';
+
+// Joins several label fields, e.g. "For: Jane — Table 4 — Gold"
+export const LABEL_SEPARATOR = ' — ';
+
+const MAX_LABEL_LENGTH = 120;
+
+export function joinLabelFields(fields: (string | undefined)[]): string | undefined {
+  const label = fields
+    .map(field => field?.trim())
+    .filter(Boolean)
+    .join(LABEL_SEPARATOR)
+    .substring(0, MAX_LABEL_LENGTH);
+  return label || undefined;
+}
+
+// Manual entry accepts "url, label"; URLs themselves almost never contain ", "
+export function parseLabeledLine(line: string): { url: string; label?: string } {
+  const separator = /,\s/.exec(line);
+  if (!separator) return { url: line.trim() };
+  return {
+    url: line.substring(0, separator.index).trim(),
+    label: joinLabelFields([line.substring(separator.index + 1)]),
+  };
+}
+
+export interface CardCaption {
+  // Referral code in large type, so it can be typed in if scanning fails
+  code?: string;
+  label?: string;
+  detail?: string;
+}
+
+// Text lines for the bottom of a printed card, shared by print and PDF
+export function cardCaption(
+  qr: QRCodeData,
+  mode: CardTextMode,
+  showCode: boolean = false,
+  locale: Locale = DEFAULT_LOCALE
+): CardCaption {
+  const code = showCode && qr.referralCode ? sanitizeUrlForDisplay(qr.referralCode) : undefined;
+  const detail = sanitizeUrlForDisplay(describePayload(qr.payload, locale));
+  const label = qr.label ? sanitizeUrlForDisplay(qr.label) : undefined;
+  switch (mode) {
+    case 'both':
+      return { code, label, detail };
+    case 'url':
+      return { code, detail };
+    case 'label':
+      return { code, label };
+    case 'none':
+      return { code };
+  }
+}
+
+// Per-card details that card backs and card templates can place in their text
+export const CARD_PLACEHOLDERS: { token: string; description: MessageKey }[] = [
+  { token: '{number}', description: 'placeholder.number' },
+  { token: '{label}', description: 'placeholder.label' },
+  { token: '{code}', description: 'placeholder.code' },
+  { token: '{url}', description: 'placeholder.url' },
+];
+
+export function fillCardPlaceholders(
+  text: string,
+  qr: QRCodeData,
+  scheme: NumberScheme,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  return text
+    .replace(/\{number\}/g, formatCardNumber(qr, scheme))
+    .replace(/\{label\}/g, qr.label ? sanitizeUrlForDisplay(qr.label) : '')
+    .replace(/\{code\}/g, qr.referralCode ? sanitizeUrlForDisplay(qr.referralCode) : '')
+    .replace(/\{url\}/g, sanitizeUrlForDisplay(describePayload(qr.payload, locale)));
+}
@@ -0,0 +1,179 @@
+// Sheet layouts for the print view. All physical measurements are in millimetres.
+
+import { MessageRef, Translate, isMessageKey } from '@/lib/i18n';
+
+export interface PaperSize {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+}
+
+export interface SheetLayout {
+  id: string;
+  name: string;
+  paper: PaperSize;
+  rows: number;
+  cols: number;
+  margins: { top: number; right: number; bottom: number; left: number };
+  gutter: { x: number; y: number };
+}
+
+export const PAPER_SIZES: PaperSize[] = [
+  { id: 'a4', name: 'A4', width: 210, height: 297 },
+  { id: 'letter', name: 'US Letter', width: 215.9, height: 279.4 },
+  { id: 'a3', name: 'A3', width: 297, height: 420 },
+];
+
+const [A4, LETTER, A3] = PAPER_SIZES;
+
+const NO_MARGINS = { top: 0, right: 0, bottom: 0, left: 0 };
+const NO_GUTTER = { x: 0, y: 0 };
+
+export const CUSTOM_LAYOUT_ID = 'custom';
+
+export const LAYOUT_PRESETS: SheetLayout[] = [
+  { id: 'a4-3x3', name: 'A4 — 3 × 3', paper: A4, rows: 3, cols: 3, margins: NO_MARGINS, gutter: NO_GUTTER },
+  { id: 'letter-3x3', name: 'US Letter — 3 × 3', paper: LETTER, rows: 3, cols: 3, margins: NO_MARGINS, gutter: NO_GUTTER },
+  { id: 'a3-4x4', name: 'A3 — 4 × 4', paper: A3, rows: 4, cols: 4, margins: NO_MARGINS, gutter: NO_GUTTER },
+  {
+    id: 'avery-l7160',
+    name: 'Avery L7160 labels (A4, 21 up)',
+    paper: A4,
+    rows: 7,
+    cols: 3,
+    margins: { top: 15.15, right: 7.25, bottom: 15.15, left: 7.25 },
+    gutter: { x: 2.5, y: 0 },
+  },
+  {
+    id: 'avery-5160',
+    name: 'Avery 5160 labels (Letter, 30 up)',
+    paper: LETTER,
+    rows: 10,
+    cols: 3,
+    margins: { top: 12.7, right: 4.76, bottom: 12.7, left: 4.76 },
+    gutter: { x: 3.175, y: 0 },
+  },
+  {
+    id: 'avery-5371',
+    name: 'Avery 5371 business cards (Letter, 10 up)',
+    paper: LETTER,
+    rows: 5,
+    cols: 2,
+    margins: { top: 12.7, right: 19.05, bottom: 12.7, left: 19.05 },
+    gutter: NO_GUTTER,
+  },
+  {
+    id: 'cards-a4-85x54',
+    name: 'Business cards 85 × 54 mm (A4, 10 up)',
+    paper: A4,
+    rows: 5,
+    cols: 2,
+    margins: { top: 13.5, right: 15, bottom: 13.5, left: 15 },
+    gutter: { x: 10, y: 0 },
+  },
+];
+
+export const DEFAULT_LAYOUT = LAYOUT_PRESETS[0];
+
+// Names in the interface or card language. Layouts store the English name,
+// which is shown for any preset without a message
+export function layoutName(layout: SheetLayout, t: Translate): string {
+  if (layout.id === CUSTOM_LAYOUT_ID) return t('layout.custom');
+  const key = `layout.preset.${layout.id}`;
+  return isMessageKey(key) ? t(key) : layout.name;
+}
+
+export function paperName(paper: PaperSize, t: Translate): string {
+  const key = `paper.${paper.id}`;
+  return isMessageKey(key) ? t(key) : paper.name;
+}
+
+// Cut-and-stack puts consecutive cards in the same cell of consecutive pages;
+// reading order fills each page left to right, top to bottom
+export type PrintOrder = 'cut-and-stack' | 'sequential';
+
+// Labels are the `printOrder.<value>` messages
+export const PRINT_ORDERS: { value: PrintOrder }[] = [{ value: 'cut-and-stack' }, { value: 'sequential' }];
+
+// CSS reference pixels per millimetre (96dpi)
+export const PX_PER_MM = 96 / 25.4;
+
+// Reference cell the original 3×3 A4 card design was drawn for
+export const REFERENCE_CELL = { width: 70, height: 99 };
+
+export function cellsPerPage(layout: SheetLayout): number {
+  return layout.rows * layout.cols;
+}
+
+export function pageCount(layout: SheetLayout, total: number): number {
+  return Math.ceil(total / cellsPerPage(layout));
+}
+
+export function cellSize(layout: SheetLayout): { width: number; height: number } {
+  const { paper, rows, cols, margins, gutter } = layout;
+  return {
+    width: (paper.width - margins.left - margins.right - gutter.x * (cols - 1)) / cols,
+    height: (paper.height - margins.top - margins.bottom - gutter.y * (rows - 1)) / rows,
+  };
+}
+
+// Top-left corner of a cell on the page, in millimetres
+export function cellOrigin(layout: SheetLayout, row: number, col: number): { x: number; y: number } {
+  const cell = cellSize(layout);
+  return {
+    x: layout.margins.left + col * (cell.width + layout.gutter.x),
+    y: layout.margins.top + row * (cell.height + layout.gutter.y),
+  };
+}
+
+// Scale factor for card text and decorations relative to the original 3×3 A4 card
+export function cellScale(layout: SheetLayout): number {
+  const cell = cellSize(layout);
+  return Math.min(1, cell.width / REFERENCE_CELL.width, cell.height / REFERENCE_CELL.height);
+}
+
+// QR size in millimetres, leaving room for the number, logo and URL around it
+export function qrSizeMm(layout: SheetLayout): number {
+  const cell = cellSize(layout);
+  return Math.max(0, Math.min(cell.width * 0.68, cell.height * 0.55));
+}
+
+export function qrSizePx(layout: SheetLayout): number {
+  return Math.floor(qrSizeMm(layout) * PX_PER_MM);
+}
+
+// Returns an error message if the layout can't produce usable cells
+export function validateLayout(layout: SheetLayout): MessageRef | null {
+  if (!Number.isInteger(layout.rows) || !Number.isInteger(layout.cols) || layout.rows < 1 || layout.cols < 1) {
+    return { key: 'layout.error.rowsCols' };
+  }
+  if (layout.rows > 20 || layout.cols > 20) {
+    return { key: 'layout.error.tooMany', params: { max: 20 } };
+  }
+  const values = [...Object.values(layout.margins), layout.gutter.x, layout.gutter.y];
+  if (values.some(v => !Number.isFinite(v) || v < 0)) {
+    return { key: 'layout.error.negative' };
+  }
+  const cell = cellSize(layout);
+  if (cell.width < 15 || cell.height < 15) {
+    return { key: 'layout.error.tooSmall', params: { min: 15 } };
+  }
+  return null;
+}
+
+// Calculate the number for a specific cell position using cut-and-stack collation
+export function numberForCell(p: number, r: number, c: number, R: number, C: number, N: number): number | null {
+  const S = R * C;
+  const P = Math.ceil(N / S);
+  const s = r * C + c;
+  const n = s * P + (p + 1);
+  return n <= N ? n : null;
+}
+
+// The card number printed in a cell for the chosen print order
+export function cardForCell(order: PrintOrder, p: number, r: number, c: number, R: number, C: number, N: number): number | null {
+  if (order === 'cut-and-stack') return numberForCell(p, r, c, R, C, N);
+  const n = p * R * C + r * C + c + 1;
+  return n <= N ? n : null;
+}
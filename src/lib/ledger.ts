@@ -0,0 +1,127 @@
+// Handout and redemption ledger: who got which numbered card, and whether it
+// was redeemed. Entries are keyed by the saved batch's id plus the card's #id,
+// so the ledger stays with the batch through edits and reloads.
+
+import Papa from 'papaparse';
+import type { QRCodeData } from '@/lib/types';
+import { LEDGER_STORE, requestResult, withStore } from '@/lib/db';
+import { NumberScheme, cardNumberText } from '@/lib/numbering';
+import type { Translate } from '@/lib/i18n';
+
+export type HandoutStatus = 'unassigned' | 'handed-out' | 'redeemed' | 'void';
+
+// Labels are the `status.<value>` messages
+export const HANDOUT_STATUSES: { value: HandoutStatus; color: string }[] = [
+  { value: 'unassigned', color: 'var(--secondary-text)' },
+  { value: 'handed-out', color: '#60a5fa' },
+  { value: 'redeemed', color: '#4ade80' },
+  { value: 'void', color: '#f87171' },
+];
+
+export interface LedgerEntry {
+  // Saved batch id, or a content hash for ledgers from before batches were saved
+  batchKey: string;
+  id: number;
+  status: HandoutStatus;
+  recipient: string;
+  notes: string;
+  updatedAt: string;
+}
+
+// Fast 53-bit string hash (cyrb53); collisions only matter within one browser
+function hashString(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+// Identifies a batch by what its numbered cards encode. Ledgers used to be
+// stored under this; it's only read now to carry them over to the batch id
+export function contentKey(qrCodes: QRCodeData[]): string {
+  return hashString(qrCodes.map(qr => `${qr.id}␟${qr.value}`).join('\n'));
+}
+
+export function emptyLedgerEntry(key: string, id: number): LedgerEntry {
+  return { batchKey: key, id, status: 'unassigned', recipient: '', notes: '', updatedAt: '' };
+}
+
+function readEntries(store: IDBObjectStore, key: string): Promise<LedgerEntry[]> {
+  return requestResult(store.index('batchKey').getAll(IDBKeyRange.only(key)) as IDBRequest<LedgerEntry[]>);
+}
+
+// A batch with no ledger of its own picks up one stored under `legacyKey`
+export async function loadLedger(key: string, legacyKey?: string): Promise<Map<number, LedgerEntry>> {
+  const entries = await withStore(LEDGER_STORE, 'readwrite', async store => {
+    const own = await readEntries(store, key);
+    if (own.length > 0 || !legacyKey || legacyKey === key) return own;
+    const carried = (await readEntries(store, legacyKey)).map(entry => ({ ...entry, batchKey: key }));
+    for (const entry of carried) store.put(entry);
+    return carried;
+  });
+  return new Map(entries.map(entry => [entry.id, entry]));
+}
+
+// Follow the cards after an edit: `moves` maps each surviving card's old #id to
+// its new one, and entries for cards that are gone are dropped so a reused
+// number doesn't inherit someone else's handout
+export async function moveLedgerEntries(key: string, moves: Map<number, number>): Promise<void> {
+  await withStore(LEDGER_STORE, 'readwrite', async store => {
+    const entries = await readEntries(store, key);
+    const changed = entries.filter(entry => moves.get(entry.id) !== entry.id);
+    if (changed.length === 0) return;
+    for (const entry of changed) store.delete([key, entry.id]);
+    for (const entry of changed) {
+      const id = moves.get(entry.id);
+      if (id !== undefined) store.put({ ...entry, id });
+    }
+  });
+}
+
+export async function saveLedgerEntries(entries: LedgerEntry[]): Promise<void> {
+  await withStore(LEDGER_STORE, 'readwrite', store => {
+    for (const entry of entries) store.put(entry);
+  });
+}
+
+// Parse "1-20, 25, 30-32" into card numbers between min and max; null if malformed
+export function parseNumberRange(input: string, min: number, max: number): number[] | null {
+  const numbers = new Set<number>();
+  const parts = input.split(',').map(part => part.trim()).filter(Boolean);
+  if (parts.length === 0) return null;
+
+  for (const part of parts) {
+    const match = /^#?(\d+)(?:\s*[-–]\s*#?(\d+))?$/.exec(part);
+    if (!match) return null;
+    const start = Number(match[1]);
+    const end = match[2] ? Number(match[2]) : start;
+    if (start < min || end > max || start > end) return null;
+    for (let n = start; n <= end; n++) numbers.add(n);
+  }
+  return Array.from(numbers).sort((a, b) => a - b);
+}
+
+// Statuses are written in the interface language, as shown in the tracker
+export function ledgerCsv(qrCodes: QRCodeData[], ledger: Map<number, LedgerEntry>, scheme: NumberScheme, t: Translate): string {
+  return Papa.unparse(
+    qrCodes.map(qr => {
+      const entry = ledger.get(qr.id);
+      return {
+        id: cardNumberText(qr, scheme),
+        label: qr.label ?? '',
+        content: qr.value,
+        status: t(`status.${entry?.status ?? 'unassigned'}`),
+        recipient: entry?.recipient ?? '',
+        notes: entry?.notes ?? '',
+        updated: entry?.updatedAt ?? '',
+      };
+    }),
+    { columns: ['id', 'label', 'content', 'status', 'recipient', 'notes', 'updated'] }
+  );
+}
@@ -0,0 +1,794 @@
+import type { Messages } from '@/lib/i18n';
+
+export const ar: Messages = {
+  'locale.label': 'اللغة',
+
+  'common.back': '→ رجوع',
+  'common.cancel': 'إلغاء',
+  'common.save': 'حفظ',
+  'common.backToCodes': '→ العودة إلى الرموز',
+
+  'options.headline': 'مولّد رموز QR من {brand}',
+  'options.brand': 'Cursor Credits',
+  'options.subtitle': 'أنشئ رموز QR لروابط الإحالة الخاصة بك',
+  'options.upload': 'رفع جدول بيانات أو لصقه',
+  'options.manual': 'إدخال الروابط يدويًا',
+  'options.builder': 'Wi-Fi وجهة اتصال وفعالية والمزيد',
+  'options.library': 'الدفعات المحفوظة',
+
+  'footer.madeBy': 'صُنع بـ {heart} بواسطة {author}',
+  'footer.contribute': 'ساهم',
+  'footer.builtWith': 'بُني باستخدام Cursor',
+
+  'upload.title': 'رفع جدول بيانات',
+  'upload.processing': 'جارٍ معالجة الملف...',
+  'upload.drop': 'أفلت ملفات CSV أو TSV أو Excel أو JSON هنا',
+  'upload.or': 'أو',
+  'upload.choose': 'اختر ملفًا',
+  'upload.limits': 'الحد الأقصى 5 ميغابايت لكل ملف، وحتى {max} رابط. تُدمج الملفات المتعددة في دفعة واحدة.',
+  'upload.pastePlaceholder': 'أو الصق هنا نطاقًا منسوخًا من Excel أو Google Sheets',
+  'upload.pasteLabel': 'لصق نطاق من جدول بيانات',
+
+  'manual.title': 'إدخال الروابط',
+  'manual.placeholder': 'أدخل روابط الإحالة من Cursor، رابطًا في كل سطر، ويمكن أن تتبعه فاصلة وتسمية:',
+  'manual.exampleLabel': 'إلى: سارة — الطاولة 4',
+  'manual.processing': 'جارٍ المعالجة...',
+  'manual.generate': 'إنشاء رموز QR',
+
+  'results.title': 'رموز QR ({count})',
+  'results.savedAs': 'حُفظت باسم «{name}»',
+  'results.preview': 'معاينة',
+  'results.print': 'طباعة',
+  'results.preparing': 'جارٍ تجهيز الصفحات {done}/{total}...',
+  'results.downloadPdf': 'تنزيل PDF',
+  'results.buildingPdf': 'جارٍ إنشاء PDF...',
+  'results.downloadImages': 'تنزيل الصور',
+  'results.tracker': 'المتتبع',
+  'results.clear': 'مسح',
+
+  'toolbar.cardText': 'نص البطاقة',
+  'toolbar.cardLanguage': 'لغة البطاقات',
+  'toolbar.printCode': 'طباعة رمز الإحالة بخط كبير',
+  'toolbar.template': 'قالب البطاقة: {name}',
+  'toolbar.hideTemplate': 'إخفاء قالب البطاقة',
+  'toolbar.duplex': 'على الوجهين',
+  'toolbar.hideDuplex': 'إخفاء الطباعة على الوجهين',
+  'toolbar.numbering': 'الترقيم',
+  'toolbar.hideNumbering': 'إخفاء الترقيم',
+  'toolbar.cutting': 'القص',
+  'toolbar.hideCutting': 'إخفاء القص',
+  'toolbar.policy': 'سياسة الروابط',
+  'toolbar.policyNamed': 'سياسة الروابط: {name}',
+  'toolbar.hidePolicy': 'إخفاء سياسة الروابط',
+  'toolbar.appearance': 'المظهر',
+  'toolbar.hideAppearance': 'إخفاء المظهر',
+
+  'cardText.both': 'التسمية والرابط/التفاصيل',
+  'cardText.url': 'الرابط/التفاصيل فقط',
+  'cardText.label': 'التسمية بدل الرابط/التفاصيل',
+  'cardText.none': 'بدون نص',
+
+  'numbering.renumber': 'إعادة ترقيم البطاقات',
+  'numbering.keep': 'الإبقاء على أرقام البطاقات',
+
+  'tip.cutAndStack': '💡 الأرقام مرتبة لتسهيل التكديس: بعد الطباعة قصّ الصفحات إلى مربعات وكدّسها حسب الموضع لتحصل على الترتيب الصحيح',
+  'tip.sequential': '💡 الأرقام تسير في كل صفحة بترتيب القراءة: قصّ كل صفحة وكدّس قطعها من اليسار إلى اليمين ومن الأعلى إلى الأسفل',
+
+  'policy.blocked': {
+    zero: '🚫 لا توجد روابط تخالف سياسة «{name}».',
+    one: '🚫 رابط واحد يخالف سياسة «{name}» وهو ممنوع من الطباعة والتصدير.',
+    two: '🚫 رابطان يخالفان سياسة «{name}» وهما ممنوعان من الطباعة والتصدير.',
+    few: '🚫 {count} روابط تخالف سياسة «{name}» وهي ممنوعة من الطباعة والتصدير.',
+    many: '🚫 {count} رابطًا يخالف سياسة «{name}» وهي ممنوعة من الطباعة والتصدير.',
+    other: '🚫 {count} رابط يخالف سياسة «{name}» وهي ممنوعة من الطباعة والتصدير.',
+  },
+  'policy.flagged': {
+    zero: '⚠️ لا توجد روابط تخالف سياسة «{name}».',
+    one: '⚠️ رابط واحد يخالف سياسة «{name}».',
+    two: '⚠️ رابطان يخالفان سياسة «{name}».',
+    few: '⚠️ {count} روابط تخالف سياسة «{name}».',
+    many: '⚠️ {count} رابطًا يخالف سياسة «{name}».',
+    other: '⚠️ {count} رابط يخالف سياسة «{name}».',
+  },
+  'policy.cursorReferral': 'روابط إحالة Cursor',
+  'policy.newName': 'سياسة جديدة',
+  'policy.copyName': '{name} (نسخة)',
+  'policy.forBatch': 'سياسة الروابط لهذه الدفعة',
+  'policy.none': 'بدون سياسة',
+  'policy.new': 'سياسة جديدة',
+  'policy.duplicate': 'تكرار',
+  'policy.breaking': {
+    zero: 'لا يخالف أي رابط هذه السياسة',
+    one: 'رابط واحد يخالف هذه السياسة',
+    two: 'رابطان يخالفان هذه السياسة',
+    few: '{count} روابط تخالف هذه السياسة',
+    many: '{count} رابطًا يخالف هذه السياسة',
+    other: '{count} رابط يخالف هذه السياسة',
+  },
+  'policy.allFollow': '✓ كل الروابط تتبع هذه السياسة',
+  'policy.allowedHosts': 'المضيفون المسموح بهم: {hosts}',
+  'policy.anyHost': 'أي مضيف',
+  'policy.deniedHosts': 'المضيفون المرفوضون: {hosts}',
+  'policy.shape': 'يجب أن تبدو الروابط هكذا: {shape}',
+  'policy.blocksSummary': 'تُمنع الروابط المخالفة من الطباعة.',
+  'policy.flagsSummary': 'تُميَّز الروابط المخالفة.',
+  'policy.builtIn': 'سياسة مدمجة. كرّرها لإجراء تغييرات.',
+  'policy.name': 'الاسم',
+  'policy.requiredShape': 'شكل الرابط المطلوب',
+  'policy.allowedHostsField': 'المضيفون المسموح بهم (واحد في كل سطر، و‎*.example.com للنطاقات الفرعية؛ الفراغ يسمح بالكل)',
+  'policy.deniedHostsField': 'المضيفون المرفوضون',
+  'policy.whenBroken': 'عندما يخالف رابط السياسة',
+  'policy.strictness.warn': 'تمييز فقط',
+  'policy.strictness.block': 'منع الطباعة',
+  'policy.delete': 'حذف السياسة',
+
+  'verify.progress': 'جارٍ التحقق من إمكانية مسح كل رمز… {done}/{total}',
+  'verify.failing': '❌ فشل {failing} من {total} رمزًا في فحص المسح',
+  'verify.passing': '✓ جميع الرموز ({count}) تُمسح وتُعيد محتواها',
+  'verify.showFailing': 'عرض الفاشلة فقط',
+
+  'cards.add': '+ إضافة رمز',
+  'cards.addAs': 'إضافة برقم {number}',
+  'cards.afterEdits': 'بعد التعديل',
+
+  'card.dragToReorder': 'اسحب لإعادة الترتيب',
+  'card.label': 'البطاقة {number}',
+  'card.labelNamed': 'البطاقة {number}: {label}',
+  'card.moveLabel': 'نقل البطاقة {number}. استخدم مفاتيح الأسهم لإعادة الترتيب',
+  'card.qrAlt': 'رمز QR للبطاقة {number}: {content}',
+  'card.edit': 'تعديل',
+  'card.editLabel': 'تعديل البطاقة {number}',
+  'card.delete': 'حذف',
+  'card.deleteLabel': 'حذف البطاقة {number}',
+  'card.scanFailed': '❌ فشل فحص المسح: {message}',
+  'card.policy': 'السياسة: {problem}',
+  'card.duplicateOf': '⚠️ مكرر للبطاقة {number}',
+  'card.modules': 'v{version} · {size}×{size} وحدة',
+  'card.tightLogo': '⚠️ مساحة الشعار ضيقة',
+  'card.unscannable': '⛔ غالبًا لا يمكن مسحه',
+  'card.scans': '✓ يُمسح',
+
+  'toast.close': 'إغلاق الإشعار',
+  'toast.region': 'الإشعارات',
+  'toast.templatesNotSaved': 'تعذّر حفظ قوالب البطاقات في المتصفح. جرّب صورة ترويسة أصغر.',
+  'toast.removed': {
+    zero: 'لم تُحذف أي بطاقة.',
+    one: 'حُذفت بطاقة واحدة.',
+    two: 'حُذفت بطاقتان.',
+    few: 'حُذفت {count} بطاقات.',
+    many: 'حُذفت {count} بطاقة.',
+    other: 'حُذفت {count} بطاقة.',
+  },
+  'toast.removedRenumbered': 'أُعيد ترقيم البطاقات المتبقية.',
+  'toast.removedKept': {
+    one: 'يبقى رقمها فارغًا على الأوراق.',
+    other: 'تبقى أرقامها فارغة على الأوراق.',
+  },
+  'toast.cardAddedInvalid': 'أُضيفت البطاقة {number} لكنها غير صالحة: {problem}',
+  'toast.cardUpdatedInvalid': 'حُدّثت البطاقة {number} لكنها غير صالحة: {problem}',
+  'toast.cardAddedWarning': 'أُضيفت البطاقة {number}. {warning}',
+  'toast.cardUpdatedWarning': 'حُدّثت البطاقة {number}. {warning}',
+  'toast.batchFull': 'يمكن أن تضم الدفعة {max} رمزًا على الأكثر.',
+  'toast.renumbered': 'أُعيد ترقيم البطاقات لسد الفجوات.',
+  'toast.ledgerNotMoved': 'تعذّر تحديث المتتبع بأرقام البطاقات الجديدة. راجع البطاقات الموزعة في المتتبع.',
+  'toast.batchNotSaved': 'تعذّر حفظ هذه الدفعة في المتصفح. ستُفقد عند إعادة التحميل.',
+  'toast.batchOpenFailed': 'تعذّر فتح «{name}». الدفعة المحفوظة تالفة أو من إصدار غير مدعوم.',
+  'toast.noUrls': 'يرجى إدخال رابط واحد على الأقل',
+  'toast.urlLimit': 'تجري معالجة أول {max} من {count} رابط (الحد الأقصى).',
+  'toast.generatedInvalid': 'أُنشئ {count} رمز QR، منها {invalid} رابط غير صالح. ستُعلَّم الروابط غير الصالحة.',
+  'toast.generatedWarnings': 'أُنشئ {count} رمز QR مع {warnings} تحذير. يرجى مراجعة الروابط المعلَّمة.',
+  'toast.builtWarnings': 'أُنشئ {count} رمز QR مع {warnings} تحذير. يرجى مراجعة الرموز المعلَّمة.',
+  'toast.generateFailed': 'تعذّر إنشاء رموز QR. يرجى التحقق من المدخلات والمحاولة مرة أخرى.',
+  'toast.scanFailing': 'فشل {failing} من {total} رمزًا في فحص المسح. استخدم «عرض الفاشلة فقط» لمراجعتها.',
+  'toast.scanPassing': 'جميع الرموز ({count}) تُمسح وتُعيد محتواها.',
+  'toast.unscannable': 'غالبًا لا يمكن مسح {count} رمز: {reason}',
+  'toast.policyBlocks': '{count} رابط يخالف سياسة «{name}»، مثل {number}: {problem}. أصلحها أو احذفها، أو اجعل السياسة للتعليم فقط.',
+  'toast.cannotPrint': 'لا يمكن الطباعة بهذه الإعدادات: {error}.',
+  'toast.cannotPrintTest': 'لا يمكن طباعة الاختبار بهذه الإعدادات: {error}.',
+  'toast.cannotExportTest': 'لا يمكن تصدير الاختبار بهذه الإعدادات: {error}.',
+  'toast.testPdfFailed': 'تعذّر إنشاء ملف PDF للاختبار. حاول مرة أخرى أو اطبعه بدلًا من ذلك.',
+  'toast.cannotPreview': 'لا يمكن معاينة هذه الإعدادات: {error}.',
+  'toast.cannotExport': 'لا يمكن التصدير بهذه الإعدادات: {error}.',
+  'toast.pdfFailed': 'تعذّر إنشاء ملف PDF. حاول مرة أخرى أو استخدم الطباعة بدلًا من ذلك.',
+  'toast.emptyFile': 'الملف فارغ. يرجى التحقق من الملف والمحاولة مرة أخرى.',
+  'toast.rowLimit': 'يحتوي الاستيراد على {count} صف. سيُنشأ {max} رمز QR كحد أقصى.',
+  'toast.fileLimit': 'يجري استيراد أول {max} من {count} ملف.',
+  'toast.fileTooLarge': 'يتجاوز {name} ({size} ميغابايت) الحد الأقصى البالغ 5 ميغابايت. يرجى استخدام ملف أصغر.',
+  'toast.unsupportedFile': '{name} ملف غير مدعوم. يرجى رفع CSV أو TSV أو Excel (.xlsx) أو JSON.',
+  'toast.fileUnreadable': 'تعذّرت قراءة {name}: {reason}',
+  'toast.unknownError': 'خطأ غير معروف',
+  'toast.readFailed': 'تعذّرت قراءة الملف. يرجى المحاولة بملف آخر.',
+  'toast.pasteTooLarge': 'النص الملصوق أكبر من 5 ميغابايت. يرجى لصق نطاق أصغر.',
+  'toast.noLinkValues': 'لا توجد قيم في عمود الروابط المحدد. يرجى اختيار عمود آخر.',
+  'toast.importedInvalid': 'عولج {count} رابط من {file}. وُجد {invalid} رابط غير صالح.',
+  'toast.importedWarnings': 'عولج {count} رابط مع {warnings} تحذير.',
+  'toast.importFailed': 'تعذّرت معالجة الصفوف المستوردة. يرجى التحقق من تنسيق الملف والمحاولة مرة أخرى.',
+
+  'error.title': 'حدث خطأ ما',
+  'error.intro': 'واجهنا خطأً غير متوقع. قد يكون السبب:',
+  'error.causeFile': 'بيانات ملف مشوهة أو تالفة',
+  'error.causeBrowser': 'مشكلات توافق المتصفح',
+  'error.causeInput': 'تنسيق إدخال غير متوقع',
+  'error.saved': 'الدفعات المُنشأة محفوظة في هذا المتصفح؛ افتحها من «الدفعات المحفوظة» بعد إعادة التحميل.',
+  'error.details': 'التفاصيل التقنية',
+  'error.reload': 'إعادة تحميل التطبيق',
+
+  'kind.url': 'رابط',
+  'kind.wifi': 'Wi-Fi',
+  'kind.vcard': 'جهة اتصال',
+  'kind.email': 'بريد إلكتروني',
+  'kind.sms': 'رسالة نصية',
+  'kind.event': 'فعالية',
+  'kind.text': 'نص',
+  'print.invalidUrl': 'رابط غير صالح',
+  'print.invalid': '{kind} غير صالح',
+  'print.wifi': 'Wi-Fi: {name}',
+  'print.contact': 'جهة اتصال: {name}',
+  'print.email': 'بريد إلكتروني: {address}',
+  'print.sms': 'رسالة نصية: {phone}',
+  'print.event': 'فعالية: {title}',
+
+  'guide.title': 'دليل القص',
+  'guide.cards': {
+    zero: 'لا بطاقات',
+    one: 'بطاقة واحدة',
+    two: 'بطاقتان',
+    few: '{count} بطاقات',
+    many: '{count} بطاقة',
+    other: '{count} بطاقة',
+  },
+  'guide.sheets': {
+    zero: 'لا أوراق',
+    one: 'ورقة واحدة',
+    two: 'ورقتان',
+    few: '{count} أوراق',
+    many: '{count} ورقة',
+    other: '{count} ورقة',
+  },
+  'guide.summary': '{cards} على {sheets}',
+  'guide.stack': 'الكومة {number}',
+  'guide.piece': 'القطعة {number}',
+  'guide.empty': 'فارغة',
+  'guide.cutMarks': {
+    one: 'قصّ الورقة على طول علامات القص.',
+    two: 'قصّ الورقتين على طول علامات القص.',
+    other: 'قصّ الأوراق كلها ({count}) على طول علامات القص.',
+  },
+  'guide.cutBorders': {
+    one: 'قصّ الورقة على طول حدود البطاقات.',
+    two: 'قصّ الورقتين على طول حدود البطاقات.',
+    other: 'قصّ الأوراق كلها ({count}) على طول حدود البطاقات.',
+  },
+  'guide.sequentialPile': 'كدّس قطع كل ورقة بترتيب القراءة، من اليسار إلى اليمين ومن الأعلى إلى الأسفل، والقطعة الأولى في الأعلى.',
+  'guide.sequentialJoin': 'ضع كومة الورقة 1 فوق كومة الورقة 2، وهكذا حتى الورقة {count}.',
+  'guide.stackPile': 'اجمع قطع كل موضع معًا بترتيب الصفحات والصفحة 1 في الأعلى. كل موضع هو كومة أدناه.',
+  'guide.stackJoin': 'ضع الكومة 1 فوق الكومة 2، ثم الاثنتين فوق الكومة 3، وهكذا حتى الكومة {count}.',
+  'guide.result': 'أصبحت الكومة الآن من البطاقة {first} إلى البطاقة {last} دون فرز.',
+
+  'test.front': 'الوجه {number}',
+  'test.back': 'الظهر {number}',
+
+  'tracker.title': 'متتبع التوزيع',
+  'tracker.exportCsv': 'تصدير CSV',
+  'tracker.count': '{status}: {count}',
+  'tracker.cards': 'البطاقات',
+  'tracker.setStatus': 'تعيين الحالة إلى',
+  'tracker.recipientOptional': 'المستلم (اختياري)',
+  'tracker.apply': 'تطبيق',
+  'tracker.show': 'عرض',
+  'tracker.allCards': 'كل البطاقات',
+  'tracker.loading': 'جارٍ تحميل المتتبع…',
+  'tracker.code': 'الرمز',
+  'tracker.status': 'الحالة',
+  'tracker.recipient': 'المستلم',
+  'tracker.notes': 'ملاحظات',
+  'tracker.statusOf': 'حالة {number}',
+  'tracker.recipientOf': 'مستلم {number}',
+  'tracker.notesFor': 'ملاحظات {number}',
+  'tracker.empty': 'لا توجد بطاقات بهذه الحالة.',
+  'tracker.openFailed': 'تعذّر فتح قاعدة بيانات المتتبع المحلية. لن تُحفظ التغييرات.',
+  'tracker.saveFailed': 'تعذّر حفظ تغييرات المتتبع محليًا.',
+  'tracker.rangeHint': 'أدخل أرقام بطاقات مثل "{example}" بين {lowest} و{highest}.',
+  'tracker.noPlainNumbers': 'لا توجد بطاقة برقم بسيط يمكن الاختيار به.',
+  'tracker.noMatch': 'لا يوجد أي من هذه الأرقام على بطاقة في هذه الدفعة.',
+  'tracker.updated': {
+    zero: 'لم تُحدَّث أي بطاقة.',
+    one: 'حُدّثت بطاقة واحدة.',
+    two: 'حُدّثت بطاقتان.',
+    few: 'حُدّثت {count} بطاقات.',
+    many: 'حُدّثت {count} بطاقة.',
+    other: 'حُدّثت {count} بطاقة.',
+  },
+  'status.unassigned': 'غير مخصصة',
+  'status.handed-out': 'موزعة',
+  'status.redeemed': 'مستخدمة',
+  'status.void': 'ملغاة',
+
+  'layout.sheet': 'تخطيط الورقة',
+  'layout.custom': 'مخصص',
+  'layout.customOption': 'مخصص…',
+  'layout.summary': '{count} لكل صفحة · خلايا {width} × {height} مم',
+  'layout.paper': 'حجم الورق',
+  'layout.paperOption': '{name} ({width} × {height} مم)',
+  'layout.rows': 'الصفوف',
+  'layout.columns': 'الأعمدة',
+  'layout.columnGutter': 'المسافة بين الأعمدة',
+  'layout.rowGutter': 'المسافة بين الصفوف',
+  'layout.margin.top': 'الهامش العلوي',
+  'layout.margin.right': 'الهامش الأيمن',
+  'layout.margin.bottom': 'الهامش السفلي',
+  'layout.margin.left': 'الهامش الأيسر',
+  'layout.mm': 'مم',
+  'layout.preset.a4-3x3': 'A4 — 3 × 3',
+  'layout.preset.letter-3x3': 'ليتر الأمريكي — 3 × 3',
+  'layout.preset.a3-4x4': 'A3 — 4 × 4',
+  'layout.preset.avery-l7160': 'ملصقات Avery L7160 (A4، 21 في الورقة)',
+  'layout.preset.avery-5160': 'ملصقات Avery 5160 (ليتر، 30 في الورقة)',
+  'layout.preset.avery-5371': 'بطاقات عمل Avery 5371 (ليتر، 10 في الورقة)',
+  'layout.preset.cards-a4-85x54': 'بطاقات عمل 85 × 54 مم (A4، 10 في الورقة)',
+  'paper.a4': 'A4',
+  'paper.letter': 'ليتر الأمريكي',
+  'paper.a3': 'A3',
+  'printOrder.cut-and-stack': 'قص وتكديس',
+  'printOrder.sequential': 'ترتيب القراءة',
+
+  'numbering.printOrder': 'ترتيب الطباعة',
+  'numbering.firstNumber': 'الرقم الأول',
+  'numbering.prefix': 'البادئة',
+  'numbering.suffix': 'اللاحقة',
+  'numbering.padTo': 'إكمال بالأصفار حتى',
+  'numbering.digits': 'خانات',
+  'numbering.fromColumn': 'استخدام أرقام البطاقات من الملف المستورد',
+  'numbering.summary': 'تُرقَّم البطاقات من {first} إلى {last} على الشاشة وفي الطباعة وفي كل تصدير.',
+  'numbering.summaryImported': 'تُرقَّم البطاقات من {first} إلى {last} (تحتفظ البطاقات التي لها رقم في الملف برقمها) على الشاشة وفي الطباعة وفي كل تصدير.',
+  'numbering.aboutCutAndStack': 'يضع ترتيب «قص وتكديس» البطاقات المتتالية في الموضع نفسه من صفحات متتالية.',
+  'numbering.aboutSequential': 'يملأ ترتيب القراءة كل صفحة من اليسار إلى اليمين ومن الأعلى إلى الأسفل.',
+  'cutting.guides': 'أدلة القص',
+  'cutGuide.borders': 'إطار حول كل بطاقة',
+  'cutGuide.marks': 'علامات القص في الهوامش',
+  'cutting.bleed': 'الامتداد',
+  'cutting.safeZone': 'المنطقة الآمنة',
+  'cutting.coverPage': 'طباعة دليل قص قبل الأوراق يبيّن البطاقات التي تنتهي في كل كومة',
+  'cutting.bleedHelp': 'يمدّ الامتداد خلفية كل بطاقة إلى ما بعد خط القص حتى لا يترك قصٌّ منحرف قليلًا حافة بيضاء. يبقى النص والشعارات والرموز داخل المنطقة الآمنة.',
+  'cutting.marksNoRoom': 'تحتاج علامات القص إلى هامش {margin} مم؛ الجوانب الأقل لا تحصل على علامات. اختر تخطيطًا بهوامش أو استخدم الإطارات.',
+  'duplex.printing': 'الطباعة',
+  'duplexMode.off': 'وجه واحد',
+  'duplexMode.long-edge': 'وجهان، القلب على الحافة الطويلة',
+  'duplexMode.short-edge': 'وجهان، القلب على الحافة القصيرة',
+  'duplex.heading': 'عنوان الظهر',
+  'duplex.message': 'رسالة الظهر',
+  'duplex.messagePlaceholder': 'امسح الوجه الأمامي للحصول على رصيدك. البطاقة {number}',
+  'duplex.placeholders': 'استخدم {tokens} لتفاصيل كل بطاقة',
+  'duplex.showLabel': 'طباعة تسمية البطاقة (مثل اسم المستلم)',
+  'duplex.showNumber': 'طباعة رقم البطاقة',
+  'duplex.alignHelp': 'اطبع اختبار المحاذاة على الوجهين بالإعدادات نفسها ثم ارفعه نحو الضوء. إذا انحرف صليب الوجه عن صليب الظهر، فاقرأ المسافة على مقياس الظهر (كل علامة 1 مم) وأدخلها أدناه: اليمين والأسفل موجبان.',
+  'duplex.moveRight': 'تحريك الظهر لليمين',
+  'duplex.moveDown': 'تحريك الظهر للأسفل',
+  'duplex.printTest': 'طباعة اختبار المحاذاة',
+  'duplex.downloadTest': 'تنزيل ملف PDF للاختبار',
+  'placeholder.number': 'رقم البطاقة',
+  'placeholder.label': 'التسمية',
+  'placeholder.code': 'رمز الإحالة',
+  'placeholder.url': 'الرابط أو ملخص المحتوى',
+
+  'style.moduleStyle.squares': 'مربعات',
+  'style.moduleStyle.dots': 'نقاط',
+  'style.moduleStyle.fluid': 'انسيابي',
+  'style.previewInfo': 'معاينة مباشرة · الإصدار {version}',
+  'style.moduleCount': '{size}×{size} وحدة',
+  'style.reset': 'إعادة الضبط الافتراضي',
+  'style.foreground': 'لون المقدمة',
+  'style.background': 'الخلفية',
+  'style.modules': 'الوحدات',
+  'style.moduleStyle': 'نمط الوحدات',
+  'style.eyeRadius': 'انحناء زوايا العيون',
+  'style.square': 'مربع',
+  'style.modulesValue': {
+    zero: '{count} وحدة',
+    one: 'وحدة واحدة',
+    two: 'وحدتان',
+    few: '{count} وحدات',
+    many: '{count} وحدة',
+    other: '{count} وحدة',
+  },
+  'style.modulesSpec': '{modules} (المعيار)',
+  'style.eyesMatch': 'العيون بلون المقدمة',
+  'style.eyeColor': 'لون العيون',
+  'style.errorCorrection': 'تصحيح الأخطاء',
+  'style.errorCorrectionLevel': 'مستوى تصحيح الأخطاء',
+  'style.ecLevel.L': 'منخفض',
+  'style.ecLevel.M': 'متوسط',
+  'style.ecLevel.Q': 'ربعي',
+  'style.ecLevel.H': 'مرتفع',
+  'style.ecLevelHint': '{name}: يستعيد نحو {percent}% من الرمز',
+  'style.quietZone': 'المنطقة الهادئة',
+  'style.logo': 'الشعار',
+  'style.logoDefault': 'شعار Cursor',
+  'style.logoCustom': 'رفع شعار مخصص…',
+  'style.logoNone': 'بدون شعار',
+  'style.logoReplace': 'استبدال الشعار المرفوع',
+  'style.logoSize': 'حجم الشعار',
+  'style.logoSizeValue': '{percent}% من الرمز',
+  'style.logoPadding': 'هامش الشعار',
+  'style.paddingShape': 'شكل الهامش',
+  'style.paddingSquare': 'مربع',
+  'style.paddingCircle': 'دائرة',
+  'style.logoCoverage': 'يخفي الشعار {coverage}% من وحدات البيانات؛ ويستعيد المستوى {level} نحو {recovery}%.',
+  'style.logoType': 'يجب أن يكون الشعار صورة PNG أو JPEG أو WebP أو SVG.',
+  'style.logoTooLarge': 'حجم ملف الشعار أكبر من 1 ميغابايت. استخدم صورة أصغر.',
+  'style.logoUnreadable': 'تعذّرت قراءة صورة الشعار. جرّب ملفًا آخر.',
+
+  'template.select': 'قالب البطاقة',
+  'template.new': 'قالب جديد',
+  'template.duplicate': 'تكرار',
+  'template.classic': 'كلاسيكي',
+  'template.newName': 'قالب جديد',
+  'template.copyName': '{name} (نسخة)',
+  'template.preview': 'البطاقة 1 على {layout}',
+  'template.classicAbout': 'شعار Cursor أعلى اليمين، ورقم البطاقة أعلى اليسار، ورمز QR في المنتصف، ونص البطاقة أسفله.',
+  'template.builtInHint': 'قالب مدمج. كرّره لتحريك العناصر أو تغيير الخطوط أو إضافة صورة رأس خاصة بك.',
+  'template.across': 'أفقيًا',
+  'template.down': 'عموديًا',
+  'template.align': 'المحاذاة',
+  'template.valign': 'المحاذاة العمودية',
+  'template.align.left': 'يسار',
+  'template.align.center': 'وسط',
+  'template.align.right': 'يمين',
+  'template.align.top': 'أعلى',
+  'template.align.middle': 'منتصف',
+  'template.align.bottom': 'أسفل',
+  'template.name': 'الاسم',
+  'template.header': 'صورة الرأس',
+  'template.headerNone': 'بلا',
+  'template.headerCursor': 'شعار Cursor',
+  'template.headerCustom': 'رفع صورة…',
+  'template.headerReplace': 'استبدال الصورة المرفوعة',
+  'template.headerType': 'يجب أن تكون صورة الرأس بتنسيق PNG أو JPEG أو WebP أو SVG.',
+  'template.headerTooLarge': 'حجم صورة الرأس أكبر من 1 ميغابايت. يُرجى استخدام صورة أصغر.',
+  'template.headerUnreadable': 'تعذّرت قراءة صورة الرأس هذه. يُرجى تجربة ملف آخر.',
+  'template.width': 'العرض',
+  'template.qrCentre': 'مركز رمز QR',
+  'template.size': 'الحجم',
+  'template.percentOfClassic': '% من الكلاسيكي',
+  'template.blocks': 'كتل النص',
+  'template.block': 'كتلة النص {number}',
+  'template.remove': 'إزالة',
+  'template.font': 'الخط',
+  'template.font.sans': 'بدون زوائد',
+  'template.font.serif': 'بزوائد',
+  'template.font.mono': 'أحادي المسافة',
+  'template.bold': 'عريض',
+  'template.addBlock': '+ إضافة كتلة نص',
+  'template.maxBlocks': {
+    zero: 'لا يمكن أن يحتوي القالب على كتل نص',
+    one: 'يمكن أن يحتوي القالب على كتلة نص واحدة كحد أقصى',
+    two: 'يمكن أن يحتوي القالب على كتلتي نص كحد أقصى',
+    few: 'يمكن أن يحتوي القالب على {count} كتل نص كحد أقصى',
+    many: 'يمكن أن يحتوي القالب على {count} كتلة نص كحد أقصى',
+    other: 'يمكن أن يحتوي القالب على {count} كتلة نص كحد أقصى',
+  },
+  'template.delete': 'حذف القالب',
+  'template.help': 'تُقاس المواضع داخل المنطقة الآمنة؛ والأحجام لبطاقة مقاس 70 × 99 مم وتصغر مع البطاقات الأصغر. ينطبق إعداد «{setting}» على قالب «{classic}» فقط.',
+
+  'imageExport.title': 'تنزيل الصور',
+  'imageExport.summary': {
+    zero: 'لا توجد رموز QR صالحة لتجميعها في ملف ZIP.',
+    one: 'سيُجمَع رمز QR صالح واحد في ملف ZIP مع ملف manifest.csv.',
+    two: 'سيُجمَع رمزا QR صالحان في ملف ZIP مع ملف manifest.csv.',
+    few: 'ستُجمَع {count} رموز QR صالحة في ملف ZIP مع ملف manifest.csv.',
+    many: 'سيُجمَع {count} رمز QR صالحًا في ملف ZIP مع ملف manifest.csv.',
+    other: 'سيُجمَع {count} رمز QR صالح في ملف ZIP مع ملف manifest.csv.',
+  },
+  'imageExport.formats': 'التنسيقات',
+  'imageExport.svg': 'SVG (متجه)',
+  'imageExport.cards': 'بطاقات كاملة (PNG، {template})',
+  'imageExport.pngSize': 'حجم PNG لرمز QR (بكسل)',
+  'imageExport.printSize': 'تُطبع رموز QR بعرض {width} مم بدقة {dpi} DPI.',
+  'imageExport.cardSize': 'تُرسم البطاقات بحجمها المطبوع على {layout} بهذه الدقة.',
+  'imageExport.nameTemplate': 'قالب اسم الملف',
+  'imageExport.token.id': 'رقم البطاقة',
+  'imageExport.token.code': 'رمز الإحالة (قيمة code=)',
+  'imageExport.token.host': 'اسم مضيف الرابط',
+  'imageExport.token.label': 'التسمية',
+  'imageExport.token.type': 'نوع المحتوى (url، wifi، vcard، …)',
+  'imageExport.example': 'مثال: {name}',
+  'imageExport.rendering': 'جارٍ العرض {done}/{total}…',
+  'imageExport.download': 'تنزيل ZIP',
+  'imageExport.failed': 'تعذّر إنشاء ملف ZIP. يُرجى المحاولة مرة أخرى.',
+
+  'preview.title': 'معاينة الطباعة',
+  'preview.pages': {
+    zero: 'لا صفحات',
+    one: 'صفحة واحدة',
+    two: 'صفحتان',
+    few: '{count} صفحات',
+    many: '{count} صفحة',
+    other: '{count} صفحة',
+  },
+  'preview.emptyCells': {
+    zero: 'لا خلايا فارغة',
+    one: 'خلية فارغة واحدة',
+    two: 'خليتان فارغتان',
+    few: '{count} خلايا فارغة',
+    many: '{count} خلية فارغة',
+    other: '{count} خلية فارغة',
+  },
+  'preview.preparing': 'جارٍ التحضير…',
+  'preview.previous': '→ السابق',
+  'preview.next': 'التالي ←',
+  'preview.page': 'الصفحة',
+  'preview.pageOf': 'من {count} · {name}',
+  'preview.cuttingGuide': 'دليل القص',
+  'preview.cuttingGuideBack': 'ظهر دليل القص',
+  'preview.alignmentFront': 'اختبار المحاذاة، الوجه الأمامي',
+  'preview.alignmentBack': 'اختبار المحاذاة، الوجه الخلفي',
+  'preview.sheet': 'الورقة {number}',
+  'preview.sheetFront': 'الورقة {number}، الوجه الأمامي',
+  'preview.sheetBack': 'الورقة {number}، الوجه الخلفي',
+  'preview.showStacks': 'إظهار مواضع الرُزم',
+  'preview.showStacksSafe': 'إظهار مواضع الرُزم والمنطقة الآمنة',
+  'preview.showPieces': 'إظهار مواضع القطع',
+  'preview.showPiecesSafe': 'إظهار مواضع القطع والمنطقة الآمنة',
+  'preview.cutAndStackHelp': 'قص كل صفحة على طول الشبكة وضع كل قطعة على الرزمة التي تحمل رقمها، والصفحة 1 في الأعلى. وضع الرزمة 1 فوق الرزمة 2 وهكذا يعطي البطاقات بالترتيب.',
+  'preview.sequentialHelp': 'قص كل صفحة على طول الشبكة وكدّس قطعها بالترتيب المرقّم، ثم ضع الصفحة 1 فوق الصفحة 2 وهكذا للحفاظ على ترتيب البطاقات.',
+  'preview.mirroredLong': 'الظهور معكوسة بحيث يُطبع كل منها خلف بطاقته عندما تقلب الطابعة الورقة على الحافة الطويلة.',
+  'preview.mirroredShort': 'الظهور معكوسة بحيث يُطبع كل منها خلف بطاقته عندما تقلب الطابعة الورقة على الحافة القصيرة.',
+
+  'mapping.title': 'ربط الأعمدة',
+  'mapping.rows': {
+    zero: 'لا صفوف',
+    one: 'صف واحد',
+    two: 'صفان',
+    few: '{count} صفوف',
+    many: '{count} صفًا',
+    other: '{count} صف',
+  },
+  'mapping.columns': {
+    zero: 'لا أعمدة',
+    one: 'عمود واحد',
+    two: 'عمودان',
+    few: '{count} أعمدة',
+    many: '{count} عمودًا',
+    other: '{count} عمود',
+  },
+  'mapping.remembered': '💡 يُستخدم الربط الذي اخترته آخر مرة لملف بهذه العناوين.',
+  'mapping.sheet': 'الورقة',
+  'mapping.sheetOption': '{name} ({rows})',
+  'mapping.hasHeader': 'الصف الأول عنوان',
+  'mapping.linkColumn': 'عمود الرابط',
+  'mapping.labelColumns': 'أعمدة التسمية',
+  'mapping.numberColumn': 'عمود رقم البطاقة',
+  'mapping.noNumberColumn': 'لا شيء — ترقيم البطاقات بالترتيب',
+  'mapping.valueKind': 'يحتوي عمود الرابط على',
+  'mapping.fullUrls': 'عناوين URL كاملة',
+  'mapping.codes': 'رموز أو مسارات تُضاف إلى عنوان URL أساسي',
+  'mapping.baseUrl': 'عنوان URL الأساسي',
+  'mapping.column': 'العمود {name}',
+  'mapping.resultPreview': 'معاينة النتيجة',
+  'mapping.noRows': 'لا توجد صفوف بها قيمة في عمود الرابط المحدد.',
+  'mapping.generate': {
+    zero: 'لا رموز QR لإنشائها',
+    one: 'إنشاء رمز QR واحد',
+    two: 'إنشاء رمزي QR',
+    few: 'إنشاء {count} رموز QR',
+    many: 'إنشاء {count} رمز QR',
+    other: 'إنشاء {count} رمز QR',
+  },
+
+  'library.importJson': 'استيراد JSON',
+  'library.intro': 'تُحفظ كل دفعة مُنشأة في هذا المتصفح مع نمطها وتخطيطها. صدّر إحداها بتنسيق JSON لمشاركتها مع زميل.',
+  'library.loading': 'جارٍ تحميل الدفعات المحفوظة…',
+  'library.empty': 'لا توجد دفعات محفوظة بعد. أنشئ بعض الرموز وستظهر هنا.',
+  'library.nameLabel': 'اسم الدفعة',
+  'library.codes': {
+    zero: 'لا رموز',
+    one: 'رمز واحد',
+    two: 'رمزان',
+    few: '{count} رموز',
+    many: '{count} رمزًا',
+    other: '{count} رمز',
+  },
+  'library.generated': 'أُنشئت في {date}',
+  'library.open': 'فتح',
+  'library.rename': 'إعادة تسمية',
+  'library.duplicate': 'تكرار',
+  'library.export': 'تصدير',
+  'library.delete': 'حذف',
+  'library.confirmDelete': 'حذف «{name}»؟ لا يمكن التراجع عن ذلك.',
+  'library.copyName': '{name} (نسخة)',
+  'library.listFailed': 'تعذّر فتح الدفعات المحفوظة في هذا المتصفح.',
+  'library.renameFailed': 'تعذّرت إعادة تسمية الدفعة.',
+  'library.deleteFailed': 'تعذّر حذف الدفعة.',
+  'library.duplicateFailed': 'تعذّر تكرار الدفعة.',
+  'library.tooLarge': 'ملفات الدفعات محدودة بـ 5 ميغابايت.',
+  'library.imported': {
+    zero: 'استُوردت «{name}» بلا رموز.',
+    one: 'استُوردت «{name}» برمز واحد.',
+    two: 'استُوردت «{name}» برمزين.',
+    few: 'استُوردت «{name}» بـ {count} رموز.',
+    many: 'استُوردت «{name}» بـ {count} رمزًا.',
+    other: 'استُوردت «{name}» بـ {count} رمز.',
+  },
+  'library.importFailed': 'تعذّر استيراد {name}: {reason}.',
+  'library.unknownError': 'خطأ غير معروف',
+  'batch.manualList': 'قائمة يدوية',
+  'batch.customCodes': 'رموز مخصصة',
+
+  'duplicates.groups': {
+    zero: 'لا مجموعات مكررة',
+    one: 'مجموعة مكررة واحدة',
+    two: 'مجموعتان مكررتان',
+    few: '{count} مجموعات مكررة',
+    many: '{count} مجموعة مكررة',
+    other: '{count} مجموعة مكررة',
+  },
+  'duplicates.extra': {
+    zero: 'لا بطاقات زائدة',
+    one: 'بطاقة زائدة واحدة',
+    two: 'بطاقتان زائدتان',
+    few: '{count} بطاقات زائدة',
+    many: '{count} بطاقة زائدة',
+    other: '{count} بطاقة زائدة',
+  },
+  'duplicates.keepFirstEverywhere': 'الإبقاء على الأولى في كل مجموعة',
+  'duplicates.keepFirst': 'الإبقاء على الأولى',
+  'duplicates.removeAll': 'إزالة الكل',
+  'duplicates.keepAll': 'الإبقاء على الكل',
+  'duplicates.identical': 'محتوى متطابق',
+  'duplicates.sameCode': 'رمز الإحالة نفسه «{code}»',
+  'duplicates.sameLink': 'الرابط نفسه باستثناء حالة الأحرف أو شرطة مائلة في النهاية',
+  'cardEdit.link': 'الرابط',
+  'cardEdit.label': 'التسمية',
+  'cardEdit.optional': 'اختياري',
+
+  'builder.title': 'إنشاء رموز QR',
+  'builder.subtitle': 'بيانات دخول Wi-Fi وبطاقات جهات الاتصال ودعوات التقويم وغيرها، تُطبع في الشبكة نفسها مع روابطك.',
+  'builder.contentType': 'نوع المحتوى',
+  'builder.label': 'التسمية (اختياري)',
+  'builder.labelPlaceholder': 'شبكة Wi-Fi في المكان',
+  'builder.copies': 'النسخ',
+  'builder.addCopies': {
+    zero: 'إضافة إلى الورقة',
+    one: 'إضافة إلى الورقة',
+    two: 'إضافة نسختين',
+    few: 'إضافة {count} نسخ',
+    many: 'إضافة {count} نسخة',
+    other: 'إضافة {count} نسخة',
+  },
+  'builder.fillIn': 'املأ النموذج للمعاينة',
+  'builder.scanToTest': 'امسح للاختبار',
+  'builder.remove': 'إزالة',
+  'builder.removeItem': 'إزالة {name}',
+  'payload.url': 'عنوان URL',
+  'payload.ssid': 'اسم الشبكة (SSID)',
+  'payload.security': 'الأمان',
+  'payload.securityNone': 'بلا (شبكة مفتوحة)',
+  'payload.password': 'كلمة المرور',
+  'payload.hidden': 'شبكة مخفية',
+  'payload.firstName': 'الاسم الأول',
+  'payload.lastName': 'اسم العائلة',
+  'payload.organization': 'المؤسسة',
+  'payload.jobTitle': 'المسمى الوظيفي',
+  'payload.phone': 'الهاتف',
+  'payload.email': 'البريد الإلكتروني',
+  'payload.website': 'الموقع الإلكتروني',
+  'payload.to': 'إلى',
+  'payload.subject': 'الموضوع',
+  'payload.message': 'الرسالة',
+  'payload.phoneNumber': 'رقم الهاتف',
+  'payload.title': 'العنوان',
+  'payload.location': 'الموقع',
+  'payload.starts': 'يبدأ',
+  'payload.ends': 'ينتهي',
+  'payload.description': 'الوصف',
+  'payload.text': 'النص',
+
+  'layout.error.rowsCols': 'يجب أن تكون الصفوف والأعمدة أعدادًا صحيحة لا تقل عن 1',
+  'layout.error.tooMany': 'الحد الأقصى للصفوف والأعمدة {max} لكل منها',
+  'layout.error.negative': 'يجب أن تكون الهوامش والفواصل صفرًا أو موجبة',
+  'layout.error.tooSmall': 'الخلايا أصغر من {min} مم؛ قلّل الصفوف أو الأعمدة أو الهوامش أو الفواصل',
+  'numbering.error.start': 'يجب أن يكون الرقم الأول عددًا صحيحًا يساوي 0 أو أكثر',
+  'numbering.error.padding': 'يجب أن يكون الحشو بالأصفار عددًا صحيحًا من الخانات حتى {max}',
+  'numbering.error.affix': 'الحد الأقصى للبادئة واللاحقة {max} حرفًا',
+  'cutting.error.negative': 'يجب أن يكون النزف والمنطقة الآمنة صفرًا أو موجبَين',
+  'cutting.error.bleed': 'الحد الأقصى للنزف {max} مم',
+  'cutting.error.margins': 'يجب ألا تقل هوامش الصفحة عن عرض النزف',
+  'cutting.error.gutters': 'يجب أن تكون الفواصل صفرًا أو ضعف النزف على الأقل',
+  'cutting.error.safeZone': 'لا تترك المنطقة الآمنة مساحة لرمز QR',
+  'duplex.error.offset': 'يجب أن تكون إزاحات الظهر بين ‎-{max} و{max} مم',
+  'duplex.error.heading': 'الحد الأقصى لعنوان الظهر {max} حرفًا',
+  'duplex.error.message': 'الحد الأقصى لرسالة الظهر {max} حرفًا',
+  'template.error.positions': 'يجب أن تكون مواضع القالب بين 0 و100%',
+  'template.error.blocks': {
+    zero: 'لا يمكن أن يحتوي القالب على أي كتلة نص',
+    one: 'يمكن أن يحتوي القالب على كتلة نص واحدة على الأكثر',
+    two: 'يمكن أن يحتوي القالب على كتلتي نص على الأكثر',
+    few: 'يمكن أن يحتوي القالب على {count} كتل نص على الأكثر',
+    many: 'يمكن أن يحتوي القالب على {count} كتلة نص على الأكثر',
+    other: 'يمكن أن يحتوي القالب على {count} كتلة نص على الأكثر',
+  },
+  'template.error.textLength': 'الحد الأقصى لكتل النص {max} حرفًا',
+  'template.error.fontSize': 'يجب أن تكون أحجام الخط بين {min} و{max} بكسل',
+  'template.error.blockWidth': 'يجب أن يكون عرض كتل النص بين {min} و{max}%',
+  'template.error.headerWidth': 'يجب أن يكون عرض صورة الترويسة بين {min} و{max} بكسل',
+  'template.error.qrSize': 'يجب أن يكون حجم رمز QR بين {min} و{max}%',
+  'template.error.qrTooLarge': 'رمز QR أكبر مما تسمح به البطاقة',
+  'policy.error.invalid': 'ليس رابطًا صالحًا',
+  'policy.error.denied': '{host} مدرج في قائمة الحظر',
+  'policy.error.notAllowed': '{host} ليس مضيفًا مسموحًا به',
+  'policy.error.path': 'يجب أن يبدأ المسار بـ {path}',
+  'policy.error.missingParam': 'يجب أن يحتوي الرابط على قيمة «{name}»',
+  'policy.error.paramValue': 'يجب أن تكون «{name}» {value}',
+  'payload.error.tooLong': 'المحتوى أكبر من أن يتسع له رمز QR واحد',
+  'payload.error.url': 'عنوان URL غير صالح',
+  'payload.error.ssidRequired': 'اسم شبكة Wi-Fi مطلوب',
+  'payload.error.ssidLength': 'اسم شبكة Wi-Fi أطول من {max} بايت',
+  'payload.error.wpa': 'كلمات مرور WPA من 8 إلى 63 حرفًا',
+  'payload.error.wep': 'مفاتيح WEP من 5 أو 13 حرفًا (10 أو 26 رقمًا ست عشريًا)',
+  'payload.error.contactName': 'تحتاج جهة الاتصال إلى اسم أو مؤسسة',
+  'payload.error.phone': 'رقم هاتف غير صالح',
+  'payload.error.email': 'عنوان بريد إلكتروني غير صالح',
+  'payload.error.website': 'عنوان URL للموقع غير صالح',
+  'payload.error.eventTitle': 'عنوان الحدث مطلوب',
+  'payload.error.eventStart': 'وقت بدء الحدث مطلوب',
+  'payload.error.eventEnd': 'ينتهي الحدث قبل أن يبدأ',
+  'payload.error.textEmpty': 'النص فارغ',
+  'payload.warning.smsLength': 'تتجاوز الرسالة {max} حرفًا وقد تُقسَّم',
+  'payload.warning.textScheme': 'يبدو النص رابطًا ليس لصفحة ويب',
+  'referral.noCode': 'رابط الإحالة لا يحتوي على قيمة code=.',
+  'referral.emptyCode': 'قيمة code= في رابط الإحالة فارغة.',
+  'referral.characters': 'يحتوي رمز الإحالة «{code}» على أحرف غير الحروف والأرقام و«-» و«_».',
+  'referral.length': 'رمز الإحالة من {length} حرفًا؛ المتوقع من {min} إلى {max}.',
+  'urlRule.severity.low': 'ملاحظة:',
+  'urlRule.severity.medium': 'تحذير:',
+  'urlRule.severity.high': 'خطر مرتفع:',
+  'urlRule.javascriptScheme': 'عناوين URL من نوع JavaScript غير مسموح بها.',
+  'urlRule.dataScheme': 'عناوين URL من نوع data غير مسموح بها.',
+  'urlRule.fileScheme': 'عناوين URL للملفات غير مسموح بها.',
+  'urlRule.vbscriptScheme': 'عناوين URL من نوع VBScript غير مسموح بها.',
+  'urlRule.scriptTag': 'تم اكتشاف وسوم script في عنوان URL.',
+  'urlRule.pathTraversal': 'تم اكتشاف اجتياز للمسار.',
+  'urlRule.lookalike': 'يستخدم المضيف «{host}» حروفًا متشابهة ويُقرأ «{skeleton}».',
+  'urlRule.mixedScripts': 'يخلط المضيف «{host}» الحروف اللاتينية بحروف كيريلية أو يونانية.',
+  'urlRule.userinfo': 'النص قبل «@» ({userinfo}) يخفي المضيف الحقيقي {host}.',
+  'urlRule.punycode': 'يستخدم المضيف «{host}» ({ascii}) أحرفًا دولية؛ تحقّق من أنه الموقع الذي تتوقعه.',
+  'urlRule.encodedIp': 'المضيف «{host}» هو عنوان IP ‏{ip} مكتوبًا بصيغة مموّهة.',
+  'urlRule.ipv6': 'المضيف هو عنوان IPv6 ‏{ip}؛ تحقّق من المصدر.',
+  'urlRule.ip': 'المضيف هو عنوان IP ‏{ip}؛ تحقّق من المصدر.',
+  'urlRule.redirect': 'يحوّل الزوار إلى {host} عبر المعامل «{name}».',
+  'urlRule.redirectUnknown': 'يحوّل الزوار إلى عنوان آخر عبر المعامل «{name}».',
+  'urlRule.pathRedirect': 'يحتوي المسار على عنوان آخر ({address})، وهي حيلة شائعة لإعادة التوجيه المفتوحة.',
+  'urlRule.shortener': '{host} خدمة لتقصير الروابط، لذا لا يمكن التحقق من الوجهة النهائية.',
+  'urlRule.longUrl': 'عنوان URL طويل على نحو غير معتاد ({length} حرفًا).',
+  'style.budget.block': 'يخفي الشعار {coverage}% من البيانات، لكن المستوى {level} يستعيد {recovery}% فقط. صغّر الشعار أو ارفع تصحيح الأخطاء.',
+  'style.budget.warn': 'يخفي الشعار {coverage}% من البيانات، وهذا قريب من {recovery}% التي يستعيدها المستوى {level}.',
+  'style.budget.quietZone': 'المنطقة الهادئة الأقل من {min} وحدات قد تمنع الماسحات من العثور على الرمز.',
+  'style.contrast.low': 'التباين منخفض ({ratio}:1). قد لا تُمسح الرموز؛ استهدف {min}:1 على الأقل.',
+  'style.contrast.eye': 'لون العيون منخفض التباين مع الخلفية ({ratio}:1).',
+  'style.contrast.inverted': 'الوحدات الفاتحة على خلفية داكنة معكوسة؛ ولا تستطيع بعض الماسحات قراءتها.',
+  'verify.undecodable': 'تعذّر فك الترميز',
+  'verify.mismatch': 'يُفك ترميزه إلى محتوى مختلف',
+  'verify.unrendered': 'تعذّر عرضه للفحص',
+  'batch.imported': 'دفعة مستوردة',
+  'batch.error.json': 'الملف ليس JSON صالحًا',
+  'batch.error.format': 'الملف ليس دفعة رموز QR مُصدَّرة',
+  'batch.error.newer': 'صُدِّرت الدفعة بإصدار أحدث من هذا التطبيق',
+  'batch.error.unreadable': 'تتعذّر قراءة الدفعة المحفوظة',
+  'batch.error.noCodes': 'لا تحتوي الدفعة على رموز قابلة للقراءة',
+  'batch.error.layout': 'تخطيط الورقة في الدفعة غير صالح للاستخدام',
+  'import.error.json': 'الملف ليس JSON صالحًا.',
+  'import.error.notArray': 'المتوقع مصفوفة JSON من الروابط أو الكائنات.',
+  'import.error.mixedItems': 'يجب أن تكون كل عناصر مصفوفة JSON روابط، أو كلها كائنات.',
+  'import.error.workbook': 'تعذّرت قراءة المصنف.',
+  'import.error.noSheets': 'لا يحتوي المصنف على أوراق.',
+  'import.file': '{name}',
+  'import.files': {
+    zero: '{name}',
+    one: '{name} وملف آخر',
+    two: '{name} وملفان آخران',
+    few: '{name} و{count} ملفات أخرى',
+    many: '{name} و{count} ملفًا آخر',
+    other: '{name} و{count} ملف آخر',
+  },
+  'import.pasted': 'نطاق ملصوق',
+};
@@ -0,0 +1,704 @@
+import type { Messages } from '@/lib/i18n';
+
+export const de: Messages = {
+  'locale.label': 'Sprache',
+
+  'common.back': '← Zurück',
+  'common.cancel': 'Abbrechen',
+  'common.save': 'Speichern',
+  'common.backToCodes': '← Zurück zu den Codes',
+
+  'options.headline': '{brand} QR-Code-Generator',
+  'options.brand': 'Cursor Credits',
+  'options.subtitle': 'QR-Codes für deine Empfehlungslinks erstellen',
+  'options.upload': 'Tabelle hochladen oder einfügen',
+  'options.manual': 'Links manuell eingeben',
+  'options.builder': 'WLAN, Kontakt, Termin & mehr',
+  'options.library': 'Gespeicherte Stapel',
+
+  'footer.madeBy': 'Mit {heart} gemacht von {author}',
+  'footer.contribute': 'Mitmachen',
+  'footer.builtWith': 'Mit Cursor gebaut',
+
+  'upload.title': 'Tabelle hochladen',
+  'upload.processing': 'Datei wird verarbeitet...',
+  'upload.drop': 'CSV-, TSV-, Excel- oder JSON-Dateien hier ablegen',
+  'upload.or': 'oder',
+  'upload.choose': 'Datei auswählen',
+  'upload.limits': 'Max. 5 MB pro Datei, bis zu {max} URLs. Mehrere Dateien werden zu einem Stapel zusammengeführt.',
+  'upload.pastePlaceholder': 'Oder hier einen aus Excel oder Google Tabellen kopierten Bereich einfügen',
+  'upload.pasteLabel': 'Tabellenbereich einfügen',
+
+  'manual.title': 'Links eingeben',
+  'manual.placeholder': 'Gib deine Cursor-Empfehlungslinks ein, einen pro Zeile, optional gefolgt von einem Komma und einer Beschriftung:',
+  'manual.exampleLabel': 'Für: Jana — Tisch 4',
+  'manual.processing': 'Wird verarbeitet...',
+  'manual.generate': 'QR-Codes erstellen',
+
+  'results.title': 'QR-Codes ({count})',
+  'results.savedAs': 'Gespeichert als „{name}“',
+  'results.preview': 'Vorschau',
+  'results.print': 'Drucken',
+  'results.preparing': 'Seiten werden vorbereitet {done}/{total}...',
+  'results.downloadPdf': 'PDF herunterladen',
+  'results.buildingPdf': 'PDF wird erstellt...',
+  'results.downloadImages': 'Bilder herunterladen',
+  'results.tracker': 'Tracker',
+  'results.clear': 'Leeren',
+
+  'toolbar.cardText': 'Kartentext',
+  'toolbar.cardLanguage': 'Kartensprache',
+  'toolbar.printCode': 'Empfehlungscode in großer Schrift drucken',
+  'toolbar.template': 'Kartenvorlage: {name}',
+  'toolbar.hideTemplate': 'Kartenvorlage ausblenden',
+  'toolbar.duplex': 'Beidseitig',
+  'toolbar.hideDuplex': 'Beidseitig ausblenden',
+  'toolbar.numbering': 'Nummerierung',
+  'toolbar.hideNumbering': 'Nummerierung ausblenden',
+  'toolbar.cutting': 'Schneiden',
+  'toolbar.hideCutting': 'Schneiden ausblenden',
+  'toolbar.policy': 'Link-Richtlinie',
+  'toolbar.policyNamed': 'Link-Richtlinie: {name}',
+  'toolbar.hidePolicy': 'Link-Richtlinie ausblenden',
+  'toolbar.appearance': 'Aussehen',
+  'toolbar.hideAppearance': 'Aussehen ausblenden',
+
+  'cardText.both': 'Beschriftung und URL/Details',
+  'cardText.url': 'Nur URL/Details',
+  'cardText.label': 'Beschriftung statt URL/Details',
+  'cardText.none': 'Kein Text',
+
+  'numbering.renumber': 'Karten neu nummerieren',
+  'numbering.keep': 'Kartennummern behalten',
+
+  'tip.cutAndStack': '💡 Die Nummern sind zum Stapeln angeordnet: Seiten nach dem Drucken in Quadrate schneiden und nach Position stapeln, dann stimmt die Reihenfolge',
+  'tip.sequential': '💡 Die Nummern laufen auf jeder Seite in Leserichtung: jede Seite schneiden und die Stücke von links nach rechts, oben nach unten stapeln',
+
+  'policy.blocked': {
+    one: '🚫 {count} Link verstößt gegen die Richtlinie „{name}“ und ist für Druck und Export gesperrt.',
+    other: '🚫 {count} Links verstoßen gegen die Richtlinie „{name}“ und sind für Druck und Export gesperrt.',
+  },
+  'policy.flagged': {
+    one: '⚠️ {count} Link verstößt gegen die Richtlinie „{name}“.',
+    other: '⚠️ {count} Links verstoßen gegen die Richtlinie „{name}“.',
+  },
+  'policy.cursorReferral': 'Cursor-Empfehlungslinks',
+  'policy.newName': 'Neue Richtlinie',
+  'policy.copyName': '{name} (Kopie)',
+  'policy.forBatch': 'Link-Richtlinie für diesen Stapel',
+  'policy.none': 'Keine Richtlinie',
+  'policy.new': 'Neue Richtlinie',
+  'policy.duplicate': 'Duplizieren',
+  'policy.breaking': {
+    one: '{count} Link verstößt gegen diese Richtlinie',
+    other: '{count} Links verstoßen gegen diese Richtlinie',
+  },
+  'policy.allFollow': '✓ Alle Links entsprechen dieser Richtlinie',
+  'policy.allowedHosts': 'Erlaubte Hosts: {hosts}',
+  'policy.anyHost': 'alle',
+  'policy.deniedHosts': 'Gesperrte Hosts: {hosts}',
+  'policy.shape': 'Links müssen so aussehen: {shape}',
+  'policy.blocksSummary': 'Links, die dagegen verstoßen, werden nicht gedruckt.',
+  'policy.flagsSummary': 'Links, die dagegen verstoßen, werden markiert.',
+  'policy.builtIn': 'Integrierte Richtlinie. Dupliziere sie, um sie zu ändern.',
+  'policy.name': 'Name',
+  'policy.requiredShape': 'Erforderliche Linkform',
+  'policy.allowedHostsField': 'Erlaubte Hosts (einer pro Zeile, *.example.com für Subdomains; leer erlaubt alle)',
+  'policy.deniedHostsField': 'Gesperrte Hosts',
+  'policy.whenBroken': 'Wenn ein Link gegen die Richtlinie verstößt',
+  'policy.strictness.warn': 'Nur markieren',
+  'policy.strictness.block': 'Druck sperren',
+  'policy.delete': 'Richtlinie löschen',
+
+  'verify.progress': 'Prüfe, ob jeder Code scannbar ist… {done}/{total}',
+  'verify.failing': '❌ {failing} von {total} Codes haben die Scanprüfung nicht bestanden',
+  'verify.passing': '✓ Alle {count} Codes lassen sich zu ihrem Inhalt zurückscannen',
+  'verify.showFailing': 'Nur fehlerhafte zeigen',
+
+  'cards.add': '+ Code hinzufügen',
+  'cards.addAs': 'Als {number} hinzufügen',
+  'cards.afterEdits': 'Nach Änderungen',
+
+  'card.dragToReorder': 'Zum Umsortieren ziehen',
+  'card.label': 'Karte {number}',
+  'card.labelNamed': 'Karte {number}: {label}',
+  'card.moveLabel': 'Karte {number} verschieben. Mit den Pfeiltasten umsortieren',
+  'card.qrAlt': 'QR-Code für Karte {number}: {content}',
+  'card.edit': 'Bearbeiten',
+  'card.editLabel': 'Karte {number} bearbeiten',
+  'card.delete': 'Löschen',
+  'card.deleteLabel': 'Karte {number} löschen',
+  'card.scanFailed': '❌ Scanprüfung fehlgeschlagen: {message}',
+  'card.policy': 'Richtlinie: {problem}',
+  'card.duplicateOf': '⚠️ Duplikat von {number}',
+  'card.modules': 'v{version} · {size}×{size} Module',
+  'card.tightLogo': '⚠️ knappes Logo-Budget',
+  'card.unscannable': '⛔ wahrscheinlich nicht scannbar',
+  'card.scans': '✓ scannbar',
+
+  'toast.close': 'Benachrichtigung schließen',
+  'toast.region': 'Benachrichtigungen',
+  'toast.templatesNotSaved': 'Die Kartenvorlagen konnten nicht im Browser gespeichert werden. Versuche ein kleineres Kopfbild.',
+  'toast.removed': {
+    one: '{count} Karte entfernt.',
+    other: '{count} Karten entfernt.',
+  },
+  'toast.removedRenumbered': 'Die übrigen Karten wurden neu nummeriert.',
+  'toast.removedKept': {
+    one: 'Ihre Nummer bleibt auf den Bögen leer.',
+    other: 'Ihre Nummern bleiben auf den Bögen leer.',
+  },
+  'toast.cardAddedInvalid': 'Karte {number} wurde hinzugefügt, ist aber ungültig: {problem}',
+  'toast.cardUpdatedInvalid': 'Karte {number} wurde aktualisiert, ist aber ungültig: {problem}',
+  'toast.cardAddedWarning': 'Karte {number} wurde hinzugefügt. {warning}',
+  'toast.cardUpdatedWarning': 'Karte {number} wurde aktualisiert. {warning}',
+  'toast.batchFull': 'Ein Stapel kann höchstens {max} Codes enthalten.',
+  'toast.renumbered': 'Die Karten wurden neu nummeriert, um die Lücken zu schließen.',
+  'toast.ledgerNotMoved': 'Der Tracker konnte nicht an die neuen Kartennummern angepasst werden. Prüfe die ausgegebenen Karten im Tracker.',
+  'toast.batchNotSaved': 'Dieser Stapel konnte nicht im Browser gespeichert werden. Er geht beim Neuladen verloren.',
+  'toast.batchOpenFailed': '„{name}“ konnte nicht geöffnet werden. Der gespeicherte Stapel ist beschädigt oder stammt aus einer nicht unterstützten Version.',
+  'toast.noUrls': 'Bitte gib mindestens eine URL ein',
+  'toast.urlLimit': 'Es werden die ersten {max} von {count} URLs verarbeitet (Höchstgrenze).',
+  'toast.generatedInvalid': '{count} QR-Codes erstellt, davon {invalid} ungültige URL(s). Ungültige URLs werden markiert.',
+  'toast.generatedWarnings': '{count} QR-Codes mit {warnings} Warnung(en) erstellt. Bitte prüfe die markierten URLs.',
+  'toast.builtWarnings': '{count} QR-Codes mit {warnings} Warnung(en) erstellt. Bitte prüfe die markierten Codes.',
+  'toast.generateFailed': 'QR-Codes konnten nicht erstellt werden. Bitte prüfe deine Eingabe und versuche es erneut.',
+  'toast.scanFailing': '{failing} von {total} Codes haben die Scanprüfung nicht bestanden. Mit „Nur fehlerhafte zeigen“ kannst du sie prüfen.',
+  'toast.scanPassing': 'Alle {count} Codes lassen sich zu ihrem Inhalt zurückscannen.',
+  'toast.unscannable': '{count} Code(s) wären wahrscheinlich nicht scannbar: {reason}',
+  'toast.policyBlocks': '{count} Link(s) verstoßen gegen die Richtlinie „{name}“, z. B. {number}: {problem}. Korrigiere oder entferne sie oder stelle die Richtlinie auf nur markieren.',
+  'toast.cannotPrint': 'Mit diesen Einstellungen kann nicht gedruckt werden: {error}.',
+  'toast.cannotPrintTest': 'Der Test kann mit diesen Einstellungen nicht gedruckt werden: {error}.',
+  'toast.cannotExportTest': 'Der Test kann mit diesen Einstellungen nicht exportiert werden: {error}.',
+  'toast.testPdfFailed': 'Das Test-PDF konnte nicht erstellt werden. Bitte versuche es erneut oder drucke es stattdessen.',
+  'toast.cannotPreview': 'Für diese Einstellungen ist keine Vorschau möglich: {error}.',
+  'toast.cannotExport': 'Mit diesen Einstellungen kann nicht exportiert werden: {error}.',
+  'toast.pdfFailed': 'Das PDF konnte nicht erstellt werden. Bitte versuche es erneut oder nutze stattdessen Drucken.',
+  'toast.emptyFile': 'Die Datei ist leer. Bitte prüfe die Datei und versuche es erneut.',
+  'toast.rowLimit': 'Der Import enthält {count} Zeilen. Es werden höchstens {max} QR-Codes erstellt.',
+  'toast.fileLimit': 'Es werden die ersten {max} von {count} Dateien importiert.',
+  'toast.fileTooLarge': '{name} ({size} MB) überschreitet die zulässige Größe von 5 MB. Bitte verwende eine kleinere Datei.',
+  'toast.unsupportedFile': '{name} wird nicht unterstützt. Bitte lade CSV, TSV, Excel (.xlsx) oder JSON hoch.',
+  'toast.fileUnreadable': '{name} konnte nicht gelesen werden: {reason}',
+  'toast.unknownError': 'Unbekannter Fehler',
+  'toast.readFailed': 'Die Datei konnte nicht gelesen werden. Bitte versuche es mit einer anderen Datei.',
+  'toast.pasteTooLarge': 'Der eingefügte Text ist größer als 5 MB. Bitte füge einen kleineren Bereich ein.',
+  'toast.noLinkValues': 'In der gewählten Link-Spalte wurden keine Werte gefunden. Bitte wähle eine andere Spalte.',
+  'toast.importedInvalid': '{count} URLs aus {file} verarbeitet. {invalid} ungültige URL(s) gefunden.',
+  'toast.importedWarnings': '{count} URLs mit {warnings} Warnung(en) verarbeitet.',
+  'toast.importFailed': 'Die importierten Zeilen konnten nicht verarbeitet werden. Bitte prüfe das Dateiformat und versuche es erneut.',
+
+  'error.title': 'Etwas ist schiefgelaufen',
+  'error.intro': 'Es ist ein unerwarteter Fehler aufgetreten. Mögliche Ursachen:',
+  'error.causeFile': 'Fehlerhafte oder beschädigte Dateidaten',
+  'error.causeBrowser': 'Probleme mit der Browser-Kompatibilität',
+  'error.causeInput': 'Unerwartetes Eingabeformat',
+  'error.saved': 'Erstellte Stapel sind in diesem Browser gespeichert; öffne sie nach dem Neuladen unter „Gespeicherte Stapel“.',
+  'error.details': 'Technische Details',
+  'error.reload': 'Anwendung neu laden',
+
+  'kind.url': 'Link',
+  'kind.wifi': 'WLAN',
+  'kind.vcard': 'Kontakt',
+  'kind.email': 'E-Mail',
+  'kind.sms': 'SMS',
+  'kind.event': 'Termin',
+  'kind.text': 'Text',
+  'print.invalidUrl': 'Ungültige URL',
+  'print.invalid': 'Ungültig: {kind}',
+  'print.wifi': 'WLAN: {name}',
+  'print.contact': 'Kontakt: {name}',
+  'print.email': 'E-Mail: {address}',
+  'print.sms': 'SMS: {phone}',
+  'print.event': 'Termin: {title}',
+
+  'guide.title': 'Schneideanleitung',
+  'guide.cards': {
+    one: '{count} Karte',
+    other: '{count} Karten',
+  },
+  'guide.sheets': {
+    one: '{count} Bogen',
+    other: '{count} Bögen',
+  },
+  'guide.summary': '{cards} auf {sheets}',
+  'guide.stack': 'Stapel {number}',
+  'guide.piece': 'Stück {number}',
+  'guide.empty': 'Leer',
+  'guide.cutMarks': {
+    one: 'Den Bogen an den Schnittmarken schneiden.',
+    other: 'Alle {count} Bögen an den Schnittmarken schneiden.',
+  },
+  'guide.cutBorders': {
+    one: 'Den Bogen an den Kartenrändern schneiden.',
+    other: 'Alle {count} Bögen an den Kartenrändern schneiden.',
+  },
+  'guide.sequentialPile': 'Die Stücke jedes Bogens in Leserichtung stapeln, von links nach rechts und oben nach unten, das erste Stück oben.',
+  'guide.sequentialJoin': 'Den Stapel von Bogen 1 auf den von Bogen 2 legen und so weiter bis Bogen {count}.',
+  'guide.stackPile': 'Die Stücke jeder Position zusammenhalten, in Seitenreihenfolge mit Seite 1 oben. Jede Position ist unten ein Stapel.',
+  'guide.stackJoin': 'Stapel 1 auf Stapel 2 legen, dann beide auf Stapel 3 und so weiter bis Stapel {count}.',
+  'guide.result': 'Der Stapel läuft jetzt ohne Sortieren von Karte {first} bis Karte {last}.',
+
+  'test.front': 'Vorderseite {number}',
+  'test.back': 'Rückseite {number}',
+
+  'tracker.title': 'Ausgabe-Tracker',
+  'tracker.exportCsv': 'CSV exportieren',
+  'tracker.count': '{status}: {count}',
+  'tracker.cards': 'Karten',
+  'tracker.setStatus': 'Status setzen auf',
+  'tracker.recipientOptional': 'Empfänger (optional)',
+  'tracker.apply': 'Anwenden',
+  'tracker.show': 'Anzeigen',
+  'tracker.allCards': 'Alle Karten',
+  'tracker.loading': 'Tracker wird geladen…',
+  'tracker.code': 'Code',
+  'tracker.status': 'Status',
+  'tracker.recipient': 'Empfänger',
+  'tracker.notes': 'Notizen',
+  'tracker.statusOf': 'Status von {number}',
+  'tracker.recipientOf': 'Empfänger von {number}',
+  'tracker.notesFor': 'Notizen zu {number}',
+  'tracker.empty': 'Keine Karten mit diesem Status.',
+  'tracker.openFailed': 'Die lokale Tracker-Datenbank konnte nicht geöffnet werden. Änderungen werden nicht gespeichert.',
+  'tracker.saveFailed': 'Tracker-Änderungen konnten nicht lokal gespeichert werden.',
+  'tracker.rangeHint': 'Gib Kartennummern wie „{example}“ zwischen {lowest} und {highest} ein.',
+  'tracker.noPlainNumbers': 'Keine Karte hat eine einfache Nummer, nach der ausgewählt werden kann.',
+  'tracker.noMatch': 'Keine dieser Nummern gehört zu einer Karte in diesem Stapel.',
+  'tracker.updated': {
+    one: '{count} Karte aktualisiert.',
+    other: '{count} Karten aktualisiert.',
+  },
+  'status.unassigned': 'Nicht vergeben',
+  'status.handed-out': 'Ausgegeben',
+  'status.redeemed': 'Eingelöst',
+  'status.void': 'Ungültig',
+
+  'layout.sheet': 'Bogenlayout',
+  'layout.custom': 'Eigenes',
+  'layout.customOption': 'Eigenes…',
+  'layout.summary': '{count} pro Seite · Zellen {width} × {height} mm',
+  'layout.paper': 'Papierformat',
+  'layout.paperOption': '{name} ({width} × {height} mm)',
+  'layout.rows': 'Zeilen',
+  'layout.columns': 'Spalten',
+  'layout.columnGutter': 'Spaltenabstand',
+  'layout.rowGutter': 'Zeilenabstand',
+  'layout.margin.top': 'Rand oben',
+  'layout.margin.right': 'Rand rechts',
+  'layout.margin.bottom': 'Rand unten',
+  'layout.margin.left': 'Rand links',
+  'layout.mm': 'mm',
+  'layout.preset.a4-3x3': 'A4 — 3 × 3',
+  'layout.preset.letter-3x3': 'US Letter — 3 × 3',
+  'layout.preset.a3-4x4': 'A3 — 4 × 4',
+  'layout.preset.avery-l7160': 'Avery L7160 Etiketten (A4, 21 pro Bogen)',
+  'layout.preset.avery-5160': 'Avery 5160 Etiketten (Letter, 30 pro Bogen)',
+  'layout.preset.avery-5371': 'Avery 5371 Visitenkarten (Letter, 10 pro Bogen)',
+  'layout.preset.cards-a4-85x54': 'Visitenkarten 85 × 54 mm (A4, 10 pro Bogen)',
+  'paper.a4': 'A4',
+  'paper.letter': 'US Letter',
+  'paper.a3': 'A3',
+  'printOrder.cut-and-stack': 'Schneiden und stapeln',
+  'printOrder.sequential': 'Lesereihenfolge',
+
+  'numbering.printOrder': 'Druckreihenfolge',
+  'numbering.firstNumber': 'Erste Nummer',
+  'numbering.prefix': 'Präfix',
+  'numbering.suffix': 'Suffix',
+  'numbering.padTo': 'Mit Nullen auffüllen auf',
+  'numbering.digits': 'Stellen',
+  'numbering.fromColumn': 'Kartennummern aus der importierten Datei verwenden',
+  'numbering.summary': 'Die Karten sind von {first} bis {last} nummeriert – auf dem Bildschirm, im Druck und in jedem Export.',
+  'numbering.summaryImported': 'Die Karten sind von {first} bis {last} nummeriert (Karten mit einer Nummer in der Datei behalten sie) – auf dem Bildschirm, im Druck und in jedem Export.',
+  'numbering.aboutCutAndStack': '„Schneiden und stapeln“ legt aufeinanderfolgende Karten an dieselbe Stelle aufeinanderfolgender Seiten.',
+  'numbering.aboutSequential': 'Die Lesereihenfolge füllt jede Seite von links nach rechts und von oben nach unten.',
+  'cutting.guides': 'Schnitthilfen',
+  'cutGuide.borders': 'Rahmen um jede Karte',
+  'cutGuide.marks': 'Schnittmarken in den Rändern',
+  'cutting.bleed': 'Beschnittzugabe',
+  'cutting.safeZone': 'Sicherheitsabstand',
+  'cutting.coverPage': 'Vor den Bögen eine Schnittanleitung drucken, die zeigt, welche Karten auf welchem Stapel landen',
+  'cutting.bleedHelp': 'Die Beschnittzugabe führt den Hintergrund jeder Karte über die Schnittlinie hinaus, damit ein leicht versetzter Schnitt keinen weißen Rand hinterlässt. Text, Logos und Codes bleiben im Sicherheitsabstand.',
+  'cutting.marksNoRoom': 'Schnittmarken brauchen {margin} mm Seitenrand; Seiten mit weniger bekommen keine Marken. Wähle ein Layout mit Rändern oder verwende Rahmen.',
+  'duplex.printing': 'Druck',
+  'duplexMode.off': 'Einseitig',
+  'duplexMode.long-edge': 'Beidseitig, an der langen Kante wenden',
+  'duplexMode.short-edge': 'Beidseitig, an der kurzen Kante wenden',
+  'duplex.heading': 'Überschrift der Rückseite',
+  'duplex.message': 'Text der Rückseite',
+  'duplex.messagePlaceholder': 'Scanne die Vorderseite, um dein Guthaben einzulösen. Karte {number}',
+  'duplex.placeholders': 'Mit {tokens} werden die Angaben der jeweiligen Karte eingesetzt',
+  'duplex.showLabel': 'Bezeichnung der Karte drucken (z. B. den Namen des Empfängers)',
+  'duplex.showNumber': 'Kartennummer drucken',
+  'duplex.alignHelp': 'Drucke den Ausrichtungstest beidseitig mit denselben Einstellungen und halte ihn gegen das Licht. Liegt das Kreuz der Vorderseite neben dem der Rückseite, lies den Abstand auf der Skala der Rückseite ab (jeder Strich ist 1 mm) und trage ihn unten ein: rechts und unten sind positiv.',
+  'duplex.moveRight': 'Rückseiten nach rechts',
+  'duplex.moveDown': 'Rückseiten nach unten',
+  'duplex.printTest': 'Ausrichtungstest drucken',
+  'duplex.downloadTest': 'Test-PDF herunterladen',
+  'placeholder.number': 'Kartennummer',
+  'placeholder.label': 'Bezeichnung',
+  'placeholder.code': 'Empfehlungscode',
+  'placeholder.url': 'Link oder Inhaltsübersicht',
+
+  'style.moduleStyle.squares': 'Quadrate',
+  'style.moduleStyle.dots': 'Punkte',
+  'style.moduleStyle.fluid': 'Fließend',
+  'style.previewInfo': 'Live-Vorschau · Version {version}',
+  'style.moduleCount': '{size}×{size} Module',
+  'style.reset': 'Auf Standard zurücksetzen',
+  'style.foreground': 'Vordergrund',
+  'style.background': 'Hintergrund',
+  'style.modules': 'Module',
+  'style.moduleStyle': 'Modulform',
+  'style.eyeRadius': 'Eckenradius der Augen',
+  'style.square': 'Eckig',
+  'style.modulesValue': {
+    one: '{count} Modul',
+    other: '{count} Module',
+  },
+  'style.modulesSpec': '{modules} (Norm)',
+  'style.eyesMatch': 'Augen in Vordergrundfarbe',
+  'style.eyeColor': 'Augenfarbe',
+  'style.errorCorrection': 'Fehlerkorrektur',
+  'style.errorCorrectionLevel': 'Fehlerkorrekturstufe',
+  'style.ecLevel.L': 'Niedrig',
+  'style.ecLevel.M': 'Mittel',
+  'style.ecLevel.Q': 'Quartil',
+  'style.ecLevel.H': 'Hoch',
+  'style.ecLevelHint': '{name}: stellt etwa {percent} % des Codes wieder her',
+  'style.quietZone': 'Ruhezone',
+  'style.logo': 'Logo',
+  'style.logoDefault': 'Cursor-Logo',
+  'style.logoCustom': 'Eigenes hochladen…',
+  'style.logoNone': 'Kein Logo',
+  'style.logoReplace': 'Hochgeladenes Logo ersetzen',
+  'style.logoSize': 'Logogröße',
+  'style.logoSizeValue': '{percent} % des Codes',
+  'style.logoPadding': 'Logoabstand',
+  'style.paddingShape': 'Form des Abstands',
+  'style.paddingSquare': 'Quadrat',
+  'style.paddingCircle': 'Kreis',
+  'style.logoCoverage': 'Das Logo verdeckt {coverage} % der Datenmodule; Stufe {level} stellt etwa {recovery} % wieder her.',
+  'style.logoType': 'Das Logo muss ein PNG-, JPEG-, WebP- oder SVG-Bild sein.',
+  'style.logoTooLarge': 'Die Logodatei ist größer als 1 MB. Bitte verwende ein kleineres Bild.',
+  'style.logoUnreadable': 'Das Logobild konnte nicht gelesen werden. Bitte versuche eine andere Datei.',
+
+  'template.select': 'Kartenvorlage',
+  'template.new': 'Neue Vorlage',
+  'template.duplicate': 'Duplizieren',
+  'template.classic': 'Klassisch',
+  'template.newName': 'Neue Vorlage',
+  'template.copyName': '{name} (Kopie)',
+  'template.preview': 'Karte 1 auf {layout}',
+  'template.classicAbout': 'Das Cursor-Logo oben rechts, die Kartennummer oben links, der QR-Code in der Mitte und der Kartentext darunter.',
+  'template.builtInHint': 'Integrierte Vorlage. Duplizieren Sie sie, um Elemente zu verschieben, Schriften zu ändern oder ein eigenes Kopfbild hinzuzufügen.',
+  'template.across': 'Horizontal',
+  'template.down': 'Vertikal',
+  'template.align': 'Ausrichtung',
+  'template.valign': 'Vertikale Ausrichtung',
+  'template.align.left': 'Links',
+  'template.align.center': 'Mitte',
+  'template.align.right': 'Rechts',
+  'template.align.top': 'Oben',
+  'template.align.middle': 'Mitte',
+  'template.align.bottom': 'Unten',
+  'template.name': 'Name',
+  'template.header': 'Kopfbild',
+  'template.headerNone': 'Keins',
+  'template.headerCursor': 'Cursor-Logo',
+  'template.headerCustom': 'Bild hochladen…',
+  'template.headerReplace': 'Hochgeladenes Bild ersetzen',
+  'template.headerType': 'Das Kopfbild muss ein PNG-, JPEG-, WebP- oder SVG-Bild sein.',
+  'template.headerTooLarge': 'Das Kopfbild ist größer als 1 MB. Bitte verwenden Sie ein kleineres Bild.',
+  'template.headerUnreadable': 'Das Kopfbild konnte nicht gelesen werden. Bitte versuchen Sie eine andere Datei.',
+  'template.width': 'Breite',
+  'template.qrCentre': 'Mitte des QR-Codes',
+  'template.size': 'Größe',
+  'template.percentOfClassic': '% von klassisch',
+  'template.blocks': 'Textblöcke',
+  'template.block': 'Textblock {number}',
+  'template.remove': 'Entfernen',
+  'template.font': 'Schrift',
+  'template.font.sans': 'Serifenlos',
+  'template.font.serif': 'Serifen',
+  'template.font.mono': 'Festbreite',
+  'template.bold': 'Fett',
+  'template.addBlock': '+ Textblock hinzufügen',
+  'template.maxBlocks': {
+    one: 'Eine Vorlage kann bis zu {count} Textblock enthalten',
+    other: 'Eine Vorlage kann bis zu {count} Textblöcke enthalten',
+  },
+  'template.delete': 'Vorlage löschen',
+  'template.help': 'Positionen werden innerhalb der Sicherheitszone gemessen; Größen gelten für eine Karte von 70 × 99 mm und werden bei kleineren Karten verkleinert. Die Einstellung „{setting}“ gilt nur für die Vorlage „{classic}“.',
+
+  'imageExport.title': 'Bilder herunterladen',
+  'imageExport.summary': {
+    one: '{count} gültiger QR-Code wird mit einer manifest.csv in ein ZIP gepackt.',
+    other: '{count} gültige QR-Codes werden mit einer manifest.csv in ein ZIP gepackt.',
+  },
+  'imageExport.formats': 'Formate',
+  'imageExport.svg': 'SVG (Vektor)',
+  'imageExport.cards': 'Ganze Karten (PNG, {template})',
+  'imageExport.pngSize': 'PNG-Größe des QR-Codes (px)',
+  'imageExport.printSize': 'QR-Codes werden bei {dpi} DPI {width} mm breit gedruckt.',
+  'imageExport.cardSize': 'Karten werden in ihrer Druckgröße auf {layout} mit dieser DPI gezeichnet.',
+  'imageExport.nameTemplate': 'Vorlage für Dateinamen',
+  'imageExport.token.id': 'Kartennummer',
+  'imageExport.token.code': 'Empfehlungscode (der Wert von code=)',
+  'imageExport.token.host': 'Hostname des Links',
+  'imageExport.token.label': 'Bezeichnung',
+  'imageExport.token.type': 'Inhaltstyp (url, wifi, vcard, …)',
+  'imageExport.example': 'z. B. {name}',
+  'imageExport.rendering': 'Rendern {done}/{total}…',
+  'imageExport.download': 'ZIP herunterladen',
+  'imageExport.failed': 'Die ZIP-Datei konnte nicht erstellt werden. Bitte versuchen Sie es erneut.',
+
+  'preview.title': 'Druckvorschau',
+  'preview.pages': {
+    one: '{count} Seite',
+    other: '{count} Seiten',
+  },
+  'preview.emptyCells': {
+    one: '{count} leere Zelle',
+    other: '{count} leere Zellen',
+  },
+  'preview.preparing': 'Wird vorbereitet…',
+  'preview.previous': '← Zurück',
+  'preview.next': 'Weiter →',
+  'preview.page': 'Seite',
+  'preview.pageOf': 'von {count} · {name}',
+  'preview.cuttingGuide': 'Schneidehilfe',
+  'preview.cuttingGuideBack': 'Rückseite der Schneidehilfe',
+  'preview.alignmentFront': 'Ausrichtungstest, Vorderseite',
+  'preview.alignmentBack': 'Ausrichtungstest, Rückseite',
+  'preview.sheet': 'Bogen {number}',
+  'preview.sheetFront': 'Bogen {number}, Vorderseite',
+  'preview.sheetBack': 'Bogen {number}, Rückseite',
+  'preview.showStacks': 'Stapelpositionen anzeigen',
+  'preview.showStacksSafe': 'Stapelpositionen und Sicherheitszone anzeigen',
+  'preview.showPieces': 'Stückpositionen anzeigen',
+  'preview.showPiecesSafe': 'Stückpositionen und Sicherheitszone anzeigen',
+  'preview.cutAndStackHelp': 'Schneiden Sie jede Seite entlang des Rasters und legen Sie jedes Stück auf den Stapel mit seiner Nummer, Seite 1 zuoberst. Stapel 1 auf Stapel 2 usw. ergibt die Karten in der richtigen Reihenfolge.',
+  'preview.sequentialHelp': 'Schneiden Sie jede Seite entlang des Rasters, stapeln Sie die Stücke in der nummerierten Reihenfolge und legen Sie dann Seite 1 auf Seite 2 usw., damit die Karten in der richtigen Reihenfolge bleiben.',
+  'preview.mirroredLong': 'Rückseiten sind gespiegelt, damit jede hinter ihrer Karte gedruckt wird, wenn der Drucker den Bogen an der langen Kante wendet.',
+  'preview.mirroredShort': 'Rückseiten sind gespiegelt, damit jede hinter ihrer Karte gedruckt wird, wenn der Drucker den Bogen an der kurzen Kante wendet.',
+
+  'mapping.title': 'Spalten zuordnen',
+  'mapping.rows': {
+    one: '{count} Zeile',
+    other: '{count} Zeilen',
+  },
+  'mapping.columns': {
+    one: '{count} Spalte',
+    other: '{count} Spalten',
+  },
+  'mapping.remembered': '💡 Es wird die Zuordnung verwendet, die Sie zuletzt für eine Datei mit diesen Kopfzeilen gewählt haben.',
+  'mapping.sheet': 'Tabellenblatt',
+  'mapping.sheetOption': '{name} ({rows})',
+  'mapping.hasHeader': 'Erste Zeile ist eine Kopfzeile',
+  'mapping.linkColumn': 'Link-Spalte',
+  'mapping.labelColumns': 'Bezeichnungsspalten',
+  'mapping.numberColumn': 'Spalte für Kartennummer',
+  'mapping.noNumberColumn': 'Keine – Karten der Reihe nach nummerieren',
+  'mapping.valueKind': 'Die Link-Spalte enthält',
+  'mapping.fullUrls': 'Vollständige URLs',
+  'mapping.codes': 'Codes oder Pfade, die an eine Basis-URL angehängt werden',
+  'mapping.baseUrl': 'Basis-URL',
+  'mapping.column': 'Spalte {name}',
+  'mapping.resultPreview': 'Vorschau des Ergebnisses',
+  'mapping.noRows': 'Keine Zeile hat einen Wert in der gewählten Link-Spalte.',
+  'mapping.generate': {
+    one: '{count} QR-Code erstellen',
+    other: '{count} QR-Codes erstellen',
+  },
+
+  'library.importJson': 'JSON importieren',
+  'library.intro': 'Jeder erstellte Stapel wird mit Stil und Layout in diesem Browser gespeichert. Exportieren Sie einen als JSON, um ihn mit Ihrem Team zu teilen.',
+  'library.loading': 'Gespeicherte Stapel werden geladen…',
+  'library.empty': 'Noch keine gespeicherten Stapel. Erstellen Sie Codes, dann erscheinen sie hier.',
+  'library.nameLabel': 'Name des Stapels',
+  'library.codes': {
+    one: '{count} Code',
+    other: '{count} Codes',
+  },
+  'library.generated': 'Erstellt am {date}',
+  'library.open': 'Öffnen',
+  'library.rename': 'Umbenennen',
+  'library.duplicate': 'Duplizieren',
+  'library.export': 'Exportieren',
+  'library.delete': 'Löschen',
+  'library.confirmDelete': '„{name}“ löschen? Dies kann nicht rückgängig gemacht werden.',
+  'library.copyName': '{name} (Kopie)',
+  'library.listFailed': 'Gespeicherte Stapel konnten in diesem Browser nicht geöffnet werden.',
+  'library.renameFailed': 'Der Stapel konnte nicht umbenannt werden.',
+  'library.deleteFailed': 'Der Stapel konnte nicht gelöscht werden.',
+  'library.duplicateFailed': 'Der Stapel konnte nicht dupliziert werden.',
+  'library.tooLarge': 'Stapeldateien sind auf 5 MB begrenzt.',
+  'library.imported': {
+    one: '„{name}“ mit {count} Code importiert.',
+    other: '„{name}“ mit {count} Codes importiert.',
+  },
+  'library.importFailed': '{name} konnte nicht importiert werden: {reason}.',
+  'library.unknownError': 'unbekannter Fehler',
+  'batch.manualList': 'Manuelle Liste',
+  'batch.customCodes': 'Eigene Codes',
+
+  'duplicates.groups': {
+    one: '{count} Duplikatgruppe',
+    other: '{count} Duplikatgruppen',
+  },
+  'duplicates.extra': {
+    one: '{count} überzählige Karte',
+    other: '{count} überzählige Karten',
+  },
+  'duplicates.keepFirstEverywhere': 'In jeder Gruppe die erste behalten',
+  'duplicates.keepFirst': 'Erste behalten',
+  'duplicates.removeAll': 'Alle entfernen',
+  'duplicates.keepAll': 'Alle behalten',
+  'duplicates.identical': 'Identischer Inhalt',
+  'duplicates.sameCode': 'Gleicher Empfehlungscode „{code}“',
+  'duplicates.sameLink': 'Gleicher Link bis auf Groß-/Kleinschreibung oder einen abschließenden Schrägstrich',
+  'cardEdit.link': 'Link',
+  'cardEdit.label': 'Bezeichnung',
+  'cardEdit.optional': 'Optional',
+
+  'builder.title': 'QR-Codes erstellen',
+  'builder.subtitle': 'WLAN-Zugänge, Kontaktkarten, Kalendereinladungen und mehr, gedruckt im selben Raster wie Ihre Links.',
+  'builder.contentType': 'Inhaltstyp',
+  'builder.label': 'Bezeichnung (optional)',
+  'builder.labelPlaceholder': 'WLAN am Veranstaltungsort',
+  'builder.copies': 'Kopien',
+  'builder.addCopies': {
+    one: 'Zum Bogen hinzufügen',
+    other: '{count} Kopien hinzufügen',
+  },
+  'builder.fillIn': 'Füllen Sie das Formular aus, um eine Vorschau zu sehen',
+  'builder.scanToTest': 'Zum Testen scannen',
+  'builder.remove': 'Entfernen',
+  'builder.removeItem': '{name} entfernen',
+  'payload.url': 'URL',
+  'payload.ssid': 'Netzwerkname (SSID)',
+  'payload.security': 'Sicherheit',
+  'payload.securityNone': 'Keine (offenes Netzwerk)',
+  'payload.password': 'Passwort',
+  'payload.hidden': 'Verborgenes Netzwerk',
+  'payload.firstName': 'Vorname',
+  'payload.lastName': 'Nachname',
+  'payload.organization': 'Organisation',
+  'payload.jobTitle': 'Position',
+  'payload.phone': 'Telefon',
+  'payload.email': 'E-Mail',
+  'payload.website': 'Website',
+  'payload.to': 'An',
+  'payload.subject': 'Betreff',
+  'payload.message': 'Nachricht',
+  'payload.phoneNumber': 'Telefonnummer',
+  'payload.title': 'Titel',
+  'payload.location': 'Ort',
+  'payload.starts': 'Beginn',
+  'payload.ends': 'Ende',
+  'payload.description': 'Beschreibung',
+  'payload.text': 'Text',
+
+  'layout.error.rowsCols': 'Zeilen und Spalten müssen ganze Zahlen ab 1 sein',
+  'layout.error.tooMany': 'Zeilen und Spalten sind auf je {max} begrenzt',
+  'layout.error.negative': 'Ränder und Abstände müssen null oder positiv sein',
+  'layout.error.tooSmall': 'Zellen sind kleiner als {min} mm; verringere Zeilen, Spalten, Ränder oder Abstände',
+  'numbering.error.start': 'Die erste Nummer muss eine ganze Zahl ab 0 sein',
+  'numbering.error.padding': 'Die Auffüllung mit Nullen muss eine ganze Stellenzahl bis {max} sein',
+  'numbering.error.affix': 'Präfix und Suffix sind auf {max} Zeichen begrenzt',
+  'cutting.error.negative': 'Beschnitt und Sicherheitszone müssen null oder positiv sein',
+  'cutting.error.bleed': 'Der Beschnitt ist auf {max} mm begrenzt',
+  'cutting.error.margins': 'Die Seitenränder müssen mindestens so breit wie der Beschnitt sein',
+  'cutting.error.gutters': 'Abstände müssen null oder mindestens doppelt so groß wie der Beschnitt sein',
+  'cutting.error.safeZone': 'Die Sicherheitszone lässt keinen Platz für den QR-Code',
+  'duplex.error.offset': 'Versatz der Rückseite muss zwischen -{max} und {max} mm liegen',
+  'duplex.error.heading': 'Die Überschrift der Rückseite ist auf {max} Zeichen begrenzt',
+  'duplex.error.message': 'Der Text der Rückseite ist auf {max} Zeichen begrenzt',
+  'template.error.positions': 'Positionen in der Vorlage müssen zwischen 0 und 100 % liegen',
+  'template.error.blocks': {
+    one: 'Eine Vorlage kann höchstens {count} Textblock haben',
+    other: 'Eine Vorlage kann höchstens {count} Textblöcke haben',
+  },
+  'template.error.textLength': 'Textblöcke sind auf {max} Zeichen begrenzt',
+  'template.error.fontSize': 'Schriftgrößen müssen zwischen {min} und {max} px liegen',
+  'template.error.blockWidth': 'Breiten von Textblöcken müssen zwischen {min} und {max} % liegen',
+  'template.error.headerWidth': 'Die Breite des Kopfbilds muss zwischen {min} und {max} px liegen',
+  'template.error.qrSize': 'Die Größe des QR-Codes muss zwischen {min} und {max} % liegen',
+  'template.error.qrTooLarge': 'Der QR-Code ist größer, als die Karte zulässt',
+  'policy.error.invalid': 'Kein gültiger Link',
+  'policy.error.denied': '{host} steht auf der Sperrliste',
+  'policy.error.notAllowed': '{host} ist kein erlaubter Host',
+  'policy.error.path': 'Der Pfad muss mit {path} beginnen',
+  'policy.error.missingParam': 'Der Link braucht einen Wert für „{name}“',
+  'policy.error.paramValue': '„{name}“ muss {value} sein',
+  'payload.error.tooLong': 'Zu viel Inhalt für einen QR-Code',
+  'payload.error.url': 'Ungültige URL',
+  'payload.error.ssidRequired': 'Der WLAN-Name ist erforderlich',
+  'payload.error.ssidLength': 'Der WLAN-Name ist länger als {max} Byte',
+  'payload.error.wpa': 'WPA-Passwörter haben 8 bis 63 Zeichen',
+  'payload.error.wep': 'WEP-Schlüssel haben 5 oder 13 Zeichen (10 oder 26 Hex-Ziffern)',
+  'payload.error.contactName': 'Der Kontakt braucht einen Namen oder eine Organisation',
+  'payload.error.phone': 'Ungültige Telefonnummer',
+  'payload.error.email': 'Ungültige E-Mail-Adresse',
+  'payload.error.website': 'Ungültige Website-URL',
+  'payload.error.eventTitle': 'Der Titel des Termins ist erforderlich',
+  'payload.error.eventStart': 'Der Beginn des Termins ist erforderlich',
+  'payload.error.eventEnd': 'Der Termin endet, bevor er beginnt',
+  'payload.error.textEmpty': 'Der Text ist leer',
+  'payload.warning.smsLength': 'Die Nachricht hat mehr als {max} Zeichen und wird eventuell geteilt',
+  'payload.warning.textScheme': 'Der Text sieht wie ein Link aus, der keine Webadresse ist',
+  'referral.noCode': 'Der Empfehlungslink hat keinen code=-Wert.',
+  'referral.emptyCode': 'Der Empfehlungslink hat einen leeren code=-Wert.',
+  'referral.characters': 'Der Empfehlungscode „{code}“ enthält andere Zeichen als Buchstaben, Ziffern, „-“ und „_“.',
+  'referral.length': 'Der Empfehlungscode hat {length} Zeichen; erwartet werden {min}–{max}.',
+  'urlRule.severity.low': 'Hinweis:',
+  'urlRule.severity.medium': 'Warnung:',
+  'urlRule.severity.high': 'Hohes Risiko:',
+  'urlRule.javascriptScheme': 'JavaScript-URLs sind nicht erlaubt.',
+  'urlRule.dataScheme': 'Data-URLs sind nicht erlaubt.',
+  'urlRule.fileScheme': 'Datei-URLs sind nicht erlaubt.',
+  'urlRule.vbscriptScheme': 'VBScript-URLs sind nicht erlaubt.',
+  'urlRule.scriptTag': 'Script-Tags in der URL gefunden.',
+  'urlRule.pathTraversal': 'Path Traversal erkannt.',
+  'urlRule.lookalike': 'Der Host „{host}“ nutzt ähnlich aussehende Buchstaben und liest sich als „{skeleton}“.',
+  'urlRule.mixedScripts': 'Der Host „{host}“ mischt lateinische mit kyrillischen oder griechischen Buchstaben.',
+  'urlRule.userinfo': 'Text vor „@“ ({userinfo}) verbirgt den echten Host {host}.',
+  'urlRule.punycode': 'Der Host „{host}“ ({ascii}) nutzt internationale Zeichen; prüfe, ob es die erwartete Website ist.',
+  'urlRule.encodedIp': 'Der Host „{host}“ ist die IP-Adresse {ip} in verschleierter Schreibweise.',
+  'urlRule.ipv6': 'Der Host ist die IPv6-Adresse {ip}; prüfe die Quelle.',
+  'urlRule.ip': 'Der Host ist die IP-Adresse {ip}; prüfe die Quelle.',
+  'urlRule.redirect': 'Leitet Besucher über den Parameter „{name}“ zu {host} weiter.',
+  'urlRule.redirectUnknown': 'Leitet Besucher über den Parameter „{name}“ zu einer anderen Adresse weiter.',
+  'urlRule.pathRedirect': 'Der Pfad enthält eine andere Adresse ({address}), ein verbreiteter Open-Redirect-Trick.',
+  'urlRule.shortener': '{host} ist ein Linkkürzer, daher lässt sich das endgültige Ziel nicht prüfen.',
+  'urlRule.longUrl': 'Ungewöhnlich lange URL ({length} Zeichen).',
+  'style.budget.block': 'Das Logo verdeckt {coverage} % der Daten, aber Stufe {level} stellt nur {recovery} % wieder her. Verkleinere das Logo oder erhöhe die Fehlerkorrektur.',
+  'style.budget.warn': 'Das Logo verdeckt {coverage} % der Daten, nahe an den {recovery} %, die Stufe {level} wiederherstellt.',
+  'style.budget.quietZone': 'Eine Ruhezone unter {min} Modulen kann verhindern, dass Scanner den Code finden.',
+  'style.contrast.low': 'Geringer Kontrast ({ratio}:1). Codes sind eventuell nicht scannbar; strebe mindestens {min}:1 an.',
+  'style.contrast.eye': 'Die Augenfarbe hat wenig Kontrast zum Hintergrund ({ratio}:1).',
+  'style.contrast.inverted': 'Helle Module auf dunklem Hintergrund sind invertiert; manche Scanner können sie nicht lesen.',
+  'verify.undecodable': 'Konnte nicht dekodiert werden',
+  'verify.mismatch': 'Ergibt beim Dekodieren einen anderen Inhalt',
+  'verify.unrendered': 'Konnte für die Prüfung nicht gerendert werden',
+  'batch.imported': 'Importierter Stapel',
+  'batch.error.json': 'Die Datei ist kein gültiges JSON',
+  'batch.error.format': 'Die Datei ist kein exportierter QR-Code-Stapel',
+  'batch.error.newer': 'Der Stapel wurde mit einer neueren Version dieser App exportiert',
+  'batch.error.unreadable': 'Der gespeicherte Stapel ist nicht lesbar',
+  'batch.error.noCodes': 'Der Stapel enthält keine lesbaren Codes',
+  'batch.error.layout': 'Der Stapel hat ein unbrauchbares Bogenlayout',
+  'import.error.json': 'Die Datei ist kein gültiges JSON.',
+  'import.error.notArray': 'Erwartet wird ein JSON-Array aus Links oder Objekten.',
+  'import.error.mixedItems': 'Erwartet wird, dass alle Einträge im JSON-Array Links oder alle Objekte sind.',
+  'import.error.workbook': 'Die Arbeitsmappe konnte nicht gelesen werden.',
+  'import.error.noSheets': 'Die Arbeitsmappe enthält keine Tabellenblätter.',
+  'import.file': '{name}',
+  'import.files': {
+    one: '{name} + {count} weitere',
+    other: '{name} + {count} weitere',
+  },
+  'import.pasted': 'Eingefügter Bereich',
+};
@@ -0,0 +1,706 @@
+import type { Message } from '@/lib/i18n';
+
+// The source catalog: every other locale has to translate each of these keys
+export const en = {
+  'locale.label': 'Language',
+
+  'common.back': '← Back',
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.backToCodes': '← Back to codes',
+
+  'options.headline': '{brand} QR Code Generator',
+  'options.brand': 'Cursor Credits',
+  'options.subtitle': 'Generate QR codes for your referral links',
+  'options.upload': 'Upload or Paste a Spreadsheet',
+  'options.manual': 'Enter Links Manually',
+  'options.builder': 'Wi-Fi, Contact, Event & More',
+  'options.library': 'Saved Batches',
+
+  'footer.madeBy': 'Made with {heart} by {author}',
+  'footer.contribute': 'Contribute',
+  'footer.builtWith': 'Built with Cursor',
+
+  'upload.title': 'Upload Spreadsheet',
+  'upload.processing': 'Processing file...',
+  'upload.drop': 'Drop CSV, TSV, Excel or JSON files here',
+  'upload.or': 'or',
+  'upload.choose': 'Choose File',
+  'upload.limits': 'Max 5MB per file, up to {max} URLs. Several files are merged into one batch.',
+  'upload.pastePlaceholder': 'Or paste a range copied from Excel or Google Sheets here',
+  'upload.pasteLabel': 'Paste a spreadsheet range',
+
+  'manual.title': 'Enter Links',
+  'manual.placeholder': 'Enter your Cursor referral links, one per line, optionally followed by a comma and a label:',
+  'manual.exampleLabel': 'For: Jane — Table 4',
+  'manual.processing': 'Processing...',
+  'manual.generate': 'Generate QR Codes',
+
+  'results.title': 'QR Codes ({count})',
+  'results.savedAs': 'Saved as “{name}”',
+  'results.preview': 'Preview',
+  'results.print': 'Print',
+  'results.preparing': 'Preparing {done}/{total} pages...',
+  'results.downloadPdf': 'Download PDF',
+  'results.buildingPdf': 'Building PDF...',
+  'results.downloadImages': 'Download Images',
+  'results.tracker': 'Tracker',
+  'results.clear': 'Clear',
+
+  'toolbar.cardText': 'Card text',
+  'toolbar.cardLanguage': 'Card language',
+  'toolbar.printCode': 'Print referral code in large type',
+  'toolbar.template': 'Card Template: {name}',
+  'toolbar.hideTemplate': 'Hide Card Template',
+  'toolbar.duplex': 'Double-sided',
+  'toolbar.hideDuplex': 'Hide Double-sided',
+  'toolbar.numbering': 'Numbering',
+  'toolbar.hideNumbering': 'Hide Numbering',
+  'toolbar.cutting': 'Cutting',
+  'toolbar.hideCutting': 'Hide Cutting',
+  'toolbar.policy': 'Link Policy',
+  'toolbar.policyNamed': 'Link Policy: {name}',
+  'toolbar.hidePolicy': 'Hide Link Policy',
+  'toolbar.appearance': 'Appearance',
+  'toolbar.hideAppearance': 'Hide Appearance',
+
+  'cardText.both': 'Label and URL/details',
+  'cardText.url': 'URL/details only',
+  'cardText.label': 'Label instead of URL/details',
+  'cardText.none': 'No text',
+
+  'numbering.renumber': 'Renumber cards',
+  'numbering.keep': 'Keep card numbers',
+
+  'tip.cutAndStack': '💡 Numbers are positioned for easy stacking: after printing, cut pages into squares and stack by position for perfect order',
+  'tip.sequential': '💡 Numbers run across each page in reading order: after printing, cut each page and pile its pieces left to right, top to bottom',
+
+  'policy.blocked': {
+    one: '🚫 {count} link breaks the “{name}” policy and is blocked from printing and export.',
+    other: '🚫 {count} links break the “{name}” policy and are blocked from printing and export.',
+  },
+  'policy.flagged': {
+    one: '⚠️ {count} link breaks the “{name}” policy.',
+    other: '⚠️ {count} links break the “{name}” policy.',
+  },
+  'policy.cursorReferral': 'Cursor referral links',
+  'policy.newName': 'New policy',
+  'policy.copyName': '{name} (copy)',
+  'policy.forBatch': 'Link policy for this batch',
+  'policy.none': 'No policy',
+  'policy.new': 'New policy',
+  'policy.duplicate': 'Duplicate',
+  'policy.breaking': {
+    one: '{count} link breaks this policy',
+    other: '{count} links break this policy',
+  },
+  'policy.allFollow': '✓ Every link follows this policy',
+  'policy.allowedHosts': 'Allowed hosts: {hosts}',
+  'policy.anyHost': 'any',
+  'policy.deniedHosts': 'Denied hosts: {hosts}',
+  'policy.shape': 'Links must look like: {shape}',
+  'policy.blocksSummary': 'Links that break it are blocked from printing.',
+  'policy.flagsSummary': 'Links that break it are flagged.',
+  'policy.builtIn': 'Built-in policy. Duplicate it to make changes.',
+  'policy.name': 'Name',
+  'policy.requiredShape': 'Required link shape',
+  'policy.allowedHostsField': 'Allowed hosts (one per line, *.example.com for subdomains; empty allows any)',
+  'policy.deniedHostsField': 'Denied hosts',
+  'policy.whenBroken': 'When a link breaks the policy',
+  'policy.strictness.warn': 'Flag only',
+  'policy.strictness.block': 'Block printing',
+  'policy.delete': 'Delete policy',
+
+  'verify.progress': 'Checking that each code scans… {done}/{total}',
+  'verify.failing': '❌ {failing} of {total} codes failed the scan check',
+  'verify.passing': '✓ All {count} codes scan back to their content',
+  'verify.showFailing': 'Show failing only',
+
+  'cards.add': '+ Add code',
+  'cards.addAs': 'Add as {number}',
+  'cards.afterEdits': 'After edits',
+
+  'card.dragToReorder': 'Drag to reorder',
+  'card.label': 'Card {number}',
+  'card.labelNamed': 'Card {number}: {label}',
+  'card.moveLabel': 'Move card {number}. Use the arrow keys to reorder',
+  'card.qrAlt': 'QR code for card {number}: {content}',
+  'card.edit': 'Edit',
+  'card.editLabel': 'Edit card {number}',
+  'card.delete': 'Delete',
+  'card.deleteLabel': 'Delete card {number}',
+  'card.scanFailed': '❌ Scan check failed: {message}',
+  'card.policy': 'Policy: {problem}',
+  'card.duplicateOf': '⚠️ Duplicate of {number}',
+  'card.modules': 'v{version} · {size}×{size} modules',
+  'card.tightLogo': '⚠️ tight logo budget',
+  'card.unscannable': '⛔ likely unscannable',
+  'card.scans': '✓ scans',
+
+  'toast.close': 'Close notification',
+  'toast.region': 'Notifications',
+  'toast.templatesNotSaved': 'Could not save card templates in your browser. Try a smaller header image.',
+  'toast.removed': {
+    one: 'Removed {count} card.',
+    other: 'Removed {count} cards.',
+  },
+  'toast.removedRenumbered': 'The remaining cards were renumbered.',
+  'toast.removedKept': {
+    one: 'Its number is left empty on the sheets.',
+    other: 'Their numbers are left empty on the sheets.',
+  },
+  'toast.cardAddedInvalid': 'Card {number} was added, but it is invalid: {problem}',
+  'toast.cardUpdatedInvalid': 'Card {number} was updated, but it is invalid: {problem}',
+  'toast.cardAddedWarning': 'Card {number} was added. {warning}',
+  'toast.cardUpdatedWarning': 'Card {number} was updated. {warning}',
+  'toast.batchFull': 'A batch can hold at most {max} codes.',
+  'toast.renumbered': 'Cards were renumbered to close the gaps.',
+  'toast.ledgerNotMoved': 'The tracker couldn\'t be updated for the new card numbers. Check handed-out cards in Tracker.',
+  'toast.batchNotSaved': 'Could not save this batch in your browser. It will be lost on reload.',
+  'toast.batchOpenFailed': 'Could not open “{name}”. The saved batch is damaged or from an unsupported version.',
+  'toast.noUrls': 'Please enter at least one URL',
+  'toast.urlLimit': 'Processing first {max} of {count} URLs (maximum limit).',
+  'toast.generatedInvalid': 'Generated {count} QR codes with {invalid} invalid URL(s). Invalid URLs will be marked.',
+  'toast.generatedWarnings': 'Generated {count} QR codes with {warnings} warning(s). Please review flagged URLs.',
+  'toast.builtWarnings': 'Generated {count} QR codes with {warnings} warning(s). Please review flagged codes.',
+  'toast.generateFailed': 'Failed to generate QR codes. Please check your input and try again.',
+  'toast.scanFailing': '{failing} of {total} codes failed the scan check. Use "Show failing only" to review them.',
+  'toast.scanPassing': 'All {count} codes scan back to their content.',
+  'toast.unscannable': '{count} code(s) would likely not scan: {reason}',
+  'toast.policyBlocks': '{count} link(s) break the "{name}" policy, e.g. {number}: {problem}. Fix or remove them, or switch the policy to flag only.',
+  'toast.cannotPrint': 'Cannot print with these settings: {error}.',
+  'toast.cannotPrintTest': 'Cannot print the test with these settings: {error}.',
+  'toast.cannotExportTest': 'Cannot export the test with these settings: {error}.',
+  'toast.testPdfFailed': 'Failed to build the test PDF. Please try again or print it instead.',
+  'toast.cannotPreview': 'Cannot preview these settings: {error}.',
+  'toast.cannotExport': 'Cannot export with these settings: {error}.',
+  'toast.pdfFailed': 'Failed to build the PDF. Please try again or use Print instead.',
+  'toast.emptyFile': 'The file is empty. Please check the file and try again.',
+  'toast.rowLimit': 'Import contains {count} rows. Maximum {max} QR codes will be generated.',
+  'toast.fileLimit': 'Importing the first {max} of {count} files.',
+  'toast.fileTooLarge': '{name} ({size}MB) exceeds maximum allowed size of 5MB. Please use a smaller file.',
+  'toast.unsupportedFile': '{name} is not a supported file. Please upload CSV, TSV, Excel (.xlsx) or JSON.',
+  'toast.fileUnreadable': 'Could not read {name}: {reason}',
+  'toast.unknownError': 'Unknown error',
+  'toast.readFailed': 'Failed to read file. Please try again with a different file.',
+  'toast.pasteTooLarge': 'The pasted text is larger than 5MB. Please paste a smaller range.',
+  'toast.noLinkValues': 'No values found in the selected link column. Please choose a different column.',
+  'toast.importedInvalid': 'Processed {count} URLs from {file}. {invalid} invalid URL(s) found.',
+  'toast.importedWarnings': 'Processed {count} URLs with {warnings} warning(s).',
+  'toast.importFailed': 'Failed to process the imported rows. Please check the file format and try again.',
+
+  'error.title': 'Something went wrong',
+  'error.intro': 'We encountered an unexpected error. This might be due to:',
+  'error.causeFile': 'Malformed or corrupted file data',
+  'error.causeBrowser': 'Browser compatibility issues',
+  'error.causeInput': 'Unexpected input format',
+  'error.saved': 'Generated batches are saved in this browser; reopen them from Saved Batches after reloading.',
+  'error.details': 'Technical details',
+  'error.reload': 'Reload Application',
+
+  // Printed on the cards, in the card language
+  'kind.url': 'Link',
+  'kind.wifi': 'Wi-Fi',
+  'kind.vcard': 'Contact',
+  'kind.email': 'Email',
+  'kind.sms': 'SMS',
+  'kind.event': 'Event',
+  'kind.text': 'Text',
+  'print.invalidUrl': 'Invalid URL',
+  'print.invalid': 'Invalid {kind}',
+  'print.wifi': 'Wi-Fi: {name}',
+  'print.contact': 'Contact: {name}',
+  'print.email': 'Email: {address}',
+  'print.sms': 'SMS: {phone}',
+  'print.event': 'Event: {title}',
+
+  'guide.title': 'Cutting guide',
+  'guide.cards': {
+    one: '{count} card',
+    other: '{count} cards',
+  },
+  'guide.sheets': {
+    one: '{count} sheet',
+    other: '{count} sheets',
+  },
+  'guide.summary': '{cards} on {sheets}',
+  'guide.stack': 'Stack {number}',
+  'guide.piece': 'Piece {number}',
+  'guide.empty': 'Empty',
+  'guide.cutMarks': {
+    one: 'Cut the sheet along the crop marks.',
+    other: 'Cut all {count} sheets along the crop marks.',
+  },
+  'guide.cutBorders': {
+    one: 'Cut the sheet along the card borders.',
+    other: 'Cut all {count} sheets along the card borders.',
+  },
+  'guide.sequentialPile': 'Pile up the pieces of each sheet in reading order, left to right and top to bottom, first piece on top.',
+  'guide.sequentialJoin': 'Put the pile from sheet 1 on top of the pile from sheet 2, and so on up to sheet {count}.',
+  'guide.stackPile': 'Keep the pieces from each position together, in page order with page 1 on top. Each position is one stack below.',
+  'guide.stackJoin': 'Put stack 1 on top of stack 2, then both on stack 3, and so on up to stack {count}.',
+  'guide.result': 'The pile now runs from card {first} to card {last} with no sorting.',
+
+  'test.front': 'Front {number}',
+  'test.back': 'Back {number}',
+
+  'tracker.title': 'Handout Tracker',
+  'tracker.exportCsv': 'Export CSV',
+  'tracker.count': '{status}: {count}',
+  'tracker.cards': 'Cards',
+  'tracker.setStatus': 'Set status to',
+  'tracker.recipientOptional': 'Recipient (optional)',
+  'tracker.apply': 'Apply',
+  'tracker.show': 'Show',
+  'tracker.allCards': 'All cards',
+  'tracker.loading': 'Loading tracker…',
+  'tracker.code': 'Code',
+  'tracker.status': 'Status',
+  'tracker.recipient': 'Recipient',
+  'tracker.notes': 'Notes',
+  'tracker.statusOf': 'Status of {number}',
+  'tracker.recipientOf': 'Recipient of {number}',
+  'tracker.notesFor': 'Notes for {number}',
+  'tracker.empty': 'No cards with this status.',
+  'tracker.openFailed': 'Could not open the local tracker database. Changes will not be saved.',
+  'tracker.saveFailed': 'Failed to save tracker changes locally.',
+  'tracker.rangeHint': 'Enter card numbers like "{example}" between {lowest} and {highest}.',
+  'tracker.noPlainNumbers': 'No card has a plain number to select by.',
+  'tracker.noMatch': 'None of those numbers are on a card in this batch.',
+  'tracker.updated': {
+    one: 'Updated {count} card.',
+    other: 'Updated {count} cards.',
+  },
+  'status.unassigned': 'Unassigned',
+  'status.handed-out': 'Handed out',
+  'status.redeemed': 'Redeemed',
+  'status.void': 'Void',
+
+  'layout.sheet': 'Sheet layout',
+  'layout.custom': 'Custom',
+  'layout.customOption': 'Custom…',
+  'layout.summary': '{count} per page · {width} × {height} mm cells',
+  'layout.paper': 'Paper size',
+  'layout.paperOption': '{name} ({width} × {height} mm)',
+  'layout.rows': 'Rows',
+  'layout.columns': 'Columns',
+  'layout.columnGutter': 'Column gutter',
+  'layout.rowGutter': 'Row gutter',
+  'layout.margin.top': 'Top margin',
+  'layout.margin.right': 'Right margin',
+  'layout.margin.bottom': 'Bottom margin',
+  'layout.margin.left': 'Left margin',
+  'layout.mm': 'mm',
+  'layout.preset.a4-3x3': 'A4 — 3 × 3',
+  'layout.preset.letter-3x3': 'US Letter — 3 × 3',
+  'layout.preset.a3-4x4': 'A3 — 4 × 4',
+  'layout.preset.avery-l7160': 'Avery L7160 labels (A4, 21 up)',
+  'layout.preset.avery-5160': 'Avery 5160 labels (Letter, 30 up)',
+  'layout.preset.avery-5371': 'Avery 5371 business cards (Letter, 10 up)',
+  'layout.preset.cards-a4-85x54': 'Business cards 85 × 54 mm (A4, 10 up)',
+  'paper.a4': 'A4',
+  'paper.letter': 'US Letter',
+  'paper.a3': 'A3',
+  'printOrder.cut-and-stack': 'Cut-and-stack',
+  'printOrder.sequential': 'Reading order',
+
+  'numbering.printOrder': 'Print order',
+  'numbering.firstNumber': 'First number',
+  'numbering.prefix': 'Prefix',
+  'numbering.suffix': 'Suffix',
+  'numbering.padTo': 'Zero-pad to',
+  'numbering.digits': 'digits',
+  'numbering.fromColumn': 'Use the card numbers from the imported file',
+  'numbering.summary': 'Cards are numbered {first} to {last}, on screen, in print and in every export.',
+  'numbering.summaryImported': 'Cards are numbered {first} to {last} (cards with a number in the file keep it), on screen, in print and in every export.',
+  'numbering.aboutCutAndStack': 'Cut-and-stack order puts consecutive cards in the same spot on consecutive pages.',
+  'numbering.aboutSequential': 'Reading order fills each page left to right, top to bottom.',
+  'cutting.guides': 'Cut guides',
+  'cutGuide.borders': 'Borders round every card',
+  'cutGuide.marks': 'Crop marks in the margins',
+  'cutting.bleed': 'Bleed',
+  'cutting.safeZone': 'Safe zone',
+  'cutting.coverPage': 'Print a cutting guide before the sheets, showing which cards end up on each stack',
+  'cutting.bleedHelp': 'Bleed runs each card’s background past its cut line so a slightly off cut leaves no white edge. Text, logos and codes stay inside the safe zone.',
+  'cutting.marksNoRoom': 'Crop marks need {margin} mm of page margin; sides with less get no marks. Pick a layout with margins, or use borders.',
+  'duplex.printing': 'Printing',
+  'duplexMode.off': 'One-sided',
+  'duplexMode.long-edge': 'Double-sided, flip on long edge',
+  'duplexMode.short-edge': 'Double-sided, flip on short edge',
+  'duplex.heading': 'Back heading',
+  'duplex.message': 'Back message',
+  'duplex.messagePlaceholder': 'Scan the front to claim your credits. Card {number}',
+  'duplex.placeholders': 'Use {tokens} for each card’s own details',
+  'duplex.showLabel': 'Print the card’s label (e.g. the recipient’s name)',
+  'duplex.showNumber': 'Print the card number',
+  'duplex.alignHelp': 'Print the alignment test double-sided with the same settings, then hold it up to the light. If the front’s cross sits off the back’s cross, read the distance on the back’s scale (each tick is 1 mm) and enter it below: right and down are positive.',
+  'duplex.moveRight': 'Move backs right',
+  'duplex.moveDown': 'Move backs down',
+  'duplex.printTest': 'Print alignment test',
+  'duplex.downloadTest': 'Download test PDF',
+  'placeholder.number': 'Card number',
+  'placeholder.label': 'Label',
+  'placeholder.code': 'Referral code',
+  'placeholder.url': 'Link or content summary',
+
+  'style.moduleStyle.squares': 'Squares',
+  'style.moduleStyle.dots': 'Dots',
+  'style.moduleStyle.fluid': 'Fluid',
+  'style.previewInfo': 'Live preview · version {version}',
+  'style.moduleCount': '{size}×{size} modules',
+  'style.reset': 'Reset to default',
+  'style.foreground': 'Foreground',
+  'style.background': 'Background',
+  'style.modules': 'Modules',
+  'style.moduleStyle': 'Module style',
+  'style.eyeRadius': 'Eye corner radius',
+  'style.square': 'Square',
+  'style.modulesValue': {
+    one: '{count} module',
+    other: '{count} modules',
+  },
+  'style.modulesSpec': '{modules} (spec)',
+  'style.eyesMatch': 'Eyes match foreground',
+  'style.eyeColor': 'Eye color',
+  'style.errorCorrection': 'Error correction',
+  'style.errorCorrectionLevel': 'Error correction level',
+  'style.ecLevel.L': 'Low',
+  'style.ecLevel.M': 'Medium',
+  'style.ecLevel.Q': 'Quartile',
+  'style.ecLevel.H': 'High',
+  'style.ecLevelHint': '{name}: recovers about {percent}% of the code',
+  'style.quietZone': 'Quiet zone',
+  'style.logo': 'Logo',
+  'style.logoDefault': 'Cursor logo',
+  'style.logoCustom': 'Custom upload…',
+  'style.logoNone': 'No logo',
+  'style.logoReplace': 'Replace uploaded logo',
+  'style.logoSize': 'Logo size',
+  'style.logoSizeValue': '{percent}% of code',
+  'style.logoPadding': 'Logo padding',
+  'style.paddingShape': 'Padding shape',
+  'style.paddingSquare': 'Square',
+  'style.paddingCircle': 'Circle',
+  'style.logoCoverage': 'Logo hides {coverage}% of the data modules; level {level} recovers about {recovery}%.',
+  'style.logoType': 'Logo must be a PNG, JPEG, WebP or SVG image.',
+  'style.logoTooLarge': 'Logo file is larger than 1MB. Please use a smaller image.',
+  'style.logoUnreadable': 'Could not read that logo image. Please try a different file.',
+
+  'template.select': 'Card template',
+  'template.new': 'New template',
+  'template.duplicate': 'Duplicate',
+  'template.classic': 'Classic',
+  'template.newName': 'New template',
+  'template.copyName': '{name} (copy)',
+  'template.preview': 'Card 1 on {layout}',
+  'template.classicAbout': 'The Cursor logo top right, the card number top left, the QR code in the middle and the card text underneath.',
+  'template.builtInHint': 'Built-in template. Duplicate it to move things around, change fonts or add your own header image.',
+  'template.across': 'Across',
+  'template.down': 'Down',
+  'template.align': 'Align',
+  'template.valign': 'Vertical align',
+  'template.align.left': 'Left',
+  'template.align.center': 'Centre',
+  'template.align.right': 'Right',
+  'template.align.top': 'Top',
+  'template.align.middle': 'Middle',
+  'template.align.bottom': 'Bottom',
+  'template.name': 'Name',
+  'template.header': 'Header image',
+  'template.headerNone': 'None',
+  'template.headerCursor': 'Cursor logo',
+  'template.headerCustom': 'Upload image…',
+  'template.headerReplace': 'Replace uploaded image',
+  'template.headerType': 'Header image must be a PNG, JPEG, WebP or SVG image.',
+  'template.headerTooLarge': 'Header image is larger than 1MB. Please use a smaller image.',
+  'template.headerUnreadable': 'Could not read that header image. Please try a different file.',
+  'template.width': 'Width',
+  'template.qrCentre': 'QR code centre',
+  'template.size': 'Size',
+  'template.percentOfClassic': '% of classic',
+  'template.blocks': 'Text blocks',
+  'template.block': 'Text block {number}',
+  'template.remove': 'Remove',
+  'template.font': 'Font',
+  'template.font.sans': 'Sans-serif',
+  'template.font.serif': 'Serif',
+  'template.font.mono': 'Monospace',
+  'template.bold': 'Bold',
+  'template.addBlock': '+ Add text block',
+  'template.maxBlocks': {
+    one: 'A template can have up to {count} text block',
+    other: 'A template can have up to {count} text blocks',
+  },
+  'template.delete': 'Delete template',
+  'template.help': 'Positions are measured inside the safe zone; sizes are for a 70 × 99 mm card and shrink with smaller cards. The {setting} setting only applies to the {classic} template.',
+
+  'imageExport.title': 'Download images',
+  'imageExport.summary': {
+    one: '{count} valid QR code will be packaged into a ZIP with a manifest.csv.',
+    other: '{count} valid QR codes will be packaged into a ZIP with a manifest.csv.',
+  },
+  'imageExport.formats': 'Formats',
+  'imageExport.svg': 'SVG (vector)',
+  'imageExport.cards': 'Whole cards (PNG, {template})',
+  'imageExport.pngSize': 'QR PNG size (px)',
+  'imageExport.printSize': 'QR codes print at {width} mm wide at {dpi} DPI.',
+  'imageExport.cardSize': 'Cards are drawn at their printed size on {layout} at this DPI.',
+  'imageExport.nameTemplate': 'Filename template',
+  'imageExport.token.id': 'card number',
+  'imageExport.token.code': 'referral code (the code= value)',
+  'imageExport.token.host': 'link host name',
+  'imageExport.token.label': 'label',
+  'imageExport.token.type': 'content type (url, wifi, vcard, ...)',
+  'imageExport.example': 'e.g. {name}',
+  'imageExport.rendering': 'Rendering {done}/{total}...',
+  'imageExport.download': 'Download ZIP',
+  'imageExport.failed': 'Failed to build the ZIP file. Please try again.',
+
+  'preview.title': 'Print Preview',
+  'preview.pages': {
+    one: '{count} page',
+    other: '{count} pages',
+  },
+  'preview.emptyCells': {
+    one: '{count} empty cell',
+    other: '{count} empty cells',
+  },
+  'preview.preparing': 'Preparing...',
+  'preview.previous': '← Previous',
+  'preview.next': 'Next →',
+  'preview.page': 'Page',
+  'preview.pageOf': 'of {count} · {name}',
+  'preview.cuttingGuide': 'Cutting guide',
+  'preview.cuttingGuideBack': 'Back of the cutting guide',
+  'preview.alignmentFront': 'Alignment test, front',
+  'preview.alignmentBack': 'Alignment test, back',
+  'preview.sheet': 'Sheet {number}',
+  'preview.sheetFront': 'Sheet {number}, front',
+  'preview.sheetBack': 'Sheet {number}, back',
+  'preview.showStacks': 'Show stack positions',
+  'preview.showStacksSafe': 'Show stack positions and safe zone',
+  'preview.showPieces': 'Show piece positions',
+  'preview.showPiecesSafe': 'Show piece positions and safe zone',
+  'preview.cutAndStackHelp': 'Cut every page along the grid and put each piece on the stack with its number, page 1 on top. Stack 1 on top of stack 2 and so on gives the cards in order.',
+  'preview.sequentialHelp': 'Cut every page along the grid and pile its pieces in the numbered order, then put page 1 on top of page 2 and so on to keep the cards in order.',
+  'preview.mirroredLong': 'Backs are mirrored so each one prints behind its card when the printer flips the sheet on the long edge.',
+  'preview.mirroredShort': 'Backs are mirrored so each one prints behind its card when the printer flips the sheet on the short edge.',
+
+  'mapping.title': 'Map Columns',
+  'mapping.rows': {
+    one: '{count} row',
+    other: '{count} rows',
+  },
+  'mapping.columns': {
+    one: '{count} column',
+    other: '{count} columns',
+  },
+  'mapping.remembered': '💡 Using the mapping you chose last time for a file with these headers.',
+  'mapping.sheet': 'Sheet',
+  'mapping.sheetOption': '{name} ({rows})',
+  'mapping.hasHeader': 'First row is a header',
+  'mapping.linkColumn': 'Link column',
+  'mapping.labelColumns': 'Label columns',
+  'mapping.numberColumn': 'Card number column',
+  'mapping.noNumberColumn': 'None — number cards in order',
+  'mapping.valueKind': 'The link column contains',
+  'mapping.fullUrls': 'Full URLs',
+  'mapping.codes': 'Codes or paths, added to a base URL',
+  'mapping.baseUrl': 'Base URL',
+  'mapping.column': 'Column {name}',
+  'mapping.resultPreview': 'Result preview',
+  'mapping.noRows': 'No rows have a value in the selected link column.',
+  'mapping.generate': {
+    one: 'Generate {count} QR Code',
+    other: 'Generate {count} QR Codes',
+  },
+
+  'library.importJson': 'Import JSON',
+  'library.intro': 'Every generated batch is saved in this browser with its style and layout. Export one as JSON to share it with a teammate.',
+  'library.loading': 'Loading saved batches…',
+  'library.empty': 'No saved batches yet. Generate some codes and they’ll appear here.',
+  'library.nameLabel': 'Batch name',
+  'library.codes': {
+    one: '{count} code',
+    other: '{count} codes',
+  },
+  'library.generated': 'Generated {date}',
+  'library.open': 'Open',
+  'library.rename': 'Rename',
+  'library.duplicate': 'Duplicate',
+  'library.export': 'Export',
+  'library.delete': 'Delete',
+  'library.confirmDelete': 'Delete “{name}”? This can’t be undone.',
+  'library.copyName': '{name} (copy)',
+  'library.listFailed': 'Could not open saved batches in this browser.',
+  'library.renameFailed': 'Failed to rename the batch.',
+  'library.deleteFailed': 'Failed to delete the batch.',
+  'library.duplicateFailed': 'Failed to duplicate the batch.',
+  'library.tooLarge': 'Batch files are limited to 5MB.',
+  'library.imported': {
+    one: 'Imported “{name}” with {count} code.',
+    other: 'Imported “{name}” with {count} codes.',
+  },
+  'library.importFailed': 'Could not import {name}: {reason}.',
+  'library.unknownError': 'unknown error',
+  'batch.manualList': 'Manual list',
+  'batch.customCodes': 'Custom codes',
+
+  'duplicates.groups': {
+    one: '{count} duplicate group',
+    other: '{count} duplicate groups',
+  },
+  'duplicates.extra': {
+    one: '{count} extra card',
+    other: '{count} extra cards',
+  },
+  'duplicates.keepFirstEverywhere': 'Keep first in every group',
+  'duplicates.keepFirst': 'Keep first',
+  'duplicates.removeAll': 'Remove all',
+  'duplicates.keepAll': 'Keep all',
+  'duplicates.identical': 'Identical content',
+  'duplicates.sameCode': 'Same referral code “{code}”',
+  'duplicates.sameLink': 'Same link apart from letter case or a trailing slash',
+  'cardEdit.link': 'Link',
+  'cardEdit.label': 'Label',
+  'cardEdit.optional': 'Optional',
+
+  'builder.title': 'Build QR Codes',
+  'builder.subtitle': 'Wi-Fi logins, contact cards, calendar invites and more, printed in the same grid as your links.',
+  'builder.contentType': 'Content type',
+  'builder.label': 'Label (optional)',
+  'builder.labelPlaceholder': 'Venue Wi-Fi',
+  'builder.copies': 'Copies',
+  'builder.addCopies': {
+    one: 'Add to sheet',
+    other: 'Add {count} copies',
+  },
+  'builder.fillIn': 'Fill in the form to preview',
+  'builder.scanToTest': 'Scan to test',
+  'builder.remove': 'Remove',
+  'builder.removeItem': 'Remove {name}',
+  'payload.url': 'URL',
+  'payload.ssid': 'Network name (SSID)',
+  'payload.security': 'Security',
+  'payload.securityNone': 'None (open network)',
+  'payload.password': 'Password',
+  'payload.hidden': 'Hidden network',
+  'payload.firstName': 'First name',
+  'payload.lastName': 'Last name',
+  'payload.organization': 'Organization',
+  'payload.jobTitle': 'Job title',
+  'payload.phone': 'Phone',
+  'payload.email': 'Email',
+  'payload.website': 'Website',
+  'payload.to': 'To',
+  'payload.subject': 'Subject',
+  'payload.message': 'Message',
+  'payload.phoneNumber': 'Phone number',
+  'payload.title': 'Title',
+  'payload.location': 'Location',
+  'payload.starts': 'Starts',
+  'payload.ends': 'Ends',
+  'payload.description': 'Description',
+  'payload.text': 'Text',
+
+  'layout.error.rowsCols': 'Rows and columns must be whole numbers of at least 1',
+  'layout.error.tooMany': 'Rows and columns are limited to {max} each',
+  'layout.error.negative': 'Margins and gutters must be zero or positive',
+  'layout.error.tooSmall': 'Cells are smaller than {min} mm; reduce rows, columns, margins or gutters',
+  'numbering.error.start': 'The first number must be a whole number of 0 or more',
+  'numbering.error.padding': 'Zero-padding must be a whole number of digits up to {max}',
+  'numbering.error.affix': 'Prefix and suffix are limited to {max} characters',
+  'cutting.error.negative': 'Bleed and safe zone must be zero or positive',
+  'cutting.error.bleed': 'Bleed is limited to {max} mm',
+  'cutting.error.margins': 'Page margins must be at least as wide as the bleed',
+  'cutting.error.gutters': 'Gutters must be zero or at least twice the bleed',
+  'cutting.error.safeZone': 'The safe zone leaves no room for the QR code',
+  'duplex.error.offset': 'Back-side offsets must be between -{max} and {max} mm',
+  'duplex.error.heading': 'The back heading is limited to {max} characters',
+  'duplex.error.message': 'The back message is limited to {max} characters',
+  'template.error.positions': 'Template positions must be between 0 and 100%',
+  'template.error.blocks': {
+    one: 'A template can have at most {count} text block',
+    other: 'A template can have at most {count} text blocks',
+  },
+  'template.error.textLength': 'Text blocks are limited to {max} characters',
+  'template.error.fontSize': 'Font sizes must be between {min} and {max} px',
+  'template.error.blockWidth': 'Text block widths must be between {min} and {max}%',
+  'template.error.headerWidth': 'The header image width must be between {min} and {max} px',
+  'template.error.qrSize': 'The QR code size must be between {min} and {max}%',
+  'template.error.qrTooLarge': 'The QR code is larger than the card allows',
+  'policy.error.invalid': 'Not a valid link',
+  'policy.error.denied': '{host} is on the deny list',
+  'policy.error.notAllowed': '{host} is not an allowed host',
+  'policy.error.path': 'Path must start with {path}',
+  'policy.error.missingParam': 'Link must have a "{name}" value',
+  'policy.error.paramValue': '"{name}" must be {value}',
+  'payload.error.tooLong': 'Too much content to fit in one QR code',
+  'payload.error.url': 'Invalid URL',
+  'payload.error.ssidRequired': 'Wi-Fi network name is required',
+  'payload.error.ssidLength': 'Wi-Fi network name is longer than {max} bytes',
+  'payload.error.wpa': 'WPA passwords are 8 to 63 characters',
+  'payload.error.wep': 'WEP keys are 5 or 13 characters (10 or 26 hex digits)',
+  'payload.error.contactName': 'Contact needs a name or organization',
+  'payload.error.phone': 'Invalid phone number',
+  'payload.error.email': 'Invalid email address',
+  'payload.error.website': 'Invalid website URL',
+  'payload.error.eventTitle': 'Event title is required',
+  'payload.error.eventStart': 'Event start time is required',
+  'payload.error.eventEnd': 'Event ends before it starts',
+  'payload.error.textEmpty': 'Text is empty',
+  'payload.warning.smsLength': 'Message is over {max} characters and may be split',
+  'payload.warning.textScheme': 'Text looks like a non-web link',
+  'referral.noCode': 'Referral link has no code= value.',
+  'referral.emptyCode': 'Referral link has an empty code= value.',
+  'referral.characters': 'Referral code "{code}" has characters other than letters, digits, "-" and "_".',
+  'referral.length': 'Referral code is {length} characters; expected {min}–{max}.',
+  'urlRule.severity.low': 'Notice:',
+  'urlRule.severity.medium': 'Warning:',
+  'urlRule.severity.high': 'High risk:',
+  'urlRule.javascriptScheme': 'JavaScript URLs are not allowed.',
+  'urlRule.dataScheme': 'Data URLs are not allowed.',
+  'urlRule.fileScheme': 'File URLs are not allowed.',
+  'urlRule.vbscriptScheme': 'VBScript URLs are not allowed.',
+  'urlRule.scriptTag': 'Script tags detected in URL.',
+  'urlRule.pathTraversal': 'Path traversal detected.',
+  'urlRule.lookalike': 'Host "{host}" uses lookalike letters and reads as "{skeleton}".',
+  'urlRule.mixedScripts': 'Host "{host}" mixes Latin letters with Cyrillic or Greek ones.',
+  'urlRule.userinfo': 'Text before "@" ({userinfo}) hides the real host {host}.',
+  'urlRule.punycode': 'Host "{host}" ({ascii}) uses international characters; check it is the site you expect.',
+  'urlRule.encodedIp': 'Host "{host}" is the IP address {ip} written in a disguised form.',
+  'urlRule.ipv6': 'Host is the IPv6 address {ip}; verify the source.',
+  'urlRule.ip': 'Host is the IP address {ip}; verify the source.',
+  'urlRule.redirect': 'Forwards visitors to {host} through the "{name}" parameter.',
+  'urlRule.redirectUnknown': 'Forwards visitors to another address through the "{name}" parameter.',
+  'urlRule.pathRedirect': 'Path contains another address ({address}), a common open-redirect trick.',
+  'urlRule.shortener': '{host} is a link shortener, so the final destination can\'t be checked.',
+  'urlRule.longUrl': 'Unusually long URL ({length} characters).',
+  'style.budget.block': 'Logo hides {coverage}% of the data but level {level} only recovers {recovery}%. Shrink the logo or raise the error correction.',
+  'style.budget.warn': 'Logo hides {coverage}% of the data, close to the {recovery}% level {level} recovers.',
+  'style.budget.quietZone': 'A quiet zone under {min} modules can stop scanners finding the code.',
+  'style.contrast.low': 'Low contrast ({ratio}:1). Codes may not scan; aim for at least {min}:1.',
+  'style.contrast.eye': 'Eye color has low contrast against the background ({ratio}:1).',
+  'style.contrast.inverted': 'Light modules on a dark background are inverted; some scanners cannot read them.',
+  'verify.undecodable': 'Could not be decoded',
+  'verify.mismatch': 'Decodes to different content',
+  'verify.unrendered': 'Could not be rendered for checking',
+  'batch.imported': 'Imported batch',
+  'batch.error.json': 'The file is not valid JSON',
+  'batch.error.format': 'The file is not an exported QR code batch',
+  'batch.error.newer': 'The batch was exported by a newer version of this app',
+  'batch.error.unreadable': 'The saved batch is unreadable',
+  'batch.error.noCodes': 'The batch has no readable codes',
+  'batch.error.layout': 'The batch has an unusable sheet layout',
+  'import.error.json': 'The file is not valid JSON.',
+  'import.error.notArray': 'Expected a JSON array of links or of objects.',
+  'import.error.mixedItems': 'Expected every item in the JSON array to be a link, or every item to be an object.',
+  'import.error.workbook': 'The workbook could not be read.',
+  'import.error.noSheets': 'The workbook has no sheets.',
+  'import.file': '{name}',
+  'import.files': {
+    one: '{name} + {count} more',
+    other: '{name} + {count} more',
+  },
+  'import.pasted': 'Pasted range',
+} satisfies Record<string, Message>;
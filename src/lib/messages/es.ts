@@ -0,0 +1,704 @@
+import type { Messages } from '@/lib/i18n';
+
+export const es: Messages = {
+  'locale.label': 'Idioma',
+
+  'common.back': '← Volver',
+  'common.cancel': 'Cancelar',
+  'common.save': 'Guardar',
+  'common.backToCodes': '← Volver a los códigos',
+
+  'options.headline': 'Generador de códigos QR de {brand}',
+  'options.brand': 'Cursor Credits',
+  'options.subtitle': 'Genera códigos QR para tus enlaces de referido',
+  'options.upload': 'Subir o pegar una hoja de cálculo',
+  'options.manual': 'Escribir los enlaces a mano',
+  'options.builder': 'Wi-Fi, contacto, evento y más',
+  'options.library': 'Lotes guardados',
+
+  'footer.madeBy': 'Hecho con {heart} por {author}',
+  'footer.contribute': 'Contribuir',
+  'footer.builtWith': 'Creado con Cursor',
+
+  'upload.title': 'Subir hoja de cálculo',
+  'upload.processing': 'Procesando archivo...',
+  'upload.drop': 'Suelta aquí archivos CSV, TSV, Excel o JSON',
+  'upload.or': 'o',
+  'upload.choose': 'Elegir archivo',
+  'upload.limits': 'Máx. 5 MB por archivo, hasta {max} URL. Varios archivos se combinan en un solo lote.',
+  'upload.pastePlaceholder': 'O pega aquí un rango copiado de Excel o Google Sheets',
+  'upload.pasteLabel': 'Pegar un rango de hoja de cálculo',
+
+  'manual.title': 'Escribir enlaces',
+  'manual.placeholder': 'Escribe tus enlaces de referido de Cursor, uno por línea, seguidos opcionalmente de una coma y una etiqueta:',
+  'manual.exampleLabel': 'Para: Juana — Mesa 4',
+  'manual.processing': 'Procesando...',
+  'manual.generate': 'Generar códigos QR',
+
+  'results.title': 'Códigos QR ({count})',
+  'results.savedAs': 'Guardado como «{name}»',
+  'results.preview': 'Vista previa',
+  'results.print': 'Imprimir',
+  'results.preparing': 'Preparando páginas {done}/{total}...',
+  'results.downloadPdf': 'Descargar PDF',
+  'results.buildingPdf': 'Creando PDF...',
+  'results.downloadImages': 'Descargar imágenes',
+  'results.tracker': 'Seguimiento',
+  'results.clear': 'Borrar',
+
+  'toolbar.cardText': 'Texto de la tarjeta',
+  'toolbar.cardLanguage': 'Idioma de las tarjetas',
+  'toolbar.printCode': 'Imprimir el código de referido en letra grande',
+  'toolbar.template': 'Plantilla de tarjeta: {name}',
+  'toolbar.hideTemplate': 'Ocultar plantilla de tarjeta',
+  'toolbar.duplex': 'Doble cara',
+  'toolbar.hideDuplex': 'Ocultar doble cara',
+  'toolbar.numbering': 'Numeración',
+  'toolbar.hideNumbering': 'Ocultar numeración',
+  'toolbar.cutting': 'Corte',
+  'toolbar.hideCutting': 'Ocultar corte',
+  'toolbar.policy': 'Política de enlaces',
+  'toolbar.policyNamed': 'Política de enlaces: {name}',
+  'toolbar.hidePolicy': 'Ocultar política de enlaces',
+  'toolbar.appearance': 'Apariencia',
+  'toolbar.hideAppearance': 'Ocultar apariencia',
+
+  'cardText.both': 'Etiqueta y URL/detalles',
+  'cardText.url': 'Solo URL/detalles',
+  'cardText.label': 'Etiqueta en lugar de URL/detalles',
+  'cardText.none': 'Sin texto',
+
+  'numbering.renumber': 'Renumerar tarjetas',
+  'numbering.keep': 'Mantener números',
+
+  'tip.cutAndStack': '💡 Los números están colocados para apilar fácilmente: tras imprimir, corta las páginas en cuadrados y apila por posición para un orden perfecto',
+  'tip.sequential': '💡 Los números siguen el orden de lectura en cada página: corta cada página y apila sus piezas de izquierda a derecha y de arriba abajo',
+
+  'policy.blocked': {
+    one: '🚫 {count} enlace incumple la política «{name}» y está bloqueado para impresión y exportación.',
+    other: '🚫 {count} enlaces incumplen la política «{name}» y están bloqueados para impresión y exportación.',
+  },
+  'policy.flagged': {
+    one: '⚠️ {count} enlace incumple la política «{name}».',
+    other: '⚠️ {count} enlaces incumplen la política «{name}».',
+  },
+  'policy.cursorReferral': 'Enlaces de referido de Cursor',
+  'policy.newName': 'Nueva política',
+  'policy.copyName': '{name} (copia)',
+  'policy.forBatch': 'Política de enlaces para este lote',
+  'policy.none': 'Sin política',
+  'policy.new': 'Nueva política',
+  'policy.duplicate': 'Duplicar',
+  'policy.breaking': {
+    one: '{count} enlace incumple esta política',
+    other: '{count} enlaces incumplen esta política',
+  },
+  'policy.allFollow': '✓ Todos los enlaces cumplen esta política',
+  'policy.allowedHosts': 'Hosts permitidos: {hosts}',
+  'policy.anyHost': 'cualquiera',
+  'policy.deniedHosts': 'Hosts bloqueados: {hosts}',
+  'policy.shape': 'Los enlaces deben tener esta forma: {shape}',
+  'policy.blocksSummary': 'Los enlaces que la incumplen no se pueden imprimir.',
+  'policy.flagsSummary': 'Los enlaces que la incumplen se marcan.',
+  'policy.builtIn': 'Política integrada. Duplícala para hacer cambios.',
+  'policy.name': 'Nombre',
+  'policy.requiredShape': 'Forma de enlace obligatoria',
+  'policy.allowedHostsField': 'Hosts permitidos (uno por línea, *.example.com para subdominios; vacío permite cualquiera)',
+  'policy.deniedHostsField': 'Hosts bloqueados',
+  'policy.whenBroken': 'Cuando un enlace incumple la política',
+  'policy.strictness.warn': 'Solo marcar',
+  'policy.strictness.block': 'Bloquear la impresión',
+  'policy.delete': 'Eliminar política',
+
+  'verify.progress': 'Comprobando que cada código se pueda escanear… {done}/{total}',
+  'verify.failing': '❌ {failing} de {total} códigos no superaron la prueba de escaneo',
+  'verify.passing': '✓ Los {count} códigos se escanean y devuelven su contenido',
+  'verify.showFailing': 'Mostrar solo los fallidos',
+
+  'cards.add': '+ Añadir código',
+  'cards.addAs': 'Añadir como {number}',
+  'cards.afterEdits': 'Después de editar',
+
+  'card.dragToReorder': 'Arrastra para reordenar',
+  'card.label': 'Tarjeta {number}',
+  'card.labelNamed': 'Tarjeta {number}: {label}',
+  'card.moveLabel': 'Mover la tarjeta {number}. Usa las flechas para reordenar',
+  'card.qrAlt': 'Código QR de la tarjeta {number}: {content}',
+  'card.edit': 'Editar',
+  'card.editLabel': 'Editar tarjeta {number}',
+  'card.delete': 'Eliminar',
+  'card.deleteLabel': 'Eliminar tarjeta {number}',
+  'card.scanFailed': '❌ Falló la prueba de escaneo: {message}',
+  'card.policy': 'Política: {problem}',
+  'card.duplicateOf': '⚠️ Duplicado de {number}',
+  'card.modules': 'v{version} · {size}×{size} módulos',
+  'card.tightLogo': '⚠️ logotipo al límite',
+  'card.unscannable': '⛔ probablemente no escaneable',
+  'card.scans': '✓ escaneable',
+
+  'toast.close': 'Cerrar notificación',
+  'toast.region': 'Notificaciones',
+  'toast.templatesNotSaved': 'No se pudieron guardar las plantillas de tarjeta en el navegador. Prueba con una imagen de cabecera más pequeña.',
+  'toast.removed': {
+    one: 'Se eliminó {count} tarjeta.',
+    other: 'Se eliminaron {count} tarjetas.',
+  },
+  'toast.removedRenumbered': 'Las tarjetas restantes se renumeraron.',
+  'toast.removedKept': {
+    one: 'Su número queda vacío en las hojas.',
+    other: 'Sus números quedan vacíos en las hojas.',
+  },
+  'toast.cardAddedInvalid': 'Se añadió la tarjeta {number}, pero no es válida: {problem}',
+  'toast.cardUpdatedInvalid': 'Se actualizó la tarjeta {number}, pero no es válida: {problem}',
+  'toast.cardAddedWarning': 'Se añadió la tarjeta {number}. {warning}',
+  'toast.cardUpdatedWarning': 'Se actualizó la tarjeta {number}. {warning}',
+  'toast.batchFull': 'Un lote puede tener como máximo {max} códigos.',
+  'toast.renumbered': 'Las tarjetas se renumeraron para cerrar los huecos.',
+  'toast.ledgerNotMoved': 'No se pudo actualizar el seguimiento con los nuevos números. Revisa las tarjetas entregadas en Seguimiento.',
+  'toast.batchNotSaved': 'No se pudo guardar este lote en el navegador. Se perderá al recargar.',
+  'toast.batchOpenFailed': 'No se pudo abrir «{name}». El lote guardado está dañado o es de una versión no compatible.',
+  'toast.noUrls': 'Escribe al menos una URL',
+  'toast.urlLimit': 'Se procesan las primeras {max} de {count} URL (límite máximo).',
+  'toast.generatedInvalid': 'Se generaron {count} códigos QR con {invalid} URL no válida(s). Las URL no válidas se marcarán.',
+  'toast.generatedWarnings': 'Se generaron {count} códigos QR con {warnings} advertencia(s). Revisa las URL marcadas.',
+  'toast.builtWarnings': 'Se generaron {count} códigos QR con {warnings} advertencia(s). Revisa los códigos marcados.',
+  'toast.generateFailed': 'No se pudieron generar los códigos QR. Revisa lo que escribiste e inténtalo de nuevo.',
+  'toast.scanFailing': '{failing} de {total} códigos no superaron la prueba de escaneo. Usa «Mostrar solo los fallidos» para revisarlos.',
+  'toast.scanPassing': 'Los {count} códigos se escanean y devuelven su contenido.',
+  'toast.unscannable': '{count} código(s) probablemente no se podrían escanear: {reason}',
+  'toast.policyBlocks': '{count} enlace(s) incumplen la política «{name}», p. ej. {number}: {problem}. Corrígelos o elimínalos, o cambia la política a solo marcar.',
+  'toast.cannotPrint': 'No se puede imprimir con esta configuración: {error}.',
+  'toast.cannotPrintTest': 'No se puede imprimir la prueba con esta configuración: {error}.',
+  'toast.cannotExportTest': 'No se puede exportar la prueba con esta configuración: {error}.',
+  'toast.testPdfFailed': 'No se pudo crear el PDF de prueba. Inténtalo de nuevo o imprímelo.',
+  'toast.cannotPreview': 'No se puede mostrar la vista previa con esta configuración: {error}.',
+  'toast.cannotExport': 'No se puede exportar con esta configuración: {error}.',
+  'toast.pdfFailed': 'No se pudo crear el PDF. Inténtalo de nuevo o usa Imprimir.',
+  'toast.emptyFile': 'El archivo está vacío. Revísalo e inténtalo de nuevo.',
+  'toast.rowLimit': 'La importación tiene {count} filas. Se generarán como máximo {max} códigos QR.',
+  'toast.fileLimit': 'Se importan los primeros {max} de {count} archivos.',
+  'toast.fileTooLarge': '{name} ({size} MB) supera el tamaño máximo de 5 MB. Usa un archivo más pequeño.',
+  'toast.unsupportedFile': '{name} no es un archivo compatible. Sube CSV, TSV, Excel (.xlsx) o JSON.',
+  'toast.fileUnreadable': 'No se pudo leer {name}: {reason}',
+  'toast.unknownError': 'Error desconocido',
+  'toast.readFailed': 'No se pudo leer el archivo. Inténtalo con otro archivo.',
+  'toast.pasteTooLarge': 'El texto pegado supera los 5 MB. Pega un rango más pequeño.',
+  'toast.noLinkValues': 'No hay valores en la columna de enlaces elegida. Elige otra columna.',
+  'toast.importedInvalid': 'Se procesaron {count} URL de {file}. Se encontraron {invalid} URL no válida(s).',
+  'toast.importedWarnings': 'Se procesaron {count} URL con {warnings} advertencia(s).',
+  'toast.importFailed': 'No se pudieron procesar las filas importadas. Revisa el formato del archivo e inténtalo de nuevo.',
+
+  'error.title': 'Algo salió mal',
+  'error.intro': 'Se produjo un error inesperado. Puede deberse a:',
+  'error.causeFile': 'Datos de archivo mal formados o dañados',
+  'error.causeBrowser': 'Problemas de compatibilidad del navegador',
+  'error.causeInput': 'Formato de entrada inesperado',
+  'error.saved': 'Los lotes generados se guardan en este navegador; ábrelos de nuevo desde Lotes guardados tras recargar.',
+  'error.details': 'Detalles técnicos',
+  'error.reload': 'Recargar la aplicación',
+
+  'kind.url': 'Enlace',
+  'kind.wifi': 'Wi-Fi',
+  'kind.vcard': 'Contacto',
+  'kind.email': 'Correo',
+  'kind.sms': 'SMS',
+  'kind.event': 'Evento',
+  'kind.text': 'Texto',
+  'print.invalidUrl': 'URL no válida',
+  'print.invalid': '{kind} no válido',
+  'print.wifi': 'Wi-Fi: {name}',
+  'print.contact': 'Contacto: {name}',
+  'print.email': 'Correo: {address}',
+  'print.sms': 'SMS: {phone}',
+  'print.event': 'Evento: {title}',
+
+  'guide.title': 'Guía de corte',
+  'guide.cards': {
+    one: '{count} tarjeta',
+    other: '{count} tarjetas',
+  },
+  'guide.sheets': {
+    one: '{count} hoja',
+    other: '{count} hojas',
+  },
+  'guide.summary': '{cards} en {sheets}',
+  'guide.stack': 'Pila {number}',
+  'guide.piece': 'Pieza {number}',
+  'guide.empty': 'Vacía',
+  'guide.cutMarks': {
+    one: 'Corta la hoja por las marcas de corte.',
+    other: 'Corta las {count} hojas por las marcas de corte.',
+  },
+  'guide.cutBorders': {
+    one: 'Corta la hoja por los bordes de las tarjetas.',
+    other: 'Corta las {count} hojas por los bordes de las tarjetas.',
+  },
+  'guide.sequentialPile': 'Apila las piezas de cada hoja en orden de lectura, de izquierda a derecha y de arriba abajo, con la primera pieza encima.',
+  'guide.sequentialJoin': 'Pon la pila de la hoja 1 sobre la de la hoja 2, y así sucesivamente hasta la hoja {count}.',
+  'guide.stackPile': 'Mantén juntas las piezas de cada posición, en orden de página con la página 1 encima. Cada posición es una pila abajo.',
+  'guide.stackJoin': 'Pon la pila 1 sobre la pila 2, luego ambas sobre la pila 3, y así hasta la pila {count}.',
+  'guide.result': 'La pila va ahora de la tarjeta {first} a la tarjeta {last} sin ordenar nada.',
+
+  'test.front': 'Anverso {number}',
+  'test.back': 'Reverso {number}',
+
+  'tracker.title': 'Seguimiento de entregas',
+  'tracker.exportCsv': 'Exportar CSV',
+  'tracker.count': '{status}: {count}',
+  'tracker.cards': 'Tarjetas',
+  'tracker.setStatus': 'Cambiar estado a',
+  'tracker.recipientOptional': 'Destinatario (opcional)',
+  'tracker.apply': 'Aplicar',
+  'tracker.show': 'Mostrar',
+  'tracker.allCards': 'Todas las tarjetas',
+  'tracker.loading': 'Cargando el seguimiento…',
+  'tracker.code': 'Código',
+  'tracker.status': 'Estado',
+  'tracker.recipient': 'Destinatario',
+  'tracker.notes': 'Notas',
+  'tracker.statusOf': 'Estado de {number}',
+  'tracker.recipientOf': 'Destinatario de {number}',
+  'tracker.notesFor': 'Notas de {number}',
+  'tracker.empty': 'No hay tarjetas con este estado.',
+  'tracker.openFailed': 'No se pudo abrir la base de datos local del seguimiento. Los cambios no se guardarán.',
+  'tracker.saveFailed': 'No se pudieron guardar localmente los cambios del seguimiento.',
+  'tracker.rangeHint': 'Introduce números de tarjeta como «{example}» entre {lowest} y {highest}.',
+  'tracker.noPlainNumbers': 'Ninguna tarjeta tiene un número simple por el que seleccionarla.',
+  'tracker.noMatch': 'Ninguno de esos números corresponde a una tarjeta de este lote.',
+  'tracker.updated': {
+    one: '{count} tarjeta actualizada.',
+    other: '{count} tarjetas actualizadas.',
+  },
+  'status.unassigned': 'Sin asignar',
+  'status.handed-out': 'Entregada',
+  'status.redeemed': 'Canjeada',
+  'status.void': 'Anulada',
+
+  'layout.sheet': 'Diseño de hoja',
+  'layout.custom': 'Personalizado',
+  'layout.customOption': 'Personalizado…',
+  'layout.summary': '{count} por página · celdas de {width} × {height} mm',
+  'layout.paper': 'Tamaño del papel',
+  'layout.paperOption': '{name} ({width} × {height} mm)',
+  'layout.rows': 'Filas',
+  'layout.columns': 'Columnas',
+  'layout.columnGutter': 'Espacio entre columnas',
+  'layout.rowGutter': 'Espacio entre filas',
+  'layout.margin.top': 'Margen superior',
+  'layout.margin.right': 'Margen derecho',
+  'layout.margin.bottom': 'Margen inferior',
+  'layout.margin.left': 'Margen izquierdo',
+  'layout.mm': 'mm',
+  'layout.preset.a4-3x3': 'A4 — 3 × 3',
+  'layout.preset.letter-3x3': 'Carta EE. UU. — 3 × 3',
+  'layout.preset.a3-4x4': 'A3 — 4 × 4',
+  'layout.preset.avery-l7160': 'Etiquetas Avery L7160 (A4, 21 por hoja)',
+  'layout.preset.avery-5160': 'Etiquetas Avery 5160 (Carta, 30 por hoja)',
+  'layout.preset.avery-5371': 'Tarjetas de visita Avery 5371 (Carta, 10 por hoja)',
+  'layout.preset.cards-a4-85x54': 'Tarjetas de visita 85 × 54 mm (A4, 10 por hoja)',
+  'paper.a4': 'A4',
+  'paper.letter': 'Carta EE. UU.',
+  'paper.a3': 'A3',
+  'printOrder.cut-and-stack': 'Cortar y apilar',
+  'printOrder.sequential': 'Orden de lectura',
+
+  'numbering.printOrder': 'Orden de impresión',
+  'numbering.firstNumber': 'Primer número',
+  'numbering.prefix': 'Prefijo',
+  'numbering.suffix': 'Sufijo',
+  'numbering.padTo': 'Rellenar con ceros hasta',
+  'numbering.digits': 'dígitos',
+  'numbering.fromColumn': 'Usar los números de tarjeta del archivo importado',
+  'numbering.summary': 'Las tarjetas se numeran de {first} a {last}, en pantalla, al imprimir y en cada exportación.',
+  'numbering.summaryImported': 'Las tarjetas se numeran de {first} a {last} (las que tienen número en el archivo lo conservan), en pantalla, al imprimir y en cada exportación.',
+  'numbering.aboutCutAndStack': 'El orden «cortar y apilar» coloca tarjetas consecutivas en el mismo lugar de páginas consecutivas.',
+  'numbering.aboutSequential': 'El orden de lectura llena cada página de izquierda a derecha y de arriba abajo.',
+  'cutting.guides': 'Guías de corte',
+  'cutGuide.borders': 'Bordes alrededor de cada tarjeta',
+  'cutGuide.marks': 'Marcas de corte en los márgenes',
+  'cutting.bleed': 'Sangrado',
+  'cutting.safeZone': 'Zona segura',
+  'cutting.coverPage': 'Imprimir una guía de corte antes de las hojas que muestre qué tarjetas acaban en cada pila',
+  'cutting.bleedHelp': 'El sangrado extiende el fondo de cada tarjeta más allá de la línea de corte para que un corte algo desviado no deje borde blanco. El texto, los logotipos y los códigos quedan dentro de la zona segura.',
+  'cutting.marksNoRoom': 'Las marcas de corte necesitan {margin} mm de margen; los lados con menos no las llevan. Elige un diseño con márgenes o usa bordes.',
+  'duplex.printing': 'Impresión',
+  'duplexMode.off': 'A una cara',
+  'duplexMode.long-edge': 'A doble cara, voltear por el borde largo',
+  'duplexMode.short-edge': 'A doble cara, voltear por el borde corto',
+  'duplex.heading': 'Título del reverso',
+  'duplex.message': 'Mensaje del reverso',
+  'duplex.messagePlaceholder': 'Escanea el anverso para canjear tus créditos. Tarjeta {number}',
+  'duplex.placeholders': 'Usa {tokens} para los datos de cada tarjeta',
+  'duplex.showLabel': 'Imprimir la etiqueta de la tarjeta (p. ej., el nombre del destinatario)',
+  'duplex.showNumber': 'Imprimir el número de tarjeta',
+  'duplex.alignHelp': 'Imprime la prueba de alineación a doble cara con la misma configuración y ponla a contraluz. Si la cruz del anverso no coincide con la del reverso, lee la distancia en la escala del reverso (cada marca es 1 mm) e introdúcela abajo: derecha y abajo son positivos.',
+  'duplex.moveRight': 'Mover reversos a la derecha',
+  'duplex.moveDown': 'Mover reversos hacia abajo',
+  'duplex.printTest': 'Imprimir prueba de alineación',
+  'duplex.downloadTest': 'Descargar PDF de prueba',
+  'placeholder.number': 'Número de tarjeta',
+  'placeholder.label': 'Etiqueta',
+  'placeholder.code': 'Código de referido',
+  'placeholder.url': 'Enlace o resumen del contenido',
+
+  'style.moduleStyle.squares': 'Cuadrados',
+  'style.moduleStyle.dots': 'Puntos',
+  'style.moduleStyle.fluid': 'Fluido',
+  'style.previewInfo': 'Vista previa en vivo · versión {version}',
+  'style.moduleCount': '{size}×{size} módulos',
+  'style.reset': 'Restablecer valores',
+  'style.foreground': 'Primer plano',
+  'style.background': 'Fondo',
+  'style.modules': 'Módulos',
+  'style.moduleStyle': 'Estilo de módulos',
+  'style.eyeRadius': 'Radio de esquina de los ojos',
+  'style.square': 'Cuadrado',
+  'style.modulesValue': {
+    one: '{count} módulo',
+    other: '{count} módulos',
+  },
+  'style.modulesSpec': '{modules} (norma)',
+  'style.eyesMatch': 'Ojos del color del primer plano',
+  'style.eyeColor': 'Color de los ojos',
+  'style.errorCorrection': 'Corrección de errores',
+  'style.errorCorrectionLevel': 'Nivel de corrección de errores',
+  'style.ecLevel.L': 'Bajo',
+  'style.ecLevel.M': 'Medio',
+  'style.ecLevel.Q': 'Cuartil',
+  'style.ecLevel.H': 'Alto',
+  'style.ecLevelHint': '{name}: recupera alrededor del {percent} % del código',
+  'style.quietZone': 'Zona de silencio',
+  'style.logo': 'Logotipo',
+  'style.logoDefault': 'Logotipo de Cursor',
+  'style.logoCustom': 'Subir uno propio…',
+  'style.logoNone': 'Sin logotipo',
+  'style.logoReplace': 'Reemplazar el logotipo subido',
+  'style.logoSize': 'Tamaño del logotipo',
+  'style.logoSizeValue': '{percent} % del código',
+  'style.logoPadding': 'Margen del logotipo',
+  'style.paddingShape': 'Forma del margen',
+  'style.paddingSquare': 'Cuadrado',
+  'style.paddingCircle': 'Círculo',
+  'style.logoCoverage': 'El logotipo oculta el {coverage} % de los módulos de datos; el nivel {level} recupera alrededor del {recovery} %.',
+  'style.logoType': 'El logotipo debe ser una imagen PNG, JPEG, WebP o SVG.',
+  'style.logoTooLarge': 'El archivo del logotipo supera 1 MB. Usa una imagen más pequeña.',
+  'style.logoUnreadable': 'No se pudo leer esa imagen de logotipo. Prueba con otro archivo.',
+
+  'template.select': 'Plantilla de tarjeta',
+  'template.new': 'Nueva plantilla',
+  'template.duplicate': 'Duplicar',
+  'template.classic': 'Clásica',
+  'template.newName': 'Nueva plantilla',
+  'template.copyName': '{name} (copia)',
+  'template.preview': 'Tarjeta 1 en {layout}',
+  'template.classicAbout': 'El logotipo de Cursor arriba a la derecha, el número de tarjeta arriba a la izquierda, el código QR en el centro y el texto de la tarjeta debajo.',
+  'template.builtInHint': 'Plantilla integrada. Duplícala para mover elementos, cambiar las fuentes o añadir tu propia imagen de cabecera.',
+  'template.across': 'Horizontal',
+  'template.down': 'Vertical',
+  'template.align': 'Alineación',
+  'template.valign': 'Alineación vertical',
+  'template.align.left': 'Izquierda',
+  'template.align.center': 'Centro',
+  'template.align.right': 'Derecha',
+  'template.align.top': 'Arriba',
+  'template.align.middle': 'Medio',
+  'template.align.bottom': 'Abajo',
+  'template.name': 'Nombre',
+  'template.header': 'Imagen de cabecera',
+  'template.headerNone': 'Ninguna',
+  'template.headerCursor': 'Logotipo de Cursor',
+  'template.headerCustom': 'Subir imagen…',
+  'template.headerReplace': 'Reemplazar la imagen subida',
+  'template.headerType': 'La imagen de cabecera debe ser PNG, JPEG, WebP o SVG.',
+  'template.headerTooLarge': 'La imagen de cabecera supera 1 MB. Usa una imagen más pequeña.',
+  'template.headerUnreadable': 'No se pudo leer esa imagen de cabecera. Prueba con otro archivo.',
+  'template.width': 'Ancho',
+  'template.qrCentre': 'Centro del código QR',
+  'template.size': 'Tamaño',
+  'template.percentOfClassic': '% de la clásica',
+  'template.blocks': 'Bloques de texto',
+  'template.block': 'Bloque de texto {number}',
+  'template.remove': 'Quitar',
+  'template.font': 'Fuente',
+  'template.font.sans': 'Sans serif',
+  'template.font.serif': 'Serif',
+  'template.font.mono': 'Monoespaciada',
+  'template.bold': 'Negrita',
+  'template.addBlock': '+ Añadir bloque de texto',
+  'template.maxBlocks': {
+    one: 'Una plantilla puede tener hasta {count} bloque de texto',
+    other: 'Una plantilla puede tener hasta {count} bloques de texto',
+  },
+  'template.delete': 'Eliminar plantilla',
+  'template.help': 'Las posiciones se miden dentro de la zona segura; los tamaños son para una tarjeta de 70 × 99 mm y se reducen en tarjetas más pequeñas. El ajuste «{setting}» solo se aplica a la plantilla «{classic}».',
+
+  'imageExport.title': 'Descargar imágenes',
+  'imageExport.summary': {
+    one: '{count} código QR válido se empaquetará en un ZIP con un manifest.csv.',
+    other: '{count} códigos QR válidos se empaquetarán en un ZIP con un manifest.csv.',
+  },
+  'imageExport.formats': 'Formatos',
+  'imageExport.svg': 'SVG (vectorial)',
+  'imageExport.cards': 'Tarjetas completas (PNG, {template})',
+  'imageExport.pngSize': 'Tamaño PNG del código QR (px)',
+  'imageExport.printSize': 'Los códigos QR se imprimen con {width} mm de ancho a {dpi} DPI.',
+  'imageExport.cardSize': 'Las tarjetas se dibujan a su tamaño impreso en {layout} con estos DPI.',
+  'imageExport.nameTemplate': 'Plantilla de nombre de archivo',
+  'imageExport.token.id': 'número de tarjeta',
+  'imageExport.token.code': 'código de referido (el valor de code=)',
+  'imageExport.token.host': 'nombre de host del enlace',
+  'imageExport.token.label': 'etiqueta',
+  'imageExport.token.type': 'tipo de contenido (url, wifi, vcard, …)',
+  'imageExport.example': 'p. ej. {name}',
+  'imageExport.rendering': 'Renderizando {done}/{total}…',
+  'imageExport.download': 'Descargar ZIP',
+  'imageExport.failed': 'No se pudo crear el archivo ZIP. Inténtalo de nuevo.',
+
+  'preview.title': 'Vista previa de impresión',
+  'preview.pages': {
+    one: '{count} página',
+    other: '{count} páginas',
+  },
+  'preview.emptyCells': {
+    one: '{count} celda vacía',
+    other: '{count} celdas vacías',
+  },
+  'preview.preparing': 'Preparando…',
+  'preview.previous': '← Anterior',
+  'preview.next': 'Siguiente →',
+  'preview.page': 'Página',
+  'preview.pageOf': 'de {count} · {name}',
+  'preview.cuttingGuide': 'Guía de corte',
+  'preview.cuttingGuideBack': 'Reverso de la guía de corte',
+  'preview.alignmentFront': 'Prueba de alineación, anverso',
+  'preview.alignmentBack': 'Prueba de alineación, reverso',
+  'preview.sheet': 'Hoja {number}',
+  'preview.sheetFront': 'Hoja {number}, anverso',
+  'preview.sheetBack': 'Hoja {number}, reverso',
+  'preview.showStacks': 'Mostrar posiciones de las pilas',
+  'preview.showStacksSafe': 'Mostrar posiciones de las pilas y zona segura',
+  'preview.showPieces': 'Mostrar posiciones de las piezas',
+  'preview.showPiecesSafe': 'Mostrar posiciones de las piezas y zona segura',
+  'preview.cutAndStackHelp': 'Corta cada página siguiendo la cuadrícula y coloca cada pieza en la pila con su número, con la página 1 arriba. La pila 1 sobre la pila 2 y así sucesivamente deja las tarjetas en orden.',
+  'preview.sequentialHelp': 'Corta cada página siguiendo la cuadrícula y apila sus piezas en el orden numerado; luego pon la página 1 sobre la página 2 y así sucesivamente para mantener las tarjetas en orden.',
+  'preview.mirroredLong': 'Los reversos están reflejados para que cada uno se imprima detrás de su tarjeta cuando la impresora voltea la hoja por el borde largo.',
+  'preview.mirroredShort': 'Los reversos están reflejados para que cada uno se imprima detrás de su tarjeta cuando la impresora voltea la hoja por el borde corto.',
+
+  'mapping.title': 'Asignar columnas',
+  'mapping.rows': {
+    one: '{count} fila',
+    other: '{count} filas',
+  },
+  'mapping.columns': {
+    one: '{count} columna',
+    other: '{count} columnas',
+  },
+  'mapping.remembered': '💡 Se usa la asignación que elegiste la última vez para un archivo con estos encabezados.',
+  'mapping.sheet': 'Hoja',
+  'mapping.sheetOption': '{name} ({rows})',
+  'mapping.hasHeader': 'La primera fila es un encabezado',
+  'mapping.linkColumn': 'Columna del enlace',
+  'mapping.labelColumns': 'Columnas de etiqueta',
+  'mapping.numberColumn': 'Columna del número de tarjeta',
+  'mapping.noNumberColumn': 'Ninguna — numerar las tarjetas en orden',
+  'mapping.valueKind': 'La columna del enlace contiene',
+  'mapping.fullUrls': 'URL completas',
+  'mapping.codes': 'Códigos o rutas, añadidos a una URL base',
+  'mapping.baseUrl': 'URL base',
+  'mapping.column': 'Columna {name}',
+  'mapping.resultPreview': 'Vista previa del resultado',
+  'mapping.noRows': 'Ninguna fila tiene un valor en la columna del enlace seleccionada.',
+  'mapping.generate': {
+    one: 'Generar {count} código QR',
+    other: 'Generar {count} códigos QR',
+  },
+
+  'library.importJson': 'Importar JSON',
+  'library.intro': 'Cada lote generado se guarda en este navegador con su estilo y diseño. Exporta uno como JSON para compartirlo con un compañero.',
+  'library.loading': 'Cargando lotes guardados…',
+  'library.empty': 'Aún no hay lotes guardados. Genera algunos códigos y aparecerán aquí.',
+  'library.nameLabel': 'Nombre del lote',
+  'library.codes': {
+    one: '{count} código',
+    other: '{count} códigos',
+  },
+  'library.generated': 'Generado el {date}',
+  'library.open': 'Abrir',
+  'library.rename': 'Renombrar',
+  'library.duplicate': 'Duplicar',
+  'library.export': 'Exportar',
+  'library.delete': 'Eliminar',
+  'library.confirmDelete': '¿Eliminar «{name}»? No se puede deshacer.',
+  'library.copyName': '{name} (copia)',
+  'library.listFailed': 'No se pudieron abrir los lotes guardados en este navegador.',
+  'library.renameFailed': 'No se pudo renombrar el lote.',
+  'library.deleteFailed': 'No se pudo eliminar el lote.',
+  'library.duplicateFailed': 'No se pudo duplicar el lote.',
+  'library.tooLarge': 'Los archivos de lote están limitados a 5 MB.',
+  'library.imported': {
+    one: 'Se importó «{name}» con {count} código.',
+    other: 'Se importó «{name}» con {count} códigos.',
+  },
+  'library.importFailed': 'No se pudo importar {name}: {reason}.',
+  'library.unknownError': 'error desconocido',
+  'batch.manualList': 'Lista manual',
+  'batch.customCodes': 'Códigos personalizados',
+
+  'duplicates.groups': {
+    one: '{count} grupo de duplicados',
+    other: '{count} grupos de duplicados',
+  },
+  'duplicates.extra': {
+    one: '{count} tarjeta de más',
+    other: '{count} tarjetas de más',
+  },
+  'duplicates.keepFirstEverywhere': 'Conservar la primera de cada grupo',
+  'duplicates.keepFirst': 'Conservar la primera',
+  'duplicates.removeAll': 'Quitar todas',
+  'duplicates.keepAll': 'Conservar todas',
+  'duplicates.identical': 'Contenido idéntico',
+  'duplicates.sameCode': 'Mismo código de referido «{code}»',
+  'duplicates.sameLink': 'Mismo enlace salvo mayúsculas o una barra final',
+  'cardEdit.link': 'Enlace',
+  'cardEdit.label': 'Etiqueta',
+  'cardEdit.optional': 'Opcional',
+
+  'builder.title': 'Crear códigos QR',
+  'builder.subtitle': 'Accesos Wi-Fi, tarjetas de contacto, invitaciones de calendario y más, impresos en la misma cuadrícula que tus enlaces.',
+  'builder.contentType': 'Tipo de contenido',
+  'builder.label': 'Etiqueta (opcional)',
+  'builder.labelPlaceholder': 'Wi-Fi del local',
+  'builder.copies': 'Copias',
+  'builder.addCopies': {
+    one: 'Añadir a la hoja',
+    other: 'Añadir {count} copias',
+  },
+  'builder.fillIn': 'Rellena el formulario para ver la vista previa',
+  'builder.scanToTest': 'Escanea para probar',
+  'builder.remove': 'Quitar',
+  'builder.removeItem': 'Quitar {name}',
+  'payload.url': 'URL',
+  'payload.ssid': 'Nombre de la red (SSID)',
+  'payload.security': 'Seguridad',
+  'payload.securityNone': 'Ninguna (red abierta)',
+  'payload.password': 'Contraseña',
+  'payload.hidden': 'Red oculta',
+  'payload.firstName': 'Nombre',
+  'payload.lastName': 'Apellidos',
+  'payload.organization': 'Organización',
+  'payload.jobTitle': 'Cargo',
+  'payload.phone': 'Teléfono',
+  'payload.email': 'Correo electrónico',
+  'payload.website': 'Sitio web',
+  'payload.to': 'Para',
+  'payload.subject': 'Asunto',
+  'payload.message': 'Mensaje',
+  'payload.phoneNumber': 'Número de teléfono',
+  'payload.title': 'Título',
+  'payload.location': 'Ubicación',
+  'payload.starts': 'Empieza',
+  'payload.ends': 'Termina',
+  'payload.description': 'Descripción',
+  'payload.text': 'Texto',
+
+  'layout.error.rowsCols': 'Las filas y columnas deben ser números enteros de al menos 1',
+  'layout.error.tooMany': 'Las filas y columnas están limitadas a {max} cada una',
+  'layout.error.negative': 'Los márgenes y separaciones deben ser cero o positivos',
+  'layout.error.tooSmall': 'Las celdas miden menos de {min} mm; reduce filas, columnas, márgenes o separaciones',
+  'numbering.error.start': 'El primer número debe ser un número entero de 0 o más',
+  'numbering.error.padding': 'El relleno con ceros debe ser un número entero de dígitos hasta {max}',
+  'numbering.error.affix': 'El prefijo y el sufijo están limitados a {max} caracteres',
+  'cutting.error.negative': 'El sangrado y la zona segura deben ser cero o positivos',
+  'cutting.error.bleed': 'El sangrado está limitado a {max} mm',
+  'cutting.error.margins': 'Los márgenes de la página deben ser al menos tan anchos como el sangrado',
+  'cutting.error.gutters': 'Las separaciones deben ser cero o al menos el doble del sangrado',
+  'cutting.error.safeZone': 'La zona segura no deja espacio para el código QR',
+  'duplex.error.offset': 'Los desplazamientos del reverso deben estar entre -{max} y {max} mm',
+  'duplex.error.heading': 'El título del reverso está limitado a {max} caracteres',
+  'duplex.error.message': 'El mensaje del reverso está limitado a {max} caracteres',
+  'template.error.positions': 'Las posiciones de la plantilla deben estar entre 0 y 100 %',
+  'template.error.blocks': {
+    one: 'Una plantilla puede tener como máximo {count} bloque de texto',
+    other: 'Una plantilla puede tener como máximo {count} bloques de texto',
+  },
+  'template.error.textLength': 'Los bloques de texto están limitados a {max} caracteres',
+  'template.error.fontSize': 'Los tamaños de fuente deben estar entre {min} y {max} px',
+  'template.error.blockWidth': 'Los anchos de los bloques de texto deben estar entre {min} y {max} %',
+  'template.error.headerWidth': 'El ancho de la imagen de cabecera debe estar entre {min} y {max} px',
+  'template.error.qrSize': 'El tamaño del código QR debe estar entre {min} y {max} %',
+  'template.error.qrTooLarge': 'El código QR es más grande de lo que permite la tarjeta',
+  'policy.error.invalid': 'No es un enlace válido',
+  'policy.error.denied': '{host} está en la lista de bloqueo',
+  'policy.error.notAllowed': '{host} no es un host permitido',
+  'policy.error.path': 'La ruta debe empezar por {path}',
+  'policy.error.missingParam': 'El enlace debe tener un valor «{name}»',
+  'policy.error.paramValue': '«{name}» debe ser {value}',
+  'payload.error.tooLong': 'Demasiado contenido para un solo código QR',
+  'payload.error.url': 'URL no válida',
+  'payload.error.ssidRequired': 'El nombre de la red Wi-Fi es obligatorio',
+  'payload.error.ssidLength': 'El nombre de la red Wi-Fi supera los {max} bytes',
+  'payload.error.wpa': 'Las contraseñas WPA tienen de 8 a 63 caracteres',
+  'payload.error.wep': 'Las claves WEP tienen 5 o 13 caracteres (10 o 26 dígitos hexadecimales)',
+  'payload.error.contactName': 'El contacto necesita un nombre o una organización',
+  'payload.error.phone': 'Número de teléfono no válido',
+  'payload.error.email': 'Dirección de correo no válida',
+  'payload.error.website': 'URL del sitio web no válida',
+  'payload.error.eventTitle': 'El título del evento es obligatorio',
+  'payload.error.eventStart': 'La hora de inicio del evento es obligatoria',
+  'payload.error.eventEnd': 'El evento termina antes de empezar',
+  'payload.error.textEmpty': 'El texto está vacío',
+  'payload.warning.smsLength': 'El mensaje supera los {max} caracteres y puede dividirse',
+  'payload.warning.textScheme': 'El texto parece un enlace que no es una dirección web',
+  'referral.noCode': 'El enlace de referido no tiene valor code=.',
+  'referral.emptyCode': 'El enlace de referido tiene un valor code= vacío.',
+  'referral.characters': 'El código de referido «{code}» tiene caracteres distintos de letras, dígitos, «-» y «_».',
+  'referral.length': 'El código de referido tiene {length} caracteres; se esperaban {min}–{max}.',
+  'urlRule.severity.low': 'Aviso:',
+  'urlRule.severity.medium': 'Advertencia:',
+  'urlRule.severity.high': 'Riesgo alto:',
+  'urlRule.javascriptScheme': 'No se permiten URL de JavaScript.',
+  'urlRule.dataScheme': 'No se permiten URL de datos.',
+  'urlRule.fileScheme': 'No se permiten URL de archivo.',
+  'urlRule.vbscriptScheme': 'No se permiten URL de VBScript.',
+  'urlRule.scriptTag': 'Se detectaron etiquetas script en la URL.',
+  'urlRule.pathTraversal': 'Se detectó un recorrido de rutas.',
+  'urlRule.lookalike': 'El host «{host}» usa letras de aspecto similar y se lee como «{skeleton}».',
+  'urlRule.mixedScripts': 'El host «{host}» mezcla letras latinas con cirílicas o griegas.',
+  'urlRule.userinfo': 'El texto antes de «@» ({userinfo}) oculta el host real {host}.',
+  'urlRule.punycode': 'El host «{host}» ({ascii}) usa caracteres internacionales; comprueba que es el sitio que esperas.',
+  'urlRule.encodedIp': 'El host «{host}» es la dirección IP {ip} escrita de forma disimulada.',
+  'urlRule.ipv6': 'El host es la dirección IPv6 {ip}; verifica el origen.',
+  'urlRule.ip': 'El host es la dirección IP {ip}; verifica el origen.',
+  'urlRule.redirect': 'Reenvía a los visitantes a {host} mediante el parámetro «{name}».',
+  'urlRule.redirectUnknown': 'Reenvía a los visitantes a otra dirección mediante el parámetro «{name}».',
+  'urlRule.pathRedirect': 'La ruta contiene otra dirección ({address}), un truco habitual de redirección abierta.',
+  'urlRule.shortener': '{host} es un acortador de enlaces, así que no se puede comprobar el destino final.',
+  'urlRule.longUrl': 'URL inusualmente larga ({length} caracteres).',
+  'style.budget.block': 'El logotipo oculta el {coverage} % de los datos, pero el nivel {level} solo recupera el {recovery} %. Reduce el logotipo o sube la corrección de errores.',
+  'style.budget.warn': 'El logotipo oculta el {coverage} % de los datos, cerca del {recovery} % que recupera el nivel {level}.',
+  'style.budget.quietZone': 'Una zona de silencio de menos de {min} módulos puede impedir que los lectores encuentren el código.',
+  'style.contrast.low': 'Contraste bajo ({ratio}:1). Puede que los códigos no se lean; procura al menos {min}:1.',
+  'style.contrast.eye': 'El color de los ojos tiene poco contraste con el fondo ({ratio}:1).',
+  'style.contrast.inverted': 'Los módulos claros sobre fondo oscuro están invertidos; algunos lectores no pueden leerlos.',
+  'verify.undecodable': 'No se pudo decodificar',
+  'verify.mismatch': 'Se decodifica con un contenido distinto',
+  'verify.unrendered': 'No se pudo generar para comprobarlo',
+  'batch.imported': 'Lote importado',
+  'batch.error.json': 'El archivo no es un JSON válido',
+  'batch.error.format': 'El archivo no es un lote de códigos QR exportado',
+  'batch.error.newer': 'El lote se exportó con una versión más reciente de esta aplicación',
+  'batch.error.unreadable': 'El lote guardado no se puede leer',
+  'batch.error.noCodes': 'El lote no tiene códigos legibles',
+  'batch.error.layout': 'El lote tiene un diseño de hoja inutilizable',
+  'import.error.json': 'El archivo no es un JSON válido.',
+  'import.error.notArray': 'Se esperaba un array JSON de enlaces o de objetos.',
+  'import.error.mixedItems': 'Todos los elementos del array JSON deben ser enlaces, o todos objetos.',
+  'import.error.workbook': 'No se pudo leer el libro.',
+  'import.error.noSheets': 'El libro no tiene hojas.',
+  'import.file': '{name}',
+  'import.files': {
+    one: '{name} + {count} más',
+    other: '{name} + {count} más',
+  },
+  'import.pasted': 'Rango pegado',
+};
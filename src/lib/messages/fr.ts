@@ -0,0 +1,704 @@
+import type { Messages } from '@/lib/i18n';
+
+export const fr: Messages = {
+  'locale.label': 'Langue',
+
+  'common.back': '← Retour',
+  'common.cancel': 'Annuler',
+  'common.save': 'Enregistrer',
+  'common.backToCodes': '← Retour aux codes',
+
+  'options.headline': 'Générateur de QR codes {brand}',
+  'options.brand': 'Cursor Credits',
+  'options.subtitle': 'Créez des QR codes pour vos liens de parrainage',
+  'options.upload': 'Importer ou coller un tableur',
+  'options.manual': 'Saisir les liens à la main',
+  'options.builder': 'Wi-Fi, contact, événement et plus',
+  'options.library': 'Lots enregistrés',
+
+  'footer.madeBy': 'Fait avec {heart} par {author}',
+  'footer.contribute': 'Contribuer',
+  'footer.builtWith': 'Conçu avec Cursor',
+
+  'upload.title': 'Importer un tableur',
+  'upload.processing': 'Traitement du fichier...',
+  'upload.drop': 'Déposez ici des fichiers CSV, TSV, Excel ou JSON',
+  'upload.or': 'ou',
+  'upload.choose': 'Choisir un fichier',
+  'upload.limits': '5 Mo max. par fichier, jusqu’à {max} URL. Plusieurs fichiers sont fusionnés en un seul lot.',
+  'upload.pastePlaceholder': 'Ou collez ici une plage copiée depuis Excel ou Google Sheets',
+  'upload.pasteLabel': 'Coller une plage de tableur',
+
+  'manual.title': 'Saisir les liens',
+  'manual.placeholder': 'Saisissez vos liens de parrainage Cursor, un par ligne, éventuellement suivis d’une virgule et d’un libellé :',
+  'manual.exampleLabel': 'Pour : Jeanne — Table 4',
+  'manual.processing': 'Traitement...',
+  'manual.generate': 'Générer les QR codes',
+
+  'results.title': 'QR codes ({count})',
+  'results.savedAs': 'Enregistré sous « {name} »',
+  'results.preview': 'Aperçu',
+  'results.print': 'Imprimer',
+  'results.preparing': 'Préparation des pages {done}/{total}...',
+  'results.downloadPdf': 'Télécharger le PDF',
+  'results.buildingPdf': 'Création du PDF...',
+  'results.downloadImages': 'Télécharger les images',
+  'results.tracker': 'Suivi',
+  'results.clear': 'Effacer',
+
+  'toolbar.cardText': 'Texte des cartes',
+  'toolbar.cardLanguage': 'Langue des cartes',
+  'toolbar.printCode': 'Imprimer le code de parrainage en gros caractères',
+  'toolbar.template': 'Modèle de carte : {name}',
+  'toolbar.hideTemplate': 'Masquer le modèle de carte',
+  'toolbar.duplex': 'Recto verso',
+  'toolbar.hideDuplex': 'Masquer le recto verso',
+  'toolbar.numbering': 'Numérotation',
+  'toolbar.hideNumbering': 'Masquer la numérotation',
+  'toolbar.cutting': 'Découpe',
+  'toolbar.hideCutting': 'Masquer la découpe',
+  'toolbar.policy': 'Règle de liens',
+  'toolbar.policyNamed': 'Règle de liens : {name}',
+  'toolbar.hidePolicy': 'Masquer la règle de liens',
+  'toolbar.appearance': 'Apparence',
+  'toolbar.hideAppearance': 'Masquer l’apparence',
+
+  'cardText.both': 'Libellé et URL/détails',
+  'cardText.url': 'URL/détails seulement',
+  'cardText.label': 'Libellé à la place de l’URL/des détails',
+  'cardText.none': 'Aucun texte',
+
+  'numbering.renumber': 'Renuméroter les cartes',
+  'numbering.keep': 'Conserver les numéros',
+
+  'tip.cutAndStack': '💡 Les numéros sont placés pour faciliter l’empilage : après impression, découpez les pages en carrés et empilez par position pour un ordre parfait',
+  'tip.sequential': '💡 Les numéros se suivent dans le sens de lecture : découpez chaque page et empilez ses morceaux de gauche à droite, de haut en bas',
+
+  'policy.blocked': {
+    one: '🚫 {count} lien enfreint la règle « {name} » et est bloqué pour l’impression et l’export.',
+    other: '🚫 {count} liens enfreignent la règle « {name} » et sont bloqués pour l’impression et l’export.',
+  },
+  'policy.flagged': {
+    one: '⚠️ {count} lien enfreint la règle « {name} ».',
+    other: '⚠️ {count} liens enfreignent la règle « {name} ».',
+  },
+  'policy.cursorReferral': 'Liens de parrainage Cursor',
+  'policy.newName': 'Nouvelle règle',
+  'policy.copyName': '{name} (copie)',
+  'policy.forBatch': 'Règle de liens pour ce lot',
+  'policy.none': 'Aucune règle',
+  'policy.new': 'Nouvelle règle',
+  'policy.duplicate': 'Dupliquer',
+  'policy.breaking': {
+    one: '{count} lien enfreint cette règle',
+    other: '{count} liens enfreignent cette règle',
+  },
+  'policy.allFollow': '✓ Tous les liens respectent cette règle',
+  'policy.allowedHosts': 'Hôtes autorisés : {hosts}',
+  'policy.anyHost': 'tous',
+  'policy.deniedHosts': 'Hôtes refusés : {hosts}',
+  'policy.shape': 'Les liens doivent ressembler à : {shape}',
+  'policy.blocksSummary': 'Les liens qui l’enfreignent ne peuvent pas être imprimés.',
+  'policy.flagsSummary': 'Les liens qui l’enfreignent sont signalés.',
+  'policy.builtIn': 'Règle intégrée. Dupliquez-la pour la modifier.',
+  'policy.name': 'Nom',
+  'policy.requiredShape': 'Forme de lien requise',
+  'policy.allowedHostsField': 'Hôtes autorisés (un par ligne, *.example.com pour les sous-domaines ; vide autorise tout)',
+  'policy.deniedHostsField': 'Hôtes refusés',
+  'policy.whenBroken': 'Quand un lien enfreint la règle',
+  'policy.strictness.warn': 'Signaler seulement',
+  'policy.strictness.block': 'Bloquer l’impression',
+  'policy.delete': 'Supprimer la règle',
+
+  'verify.progress': 'Vérification de la lecture de chaque code… {done}/{total}',
+  'verify.failing': '❌ {failing} codes sur {total} ont échoué au test de lecture',
+  'verify.passing': '✓ Les {count} codes se lisent et redonnent leur contenu',
+  'verify.showFailing': 'Afficher seulement les échecs',
+
+  'cards.add': '+ Ajouter un code',
+  'cards.addAs': 'Ajouter en {number}',
+  'cards.afterEdits': 'Après modification',
+
+  'card.dragToReorder': 'Glisser pour réordonner',
+  'card.label': 'Carte {number}',
+  'card.labelNamed': 'Carte {number} : {label}',
+  'card.moveLabel': 'Déplacer la carte {number}. Utilisez les flèches pour réordonner',
+  'card.qrAlt': 'QR code de la carte {number} : {content}',
+  'card.edit': 'Modifier',
+  'card.editLabel': 'Modifier la carte {number}',
+  'card.delete': 'Supprimer',
+  'card.deleteLabel': 'Supprimer la carte {number}',
+  'card.scanFailed': '❌ Échec du test de lecture : {message}',
+  'card.policy': 'Règle : {problem}',
+  'card.duplicateOf': '⚠️ Doublon de {number}',
+  'card.modules': 'v{version} · {size}×{size} modules',
+  'card.tightLogo': '⚠️ logo à la limite',
+  'card.unscannable': '⛔ probablement illisible',
+  'card.scans': '✓ lisible',
+
+  'toast.close': 'Fermer la notification',
+  'toast.region': 'Notifications',
+  'toast.templatesNotSaved': 'Impossible d’enregistrer les modèles de carte dans votre navigateur. Essayez une image d’en-tête plus petite.',
+  'toast.removed': {
+    one: '{count} carte supprimée.',
+    other: '{count} cartes supprimées.',
+  },
+  'toast.removedRenumbered': 'Les cartes restantes ont été renumérotées.',
+  'toast.removedKept': {
+    one: 'Son numéro reste vide sur les planches.',
+    other: 'Leurs numéros restent vides sur les planches.',
+  },
+  'toast.cardAddedInvalid': 'La carte {number} a été ajoutée mais elle n’est pas valide : {problem}',
+  'toast.cardUpdatedInvalid': 'La carte {number} a été modifiée mais elle n’est pas valide : {problem}',
+  'toast.cardAddedWarning': 'La carte {number} a été ajoutée. {warning}',
+  'toast.cardUpdatedWarning': 'La carte {number} a été modifiée. {warning}',
+  'toast.batchFull': 'Un lot peut contenir au plus {max} codes.',
+  'toast.renumbered': 'Les cartes ont été renumérotées pour combler les trous.',
+  'toast.ledgerNotMoved': 'Le suivi n’a pas pu être mis à jour avec les nouveaux numéros. Vérifiez les cartes distribuées dans Suivi.',
+  'toast.batchNotSaved': 'Impossible d’enregistrer ce lot dans votre navigateur. Il sera perdu au rechargement.',
+  'toast.batchOpenFailed': 'Impossible d’ouvrir « {name} ». Le lot enregistré est endommagé ou provient d’une version non prise en charge.',
+  'toast.noUrls': 'Veuillez saisir au moins une URL',
+  'toast.urlLimit': 'Traitement des {max} premières URL sur {count} (limite maximale).',
+  'toast.generatedInvalid': '{count} QR codes générés dont {invalid} URL non valide(s). Les URL non valides seront signalées.',
+  'toast.generatedWarnings': '{count} QR codes générés avec {warnings} avertissement(s). Vérifiez les URL signalées.',
+  'toast.builtWarnings': '{count} QR codes générés avec {warnings} avertissement(s). Vérifiez les codes signalés.',
+  'toast.generateFailed': 'Impossible de générer les QR codes. Vérifiez votre saisie et réessayez.',
+  'toast.scanFailing': '{failing} codes sur {total} ont échoué au test de lecture. Utilisez « Afficher seulement les échecs » pour les revoir.',
+  'toast.scanPassing': 'Les {count} codes se lisent et redonnent leur contenu.',
+  'toast.unscannable': '{count} code(s) ne seraient probablement pas lisibles : {reason}',
+  'toast.policyBlocks': '{count} lien(s) enfreignent la règle « {name} », par ex. {number} : {problem}. Corrigez-les ou supprimez-les, ou passez la règle en simple signalement.',
+  'toast.cannotPrint': 'Impossible d’imprimer avec ces réglages : {error}.',
+  'toast.cannotPrintTest': 'Impossible d’imprimer le test avec ces réglages : {error}.',
+  'toast.cannotExportTest': 'Impossible d’exporter le test avec ces réglages : {error}.',
+  'toast.testPdfFailed': 'Impossible de créer le PDF de test. Réessayez ou imprimez-le à la place.',
+  'toast.cannotPreview': 'Impossible d’afficher l’aperçu avec ces réglages : {error}.',
+  'toast.cannotExport': 'Impossible d’exporter avec ces réglages : {error}.',
+  'toast.pdfFailed': 'Impossible de créer le PDF. Réessayez ou utilisez Imprimer à la place.',
+  'toast.emptyFile': 'Le fichier est vide. Vérifiez le fichier et réessayez.',
+  'toast.rowLimit': 'L’import contient {count} lignes. {max} QR codes au maximum seront générés.',
+  'toast.fileLimit': 'Import des {max} premiers fichiers sur {count}.',
+  'toast.fileTooLarge': '{name} ({size} Mo) dépasse la taille maximale de 5 Mo. Utilisez un fichier plus petit.',
+  'toast.unsupportedFile': '{name} n’est pas un fichier pris en charge. Importez du CSV, TSV, Excel (.xlsx) ou JSON.',
+  'toast.fileUnreadable': 'Impossible de lire {name} : {reason}',
+  'toast.unknownError': 'Erreur inconnue',
+  'toast.readFailed': 'Impossible de lire le fichier. Réessayez avec un autre fichier.',
+  'toast.pasteTooLarge': 'Le texte collé dépasse 5 Mo. Collez une plage plus petite.',
+  'toast.noLinkValues': 'Aucune valeur dans la colonne de liens choisie. Choisissez une autre colonne.',
+  'toast.importedInvalid': '{count} URL traitées depuis {file}. {invalid} URL non valide(s) trouvée(s).',
+  'toast.importedWarnings': '{count} URL traitées avec {warnings} avertissement(s).',
+  'toast.importFailed': 'Impossible de traiter les lignes importées. Vérifiez le format du fichier et réessayez.',
+
+  'error.title': 'Une erreur s’est produite',
+  'error.intro': 'Une erreur inattendue est survenue. Causes possibles :',
+  'error.causeFile': 'Données de fichier mal formées ou corrompues',
+  'error.causeBrowser': 'Problèmes de compatibilité du navigateur',
+  'error.causeInput': 'Format de saisie inattendu',
+  'error.saved': 'Les lots générés sont enregistrés dans ce navigateur ; rouvrez-les depuis Lots enregistrés après le rechargement.',
+  'error.details': 'Détails techniques',
+  'error.reload': 'Recharger l’application',
+
+  'kind.url': 'Lien',
+  'kind.wifi': 'Wi-Fi',
+  'kind.vcard': 'Contact',
+  'kind.email': 'E-mail',
+  'kind.sms': 'SMS',
+  'kind.event': 'Événement',
+  'kind.text': 'Texte',
+  'print.invalidUrl': 'URL non valide',
+  'print.invalid': '{kind} non valide',
+  'print.wifi': 'Wi-Fi : {name}',
+  'print.contact': 'Contact : {name}',
+  'print.email': 'E-mail : {address}',
+  'print.sms': 'SMS : {phone}',
+  'print.event': 'Événement : {title}',
+
+  'guide.title': 'Guide de découpe',
+  'guide.cards': {
+    one: '{count} carte',
+    other: '{count} cartes',
+  },
+  'guide.sheets': {
+    one: '{count} planche',
+    other: '{count} planches',
+  },
+  'guide.summary': '{cards} sur {sheets}',
+  'guide.stack': 'Pile {number}',
+  'guide.piece': 'Morceau {number}',
+  'guide.empty': 'Vide',
+  'guide.cutMarks': {
+    one: 'Découpez la planche le long des traits de coupe.',
+    other: 'Découpez les {count} planches le long des traits de coupe.',
+  },
+  'guide.cutBorders': {
+    one: 'Découpez la planche le long des bords des cartes.',
+    other: 'Découpez les {count} planches le long des bords des cartes.',
+  },
+  'guide.sequentialPile': 'Empilez les morceaux de chaque planche dans le sens de lecture, de gauche à droite et de haut en bas, le premier morceau dessus.',
+  'guide.sequentialJoin': 'Posez la pile de la planche 1 sur celle de la planche 2, et ainsi de suite jusqu’à la planche {count}.',
+  'guide.stackPile': 'Gardez ensemble les morceaux de chaque position, dans l’ordre des pages avec la page 1 dessus. Chaque position forme une pile ci-dessous.',
+  'guide.stackJoin': 'Posez la pile 1 sur la pile 2, puis les deux sur la pile 3, et ainsi de suite jusqu’à la pile {count}.',
+  'guide.result': 'La pile va maintenant de la carte {first} à la carte {last}, sans tri.',
+
+  'test.front': 'Recto {number}',
+  'test.back': 'Verso {number}',
+
+  'tracker.title': 'Suivi des remises',
+  'tracker.exportCsv': 'Exporter en CSV',
+  'tracker.count': '{status} : {count}',
+  'tracker.cards': 'Cartes',
+  'tracker.setStatus': 'Définir le statut',
+  'tracker.recipientOptional': 'Destinataire (facultatif)',
+  'tracker.apply': 'Appliquer',
+  'tracker.show': 'Afficher',
+  'tracker.allCards': 'Toutes les cartes',
+  'tracker.loading': 'Chargement du suivi…',
+  'tracker.code': 'Code',
+  'tracker.status': 'Statut',
+  'tracker.recipient': 'Destinataire',
+  'tracker.notes': 'Notes',
+  'tracker.statusOf': 'Statut de {number}',
+  'tracker.recipientOf': 'Destinataire de {number}',
+  'tracker.notesFor': 'Notes pour {number}',
+  'tracker.empty': 'Aucune carte avec ce statut.',
+  'tracker.openFailed': 'Impossible d’ouvrir la base de suivi locale. Les modifications ne seront pas enregistrées.',
+  'tracker.saveFailed': 'Échec de l’enregistrement local des modifications du suivi.',
+  'tracker.rangeHint': 'Saisissez des numéros de carte comme « {example} » entre {lowest} et {highest}.',
+  'tracker.noPlainNumbers': 'Aucune carte n’a de numéro simple permettant de la sélectionner.',
+  'tracker.noMatch': 'Aucun de ces numéros ne correspond à une carte de ce lot.',
+  'tracker.updated': {
+    one: '{count} carte mise à jour.',
+    other: '{count} cartes mises à jour.',
+  },
+  'status.unassigned': 'Non attribuée',
+  'status.handed-out': 'Remise',
+  'status.redeemed': 'Utilisée',
+  'status.void': 'Annulée',
+
+  'layout.sheet': 'Mise en page',
+  'layout.custom': 'Personnalisée',
+  'layout.customOption': 'Personnalisée…',
+  'layout.summary': '{count} par page · cellules de {width} × {height} mm',
+  'layout.paper': 'Format du papier',
+  'layout.paperOption': '{name} ({width} × {height} mm)',
+  'layout.rows': 'Lignes',
+  'layout.columns': 'Colonnes',
+  'layout.columnGutter': 'Espace entre colonnes',
+  'layout.rowGutter': 'Espace entre lignes',
+  'layout.margin.top': 'Marge du haut',
+  'layout.margin.right': 'Marge de droite',
+  'layout.margin.bottom': 'Marge du bas',
+  'layout.margin.left': 'Marge de gauche',
+  'layout.mm': 'mm',
+  'layout.preset.a4-3x3': 'A4 — 3 × 3',
+  'layout.preset.letter-3x3': 'US Letter — 3 × 3',
+  'layout.preset.a3-4x4': 'A3 — 4 × 4',
+  'layout.preset.avery-l7160': 'Étiquettes Avery L7160 (A4, 21 par feuille)',
+  'layout.preset.avery-5160': 'Étiquettes Avery 5160 (Letter, 30 par feuille)',
+  'layout.preset.avery-5371': 'Cartes de visite Avery 5371 (Letter, 10 par feuille)',
+  'layout.preset.cards-a4-85x54': 'Cartes de visite 85 × 54 mm (A4, 10 par feuille)',
+  'paper.a4': 'A4',
+  'paper.letter': 'US Letter',
+  'paper.a3': 'A3',
+  'printOrder.cut-and-stack': 'Couper et empiler',
+  'printOrder.sequential': 'Ordre de lecture',
+
+  'numbering.printOrder': 'Ordre d’impression',
+  'numbering.firstNumber': 'Premier numéro',
+  'numbering.prefix': 'Préfixe',
+  'numbering.suffix': 'Suffixe',
+  'numbering.padTo': 'Compléter par des zéros à',
+  'numbering.digits': 'chiffres',
+  'numbering.fromColumn': 'Utiliser les numéros de carte du fichier importé',
+  'numbering.summary': 'Les cartes sont numérotées de {first} à {last}, à l’écran, à l’impression et dans chaque export.',
+  'numbering.summaryImported': 'Les cartes sont numérotées de {first} à {last} (celles qui ont un numéro dans le fichier le gardent), à l’écran, à l’impression et dans chaque export.',
+  'numbering.aboutCutAndStack': 'L’ordre « couper et empiler » place les cartes consécutives au même endroit sur des pages consécutives.',
+  'numbering.aboutSequential': 'L’ordre de lecture remplit chaque page de gauche à droite, de haut en bas.',
+  'cutting.guides': 'Repères de coupe',
+  'cutGuide.borders': 'Bordure autour de chaque carte',
+  'cutGuide.marks': 'Traits de coupe dans les marges',
+  'cutting.bleed': 'Fond perdu',
+  'cutting.safeZone': 'Zone de sécurité',
+  'cutting.coverPage': 'Imprimer un guide de coupe avant les feuilles, indiquant quelles cartes finissent sur chaque pile',
+  'cutting.bleedHelp': 'Le fond perdu prolonge l’arrière-plan de chaque carte au-delà du trait de coupe, pour qu’une coupe légèrement décalée ne laisse pas de bord blanc. Textes, logos et codes restent dans la zone de sécurité.',
+  'cutting.marksNoRoom': 'Les traits de coupe demandent {margin} mm de marge ; les côtés qui en ont moins n’en reçoivent pas. Choisissez une mise en page avec des marges, ou utilisez des bordures.',
+  'duplex.printing': 'Impression',
+  'duplexMode.off': 'Recto seul',
+  'duplexMode.long-edge': 'Recto verso, retournement sur le bord long',
+  'duplexMode.short-edge': 'Recto verso, retournement sur le bord court',
+  'duplex.heading': 'Titre du verso',
+  'duplex.message': 'Message du verso',
+  'duplex.messagePlaceholder': 'Scannez le recto pour obtenir vos crédits. Carte {number}',
+  'duplex.placeholders': 'Utilisez {tokens} pour les informations propres à chaque carte',
+  'duplex.showLabel': 'Imprimer le libellé de la carte (par ex. le nom du destinataire)',
+  'duplex.showNumber': 'Imprimer le numéro de la carte',
+  'duplex.alignHelp': 'Imprimez le test d’alignement en recto verso avec les mêmes réglages, puis regardez-le à contre-jour. Si la croix du recto est décalée par rapport à celle du verso, lisez l’écart sur l’échelle du verso (chaque graduation vaut 1 mm) et saisissez-le ci-dessous : droite et bas sont positifs.',
+  'duplex.moveRight': 'Décaler les versos à droite',
+  'duplex.moveDown': 'Décaler les versos vers le bas',
+  'duplex.printTest': 'Imprimer le test d’alignement',
+  'duplex.downloadTest': 'Télécharger le PDF de test',
+  'placeholder.number': 'Numéro de carte',
+  'placeholder.label': 'Libellé',
+  'placeholder.code': 'Code de parrainage',
+  'placeholder.url': 'Lien ou résumé du contenu',
+
+  'style.moduleStyle.squares': 'Carrés',
+  'style.moduleStyle.dots': 'Points',
+  'style.moduleStyle.fluid': 'Fluide',
+  'style.previewInfo': 'Aperçu en direct · version {version}',
+  'style.moduleCount': '{size}×{size} modules',
+  'style.reset': 'Rétablir par défaut',
+  'style.foreground': 'Premier plan',
+  'style.background': 'Arrière-plan',
+  'style.modules': 'Modules',
+  'style.moduleStyle': 'Style des modules',
+  'style.eyeRadius': 'Arrondi des yeux',
+  'style.square': 'Carré',
+  'style.modulesValue': {
+    one: '{count} module',
+    other: '{count} modules',
+  },
+  'style.modulesSpec': '{modules} (norme)',
+  'style.eyesMatch': 'Yeux de la couleur du premier plan',
+  'style.eyeColor': 'Couleur des yeux',
+  'style.errorCorrection': 'Correction d’erreurs',
+  'style.errorCorrectionLevel': 'Niveau de correction d’erreurs',
+  'style.ecLevel.L': 'Faible',
+  'style.ecLevel.M': 'Moyen',
+  'style.ecLevel.Q': 'Quartile',
+  'style.ecLevel.H': 'Élevé',
+  'style.ecLevelHint': '{name} : récupère environ {percent} % du code',
+  'style.quietZone': 'Zone de silence',
+  'style.logo': 'Logo',
+  'style.logoDefault': 'Logo Cursor',
+  'style.logoCustom': 'Importer le mien…',
+  'style.logoNone': 'Aucun logo',
+  'style.logoReplace': 'Remplacer le logo importé',
+  'style.logoSize': 'Taille du logo',
+  'style.logoSizeValue': '{percent} % du code',
+  'style.logoPadding': 'Marge du logo',
+  'style.paddingShape': 'Forme de la marge',
+  'style.paddingSquare': 'Carré',
+  'style.paddingCircle': 'Cercle',
+  'style.logoCoverage': 'Le logo masque {coverage} % des modules de données ; le niveau {level} en récupère environ {recovery} %.',
+  'style.logoType': 'Le logo doit être une image PNG, JPEG, WebP ou SVG.',
+  'style.logoTooLarge': 'Le fichier du logo dépasse 1 Mo. Utilisez une image plus petite.',
+  'style.logoUnreadable': 'Impossible de lire cette image de logo. Essayez un autre fichier.',
+
+  'template.select': 'Modèle de carte',
+  'template.new': 'Nouveau modèle',
+  'template.duplicate': 'Dupliquer',
+  'template.classic': 'Classique',
+  'template.newName': 'Nouveau modèle',
+  'template.copyName': '{name} (copie)',
+  'template.preview': 'Carte 1 sur {layout}',
+  'template.classicAbout': 'Le logo Cursor en haut à droite, le numéro de carte en haut à gauche, le code QR au centre et le texte de la carte en dessous.',
+  'template.builtInHint': 'Modèle intégré. Dupliquez-le pour déplacer les éléments, changer les polices ou ajouter votre propre image d’en-tête.',
+  'template.across': 'Horizontal',
+  'template.down': 'Vertical',
+  'template.align': 'Alignement',
+  'template.valign': 'Alignement vertical',
+  'template.align.left': 'Gauche',
+  'template.align.center': 'Centre',
+  'template.align.right': 'Droite',
+  'template.align.top': 'Haut',
+  'template.align.middle': 'Milieu',
+  'template.align.bottom': 'Bas',
+  'template.name': 'Nom',
+  'template.header': 'Image d’en-tête',
+  'template.headerNone': 'Aucune',
+  'template.headerCursor': 'Logo Cursor',
+  'template.headerCustom': 'Importer une image…',
+  'template.headerReplace': 'Remplacer l’image importée',
+  'template.headerType': 'L’image d’en-tête doit être au format PNG, JPEG, WebP ou SVG.',
+  'template.headerTooLarge': 'L’image d’en-tête dépasse 1 Mo. Utilisez une image plus petite.',
+  'template.headerUnreadable': 'Impossible de lire cette image d’en-tête. Essayez un autre fichier.',
+  'template.width': 'Largeur',
+  'template.qrCentre': 'Centre du code QR',
+  'template.size': 'Taille',
+  'template.percentOfClassic': '% du classique',
+  'template.blocks': 'Blocs de texte',
+  'template.block': 'Bloc de texte {number}',
+  'template.remove': 'Supprimer',
+  'template.font': 'Police',
+  'template.font.sans': 'Sans empattement',
+  'template.font.serif': 'Avec empattement',
+  'template.font.mono': 'Chasse fixe',
+  'template.bold': 'Gras',
+  'template.addBlock': '+ Ajouter un bloc de texte',
+  'template.maxBlocks': {
+    one: 'Un modèle peut contenir jusqu’à {count} bloc de texte',
+    other: 'Un modèle peut contenir jusqu’à {count} blocs de texte',
+  },
+  'template.delete': 'Supprimer le modèle',
+  'template.help': 'Les positions sont mesurées dans la zone de sécurité ; les tailles valent pour une carte de 70 × 99 mm et diminuent sur les cartes plus petites. Le réglage « {setting} » ne s’applique qu’au modèle « {classic} ».',
+
+  'imageExport.title': 'Télécharger les images',
+  'imageExport.summary': {
+    one: '{count} code QR valide sera regroupé dans un ZIP avec un fichier manifest.csv.',
+    other: '{count} codes QR valides seront regroupés dans un ZIP avec un fichier manifest.csv.',
+  },
+  'imageExport.formats': 'Formats',
+  'imageExport.svg': 'SVG (vectoriel)',
+  'imageExport.cards': 'Cartes entières (PNG, {template})',
+  'imageExport.pngSize': 'Taille PNG du code QR (px)',
+  'imageExport.printSize': 'Les codes QR s’impriment sur {width} mm de large à {dpi} DPI.',
+  'imageExport.cardSize': 'Les cartes sont dessinées à leur taille d’impression sur {layout} à cette résolution.',
+  'imageExport.nameTemplate': 'Modèle de nom de fichier',
+  'imageExport.token.id': 'numéro de carte',
+  'imageExport.token.code': 'code de parrainage (la valeur de code=)',
+  'imageExport.token.host': 'nom d’hôte du lien',
+  'imageExport.token.label': 'libellé',
+  'imageExport.token.type': 'type de contenu (url, wifi, vcard, …)',
+  'imageExport.example': 'p. ex. {name}',
+  'imageExport.rendering': 'Rendu {done}/{total}…',
+  'imageExport.download': 'Télécharger le ZIP',
+  'imageExport.failed': 'Impossible de créer le fichier ZIP. Veuillez réessayer.',
+
+  'preview.title': 'Aperçu avant impression',
+  'preview.pages': {
+    one: '{count} page',
+    other: '{count} pages',
+  },
+  'preview.emptyCells': {
+    one: '{count} case vide',
+    other: '{count} cases vides',
+  },
+  'preview.preparing': 'Préparation…',
+  'preview.previous': '← Précédente',
+  'preview.next': 'Suivante →',
+  'preview.page': 'Page',
+  'preview.pageOf': 'sur {count} · {name}',
+  'preview.cuttingGuide': 'Guide de découpe',
+  'preview.cuttingGuideBack': 'Verso du guide de découpe',
+  'preview.alignmentFront': 'Test d’alignement, recto',
+  'preview.alignmentBack': 'Test d’alignement, verso',
+  'preview.sheet': 'Feuille {number}',
+  'preview.sheetFront': 'Feuille {number}, recto',
+  'preview.sheetBack': 'Feuille {number}, verso',
+  'preview.showStacks': 'Afficher les positions des piles',
+  'preview.showStacksSafe': 'Afficher les positions des piles et la zone de sécurité',
+  'preview.showPieces': 'Afficher les positions des morceaux',
+  'preview.showPiecesSafe': 'Afficher les positions des morceaux et la zone de sécurité',
+  'preview.cutAndStackHelp': 'Découpez chaque page le long de la grille et placez chaque morceau sur la pile portant son numéro, page 1 au-dessus. La pile 1 sur la pile 2, et ainsi de suite, donne les cartes dans l’ordre.',
+  'preview.sequentialHelp': 'Découpez chaque page le long de la grille et empilez ses morceaux dans l’ordre numéroté, puis placez la page 1 sur la page 2, et ainsi de suite, pour garder les cartes dans l’ordre.',
+  'preview.mirroredLong': 'Les versos sont inversés pour que chacun s’imprime derrière sa carte lorsque l’imprimante retourne la feuille sur le bord long.',
+  'preview.mirroredShort': 'Les versos sont inversés pour que chacun s’imprime derrière sa carte lorsque l’imprimante retourne la feuille sur le bord court.',
+
+  'mapping.title': 'Associer les colonnes',
+  'mapping.rows': {
+    one: '{count} ligne',
+    other: '{count} lignes',
+  },
+  'mapping.columns': {
+    one: '{count} colonne',
+    other: '{count} colonnes',
+  },
+  'mapping.remembered': '💡 Utilisation de l’association choisie la dernière fois pour un fichier avec ces en-têtes.',
+  'mapping.sheet': 'Feuille',
+  'mapping.sheetOption': '{name} ({rows})',
+  'mapping.hasHeader': 'La première ligne est un en-tête',
+  'mapping.linkColumn': 'Colonne du lien',
+  'mapping.labelColumns': 'Colonnes du libellé',
+  'mapping.numberColumn': 'Colonne du numéro de carte',
+  'mapping.noNumberColumn': 'Aucune — numéroter les cartes dans l’ordre',
+  'mapping.valueKind': 'La colonne du lien contient',
+  'mapping.fullUrls': 'Des URL complètes',
+  'mapping.codes': 'Des codes ou chemins, ajoutés à une URL de base',
+  'mapping.baseUrl': 'URL de base',
+  'mapping.column': 'Colonne {name}',
+  'mapping.resultPreview': 'Aperçu du résultat',
+  'mapping.noRows': 'Aucune ligne n’a de valeur dans la colonne du lien sélectionnée.',
+  'mapping.generate': {
+    one: 'Générer {count} code QR',
+    other: 'Générer {count} codes QR',
+  },
+
+  'library.importJson': 'Importer un JSON',
+  'library.intro': 'Chaque lot généré est enregistré dans ce navigateur avec son style et sa mise en page. Exportez-en un en JSON pour le partager avec un collègue.',
+  'library.loading': 'Chargement des lots enregistrés…',
+  'library.empty': 'Aucun lot enregistré pour l’instant. Générez des codes et ils apparaîtront ici.',
+  'library.nameLabel': 'Nom du lot',
+  'library.codes': {
+    one: '{count} code',
+    other: '{count} codes',
+  },
+  'library.generated': 'Généré le {date}',
+  'library.open': 'Ouvrir',
+  'library.rename': 'Renommer',
+  'library.duplicate': 'Dupliquer',
+  'library.export': 'Exporter',
+  'library.delete': 'Supprimer',
+  'library.confirmDelete': 'Supprimer « {name} » ? Cette action est irréversible.',
+  'library.copyName': '{name} (copie)',
+  'library.listFailed': 'Impossible d’ouvrir les lots enregistrés dans ce navigateur.',
+  'library.renameFailed': 'Impossible de renommer le lot.',
+  'library.deleteFailed': 'Impossible de supprimer le lot.',
+  'library.duplicateFailed': 'Impossible de dupliquer le lot.',
+  'library.tooLarge': 'Les fichiers de lot sont limités à 5 Mo.',
+  'library.imported': {
+    one: '« {name} » importé avec {count} code.',
+    other: '« {name} » importé avec {count} codes.',
+  },
+  'library.importFailed': 'Impossible d’importer {name} : {reason}.',
+  'library.unknownError': 'erreur inconnue',
+  'batch.manualList': 'Liste manuelle',
+  'batch.customCodes': 'Codes personnalisés',
+
+  'duplicates.groups': {
+    one: '{count} groupe de doublons',
+    other: '{count} groupes de doublons',
+  },
+  'duplicates.extra': {
+    one: '{count} carte en trop',
+    other: '{count} cartes en trop',
+  },
+  'duplicates.keepFirstEverywhere': 'Garder la première de chaque groupe',
+  'duplicates.keepFirst': 'Garder la première',
+  'duplicates.removeAll': 'Tout supprimer',
+  'duplicates.keepAll': 'Tout garder',
+  'duplicates.identical': 'Contenu identique',
+  'duplicates.sameCode': 'Même code de parrainage « {code} »',
+  'duplicates.sameLink': 'Même lien à la casse ou à la barre oblique finale près',
+  'cardEdit.link': 'Lien',
+  'cardEdit.label': 'Libellé',
+  'cardEdit.optional': 'Facultatif',
+
+  'builder.title': 'Créer des codes QR',
+  'builder.subtitle': 'Accès Wi-Fi, fiches contact, invitations d’agenda et plus, imprimés dans la même grille que vos liens.',
+  'builder.contentType': 'Type de contenu',
+  'builder.label': 'Libellé (facultatif)',
+  'builder.labelPlaceholder': 'Wi-Fi du lieu',
+  'builder.copies': 'Copies',
+  'builder.addCopies': {
+    one: 'Ajouter à la feuille',
+    other: 'Ajouter {count} copies',
+  },
+  'builder.fillIn': 'Remplissez le formulaire pour voir l’aperçu',
+  'builder.scanToTest': 'Scannez pour tester',
+  'builder.remove': 'Supprimer',
+  'builder.removeItem': 'Supprimer {name}',
+  'payload.url': 'URL',
+  'payload.ssid': 'Nom du réseau (SSID)',
+  'payload.security': 'Sécurité',
+  'payload.securityNone': 'Aucune (réseau ouvert)',
+  'payload.password': 'Mot de passe',
+  'payload.hidden': 'Réseau masqué',
+  'payload.firstName': 'Prénom',
+  'payload.lastName': 'Nom',
+  'payload.organization': 'Organisation',
+  'payload.jobTitle': 'Fonction',
+  'payload.phone': 'Téléphone',
+  'payload.email': 'E-mail',
+  'payload.website': 'Site web',
+  'payload.to': 'À',
+  'payload.subject': 'Objet',
+  'payload.message': 'Message',
+  'payload.phoneNumber': 'Numéro de téléphone',
+  'payload.title': 'Titre',
+  'payload.location': 'Lieu',
+  'payload.starts': 'Début',
+  'payload.ends': 'Fin',
+  'payload.description': 'Description',
+  'payload.text': 'Texte',
+
+  'layout.error.rowsCols': 'Les lignes et les colonnes doivent être des nombres entiers d’au moins 1',
+  'layout.error.tooMany': 'Les lignes et les colonnes sont limitées à {max} chacune',
+  'layout.error.negative': 'Les marges et les espacements doivent être nuls ou positifs',
+  'layout.error.tooSmall': 'Les cellules font moins de {min} mm ; réduisez les lignes, les colonnes, les marges ou les espacements',
+  'numbering.error.start': 'Le premier numéro doit être un nombre entier supérieur ou égal à 0',
+  'numbering.error.padding': 'Le remplissage par des zéros doit être un nombre entier de chiffres jusqu’à {max}',
+  'numbering.error.affix': 'Le préfixe et le suffixe sont limités à {max} caractères',
+  'cutting.error.negative': 'Le fond perdu et la zone de sécurité doivent être nuls ou positifs',
+  'cutting.error.bleed': 'Le fond perdu est limité à {max} mm',
+  'cutting.error.margins': 'Les marges de la page doivent être au moins aussi larges que le fond perdu',
+  'cutting.error.gutters': 'Les espacements doivent être nuls ou au moins le double du fond perdu',
+  'cutting.error.safeZone': 'La zone de sécurité ne laisse pas de place pour le code QR',
+  'duplex.error.offset': 'Les décalages du verso doivent être compris entre -{max} et {max} mm',
+  'duplex.error.heading': 'Le titre du verso est limité à {max} caractères',
+  'duplex.error.message': 'Le message du verso est limité à {max} caractères',
+  'template.error.positions': 'Les positions du modèle doivent être comprises entre 0 et 100 %',
+  'template.error.blocks': {
+    one: 'Un modèle peut contenir au plus {count} bloc de texte',
+    other: 'Un modèle peut contenir au plus {count} blocs de texte',
+  },
+  'template.error.textLength': 'Les blocs de texte sont limités à {max} caractères',
+  'template.error.fontSize': 'Les tailles de police doivent être comprises entre {min} et {max} px',
+  'template.error.blockWidth': 'Les largeurs des blocs de texte doivent être comprises entre {min} et {max} %',
+  'template.error.headerWidth': 'La largeur de l’image d’en-tête doit être comprise entre {min} et {max} px',
+  'template.error.qrSize': 'La taille du code QR doit être comprise entre {min} et {max} %',
+  'template.error.qrTooLarge': 'Le code QR est plus grand que ce que permet la carte',
+  'policy.error.invalid': 'Lien non valide',
+  'policy.error.denied': '{host} figure dans la liste des hôtes refusés',
+  'policy.error.notAllowed': '{host} n’est pas un hôte autorisé',
+  'policy.error.path': 'Le chemin doit commencer par {path}',
+  'policy.error.missingParam': 'Le lien doit avoir une valeur « {name} »',
+  'policy.error.paramValue': '« {name} » doit valoir {value}',
+  'payload.error.tooLong': 'Trop de contenu pour tenir dans un seul code QR',
+  'payload.error.url': 'URL non valide',
+  'payload.error.ssidRequired': 'Le nom du réseau Wi-Fi est obligatoire',
+  'payload.error.ssidLength': 'Le nom du réseau Wi-Fi dépasse {max} octets',
+  'payload.error.wpa': 'Les mots de passe WPA comptent de 8 à 63 caractères',
+  'payload.error.wep': 'Les clés WEP comptent 5 ou 13 caractères (10 ou 26 chiffres hexadécimaux)',
+  'payload.error.contactName': 'Le contact doit avoir un nom ou une organisation',
+  'payload.error.phone': 'Numéro de téléphone non valide',
+  'payload.error.email': 'Adresse e-mail non valide',
+  'payload.error.website': 'URL du site web non valide',
+  'payload.error.eventTitle': 'Le titre de l’événement est obligatoire',
+  'payload.error.eventStart': 'L’heure de début de l’événement est obligatoire',
+  'payload.error.eventEnd': 'L’événement se termine avant de commencer',
+  'payload.error.textEmpty': 'Le texte est vide',
+  'payload.warning.smsLength': 'Le message dépasse {max} caractères et risque d’être découpé',
+  'payload.warning.textScheme': 'Le texte ressemble à un lien qui n’est pas une adresse web',
+  'referral.noCode': 'Le lien de parrainage n’a pas de valeur code=.',
+  'referral.emptyCode': 'Le lien de parrainage a une valeur code= vide.',
+  'referral.characters': 'Le code de parrainage « {code} » contient des caractères autres que des lettres, des chiffres, « - » et « _ ».',
+  'referral.length': 'Le code de parrainage compte {length} caractères ; {min} à {max} attendus.',
+  'urlRule.severity.low': 'Remarque :',
+  'urlRule.severity.medium': 'Attention :',
+  'urlRule.severity.high': 'Risque élevé :',
+  'urlRule.javascriptScheme': 'Les URL JavaScript ne sont pas autorisées.',
+  'urlRule.dataScheme': 'Les URL data ne sont pas autorisées.',
+  'urlRule.fileScheme': 'Les URL de fichier ne sont pas autorisées.',
+  'urlRule.vbscriptScheme': 'Les URL VBScript ne sont pas autorisées.',
+  'urlRule.scriptTag': 'Balises script détectées dans l’URL.',
+  'urlRule.pathTraversal': 'Remontée de répertoire détectée.',
+  'urlRule.lookalike': 'L’hôte « {host} » utilise des lettres trompeuses et se lit « {skeleton} ».',
+  'urlRule.mixedScripts': 'L’hôte « {host} » mélange des lettres latines avec des lettres cyrilliques ou grecques.',
+  'urlRule.userinfo': 'Le texte avant « @ » ({userinfo}) masque le véritable hôte {host}.',
+  'urlRule.punycode': 'L’hôte « {host} » ({ascii}) utilise des caractères internationaux ; vérifiez qu’il s’agit du site attendu.',
+  'urlRule.encodedIp': 'L’hôte « {host} » est l’adresse IP {ip} écrite sous une forme déguisée.',
+  'urlRule.ipv6': 'L’hôte est l’adresse IPv6 {ip} ; vérifiez la source.',
+  'urlRule.ip': 'L’hôte est l’adresse IP {ip} ; vérifiez la source.',
+  'urlRule.redirect': 'Redirige les visiteurs vers {host} via le paramètre « {name} ».',
+  'urlRule.redirectUnknown': 'Redirige les visiteurs vers une autre adresse via le paramètre « {name} ».',
+  'urlRule.pathRedirect': 'Le chemin contient une autre adresse ({address}), une astuce de redirection ouverte courante.',
+  'urlRule.shortener': '{host} est un raccourcisseur de liens : la destination finale ne peut pas être vérifiée.',
+  'urlRule.longUrl': 'URL inhabituellement longue ({length} caractères).',
+  'style.budget.block': 'Le logo masque {coverage} % des données, mais le niveau {level} n’en récupère que {recovery} %. Réduisez le logo ou augmentez la correction d’erreurs.',
+  'style.budget.warn': 'Le logo masque {coverage} % des données, près des {recovery} % que récupère le niveau {level}.',
+  'style.budget.quietZone': 'Une zone de silence de moins de {min} modules peut empêcher les lecteurs de trouver le code.',
+  'style.contrast.low': 'Contraste faible ({ratio}:1). Les codes risquent de ne pas être lus ; visez au moins {min}:1.',
+  'style.contrast.eye': 'La couleur des yeux contraste peu avec le fond ({ratio}:1).',
+  'style.contrast.inverted': 'Des modules clairs sur fond sombre sont inversés ; certains lecteurs ne peuvent pas les lire.',
+  'verify.undecodable': 'Impossible à décoder',
+  'verify.mismatch': 'Se décode en un contenu différent',
+  'verify.unrendered': 'Impossible à générer pour la vérification',
+  'batch.imported': 'Lot importé',
+  'batch.error.json': 'Le fichier n’est pas un JSON valide',
+  'batch.error.format': 'Le fichier n’est pas un lot de codes QR exporté',
+  'batch.error.newer': 'Le lot a été exporté par une version plus récente de cette application',
+  'batch.error.unreadable': 'Le lot enregistré est illisible',
+  'batch.error.noCodes': 'Le lot ne contient aucun code lisible',
+  'batch.error.layout': 'Le lot a une mise en page de feuille inutilisable',
+  'import.error.json': 'Le fichier n’est pas un JSON valide.',
+  'import.error.notArray': 'Un tableau JSON de liens ou d’objets est attendu.',
+  'import.error.mixedItems': 'Tous les éléments du tableau JSON doivent être des liens, ou tous des objets.',
+  'import.error.workbook': 'Impossible de lire le classeur.',
+  'import.error.noSheets': 'Le classeur ne contient aucune feuille.',
+  'import.file': '{name}',
+  'import.files': {
+    one: '{name} + {count} autre',
+    other: '{name} + {count} autres',
+  },
+  'import.pasted': 'Plage collée',
+};
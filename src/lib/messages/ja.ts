@@ -0,0 +1,679 @@
+import type { Messages } from '@/lib/i18n';
+
+export const ja: Messages = {
+  'locale.label': '言語',
+
+  'common.back': '← 戻る',
+  'common.cancel': 'キャンセル',
+  'common.save': '保存',
+  'common.backToCodes': '← コード一覧に戻る',
+
+  'options.headline': '{brand} QRコードジェネレーター',
+  'options.brand': 'Cursor Credits',
+  'options.subtitle': '紹介リンクのQRコードを作成します',
+  'options.upload': 'スプレッドシートをアップロード／貼り付け',
+  'options.manual': 'リンクを手入力',
+  'options.builder': 'Wi-Fi・連絡先・イベントなど',
+  'options.library': '保存したバッチ',
+
+  'footer.madeBy': '{author} が {heart} を込めて作成',
+  'footer.contribute': '貢献する',
+  'footer.builtWith': 'Cursor で開発',
+
+  'upload.title': 'スプレッドシートをアップロード',
+  'upload.processing': 'ファイルを処理中...',
+  'upload.drop': 'CSV・TSV・Excel・JSON ファイルをここにドロップ',
+  'upload.or': 'または',
+  'upload.choose': 'ファイルを選択',
+  'upload.limits': '1ファイル最大5MB、URLは最大{max}件。複数のファイルは1つのバッチにまとめられます。',
+  'upload.pastePlaceholder': 'または Excel や Google スプレッドシートからコピーした範囲をここに貼り付け',
+  'upload.pasteLabel': 'スプレッドシートの範囲を貼り付け',
+
+  'manual.title': 'リンクを入力',
+  'manual.placeholder': 'Cursor の紹介リンクを1行に1つずつ入力します。カンマに続けてラベルも付けられます：',
+  'manual.exampleLabel': '宛先: 花子 — 4番テーブル',
+  'manual.processing': '処理中...',
+  'manual.generate': 'QRコードを作成',
+
+  'results.title': 'QRコード（{count}）',
+  'results.savedAs': '「{name}」として保存済み',
+  'results.preview': 'プレビュー',
+  'results.print': '印刷',
+  'results.preparing': 'ページを準備中 {done}/{total}...',
+  'results.downloadPdf': 'PDFをダウンロード',
+  'results.buildingPdf': 'PDFを作成中...',
+  'results.downloadImages': '画像をダウンロード',
+  'results.tracker': 'トラッカー',
+  'results.clear': 'クリア',
+
+  'toolbar.cardText': 'カードの文字',
+  'toolbar.cardLanguage': 'カードの言語',
+  'toolbar.printCode': '紹介コードを大きく印刷',
+  'toolbar.template': 'カードテンプレート：{name}',
+  'toolbar.hideTemplate': 'カードテンプレートを閉じる',
+  'toolbar.duplex': '両面印刷',
+  'toolbar.hideDuplex': '両面印刷を閉じる',
+  'toolbar.numbering': '番号付け',
+  'toolbar.hideNumbering': '番号付けを閉じる',
+  'toolbar.cutting': 'カット',
+  'toolbar.hideCutting': 'カットを閉じる',
+  'toolbar.policy': 'リンクポリシー',
+  'toolbar.policyNamed': 'リンクポリシー：{name}',
+  'toolbar.hidePolicy': 'リンクポリシーを閉じる',
+  'toolbar.appearance': '外観',
+  'toolbar.hideAppearance': '外観を閉じる',
+
+  'cardText.both': 'ラベルとURL／詳細',
+  'cardText.url': 'URL／詳細のみ',
+  'cardText.label': 'URL／詳細の代わりにラベル',
+  'cardText.none': '文字なし',
+
+  'numbering.renumber': 'カードの番号を振り直す',
+  'numbering.keep': 'カード番号を維持',
+
+  'tip.cutAndStack': '💡 番号は重ねやすい位置に並んでいます。印刷後にページを四角に切り、位置ごとに重ねると順番どおりになります',
+  'tip.sequential': '💡 番号は各ページで読む順に並んでいます。ページを切ったら、左から右、上から下の順に重ねてください',
+
+  'policy.blocked': {
+    other: '🚫 {count}件のリンクが「{name}」ポリシーに違反しているため、印刷とエクスポートができません。',
+  },
+  'policy.flagged': {
+    other: '⚠️ {count}件のリンクが「{name}」ポリシーに違反しています。',
+  },
+  'policy.cursorReferral': 'Cursor の紹介リンク',
+  'policy.newName': '新しいポリシー',
+  'policy.copyName': '{name}（コピー）',
+  'policy.forBatch': 'このバッチのリンクポリシー',
+  'policy.none': 'ポリシーなし',
+  'policy.new': '新しいポリシー',
+  'policy.duplicate': '複製',
+  'policy.breaking': {
+    other: '{count}件のリンクがこのポリシーに違反しています',
+  },
+  'policy.allFollow': '✓ すべてのリンクがこのポリシーに沿っています',
+  'policy.allowedHosts': '許可するホスト：{hosts}',
+  'policy.anyHost': 'すべて',
+  'policy.deniedHosts': '拒否するホスト：{hosts}',
+  'policy.shape': 'リンクの形式：{shape}',
+  'policy.blocksSummary': '違反するリンクは印刷できません。',
+  'policy.flagsSummary': '違反するリンクには印が付きます。',
+  'policy.builtIn': '組み込みのポリシーです。変更するには複製してください。',
+  'policy.name': '名前',
+  'policy.requiredShape': '必須のリンク形式',
+  'policy.allowedHostsField': '許可するホスト（1行に1つ。サブドメインは *.example.com。空欄ならすべて許可）',
+  'policy.deniedHostsField': '拒否するホスト',
+  'policy.whenBroken': 'リンクがポリシーに違反したとき',
+  'policy.strictness.warn': '印を付けるだけ',
+  'policy.strictness.block': '印刷をブロック',
+  'policy.delete': 'ポリシーを削除',
+
+  'verify.progress': '各コードが読み取れるか確認中… {done}/{total}',
+  'verify.failing': '❌ {total}件中{failing}件のコードが読み取りチェックに失敗しました',
+  'verify.passing': '✓ {count}件すべてのコードが正しく読み取れます',
+  'verify.showFailing': '失敗したものだけ表示',
+
+  'cards.add': '+ コードを追加',
+  'cards.addAs': '{number} として追加',
+  'cards.afterEdits': '編集後',
+
+  'card.dragToReorder': 'ドラッグして並べ替え',
+  'card.label': 'カード {number}',
+  'card.labelNamed': 'カード {number}：{label}',
+  'card.moveLabel': 'カード {number} を移動。矢印キーで並べ替え',
+  'card.qrAlt': 'カード {number} のQRコード：{content}',
+  'card.edit': '編集',
+  'card.editLabel': 'カード {number} を編集',
+  'card.delete': '削除',
+  'card.deleteLabel': 'カード {number} を削除',
+  'card.scanFailed': '❌ 読み取りチェック失敗：{message}',
+  'card.policy': 'ポリシー：{problem}',
+  'card.duplicateOf': '⚠️ {number} と重複',
+  'card.modules': 'v{version} · {size}×{size} モジュール',
+  'card.tightLogo': '⚠️ ロゴの余裕が少ない',
+  'card.unscannable': '⛔ 読み取れない可能性大',
+  'card.scans': '✓ 読み取り可',
+
+  'toast.close': '通知を閉じる',
+  'toast.region': '通知',
+  'toast.templatesNotSaved': 'カードテンプレートをブラウザに保存できませんでした。小さいヘッダー画像をお試しください。',
+  'toast.removed': {
+    other: '{count}枚のカードを削除しました。',
+  },
+  'toast.removedRenumbered': '残りのカードの番号を振り直しました。',
+  'toast.removedKept': {
+    other: 'その番号はシート上で空欄になります。',
+  },
+  'toast.cardAddedInvalid': 'カード {number} を追加しましたが、無効です：{problem}',
+  'toast.cardUpdatedInvalid': 'カード {number} を更新しましたが、無効です：{problem}',
+  'toast.cardAddedWarning': 'カード {number} を追加しました。{warning}',
+  'toast.cardUpdatedWarning': 'カード {number} を更新しました。{warning}',
+  'toast.batchFull': '1つのバッチに入れられるコードは最大{max}件です。',
+  'toast.renumbered': '欠番を詰めるためにカードの番号を振り直しました。',
+  'toast.ledgerNotMoved': 'トラッカーを新しいカード番号に合わせて更新できませんでした。トラッカーで配布済みのカードを確認してください。',
+  'toast.batchNotSaved': 'このバッチをブラウザに保存できませんでした。再読み込みすると失われます。',
+  'toast.batchOpenFailed': '「{name}」を開けませんでした。保存したバッチが壊れているか、対応していないバージョンのものです。',
+  'toast.noUrls': 'URLを1つ以上入力してください',
+  'toast.urlLimit': '{count}件のURLのうち最初の{max}件を処理します（上限）。',
+  'toast.generatedInvalid': '{count}件のQRコードを作成しました。無効なURLが{invalid}件あり、印が付きます。',
+  'toast.generatedWarnings': '{count}件のQRコードを作成しました。警告が{warnings}件あります。印の付いたURLを確認してください。',
+  'toast.builtWarnings': '{count}件のQRコードを作成しました。警告が{warnings}件あります。印の付いたコードを確認してください。',
+  'toast.generateFailed': 'QRコードを作成できませんでした。入力を確認してもう一度お試しください。',
+  'toast.scanFailing': '{total}件中{failing}件のコードが読み取りチェックに失敗しました。「失敗したものだけ表示」で確認できます。',
+  'toast.scanPassing': '{count}件すべてのコードが正しく読み取れます。',
+  'toast.unscannable': '{count}件のコードは読み取れない可能性があります：{reason}',
+  'toast.policyBlocks': '{count}件のリンクが「{name}」ポリシーに違反しています（例：{number}：{problem}）。修正するか削除するか、ポリシーを警告のみに切り替えてください。',
+  'toast.cannotPrint': 'この設定では印刷できません：{error}。',
+  'toast.cannotPrintTest': 'この設定ではテストを印刷できません：{error}。',
+  'toast.cannotExportTest': 'この設定ではテストをエクスポートできません：{error}。',
+  'toast.testPdfFailed': 'テスト用PDFを作成できませんでした。もう一度試すか、印刷してください。',
+  'toast.cannotPreview': 'この設定ではプレビューできません：{error}。',
+  'toast.cannotExport': 'この設定ではエクスポートできません：{error}。',
+  'toast.pdfFailed': 'PDFを作成できませんでした。もう一度試すか、印刷を使ってください。',
+  'toast.emptyFile': 'ファイルが空です。ファイルを確認してもう一度お試しください。',
+  'toast.rowLimit': 'インポートには{count}行あります。作成されるQRコードは最大{max}件です。',
+  'toast.fileLimit': '{count}個のファイルのうち最初の{max}個をインポートします。',
+  'toast.fileTooLarge': '{name}（{size}MB）は上限の5MBを超えています。小さいファイルを使ってください。',
+  'toast.unsupportedFile': '{name} は対応していないファイルです。CSV・TSV・Excel（.xlsx）・JSON をアップロードしてください。',
+  'toast.fileUnreadable': '{name} を読み込めませんでした：{reason}',
+  'toast.unknownError': '不明なエラー',
+  'toast.readFailed': 'ファイルを読み込めませんでした。別のファイルでお試しください。',
+  'toast.pasteTooLarge': '貼り付けたテキストが5MBを超えています。小さい範囲を貼り付けてください。',
+  'toast.noLinkValues': '選択したリンク列に値がありません。別の列を選んでください。',
+  'toast.importedInvalid': '{file} から{count}件のURLを処理しました。無効なURLが{invalid}件あります。',
+  'toast.importedWarnings': '{count}件のURLを処理しました。警告が{warnings}件あります。',
+  'toast.importFailed': 'インポートした行を処理できませんでした。ファイル形式を確認してもう一度お試しください。',
+
+  'error.title': '問題が発生しました',
+  'error.intro': '予期しないエラーが発生しました。考えられる原因：',
+  'error.causeFile': 'ファイルのデータが不正または破損している',
+  'error.causeBrowser': 'ブラウザの互換性の問題',
+  'error.causeInput': '想定外の入力形式',
+  'error.saved': '作成したバッチはこのブラウザに保存されています。再読み込み後に「保存したバッチ」から開けます。',
+  'error.details': '技術的な詳細',
+  'error.reload': 'アプリを再読み込み',
+
+  'kind.url': 'リンク',
+  'kind.wifi': 'Wi-Fi',
+  'kind.vcard': '連絡先',
+  'kind.email': 'メール',
+  'kind.sms': 'SMS',
+  'kind.event': 'イベント',
+  'kind.text': 'テキスト',
+  'print.invalidUrl': '無効なURL',
+  'print.invalid': '無効な{kind}',
+  'print.wifi': 'Wi-Fi：{name}',
+  'print.contact': '連絡先：{name}',
+  'print.email': 'メール：{address}',
+  'print.sms': 'SMS：{phone}',
+  'print.event': 'イベント：{title}',
+
+  'guide.title': 'カットガイド',
+  'guide.cards': {
+    other: 'カード{count}枚',
+  },
+  'guide.sheets': {
+    other: '用紙{count}枚',
+  },
+  'guide.summary': '{cards}（{sheets}）',
+  'guide.stack': '山 {number}',
+  'guide.piece': 'ピース {number}',
+  'guide.empty': '空',
+  'guide.cutMarks': {
+    other: '{count}枚の用紙をすべてトンボに沿って切ります。',
+  },
+  'guide.cutBorders': {
+    other: '{count}枚の用紙をすべてカードの枠線に沿って切ります。',
+  },
+  'guide.sequentialPile': '各用紙のピースを読む順（左から右、上から下）に、最初のピースが一番上になるように重ねます。',
+  'guide.sequentialJoin': '用紙1の山を用紙2の山の上に重ね、用紙{count}まで同じように続けます。',
+  'guide.stackPile': '同じ位置のピースをページ順に、1ページ目が一番上になるようにまとめます。位置ごとに下の山になります。',
+  'guide.stackJoin': '山1を山2の上に、それを山3の上に重ね、山{count}まで続けます。',
+  'guide.result': 'これで並べ替えなしでカード{first}からカード{last}まで順番に並びます。',
+
+  'test.front': '表 {number}',
+  'test.back': '裏 {number}',
+
+  'tracker.title': '配布トラッカー',
+  'tracker.exportCsv': 'CSVを書き出す',
+  'tracker.count': '{status}：{count}',
+  'tracker.cards': 'カード',
+  'tracker.setStatus': 'ステータスを変更',
+  'tracker.recipientOptional': '受け取った人（任意）',
+  'tracker.apply': '適用',
+  'tracker.show': '表示',
+  'tracker.allCards': 'すべてのカード',
+  'tracker.loading': 'トラッカーを読み込み中…',
+  'tracker.code': 'コード',
+  'tracker.status': 'ステータス',
+  'tracker.recipient': '受け取った人',
+  'tracker.notes': 'メモ',
+  'tracker.statusOf': '{number} のステータス',
+  'tracker.recipientOf': '{number} を受け取った人',
+  'tracker.notesFor': '{number} のメモ',
+  'tracker.empty': 'このステータスのカードはありません。',
+  'tracker.openFailed': 'ローカルのトラッカーデータベースを開けませんでした。変更は保存されません。',
+  'tracker.saveFailed': 'トラッカーの変更をローカルに保存できませんでした。',
+  'tracker.rangeHint': '「{example}」のように、{lowest}から{highest}までのカード番号を入力してください。',
+  'tracker.noPlainNumbers': '番号で選べるカードがありません。',
+  'tracker.noMatch': 'このバッチにその番号のカードはありません。',
+  'tracker.updated': {
+    other: '{count}枚のカードを更新しました。',
+  },
+  'status.unassigned': '未割り当て',
+  'status.handed-out': '配布済み',
+  'status.redeemed': '利用済み',
+  'status.void': '無効',
+
+  'layout.sheet': '用紙レイアウト',
+  'layout.custom': 'カスタム',
+  'layout.customOption': 'カスタム…',
+  'layout.summary': '1ページ{count}枚 · セル {width} × {height} mm',
+  'layout.paper': '用紙サイズ',
+  'layout.paperOption': '{name}（{width} × {height} mm）',
+  'layout.rows': '行数',
+  'layout.columns': '列数',
+  'layout.columnGutter': '列の間隔',
+  'layout.rowGutter': '行の間隔',
+  'layout.margin.top': '上余白',
+  'layout.margin.right': '右余白',
+  'layout.margin.bottom': '下余白',
+  'layout.margin.left': '左余白',
+  'layout.mm': 'mm',
+  'layout.preset.a4-3x3': 'A4 — 3 × 3',
+  'layout.preset.letter-3x3': 'USレター — 3 × 3',
+  'layout.preset.a3-4x4': 'A3 — 4 × 4',
+  'layout.preset.avery-l7160': 'Avery L7160 ラベル（A4・21面）',
+  'layout.preset.avery-5160': 'Avery 5160 ラベル（レター・30面）',
+  'layout.preset.avery-5371': 'Avery 5371 名刺（レター・10面）',
+  'layout.preset.cards-a4-85x54': '名刺 85 × 54 mm（A4・10面）',
+  'paper.a4': 'A4',
+  'paper.letter': 'USレター',
+  'paper.a3': 'A3',
+  'printOrder.cut-and-stack': 'カットして重ねる',
+  'printOrder.sequential': '読む順',
+
+  'numbering.printOrder': '印刷順',
+  'numbering.firstNumber': '開始番号',
+  'numbering.prefix': '接頭辞',
+  'numbering.suffix': '接尾辞',
+  'numbering.padTo': 'ゼロ埋めの桁数',
+  'numbering.digits': '桁',
+  'numbering.fromColumn': 'インポートしたファイルのカード番号を使う',
+  'numbering.summary': 'カードには画面・印刷・すべての書き出しで {first} から {last} の番号が付きます。',
+  'numbering.summaryImported': 'カードには画面・印刷・すべての書き出しで {first} から {last} の番号が付きます（ファイルに番号があるカードはその番号のまま）。',
+  'numbering.aboutCutAndStack': '「カットして重ねる」順では、連続するカードが連続するページの同じ位置に配置されます。',
+  'numbering.aboutSequential': '読む順では、各ページを左から右、上から下の順に埋めます。',
+  'cutting.guides': 'カットガイド',
+  'cutGuide.borders': '各カードの周りに枠線',
+  'cutGuide.marks': '余白にトンボ',
+  'cutting.bleed': '塗り足し',
+  'cutting.safeZone': '安全領域',
+  'cutting.coverPage': '用紙の前に、どのカードがどの山に入るかを示すカットガイドを印刷',
+  'cutting.bleedHelp': '塗り足しは各カードの背景をカット線の外まで広げ、少しずれて切っても白い縁が出ないようにします。文字・ロゴ・コードは安全領域の内側に収まります。',
+  'cutting.marksNoRoom': 'トンボには {margin} mm の余白が必要です。足りない辺にはトンボが付きません。余白のあるレイアウトを選ぶか、枠線を使ってください。',
+  'duplex.printing': '印刷',
+  'duplexMode.off': '片面',
+  'duplexMode.long-edge': '両面（長辺とじ）',
+  'duplexMode.short-edge': '両面（短辺とじ）',
+  'duplex.heading': '裏面の見出し',
+  'duplex.message': '裏面のメッセージ',
+  'duplex.messagePlaceholder': '表面をスキャンしてクレジットを受け取ってください。カード {number}',
+  'duplex.placeholders': '{tokens} で各カード固有の情報を入れられます',
+  'duplex.showLabel': 'カードのラベル（受け取る人の名前など）を印刷',
+  'duplex.showNumber': 'カード番号を印刷',
+  'duplex.alignHelp': '同じ設定で位置合わせテストを両面印刷し、光にかざしてください。表の十字が裏の十字からずれていたら、裏の目盛り（1目盛り1 mm）で距離を読み取り、下に入力します。右と下が正の値です。',
+  'duplex.moveRight': '裏面を右へ',
+  'duplex.moveDown': '裏面を下へ',
+  'duplex.printTest': '位置合わせテストを印刷',
+  'duplex.downloadTest': 'テスト用PDFをダウンロード',
+  'placeholder.number': 'カード番号',
+  'placeholder.label': 'ラベル',
+  'placeholder.code': '紹介コード',
+  'placeholder.url': 'リンクまたは内容の要約',
+
+  'style.moduleStyle.squares': '四角',
+  'style.moduleStyle.dots': 'ドット',
+  'style.moduleStyle.fluid': 'なめらか',
+  'style.previewInfo': 'ライブプレビュー · バージョン {version}',
+  'style.moduleCount': '{size}×{size} モジュール',
+  'style.reset': '初期設定に戻す',
+  'style.foreground': '前景色',
+  'style.background': '背景色',
+  'style.modules': 'モジュール',
+  'style.moduleStyle': 'モジュールの形',
+  'style.eyeRadius': '目の角の丸み',
+  'style.square': '四角',
+  'style.modulesValue': {
+    other: '{count} モジュール',
+  },
+  'style.modulesSpec': '{modules}（規格）',
+  'style.eyesMatch': '目を前景色に合わせる',
+  'style.eyeColor': '目の色',
+  'style.errorCorrection': '誤り訂正',
+  'style.errorCorrectionLevel': '誤り訂正レベル',
+  'style.ecLevel.L': '低',
+  'style.ecLevel.M': '中',
+  'style.ecLevel.Q': 'やや高',
+  'style.ecLevel.H': '高',
+  'style.ecLevelHint': '{name}：コードの約{percent}%を復元できます',
+  'style.quietZone': 'クワイエットゾーン',
+  'style.logo': 'ロゴ',
+  'style.logoDefault': 'Cursor のロゴ',
+  'style.logoCustom': '画像をアップロード…',
+  'style.logoNone': 'ロゴなし',
+  'style.logoReplace': 'アップロードしたロゴを差し替え',
+  'style.logoSize': 'ロゴの大きさ',
+  'style.logoSizeValue': 'コードの{percent}%',
+  'style.logoPadding': 'ロゴの余白',
+  'style.paddingShape': '余白の形',
+  'style.paddingSquare': '四角',
+  'style.paddingCircle': '円',
+  'style.logoCoverage': 'ロゴはデータモジュールの{coverage}%を隠します。レベル{level}は約{recovery}%を復元できます。',
+  'style.logoType': 'ロゴは PNG・JPEG・WebP・SVG 画像にしてください。',
+  'style.logoTooLarge': 'ロゴファイルが1MBを超えています。小さい画像を使ってください。',
+  'style.logoUnreadable': 'そのロゴ画像を読み込めませんでした。別のファイルをお試しください。',
+
+  'template.select': 'カードテンプレート',
+  'template.new': '新しいテンプレート',
+  'template.duplicate': '複製',
+  'template.classic': 'クラシック',
+  'template.newName': '新しいテンプレート',
+  'template.copyName': '{name}（コピー）',
+  'template.preview': '{layout} のカード 1',
+  'template.classicAbout': '右上に Cursor のロゴ、左上にカード番号、中央に QR コード、その下にカードのテキスト。',
+  'template.builtInHint': '組み込みテンプレートです。配置やフォントを変えたり、独自のヘッダー画像を追加したりするには複製してください。',
+  'template.across': '横位置',
+  'template.down': '縦位置',
+  'template.align': '配置',
+  'template.valign': '縦の配置',
+  'template.align.left': '左',
+  'template.align.center': '中央',
+  'template.align.right': '右',
+  'template.align.top': '上',
+  'template.align.middle': '中央',
+  'template.align.bottom': '下',
+  'template.name': '名前',
+  'template.header': 'ヘッダー画像',
+  'template.headerNone': 'なし',
+  'template.headerCursor': 'Cursor のロゴ',
+  'template.headerCustom': '画像をアップロード…',
+  'template.headerReplace': 'アップロードした画像を置き換え',
+  'template.headerType': 'ヘッダー画像は PNG、JPEG、WebP、SVG のいずれかにしてください。',
+  'template.headerTooLarge': 'ヘッダー画像が 1MB を超えています。小さい画像を使用してください。',
+  'template.headerUnreadable': 'ヘッダー画像を読み込めませんでした。別のファイルをお試しください。',
+  'template.width': '幅',
+  'template.qrCentre': 'QR コードの中心',
+  'template.size': 'サイズ',
+  'template.percentOfClassic': '%（クラシック比）',
+  'template.blocks': 'テキストブロック',
+  'template.block': 'テキストブロック {number}',
+  'template.remove': '削除',
+  'template.font': 'フォント',
+  'template.font.sans': 'ゴシック体',
+  'template.font.serif': '明朝体',
+  'template.font.mono': '等幅',
+  'template.bold': '太字',
+  'template.addBlock': '+ テキストブロックを追加',
+  'template.maxBlocks': {
+    other: 'テンプレートに追加できるテキストブロックは {count} 個までです',
+  },
+  'template.delete': 'テンプレートを削除',
+  'template.help': '位置はセーフゾーン内で測定されます。サイズは 70 × 99 mm のカード基準で、小さいカードでは縮小されます。「{setting}」の設定は「{classic}」テンプレートにのみ適用されます。',
+
+  'imageExport.title': '画像をダウンロード',
+  'imageExport.summary': {
+    other: '有効な QR コード {count} 件を manifest.csv とともに ZIP にまとめます。',
+  },
+  'imageExport.formats': '形式',
+  'imageExport.svg': 'SVG（ベクター）',
+  'imageExport.cards': 'カード全体（PNG、{template}）',
+  'imageExport.pngSize': 'QR の PNG サイズ（px）',
+  'imageExport.printSize': 'QR コードは {dpi} DPI で幅 {width} mm で印刷されます。',
+  'imageExport.cardSize': 'カードは {layout} での印刷サイズで、この DPI で描画されます。',
+  'imageExport.nameTemplate': 'ファイル名テンプレート',
+  'imageExport.token.id': 'カード番号',
+  'imageExport.token.code': '紹介コード（code= の値）',
+  'imageExport.token.host': 'リンクのホスト名',
+  'imageExport.token.label': 'ラベル',
+  'imageExport.token.type': 'コンテンツの種類（url、wifi、vcard など）',
+  'imageExport.example': '例：{name}',
+  'imageExport.rendering': '描画中 {done}/{total}…',
+  'imageExport.download': 'ZIP をダウンロード',
+  'imageExport.failed': 'ZIP ファイルを作成できませんでした。もう一度お試しください。',
+
+  'preview.title': '印刷プレビュー',
+  'preview.pages': {
+    other: '{count} ページ',
+  },
+  'preview.emptyCells': {
+    other: '空きセル {count} 個',
+  },
+  'preview.preparing': '準備中…',
+  'preview.previous': '← 前へ',
+  'preview.next': '次へ →',
+  'preview.page': 'ページ',
+  'preview.pageOf': '/ {count} · {name}',
+  'preview.cuttingGuide': 'カットガイド',
+  'preview.cuttingGuideBack': 'カットガイドの裏面',
+  'preview.alignmentFront': '位置合わせテスト（表面）',
+  'preview.alignmentBack': '位置合わせテスト（裏面）',
+  'preview.sheet': 'シート {number}',
+  'preview.sheetFront': 'シート {number}（表面）',
+  'preview.sheetBack': 'シート {number}（裏面）',
+  'preview.showStacks': '束の位置を表示',
+  'preview.showStacksSafe': '束の位置とセーフゾーンを表示',
+  'preview.showPieces': 'ピースの位置を表示',
+  'preview.showPiecesSafe': 'ピースの位置とセーフゾーンを表示',
+  'preview.cutAndStackHelp': '各ページをグリッドに沿って切り、各ピースを番号の束に 1 ページ目が上になるように重ねます。束 1 を束 2 の上に、と順に重ねるとカードが順番どおりになります。',
+  'preview.sequentialHelp': '各ページをグリッドに沿って切り、ピースを番号順に重ねます。次に 1 ページ目を 2 ページ目の上に、と順に重ねるとカードが順番どおりになります。',
+  'preview.mirroredLong': 'プリンターが用紙を長辺で裏返したときに各裏面がカードの裏に印刷されるよう、裏面は反転しています。',
+  'preview.mirroredShort': 'プリンターが用紙を短辺で裏返したときに各裏面がカードの裏に印刷されるよう、裏面は反転しています。',
+
+  'mapping.title': '列の割り当て',
+  'mapping.rows': {
+    other: '{count} 行',
+  },
+  'mapping.columns': {
+    other: '{count} 列',
+  },
+  'mapping.remembered': '💡 前回この見出しのファイルで選んだ割り当てを使用しています。',
+  'mapping.sheet': 'シート',
+  'mapping.sheetOption': '{name}（{rows}）',
+  'mapping.hasHeader': '1 行目は見出し',
+  'mapping.linkColumn': 'リンクの列',
+  'mapping.labelColumns': 'ラベルの列',
+  'mapping.numberColumn': 'カード番号の列',
+  'mapping.noNumberColumn': 'なし — カードを順番に番号付け',
+  'mapping.valueKind': 'リンクの列の内容',
+  'mapping.fullUrls': '完全な URL',
+  'mapping.codes': 'ベース URL に追加するコードまたはパス',
+  'mapping.baseUrl': 'ベース URL',
+  'mapping.column': '列 {name}',
+  'mapping.resultPreview': '結果のプレビュー',
+  'mapping.noRows': '選択したリンクの列に値のある行がありません。',
+  'mapping.generate': {
+    other: 'QR コードを {count} 件生成',
+  },
+
+  'library.importJson': 'JSON をインポート',
+  'library.intro': '生成したバッチはスタイルとレイアウトとともにこのブラウザに保存されます。チームメイトと共有するには JSON でエクスポートしてください。',
+  'library.loading': '保存したバッチを読み込み中…',
+  'library.empty': '保存したバッチはまだありません。コードを生成するとここに表示されます。',
+  'library.nameLabel': 'バッチ名',
+  'library.codes': {
+    other: '{count} 件のコード',
+  },
+  'library.generated': '{date} に生成',
+  'library.open': '開く',
+  'library.rename': '名前を変更',
+  'library.duplicate': '複製',
+  'library.export': 'エクスポート',
+  'library.delete': '削除',
+  'library.confirmDelete': '「{name}」を削除しますか？元に戻せません。',
+  'library.copyName': '{name}（コピー）',
+  'library.listFailed': 'このブラウザで保存したバッチを開けませんでした。',
+  'library.renameFailed': 'バッチの名前を変更できませんでした。',
+  'library.deleteFailed': 'バッチを削除できませんでした。',
+  'library.duplicateFailed': 'バッチを複製できませんでした。',
+  'library.tooLarge': 'バッチファイルは 5MB までです。',
+  'library.imported': {
+    other: '「{name}」（コード {count} 件）をインポートしました。',
+  },
+  'library.importFailed': '{name} をインポートできませんでした：{reason}。',
+  'library.unknownError': '不明なエラー',
+  'batch.manualList': '手入力リスト',
+  'batch.customCodes': 'カスタムコード',
+
+  'duplicates.groups': {
+    other: '重複グループ {count} 件',
+  },
+  'duplicates.extra': {
+    other: '余分なカード {count} 枚',
+  },
+  'duplicates.keepFirstEverywhere': 'すべてのグループで最初を残す',
+  'duplicates.keepFirst': '最初を残す',
+  'duplicates.removeAll': 'すべて削除',
+  'duplicates.keepAll': 'すべて残す',
+  'duplicates.identical': '内容が同一',
+  'duplicates.sameCode': '同じ紹介コード「{code}」',
+  'duplicates.sameLink': '大文字小文字や末尾のスラッシュ以外は同じリンク',
+  'cardEdit.link': 'リンク',
+  'cardEdit.label': 'ラベル',
+  'cardEdit.optional': '任意',
+
+  'builder.title': 'QR コードを作成',
+  'builder.subtitle': 'Wi-Fi ログイン、連絡先カード、カレンダー招待などを、リンクと同じグリッドに印刷します。',
+  'builder.contentType': 'コンテンツの種類',
+  'builder.label': 'ラベル（任意）',
+  'builder.labelPlaceholder': '会場の Wi-Fi',
+  'builder.copies': '枚数',
+  'builder.addCopies': {
+    other: '{count} 枚追加',
+  },
+  'builder.fillIn': 'プレビューするにはフォームに入力してください',
+  'builder.scanToTest': 'スキャンしてテスト',
+  'builder.remove': '削除',
+  'builder.removeItem': '{name} を削除',
+  'payload.url': 'URL',
+  'payload.ssid': 'ネットワーク名（SSID）',
+  'payload.security': 'セキュリティ',
+  'payload.securityNone': 'なし（オープンネットワーク）',
+  'payload.password': 'パスワード',
+  'payload.hidden': '非公開ネットワーク',
+  'payload.firstName': '名',
+  'payload.lastName': '姓',
+  'payload.organization': '組織',
+  'payload.jobTitle': '役職',
+  'payload.phone': '電話',
+  'payload.email': 'メール',
+  'payload.website': 'ウェブサイト',
+  'payload.to': '宛先',
+  'payload.subject': '件名',
+  'payload.message': 'メッセージ',
+  'payload.phoneNumber': '電話番号',
+  'payload.title': 'タイトル',
+  'payload.location': '場所',
+  'payload.starts': '開始',
+  'payload.ends': '終了',
+  'payload.description': '説明',
+  'payload.text': 'テキスト',
+
+  'layout.error.rowsCols': '行と列は1以上の整数にしてください',
+  'layout.error.tooMany': '行と列はそれぞれ{max}までです',
+  'layout.error.negative': '余白と間隔は0以上にしてください',
+  'layout.error.tooSmall': 'セルが{min} mmより小さくなっています。行・列・余白・間隔を減らしてください',
+  'numbering.error.start': '最初の番号は0以上の整数にしてください',
+  'numbering.error.padding': 'ゼロ埋めの桁数は{max}以下の整数にしてください',
+  'numbering.error.affix': '接頭辞と接尾辞は{max}文字までです',
+  'cutting.error.negative': '裁ち落としとセーフゾーンは0以上にしてください',
+  'cutting.error.bleed': '裁ち落としは{max} mmまでです',
+  'cutting.error.margins': 'ページの余白は裁ち落とし以上の幅にしてください',
+  'cutting.error.gutters': '間隔は0か、裁ち落としの2倍以上にしてください',
+  'cutting.error.safeZone': 'セーフゾーンが広すぎてQRコードが収まりません',
+  'duplex.error.offset': '裏面のずれは-{max}〜{max} mmにしてください',
+  'duplex.error.heading': '裏面の見出しは{max}文字までです',
+  'duplex.error.message': '裏面のメッセージは{max}文字までです',
+  'template.error.positions': 'テンプレートの位置は0〜100%にしてください',
+  'template.error.blocks': {
+    other: 'テンプレートのテキストブロックは{count}個までです',
+  },
+  'template.error.textLength': 'テキストブロックは{max}文字までです',
+  'template.error.fontSize': 'フォントサイズは{min}〜{max} pxにしてください',
+  'template.error.blockWidth': 'テキストブロックの幅は{min}〜{max}%にしてください',
+  'template.error.headerWidth': 'ヘッダー画像の幅は{min}〜{max} pxにしてください',
+  'template.error.qrSize': 'QRコードのサイズは{min}〜{max}%にしてください',
+  'template.error.qrTooLarge': 'QRコードがカードに収まる大きさを超えています',
+  'policy.error.invalid': '有効なリンクではありません',
+  'policy.error.denied': '{host}は拒否リストに含まれています',
+  'policy.error.notAllowed': '{host}は許可されたホストではありません',
+  'policy.error.path': 'パスは{path}で始まる必要があります',
+  'policy.error.missingParam': 'リンクには「{name}」の値が必要です',
+  'policy.error.paramValue': '「{name}」は{value}である必要があります',
+  'payload.error.tooLong': '1つのQRコードに収まらない量の内容です',
+  'payload.error.url': '無効なURLです',
+  'payload.error.ssidRequired': 'Wi-Fiのネットワーク名は必須です',
+  'payload.error.ssidLength': 'Wi-Fiのネットワーク名が{max}バイトを超えています',
+  'payload.error.wpa': 'WPAのパスワードは8〜63文字です',
+  'payload.error.wep': 'WEPキーは5文字か13文字（16進数で10桁か26桁）です',
+  'payload.error.contactName': '連絡先には名前か組織が必要です',
+  'payload.error.phone': '無効な電話番号です',
+  'payload.error.email': '無効なメールアドレスです',
+  'payload.error.website': '無効なウェブサイトURLです',
+  'payload.error.eventTitle': '予定のタイトルは必須です',
+  'payload.error.eventStart': '予定の開始日時は必須です',
+  'payload.error.eventEnd': '予定の終了が開始より前になっています',
+  'payload.error.textEmpty': 'テキストが空です',
+  'payload.warning.smsLength': 'メッセージが{max}文字を超えているため、分割される場合があります',
+  'payload.warning.textScheme': 'テキストがウェブ以外のリンクのように見えます',
+  'referral.noCode': '紹介リンクにcode=の値がありません。',
+  'referral.emptyCode': '紹介リンクのcode=の値が空です。',
+  'referral.characters': '紹介コード「{code}」に英数字、「-」、「_」以外の文字が含まれています。',
+  'referral.length': '紹介コードが{length}文字です。{min}〜{max}文字を想定しています。',
+  'urlRule.severity.low': '注意：',
+  'urlRule.severity.medium': '警告：',
+  'urlRule.severity.high': '高リスク：',
+  'urlRule.javascriptScheme': 'JavaScript URLは使用できません。',
+  'urlRule.dataScheme': 'Data URLは使用できません。',
+  'urlRule.fileScheme': 'ファイルURLは使用できません。',
+  'urlRule.vbscriptScheme': 'VBScript URLは使用できません。',
+  'urlRule.scriptTag': 'URLにscriptタグが含まれています。',
+  'urlRule.pathTraversal': 'パストラバーサルが検出されました。',
+  'urlRule.lookalike': 'ホスト「{host}」は似た形の文字を使っており、「{skeleton}」と読めます。',
+  'urlRule.mixedScripts': 'ホスト「{host}」はラテン文字とキリル文字またはギリシャ文字を混ぜています。',
+  'urlRule.userinfo': '「@」の前の文字列（{userinfo}）が本当のホスト{host}を隠しています。',
+  'urlRule.punycode': 'ホスト「{host}」（{ascii}）は国際化文字を使っています。意図したサイトか確認してください。',
+  'urlRule.encodedIp': 'ホスト「{host}」は、IPアドレス{ip}を偽装した表記です。',
+  'urlRule.ipv6': 'ホストはIPv6アドレス{ip}です。出どころを確認してください。',
+  'urlRule.ip': 'ホストはIPアドレス{ip}です。出どころを確認してください。',
+  'urlRule.redirect': '「{name}」パラメーターで訪問者を{host}へ転送します。',
+  'urlRule.redirectUnknown': '「{name}」パラメーターで訪問者を別のアドレスへ転送します。',
+  'urlRule.pathRedirect': 'パスに別のアドレス（{address}）が含まれています。よくあるオープンリダイレクトの手口です。',
+  'urlRule.shortener': '{host}は短縮URLサービスのため、最終的な転送先を確認できません。',
+  'urlRule.longUrl': '異常に長いURLです（{length}文字）。',
+  'style.budget.block': 'ロゴがデータの{coverage}%を隠していますが、レベル{level}で復元できるのは{recovery}%だけです。ロゴを小さくするか、誤り訂正レベルを上げてください。',
+  'style.budget.warn': 'ロゴがデータの{coverage}%を隠しており、レベル{level}で復元できる{recovery}%に近づいています。',
+  'style.budget.quietZone': 'クワイエットゾーンが{min}モジュール未満だと、スキャナーがコードを見つけられないことがあります。',
+  'style.contrast.low': 'コントラストが低すぎます（{ratio}:1）。読み取れない場合があります。{min}:1以上を目安にしてください。',
+  'style.contrast.eye': '目の色と背景のコントラストが低すぎます（{ratio}:1）。',
+  'style.contrast.inverted': '暗い背景に明るいモジュールは反転表示になり、読み取れないスキャナーもあります。',
+  'verify.undecodable': 'デコードできませんでした',
+  'verify.mismatch': 'デコードすると別の内容になります',
+  'verify.unrendered': 'チェック用に描画できませんでした',
+  'batch.imported': 'インポートしたバッチ',
+  'batch.error.json': 'ファイルが有効なJSONではありません',
+  'batch.error.format': 'ファイルはエクスポートしたQRコードのバッチではありません',
+  'batch.error.newer': 'このバッチは新しいバージョンのアプリでエクスポートされました',
+  'batch.error.unreadable': '保存したバッチを読み取れません',
+  'batch.error.noCodes': 'バッチに読み取れるコードがありません',
+  'batch.error.layout': 'バッチの用紙レイアウトが使用できません',
+  'import.error.json': 'ファイルが有効なJSONではありません。',
+  'import.error.notArray': 'リンクまたはオブジェクトのJSON配列が必要です。',
+  'import.error.mixedItems': 'JSON配列の要素は、すべてリンクか、すべてオブジェクトにしてください。',
+  'import.error.workbook': 'ワークブックを読み取れませんでした。',
+  'import.error.noSheets': 'ワークブックにシートがありません。',
+  'import.file': '{name}',
+  'import.files': {
+    other: '{name} ほか{count}件',
+  },
+  'import.pasted': '貼り付けた範囲',
+};
@@ -0,0 +1,679 @@
+import type { Messages } from '@/lib/i18n';
+
+export const zh: Messages = {
+  'locale.label': '语言',
+
+  'common.back': '← 返回',
+  'common.cancel': '取消',
+  'common.save': '保存',
+  'common.backToCodes': '← 返回二维码',
+
+  'options.headline': '{brand} 二维码生成器',
+  'options.brand': 'Cursor Credits',
+  'options.subtitle': '为你的推荐链接生成二维码',
+  'options.upload': '上传或粘贴电子表格',
+  'options.manual': '手动输入链接',
+  'options.builder': 'Wi-Fi、联系人、活动等',
+  'options.library': '已保存的批次',
+
+  'footer.madeBy': '由 {author} 用 {heart} 制作',
+  'footer.contribute': '参与贡献',
+  'footer.builtWith': '使用 Cursor 构建',
+
+  'upload.title': '上传电子表格',
+  'upload.processing': '正在处理文件...',
+  'upload.drop': '将 CSV、TSV、Excel 或 JSON 文件拖放到此处',
+  'upload.or': '或',
+  'upload.choose': '选择文件',
+  'upload.limits': '每个文件最大 5MB，最多 {max} 个网址。多个文件会合并为一个批次。',
+  'upload.pastePlaceholder': '或在此粘贴从 Excel 或 Google 表格复制的区域',
+  'upload.pasteLabel': '粘贴电子表格区域',
+
+  'manual.title': '输入链接',
+  'manual.placeholder': '输入你的 Cursor 推荐链接，每行一个，可在后面加逗号和标签：',
+  'manual.exampleLabel': '给：小芳 — 4 号桌',
+  'manual.processing': '处理中...',
+  'manual.generate': '生成二维码',
+
+  'results.title': '二维码（{count}）',
+  'results.savedAs': '已保存为“{name}”',
+  'results.preview': '预览',
+  'results.print': '打印',
+  'results.preparing': '正在准备页面 {done}/{total}...',
+  'results.downloadPdf': '下载 PDF',
+  'results.buildingPdf': '正在生成 PDF...',
+  'results.downloadImages': '下载图片',
+  'results.tracker': '追踪',
+  'results.clear': '清除',
+
+  'toolbar.cardText': '卡片文字',
+  'toolbar.cardLanguage': '卡片语言',
+  'toolbar.printCode': '以大字号打印推荐码',
+  'toolbar.template': '卡片模板：{name}',
+  'toolbar.hideTemplate': '隐藏卡片模板',
+  'toolbar.duplex': '双面',
+  'toolbar.hideDuplex': '隐藏双面',
+  'toolbar.numbering': '编号',
+  'toolbar.hideNumbering': '隐藏编号',
+  'toolbar.cutting': '裁切',
+  'toolbar.hideCutting': '隐藏裁切',
+  'toolbar.policy': '链接规则',
+  'toolbar.policyNamed': '链接规则：{name}',
+  'toolbar.hidePolicy': '隐藏链接规则',
+  'toolbar.appearance': '外观',
+  'toolbar.hideAppearance': '隐藏外观',
+
+  'cardText.both': '标签和网址/详情',
+  'cardText.url': '仅网址/详情',
+  'cardText.label': '用标签代替网址/详情',
+  'cardText.none': '无文字',
+
+  'numbering.renumber': '重新编号',
+  'numbering.keep': '保留卡片编号',
+
+  'tip.cutAndStack': '💡 编号按便于叠放的位置排列：打印后将每页裁成方块，按位置叠放即可得到正确顺序',
+  'tip.sequential': '💡 每页编号按阅读顺序排列：裁切每页后，按从左到右、从上到下的顺序叠放',
+
+  'policy.blocked': {
+    other: '🚫 {count} 个链接违反“{name}”规则，已禁止打印和导出。',
+  },
+  'policy.flagged': {
+    other: '⚠️ {count} 个链接违反“{name}”规则。',
+  },
+  'policy.cursorReferral': 'Cursor 推荐链接',
+  'policy.newName': '新规则',
+  'policy.copyName': '{name}（副本）',
+  'policy.forBatch': '此批次的链接规则',
+  'policy.none': '无规则',
+  'policy.new': '新建规则',
+  'policy.duplicate': '复制',
+  'policy.breaking': {
+    other: '{count} 个链接违反此规则',
+  },
+  'policy.allFollow': '✓ 所有链接都符合此规则',
+  'policy.allowedHosts': '允许的主机：{hosts}',
+  'policy.anyHost': '任意',
+  'policy.deniedHosts': '拒绝的主机：{hosts}',
+  'policy.shape': '链接格式必须为：{shape}',
+  'policy.blocksSummary': '违反规则的链接将被禁止打印。',
+  'policy.flagsSummary': '违反规则的链接会被标记。',
+  'policy.builtIn': '内置规则。复制后才能修改。',
+  'policy.name': '名称',
+  'policy.requiredShape': '要求的链接格式',
+  'policy.allowedHostsField': '允许的主机（每行一个，子域名用 *.example.com；留空表示允许任意主机）',
+  'policy.deniedHostsField': '拒绝的主机',
+  'policy.whenBroken': '链接违反规则时',
+  'policy.strictness.warn': '仅标记',
+  'policy.strictness.block': '禁止打印',
+  'policy.delete': '删除规则',
+
+  'verify.progress': '正在检查每个码能否扫描… {done}/{total}',
+  'verify.failing': '❌ {total} 个码中有 {failing} 个未通过扫描检查',
+  'verify.passing': '✓ 全部 {count} 个码都能扫描出其内容',
+  'verify.showFailing': '只显示未通过的',
+
+  'cards.add': '+ 添加码',
+  'cards.addAs': '添加为 {number}',
+  'cards.afterEdits': '编辑后',
+
+  'card.dragToReorder': '拖动以排序',
+  'card.label': '卡片 {number}',
+  'card.labelNamed': '卡片 {number}：{label}',
+  'card.moveLabel': '移动卡片 {number}。使用方向键排序',
+  'card.qrAlt': '卡片 {number} 的二维码：{content}',
+  'card.edit': '编辑',
+  'card.editLabel': '编辑卡片 {number}',
+  'card.delete': '删除',
+  'card.deleteLabel': '删除卡片 {number}',
+  'card.scanFailed': '❌ 扫描检查失败：{message}',
+  'card.policy': '规则：{problem}',
+  'card.duplicateOf': '⚠️ 与 {number} 重复',
+  'card.modules': 'v{version} · {size}×{size} 模块',
+  'card.tightLogo': '⚠️ 徽标余量不足',
+  'card.unscannable': '⛔ 可能无法扫描',
+  'card.scans': '✓ 可扫描',
+
+  'toast.close': '关闭通知',
+  'toast.region': '通知',
+  'toast.templatesNotSaved': '无法在浏览器中保存卡片模板。请尝试更小的页眉图片。',
+  'toast.removed': {
+    other: '已删除 {count} 张卡片。',
+  },
+  'toast.removedRenumbered': '其余卡片已重新编号。',
+  'toast.removedKept': {
+    other: '其编号在纸张上留空。',
+  },
+  'toast.cardAddedInvalid': '已添加卡片 {number}，但它无效：{problem}',
+  'toast.cardUpdatedInvalid': '已更新卡片 {number}，但它无效：{problem}',
+  'toast.cardAddedWarning': '已添加卡片 {number}。{warning}',
+  'toast.cardUpdatedWarning': '已更新卡片 {number}。{warning}',
+  'toast.batchFull': '一个批次最多只能有 {max} 个码。',
+  'toast.renumbered': '已重新编号以填补空缺。',
+  'toast.ledgerNotMoved': '无法按新的卡片编号更新追踪记录。请在“追踪”中检查已发放的卡片。',
+  'toast.batchNotSaved': '无法在浏览器中保存此批次。重新加载后将会丢失。',
+  'toast.batchOpenFailed': '无法打开“{name}”。保存的批次已损坏或来自不受支持的版本。',
+  'toast.noUrls': '请至少输入一个网址',
+  'toast.urlLimit': '正在处理 {count} 个网址中的前 {max} 个（上限）。',
+  'toast.generatedInvalid': '已生成 {count} 个二维码，其中 {invalid} 个网址无效，将被标记。',
+  'toast.generatedWarnings': '已生成 {count} 个二维码，有 {warnings} 个警告。请检查标记的网址。',
+  'toast.builtWarnings': '已生成 {count} 个二维码，有 {warnings} 个警告。请检查标记的码。',
+  'toast.generateFailed': '无法生成二维码。请检查输入后重试。',
+  'toast.scanFailing': '{total} 个码中有 {failing} 个未通过扫描检查。使用“只显示未通过的”查看。',
+  'toast.scanPassing': '全部 {count} 个码都能扫描出其内容。',
+  'toast.unscannable': '{count} 个码可能无法扫描：{reason}',
+  'toast.policyBlocks': '{count} 个链接违反“{name}”规则，例如 {number}：{problem}。请修正或删除，或将规则改为仅标记。',
+  'toast.cannotPrint': '无法使用这些设置打印：{error}。',
+  'toast.cannotPrintTest': '无法使用这些设置打印测试页：{error}。',
+  'toast.cannotExportTest': '无法使用这些设置导出测试页：{error}。',
+  'toast.testPdfFailed': '无法生成测试 PDF。请重试或直接打印。',
+  'toast.cannotPreview': '无法预览这些设置：{error}。',
+  'toast.cannotExport': '无法使用这些设置导出：{error}。',
+  'toast.pdfFailed': '无法生成 PDF。请重试或改用打印。',
+  'toast.emptyFile': '文件为空。请检查文件后重试。',
+  'toast.rowLimit': '导入包含 {count} 行。最多生成 {max} 个二维码。',
+  'toast.fileLimit': '正在导入 {count} 个文件中的前 {max} 个。',
+  'toast.fileTooLarge': '{name}（{size}MB）超过 5MB 的上限。请使用更小的文件。',
+  'toast.unsupportedFile': '不支持 {name}。请上传 CSV、TSV、Excel（.xlsx）或 JSON。',
+  'toast.fileUnreadable': '无法读取 {name}：{reason}',
+  'toast.unknownError': '未知错误',
+  'toast.readFailed': '无法读取文件。请换一个文件重试。',
+  'toast.pasteTooLarge': '粘贴的文本超过 5MB。请粘贴更小的区域。',
+  'toast.noLinkValues': '所选链接列中没有值。请选择其他列。',
+  'toast.importedInvalid': '已从 {file} 处理 {count} 个网址。发现 {invalid} 个无效网址。',
+  'toast.importedWarnings': '已处理 {count} 个网址，有 {warnings} 个警告。',
+  'toast.importFailed': '无法处理导入的行。请检查文件格式后重试。',
+
+  'error.title': '出错了',
+  'error.intro': '发生了意外错误。可能的原因：',
+  'error.causeFile': '文件数据格式错误或已损坏',
+  'error.causeBrowser': '浏览器兼容性问题',
+  'error.causeInput': '意外的输入格式',
+  'error.saved': '生成的批次已保存在此浏览器中；重新加载后可在“已保存的批次”中打开。',
+  'error.details': '技术详情',
+  'error.reload': '重新加载应用',
+
+  'kind.url': '链接',
+  'kind.wifi': 'Wi-Fi',
+  'kind.vcard': '联系人',
+  'kind.email': '邮件',
+  'kind.sms': '短信',
+  'kind.event': '活动',
+  'kind.text': '文本',
+  'print.invalidUrl': '无效网址',
+  'print.invalid': '无效的{kind}',
+  'print.wifi': 'Wi-Fi：{name}',
+  'print.contact': '联系人：{name}',
+  'print.email': '邮件：{address}',
+  'print.sms': '短信：{phone}',
+  'print.event': '活动：{title}',
+
+  'guide.title': '裁切指南',
+  'guide.cards': {
+    other: '{count} 张卡片',
+  },
+  'guide.sheets': {
+    other: '{count} 张纸',
+  },
+  'guide.summary': '{cards}，共 {sheets}',
+  'guide.stack': '第 {number} 叠',
+  'guide.piece': '第 {number} 块',
+  'guide.empty': '空',
+  'guide.cutMarks': {
+    other: '沿裁切标记裁切全部 {count} 张纸。',
+  },
+  'guide.cutBorders': {
+    other: '沿卡片边框裁切全部 {count} 张纸。',
+  },
+  'guide.sequentialPile': '按阅读顺序（从左到右、从上到下）叠放每张纸的各块，第一块在最上面。',
+  'guide.sequentialJoin': '把第 1 张纸的一叠放在第 2 张纸的一叠上，依此类推直到第 {count} 张。',
+  'guide.stackPile': '把同一位置的各块按页序放在一起，第 1 页在最上面。每个位置就是下面的一叠。',
+  'guide.stackJoin': '把第 1 叠放在第 2 叠上，再一起放到第 3 叠上，依此类推直到第 {count} 叠。',
+  'guide.result': '现在整叠卡片从 {first} 到 {last} 依次排列，无需再排序。',
+
+  'test.front': '正面 {number}',
+  'test.back': '背面 {number}',
+
+  'tracker.title': '发放追踪',
+  'tracker.exportCsv': '导出 CSV',
+  'tracker.count': '{status}：{count}',
+  'tracker.cards': '卡片',
+  'tracker.setStatus': '将状态设为',
+  'tracker.recipientOptional': '接收人（可选）',
+  'tracker.apply': '应用',
+  'tracker.show': '显示',
+  'tracker.allCards': '全部卡片',
+  'tracker.loading': '正在加载追踪…',
+  'tracker.code': '码',
+  'tracker.status': '状态',
+  'tracker.recipient': '接收人',
+  'tracker.notes': '备注',
+  'tracker.statusOf': '{number} 的状态',
+  'tracker.recipientOf': '{number} 的接收人',
+  'tracker.notesFor': '{number} 的备注',
+  'tracker.empty': '没有此状态的卡片。',
+  'tracker.openFailed': '无法打开本地追踪数据库。更改不会被保存。',
+  'tracker.saveFailed': '无法在本地保存追踪更改。',
+  'tracker.rangeHint': '请输入 {lowest} 到 {highest} 之间的卡片编号，例如“{example}”。',
+  'tracker.noPlainNumbers': '没有可按纯数字编号选择的卡片。',
+  'tracker.noMatch': '此批次中没有这些编号的卡片。',
+  'tracker.updated': {
+    other: '已更新 {count} 张卡片。',
+  },
+  'status.unassigned': '未分配',
+  'status.handed-out': '已发放',
+  'status.redeemed': '已兑换',
+  'status.void': '作废',
+
+  'layout.sheet': '纸张版式',
+  'layout.custom': '自定义',
+  'layout.customOption': '自定义…',
+  'layout.summary': '每页 {count} 个 · 单元格 {width} × {height} mm',
+  'layout.paper': '纸张尺寸',
+  'layout.paperOption': '{name}（{width} × {height} mm）',
+  'layout.rows': '行数',
+  'layout.columns': '列数',
+  'layout.columnGutter': '列间距',
+  'layout.rowGutter': '行间距',
+  'layout.margin.top': '上边距',
+  'layout.margin.right': '右边距',
+  'layout.margin.bottom': '下边距',
+  'layout.margin.left': '左边距',
+  'layout.mm': 'mm',
+  'layout.preset.a4-3x3': 'A4 — 3 × 3',
+  'layout.preset.letter-3x3': '美式信纸 — 3 × 3',
+  'layout.preset.a3-4x4': 'A3 — 4 × 4',
+  'layout.preset.avery-l7160': 'Avery L7160 标签（A4，每张 21 个）',
+  'layout.preset.avery-5160': 'Avery 5160 标签（信纸，每张 30 个）',
+  'layout.preset.avery-5371': 'Avery 5371 名片（信纸，每张 10 个）',
+  'layout.preset.cards-a4-85x54': '名片 85 × 54 mm（A4，每张 10 个）',
+  'paper.a4': 'A4',
+  'paper.letter': '美式信纸',
+  'paper.a3': 'A3',
+  'printOrder.cut-and-stack': '裁切叠放',
+  'printOrder.sequential': '阅读顺序',
+
+  'numbering.printOrder': '打印顺序',
+  'numbering.firstNumber': '起始编号',
+  'numbering.prefix': '前缀',
+  'numbering.suffix': '后缀',
+  'numbering.padTo': '补零至',
+  'numbering.digits': '位',
+  'numbering.fromColumn': '使用导入文件中的卡片编号',
+  'numbering.summary': '卡片编号为 {first} 到 {last}，在屏幕、打印和每次导出中都一致。',
+  'numbering.summaryImported': '卡片编号为 {first} 到 {last}（文件中已有编号的卡片保留原编号），在屏幕、打印和每次导出中都一致。',
+  'numbering.aboutCutAndStack': '“裁切叠放”顺序会把连续的卡片放在连续页面的同一位置。',
+  'numbering.aboutSequential': '阅读顺序按从左到右、从上到下填满每页。',
+  'cutting.guides': '裁切参考线',
+  'cutGuide.borders': '每张卡片加边框',
+  'cutGuide.marks': '页边裁切标记',
+  'cutting.bleed': '出血',
+  'cutting.safeZone': '安全区',
+  'cutting.coverPage': '在纸张前打印裁切指南，显示每叠包含哪些卡片',
+  'cutting.bleedHelp': '出血会把每张卡片的背景延伸到裁切线以外，裁得稍有偏差也不会露出白边。文字、徽标和二维码都保持在安全区内。',
+  'cutting.marksNoRoom': '裁切标记需要 {margin} mm 的页边距；不足的边不会有标记。请选择有页边距的版式，或改用边框。',
+  'duplex.printing': '打印',
+  'duplexMode.off': '单面',
+  'duplexMode.long-edge': '双面，沿长边翻转',
+  'duplexMode.short-edge': '双面，沿短边翻转',
+  'duplex.heading': '背面标题',
+  'duplex.message': '背面文字',
+  'duplex.messagePlaceholder': '扫描正面领取额度。卡片 {number}',
+  'duplex.placeholders': '使用 {tokens} 插入每张卡片自己的信息',
+  'duplex.showLabel': '打印卡片标签（例如接收人姓名）',
+  'duplex.showNumber': '打印卡片编号',
+  'duplex.alignHelp': '用相同设置双面打印对齐测试页，然后对着光看。如果正面的十字与背面的十字不重合，请在背面的刻度上读出距离（每格 1 mm）并填在下面：向右和向下为正。',
+  'duplex.moveRight': '背面右移',
+  'duplex.moveDown': '背面下移',
+  'duplex.printTest': '打印对齐测试页',
+  'duplex.downloadTest': '下载测试 PDF',
+  'placeholder.number': '卡片编号',
+  'placeholder.label': '标签',
+  'placeholder.code': '推荐码',
+  'placeholder.url': '链接或内容摘要',
+
+  'style.moduleStyle.squares': '方块',
+  'style.moduleStyle.dots': '圆点',
+  'style.moduleStyle.fluid': '流体',
+  'style.previewInfo': '实时预览 · 版本 {version}',
+  'style.moduleCount': '{size}×{size} 模块',
+  'style.reset': '恢复默认',
+  'style.foreground': '前景色',
+  'style.background': '背景色',
+  'style.modules': '模块',
+  'style.moduleStyle': '模块样式',
+  'style.eyeRadius': '定位角圆角',
+  'style.square': '直角',
+  'style.modulesValue': {
+    other: '{count} 个模块',
+  },
+  'style.modulesSpec': '{modules}（规范）',
+  'style.eyesMatch': '定位角与前景色一致',
+  'style.eyeColor': '定位角颜色',
+  'style.errorCorrection': '纠错',
+  'style.errorCorrectionLevel': '纠错级别',
+  'style.ecLevel.L': '低',
+  'style.ecLevel.M': '中',
+  'style.ecLevel.Q': '较高',
+  'style.ecLevel.H': '高',
+  'style.ecLevelHint': '{name}：可恢复约 {percent}% 的码',
+  'style.quietZone': '静区',
+  'style.logo': '徽标',
+  'style.logoDefault': 'Cursor 徽标',
+  'style.logoCustom': '上传自定义…',
+  'style.logoNone': '无徽标',
+  'style.logoReplace': '替换已上传的徽标',
+  'style.logoSize': '徽标大小',
+  'style.logoSizeValue': '码的 {percent}%',
+  'style.logoPadding': '徽标边距',
+  'style.paddingShape': '边距形状',
+  'style.paddingSquare': '方形',
+  'style.paddingCircle': '圆形',
+  'style.logoCoverage': '徽标遮住了 {coverage}% 的数据模块；{level} 级约可恢复 {recovery}%。',
+  'style.logoType': '徽标必须是 PNG、JPEG、WebP 或 SVG 图片。',
+  'style.logoTooLarge': '徽标文件超过 1MB。请使用更小的图片。',
+  'style.logoUnreadable': '无法读取该徽标图片。请换一个文件。',
+
+  'template.select': '卡片模板',
+  'template.new': '新建模板',
+  'template.duplicate': '复制',
+  'template.classic': '经典',
+  'template.newName': '新模板',
+  'template.copyName': '{name}（副本）',
+  'template.preview': '{layout} 上的卡片 1',
+  'template.classicAbout': '右上角为 Cursor 徽标，左上角为卡片编号，中间为二维码，下方为卡片文字。',
+  'template.builtInHint': '内置模板。复制后即可移动元素、更改字体或添加自己的页眉图片。',
+  'template.across': '水平位置',
+  'template.down': '垂直位置',
+  'template.align': '对齐',
+  'template.valign': '垂直对齐',
+  'template.align.left': '左',
+  'template.align.center': '居中',
+  'template.align.right': '右',
+  'template.align.top': '顶部',
+  'template.align.middle': '中间',
+  'template.align.bottom': '底部',
+  'template.name': '名称',
+  'template.header': '页眉图片',
+  'template.headerNone': '无',
+  'template.headerCursor': 'Cursor 徽标',
+  'template.headerCustom': '上传图片…',
+  'template.headerReplace': '替换已上传的图片',
+  'template.headerType': '页眉图片必须是 PNG、JPEG、WebP 或 SVG 格式。',
+  'template.headerTooLarge': '页眉图片超过 1MB，请使用较小的图片。',
+  'template.headerUnreadable': '无法读取该页眉图片，请尝试其他文件。',
+  'template.width': '宽度',
+  'template.qrCentre': '二维码中心',
+  'template.size': '大小',
+  'template.percentOfClassic': '%（相对经典）',
+  'template.blocks': '文本块',
+  'template.block': '文本块 {number}',
+  'template.remove': '移除',
+  'template.font': '字体',
+  'template.font.sans': '无衬线',
+  'template.font.serif': '衬线',
+  'template.font.mono': '等宽',
+  'template.bold': '粗体',
+  'template.addBlock': '+ 添加文本块',
+  'template.maxBlocks': {
+    other: '一个模板最多可包含 {count} 个文本块',
+  },
+  'template.delete': '删除模板',
+  'template.help': '位置在安全区内测量；尺寸以 70 × 99 毫米的卡片为准，卡片较小时会按比例缩小。“{setting}”设置仅适用于“{classic}”模板。',
+
+  'imageExport.title': '下载图片',
+  'imageExport.summary': {
+    other: '{count} 个有效二维码将与 manifest.csv 一起打包为 ZIP。',
+  },
+  'imageExport.formats': '格式',
+  'imageExport.svg': 'SVG（矢量）',
+  'imageExport.cards': '整张卡片（PNG，{template}）',
+  'imageExport.pngSize': '二维码 PNG 尺寸（像素）',
+  'imageExport.printSize': '二维码在 {dpi} DPI 下打印宽度为 {width} 毫米。',
+  'imageExport.cardSize': '卡片按其在 {layout} 上的打印尺寸以此 DPI 绘制。',
+  'imageExport.nameTemplate': '文件名模板',
+  'imageExport.token.id': '卡片编号',
+  'imageExport.token.code': '推荐码（code= 的值）',
+  'imageExport.token.host': '链接主机名',
+  'imageExport.token.label': '标签',
+  'imageExport.token.type': '内容类型（url、wifi、vcard 等）',
+  'imageExport.example': '例如 {name}',
+  'imageExport.rendering': '正在渲染 {done}/{total}…',
+  'imageExport.download': '下载 ZIP',
+  'imageExport.failed': '无法生成 ZIP 文件，请重试。',
+
+  'preview.title': '打印预览',
+  'preview.pages': {
+    other: '{count} 页',
+  },
+  'preview.emptyCells': {
+    other: '{count} 个空单元格',
+  },
+  'preview.preparing': '正在准备…',
+  'preview.previous': '← 上一页',
+  'preview.next': '下一页 →',
+  'preview.page': '页',
+  'preview.pageOf': '/ {count} · {name}',
+  'preview.cuttingGuide': '裁切指南',
+  'preview.cuttingGuideBack': '裁切指南背面',
+  'preview.alignmentFront': '对齐测试，正面',
+  'preview.alignmentBack': '对齐测试，背面',
+  'preview.sheet': '第 {number} 张',
+  'preview.sheetFront': '第 {number} 张，正面',
+  'preview.sheetBack': '第 {number} 张，背面',
+  'preview.showStacks': '显示叠放位置',
+  'preview.showStacksSafe': '显示叠放位置和安全区',
+  'preview.showPieces': '显示裁片位置',
+  'preview.showPiecesSafe': '显示裁片位置和安全区',
+  'preview.cutAndStackHelp': '沿网格裁切每一页，将每块裁片放到对应编号的叠中，第 1 页在最上面。将第 1 叠放在第 2 叠上，依此类推，卡片即按顺序排列。',
+  'preview.sequentialHelp': '沿网格裁切每一页，并按编号顺序叠放裁片，然后将第 1 页放在第 2 页上，依此类推，使卡片保持顺序。',
+  'preview.mirroredLong': '背面已镜像，打印机沿长边翻转纸张时，每个背面都会印在对应卡片的背后。',
+  'preview.mirroredShort': '背面已镜像，打印机沿短边翻转纸张时，每个背面都会印在对应卡片的背后。',
+
+  'mapping.title': '映射列',
+  'mapping.rows': {
+    other: '{count} 行',
+  },
+  'mapping.columns': {
+    other: '{count} 列',
+  },
+  'mapping.remembered': '💡 正在使用上次为具有相同表头的文件选择的映射。',
+  'mapping.sheet': '工作表',
+  'mapping.sheetOption': '{name}（{rows}）',
+  'mapping.hasHeader': '第一行是表头',
+  'mapping.linkColumn': '链接列',
+  'mapping.labelColumns': '标签列',
+  'mapping.numberColumn': '卡片编号列',
+  'mapping.noNumberColumn': '无 — 按顺序为卡片编号',
+  'mapping.valueKind': '链接列包含',
+  'mapping.fullUrls': '完整 URL',
+  'mapping.codes': '附加到基础 URL 的代码或路径',
+  'mapping.baseUrl': '基础 URL',
+  'mapping.column': '第 {name} 列',
+  'mapping.resultPreview': '结果预览',
+  'mapping.noRows': '所选链接列中没有任何行有值。',
+  'mapping.generate': {
+    other: '生成 {count} 个二维码',
+  },
+
+  'library.importJson': '导入 JSON',
+  'library.intro': '每个生成的批次都会连同样式和布局保存在此浏览器中。将其导出为 JSON 即可与队友共享。',
+  'library.loading': '正在加载已保存的批次…',
+  'library.empty': '还没有已保存的批次。生成一些二维码后会显示在这里。',
+  'library.nameLabel': '批次名称',
+  'library.codes': {
+    other: '{count} 个二维码',
+  },
+  'library.generated': '生成于 {date}',
+  'library.open': '打开',
+  'library.rename': '重命名',
+  'library.duplicate': '复制',
+  'library.export': '导出',
+  'library.delete': '删除',
+  'library.confirmDelete': '删除“{name}”？此操作无法撤销。',
+  'library.copyName': '{name}（副本）',
+  'library.listFailed': '无法在此浏览器中打开已保存的批次。',
+  'library.renameFailed': '无法重命名该批次。',
+  'library.deleteFailed': '无法删除该批次。',
+  'library.duplicateFailed': '无法复制该批次。',
+  'library.tooLarge': '批次文件不能超过 5MB。',
+  'library.imported': {
+    other: '已导入“{name}”，共 {count} 个二维码。',
+  },
+  'library.importFailed': '无法导入 {name}：{reason}。',
+  'library.unknownError': '未知错误',
+  'batch.manualList': '手动列表',
+  'batch.customCodes': '自定义二维码',
+
+  'duplicates.groups': {
+    other: '{count} 组重复',
+  },
+  'duplicates.extra': {
+    other: '多出 {count} 张卡片',
+  },
+  'duplicates.keepFirstEverywhere': '每组保留第一张',
+  'duplicates.keepFirst': '保留第一张',
+  'duplicates.removeAll': '全部移除',
+  'duplicates.keepAll': '全部保留',
+  'duplicates.identical': '内容相同',
+  'duplicates.sameCode': '相同的推荐码“{code}”',
+  'duplicates.sameLink': '除大小写或末尾斜杠外链接相同',
+  'cardEdit.link': '链接',
+  'cardEdit.label': '标签',
+  'cardEdit.optional': '可选',
+
+  'builder.title': '创建二维码',
+  'builder.subtitle': 'Wi-Fi 登录、联系人名片、日历邀请等，与链接印在同一网格中。',
+  'builder.contentType': '内容类型',
+  'builder.label': '标签（可选）',
+  'builder.labelPlaceholder': '场地 Wi-Fi',
+  'builder.copies': '份数',
+  'builder.addCopies': {
+    other: '添加 {count} 份',
+  },
+  'builder.fillIn': '填写表单以预览',
+  'builder.scanToTest': '扫描测试',
+  'builder.remove': '移除',
+  'builder.removeItem': '移除 {name}',
+  'payload.url': 'URL',
+  'payload.ssid': '网络名称（SSID）',
+  'payload.security': '安全性',
+  'payload.securityNone': '无（开放网络）',
+  'payload.password': '密码',
+  'payload.hidden': '隐藏网络',
+  'payload.firstName': '名',
+  'payload.lastName': '姓',
+  'payload.organization': '组织',
+  'payload.jobTitle': '职位',
+  'payload.phone': '电话',
+  'payload.email': '电子邮件',
+  'payload.website': '网站',
+  'payload.to': '收件人',
+  'payload.subject': '主题',
+  'payload.message': '消息',
+  'payload.phoneNumber': '电话号码',
+  'payload.title': '标题',
+  'payload.location': '地点',
+  'payload.starts': '开始',
+  'payload.ends': '结束',
+  'payload.description': '描述',
+  'payload.text': '文本',
+
+  'layout.error.rowsCols': '行数和列数必须是不小于 1 的整数',
+  'layout.error.tooMany': '行数和列数各不能超过 {max}',
+  'layout.error.negative': '边距和间距必须为零或正数',
+  'layout.error.tooSmall': '单元格小于 {min} 毫米；请减少行数、列数、边距或间距',
+  'numbering.error.start': '起始编号必须是不小于 0 的整数',
+  'numbering.error.padding': '补零位数必须是不超过 {max} 的整数',
+  'numbering.error.affix': '前缀和后缀不能超过 {max} 个字符',
+  'cutting.error.negative': '出血和安全区必须为零或正数',
+  'cutting.error.bleed': '出血不能超过 {max} 毫米',
+  'cutting.error.margins': '页边距必须至少与出血一样宽',
+  'cutting.error.gutters': '间距必须为零或至少为出血的两倍',
+  'cutting.error.safeZone': '安全区没有给二维码留下空间',
+  'duplex.error.offset': '背面偏移必须在 -{max} 到 {max} 毫米之间',
+  'duplex.error.heading': '背面标题不能超过 {max} 个字符',
+  'duplex.error.message': '背面文字不能超过 {max} 个字符',
+  'template.error.positions': '模板位置必须在 0 到 100% 之间',
+  'template.error.blocks': {
+    other: '一个模板最多只能有 {count} 个文本块',
+  },
+  'template.error.textLength': '文本块不能超过 {max} 个字符',
+  'template.error.fontSize': '字号必须在 {min} 到 {max} 像素之间',
+  'template.error.blockWidth': '文本块宽度必须在 {min}% 到 {max}% 之间',
+  'template.error.headerWidth': '页眉图片宽度必须在 {min} 到 {max} 像素之间',
+  'template.error.qrSize': '二维码大小必须在 {min}% 到 {max}% 之间',
+  'template.error.qrTooLarge': '二维码超出了卡片允许的大小',
+  'policy.error.invalid': '不是有效的链接',
+  'policy.error.denied': '{host} 在拒绝列表中',
+  'policy.error.notAllowed': '{host} 不是允许的主机',
+  'policy.error.path': '路径必须以 {path} 开头',
+  'policy.error.missingParam': '链接必须包含“{name}”值',
+  'policy.error.paramValue': '“{name}”必须为 {value}',
+  'payload.error.tooLong': '内容过多，无法放入一个二维码',
+  'payload.error.url': '无效的 URL',
+  'payload.error.ssidRequired': '必须填写 Wi-Fi 网络名称',
+  'payload.error.ssidLength': 'Wi-Fi 网络名称超过 {max} 字节',
+  'payload.error.wpa': 'WPA 密码为 8 到 63 个字符',
+  'payload.error.wep': 'WEP 密钥为 5 或 13 个字符（10 或 26 位十六进制数）',
+  'payload.error.contactName': '联系人需要姓名或单位',
+  'payload.error.phone': '无效的电话号码',
+  'payload.error.email': '无效的电子邮件地址',
+  'payload.error.website': '无效的网站 URL',
+  'payload.error.eventTitle': '必须填写活动标题',
+  'payload.error.eventStart': '必须填写活动开始时间',
+  'payload.error.eventEnd': '活动结束时间早于开始时间',
+  'payload.error.textEmpty': '文本为空',
+  'payload.warning.smsLength': '消息超过 {max} 个字符，可能会被拆分',
+  'payload.warning.textScheme': '文本看起来像非网页链接',
+  'referral.noCode': '推荐链接没有 code= 值。',
+  'referral.emptyCode': '推荐链接的 code= 值为空。',
+  'referral.characters': '推荐码“{code}”包含字母、数字、“-”和“_”以外的字符。',
+  'referral.length': '推荐码为 {length} 个字符；应为 {min}–{max} 个。',
+  'urlRule.severity.low': '提示：',
+  'urlRule.severity.medium': '警告：',
+  'urlRule.severity.high': '高风险：',
+  'urlRule.javascriptScheme': '不允许使用 JavaScript URL。',
+  'urlRule.dataScheme': '不允许使用 Data URL。',
+  'urlRule.fileScheme': '不允许使用文件 URL。',
+  'urlRule.vbscriptScheme': '不允许使用 VBScript URL。',
+  'urlRule.scriptTag': '在 URL 中检测到 script 标签。',
+  'urlRule.pathTraversal': '检测到路径遍历。',
+  'urlRule.lookalike': '主机“{host}”使用了形似字母，看起来像“{skeleton}”。',
+  'urlRule.mixedScripts': '主机“{host}”混用了拉丁字母与西里尔或希腊字母。',
+  'urlRule.userinfo': '“@”前的文字（{userinfo}）掩盖了真实主机 {host}。',
+  'urlRule.punycode': '主机“{host}”（{ascii}）使用了国际化字符；请确认是你预期的网站。',
+  'urlRule.encodedIp': '主机“{host}”是以伪装形式书写的 IP 地址 {ip}。',
+  'urlRule.ipv6': '主机是 IPv6 地址 {ip}；请核实来源。',
+  'urlRule.ip': '主机是 IP 地址 {ip}；请核实来源。',
+  'urlRule.redirect': '通过“{name}”参数将访问者转到 {host}。',
+  'urlRule.redirectUnknown': '通过“{name}”参数将访问者转到另一个地址。',
+  'urlRule.pathRedirect': '路径中包含另一个地址（{address}），这是常见的开放重定向手法。',
+  'urlRule.shortener': '{host} 是短链接服务，无法检查最终目的地。',
+  'urlRule.longUrl': 'URL 异常地长（{length} 个字符）。',
+  'style.budget.block': '徽标遮住了 {coverage}% 的数据，但 {level} 级只能恢复 {recovery}%。请缩小徽标或提高纠错级别。',
+  'style.budget.warn': '徽标遮住了 {coverage}% 的数据，接近 {level} 级可恢复的 {recovery}%。',
+  'style.budget.quietZone': '静区小于 {min} 个模块时，扫描器可能找不到二维码。',
+  'style.contrast.low': '对比度过低（{ratio}:1），二维码可能无法扫描；建议至少 {min}:1。',
+  'style.contrast.eye': '定位角颜色与背景的对比度过低（{ratio}:1）。',
+  'style.contrast.inverted': '深色背景上的浅色模块属于反色，部分扫描器无法识别。',
+  'verify.undecodable': '无法解码',
+  'verify.mismatch': '解码后内容不一致',
+  'verify.unrendered': '无法渲染以进行检查',
+  'batch.imported': '导入的批次',
+  'batch.error.json': '该文件不是有效的 JSON',
+  'batch.error.format': '该文件不是导出的二维码批次',
+  'batch.error.newer': '该批次由本应用的较新版本导出',
+  'batch.error.unreadable': '无法读取已保存的批次',
+  'batch.error.noCodes': '该批次没有可读取的二维码',
+  'batch.error.layout': '该批次的纸张版式无法使用',
+  'import.error.json': '该文件不是有效的 JSON。',
+  'import.error.notArray': '需要由链接或对象组成的 JSON 数组。',
+  'import.error.mixedItems': 'JSON 数组中的项目应全部是链接，或全部是对象。',
+  'import.error.workbook': '无法读取该工作簿。',
+  'import.error.noSheets': '该工作簿没有工作表。',
+  'import.file': '{name}',
+  'import.files': {
+    other: '{name} 等另外 {count} 个文件',
+  },
+  'import.pasted': '粘贴的区域',
+};
@@ -0,0 +1,130 @@
+// Card numbers after a batch is edited: renumber so the sheets stay gap-free,
+// or keep every card's number so sheets that were already printed still match.
+// Also how numbers are shown: print order, starting number, prefix and padding.
+
+import type { PayloadEntry } from '@/lib/payloads';
+import type { QRCodeData } from '@/lib/types';
+import type { PrintOrder } from '@/lib/layouts';
+import type { MessageRef } from '@/lib/i18n';
+
+export type NumberingMode = 'renumber' | 'keep';
+
+// Labels are the `numbering.<value>` messages
+export const NUMBERING_MODES: { value: NumberingMode }[] = [{ value: 'renumber' }, { value: 'keep' }];
+
+export const DEFAULT_NUMBERING_MODE: NumberingMode = 'renumber';
+
+// With kept numbers, removed cards leave gaps that print as empty cells
+export function highestCardNumber(qrCodes: QRCodeData[]): number {
+  return qrCodes.reduce((max, qr) => Math.max(max, qr.id), 0);
+}
+
+export function hasNumberGaps(qrCodes: QRCodeData[]): boolean {
+  return qrCodes.some((qr, index) => qr.id !== index + 1);
+}
+
+export function renumber(qrCodes: QRCodeData[]): QRCodeData[] {
+  return qrCodes.map((qr, index) => (qr.id === index + 1 ? qr : { ...qr, id: index + 1 }));
+}
+
+// Apply the mode after cards were added, removed or moved
+export function numberCards(qrCodes: QRCodeData[], mode: NumberingMode): QRCodeData[] {
+  return mode === 'renumber' ? renumber(qrCodes) : qrCodes;
+}
+
+// The batch's input list; numbers are only stored when they differ from the position
+export function cardEntries(qrCodes: QRCodeData[]): PayloadEntry[] {
+  const keepNumbers = hasNumberGaps(qrCodes);
+  return qrCodes.map(qr => {
+    const entry: PayloadEntry = qr.label ? { payload: qr.payload, label: qr.label } : { payload: qr.payload };
+    if (qr.cardNumber) entry.cardNumber = qr.cardNumber;
+    return keepNumbers ? { ...entry, number: qr.id } : entry;
+  });
+}
+
+// Move a card into another card's place, shifting the cards in between
+export function moveCard(qrCodes: QRCodeData[], id: number, toId: number): QRCodeData[] {
+  const from = qrCodes.findIndex(qr => qr.id === id);
+  const to = qrCodes.findIndex(qr => qr.id === toId);
+  if (from === -1 || to === -1 || from === to) return qrCodes;
+  const next = [...qrCodes];
+  const [card] = next.splice(from, 1);
+  next.splice(to, 0, card);
+  return next;
+}
+
+export interface NumberScheme {
+  order: PrintOrder;
+  // Number of the first card, so a second day can continue from 301
+  start: number;
+  prefix: string;
+  suffix: string;
+  // Minimum digits, filled with leading zeros
+  padding: number;
+  // Print the number imported with each card, where it has one
+  fromColumn: boolean;
+}
+
+export const DEFAULT_NUMBER_SCHEME: NumberScheme = {
+  order: 'cut-and-stack',
+  start: 1,
+  prefix: '',
+  suffix: '',
+  padding: 0,
+  fromColumn: true,
+};
+
+const MAX_PADDING = 8;
+const MAX_AFFIX_LENGTH = 12;
+
+export function validateNumberScheme(scheme: NumberScheme): MessageRef | null {
+  if (!Number.isInteger(scheme.start) || scheme.start < 0) {
+    return { key: 'numbering.error.start' };
+  }
+  if (!Number.isInteger(scheme.padding) || scheme.padding < 0 || scheme.padding > MAX_PADDING) {
+    return { key: 'numbering.error.padding', params: { max: MAX_PADDING } };
+  }
+  if (scheme.prefix.length > MAX_AFFIX_LENGTH || scheme.suffix.length > MAX_AFFIX_LENGTH) {
+    return { key: 'numbering.error.affix', params: { max: MAX_AFFIX_LENGTH } };
+  }
+  return null;
+}
+
+// The number a card shows for its position, or the one imported with it.
+// Digits only, before the prefix and padding are applied
+function baseNumber(id: number, scheme: NumberScheme, imported?: string): string {
+  return scheme.fromColumn && imported ? imported : String(scheme.start + id - 1);
+}
+
+// "SF-0042" with a prefix; a plain number keeps the "#" cards have always had
+export function formatNumber(id: number, scheme: NumberScheme, imported?: string): string {
+  const base = baseNumber(id, scheme, imported);
+  const padded = /^\d+$/.test(base) ? base.padStart(scheme.padding, '0') : base;
+  const text = `${scheme.prefix}${padded}${scheme.suffix}`;
+  return scheme.prefix ? text : `#${text}`;
+}
+
+export function formatCardNumber(qr: QRCodeData, scheme: NumberScheme): string {
+  return formatNumber(qr.id, scheme, qr.cardNumber);
+}
+
+// The number without the "#", for file names and CSV columns
+export function cardNumberText(qr: QRCodeData, scheme: NumberScheme): string {
+  return formatCardNumber(qr, scheme).replace(/^#/, '');
+}
+
+// Formats card numbers by id, including ids with no card left (kept numbers)
+export function numberFormatter(qrCodes: QRCodeData[], scheme: NumberScheme): (id: number) => string {
+  const imported = new Map(qrCodes.filter(qr => qr.cardNumber).map(qr => [qr.id, qr.cardNumber]));
+  return id => formatNumber(id, scheme, imported.get(id));
+}
+
+// Card ids by the number they show, for typing ranges like "301-320"
+export function idsByNumber(qrCodes: QRCodeData[], scheme: NumberScheme): Map<number, number> {
+  const ids = new Map<number, number>();
+  for (const qr of qrCodes) {
+    const base = baseNumber(qr.id, scheme, qr.cardNumber);
+    if (/^\d+$/.test(base) && !ids.has(Number(base))) ids.set(Number(base), qr.id);
+  }
+  return ids;
+}
@@ -0,0 +1,314 @@
+// What a QR code carries. Links are the common case; the other kinds are
+// encoded in the formats phone cameras recognise (WIFI:, vCard, mailto:,
+// SMSTO:, iCalendar VEVENT) so scanning offers the matching action.
+
+import { checkSuspiciousUrl, isValidUrl, normalizeUrl } from '@/lib/url-validation';
+import type { RuleSeverity } from '@/lib/url-rules';
+import { Locale, DEFAULT_LOCALE, MessageRef, translate } from '@/lib/i18n';
+
+export type WifiSecurity = 'WPA' | 'WEP' | 'nopass';
+
+export interface UrlPayload {
+  kind: 'url';
+  url: string;
+}
+
+export interface WifiPayload {
+  kind: 'wifi';
+  ssid: string;
+  password: string;
+  security: WifiSecurity;
+  hidden: boolean;
+}
+
+export interface VCardPayload {
+  kind: 'vcard';
+  firstName: string;
+  lastName: string;
+  organization: string;
+  title: string;
+  phone: string;
+  email: string;
+  website: string;
+}
+
+export interface EmailPayload {
+  kind: 'email';
+  to: string;
+  subject: string;
+  body: string;
+}
+
+export interface SmsPayload {
+  kind: 'sms';
+  phone: string;
+  message: string;
+}
+
+export interface EventPayload {
+  kind: 'event';
+  title: string;
+  location: string;
+  // `datetime-local` values ("2026-10-20T18:00"), encoded as floating local time
+  start: string;
+  end: string;
+  description: string;
+}
+
+export interface TextPayload {
+  kind: 'text';
+  text: string;
+}
+
+export type Payload = UrlPayload | WifiPayload | VCardPayload | EmailPayload | SmsPayload | EventPayload | TextPayload;
+
+export type PayloadKind = Payload['kind'];
+
+// One row of input before it's validated and numbered
+export interface PayloadEntry {
+  payload: Payload;
+  label?: string;
+  // Card number kept through edits; without it the card is numbered by position
+  number?: number;
+  // Number from a spreadsheet column, printed instead of the position
+  cardNumber?: string;
+}
+
+// Names are the `kind.<kind>` messages
+export const PAYLOAD_KINDS: { kind: PayloadKind }[] = [
+  { kind: 'url' },
+  { kind: 'wifi' },
+  { kind: 'vcard' },
+  { kind: 'email' },
+  { kind: 'sms' },
+  { kind: 'event' },
+  { kind: 'text' },
+];
+
+// Byte capacity of the largest QR version at the default M level
+const MAX_PAYLOAD_BYTES = 2331;
+const MAX_SSID_BYTES = 32;
+const SMS_SEGMENT_LENGTH = 160;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]{3,20}$/;
+const SCHEME_PATTERN = /^[a-z][a-z0-9+.-]*:\S/i;
+
+// Short text for the placeholder printed where an invalid code would go
+export function invalidPayloadText(kind: PayloadKind, locale: Locale = DEFAULT_LOCALE): string {
+  return kind === 'url'
+    ? translate(locale, 'print.invalidUrl')
+    : translate(locale, 'print.invalid', { kind: translate(locale, `kind.${kind}`) });
+}
+
+export function urlEntry({ url, label, cardNumber }: { url: string; label?: string; cardNumber?: string }): PayloadEntry {
+  return cardNumber ? { payload: { kind: 'url', url }, label, cardNumber } : { payload: { kind: 'url', url }, label };
+}
+
+export function emptyPayload(kind: PayloadKind): Payload {
+  switch (kind) {
+    case 'url':
+      return { kind, url: '' };
+    case 'wifi':
+      return { kind, ssid: '', password: '', security: 'WPA', hidden: false };
+    case 'vcard':
+      return { kind, firstName: '', lastName: '', organization: '', title: '', phone: '', email: '', website: '' };
+    case 'email':
+      return { kind, to: '', subject: '', body: '' };
+    case 'sms':
+      return { kind, phone: '', message: '' };
+    case 'event':
+      return { kind, title: '', location: '', start: '', end: '', description: '' };
+    case 'text':
+      return { kind, text: '' };
+  }
+}
+
+// Backslash-escape the characters the WIFI: format uses as delimiters
+const escapeWifi = (value: string) => value.replace(/([\\;,:"])/g, '\\$1');
+
+// vCard and iCalendar share the same text escaping rules
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/([,;])/g, '\\$1');
+
+// "2026-10-20T18:00" -> "20261020T180000"
+const formatEventTime = (value: string) => value.replace(/[-:]/g, '').padEnd(15, '0').substring(0, 15);
+
+const cleanPhone = (phone: string) => phone.replace(/[^\d+]/g, '');
+
+// Build content lines, dropping the optional ones that are empty
+const contentLines = (lines: [string, string][]) =>
+  lines.filter(([, value]) => value).map(([name, value]) => `${name}:${value}`);
+
+// The exact text that goes into the QR code
+export function encodePayload(payload: Payload): string {
+  switch (payload.kind) {
+    case 'url':
+      return payload.url;
+    case 'wifi': {
+      const password = payload.security === 'nopass' ? '' : `P:${escapeWifi(payload.password)};`;
+      const hidden = payload.hidden ? 'H:true;' : '';
+      return `WIFI:T:${payload.security};S:${escapeWifi(payload.ssid)};${password}${hidden};`;
+    }
+    case 'vcard': {
+      const first = payload.firstName.trim();
+      const last = payload.lastName.trim();
+      const fullName = [first, last].filter(Boolean).join(' ') || payload.organization.trim();
+      return [
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        `N:${escapeText(last)};${escapeText(first)};;;`,
+        `FN:${escapeText(fullName)}`,
+        ...contentLines([
+          ['ORG', escapeText(payload.organization.trim())],
+          ['TITLE', escapeText(payload.title.trim())],
+          ['TEL;TYPE=CELL', cleanPhone(payload.phone)],
+          ['EMAIL', payload.email.trim()],
+          ['URL', payload.website.trim() && normalizeUrl(payload.website.trim())],
+        ]),
+        'END:VCARD',
+      ].join('\r\n');
+    }
+    case 'email': {
+      const params = new URLSearchParams();
+      if (payload.subject.trim()) params.set('subject', payload.subject.trim());
+      if (payload.body.trim()) params.set('body', payload.body.trim());
+      // URLSearchParams encodes spaces as "+", which mail apps show literally
+      const query = params.toString().replace(/\+/g, '%20');
+      return `mailto:${payload.to.trim()}${query ? `?${query}` : ''}`;
+    }
+    case 'sms':
+      return `SMSTO:${cleanPhone(payload.phone)}:${payload.message}`;
+    case 'event':
+      return [
+        'BEGIN:VEVENT',
+        `SUMMARY:${escapeText(payload.title.trim())}`,
+        `DTSTART:${formatEventTime(payload.start)}`,
+        ...contentLines([
+          ['DTEND', payload.end && formatEventTime(payload.end)],
+          ['LOCATION', escapeText(payload.location.trim())],
+          ['DESCRIPTION', escapeText(payload.description.trim())],
+        ]),
+        'END:VEVENT',
+      ].join('\r\n');
+    case 'text':
+      return payload.text;
+  }
+}
+
+// Fix up what the user typed without changing its meaning
+export function normalizePayload(payload: Payload): Payload {
+  if (payload.kind === 'url') {
+    const url = payload.url.trim();
+    return { ...payload, url: isValidUrl(url) ? normalizeUrl(url) : url };
+  }
+  return payload;
+}
+
+// Returns a message describing why the payload can't be encoded, or null
+export function validatePayload(payload: Payload): MessageRef | null {
+  const error = validateFields(payload);
+  if (error) return error;
+
+  if (new TextEncoder().encode(encodePayload(payload)).length > MAX_PAYLOAD_BYTES) {
+    return { key: 'payload.error.tooLong' };
+  }
+  return null;
+}
+
+function validateFields(payload: Payload): MessageRef | null {
+  switch (payload.kind) {
+    case 'url':
+      return isValidUrl(payload.url) ? null : { key: 'payload.error.url' };
+    case 'wifi': {
+      if (!payload.ssid) return { key: 'payload.error.ssidRequired' };
+      if (new TextEncoder().encode(payload.ssid).length > MAX_SSID_BYTES) {
+        return { key: 'payload.error.ssidLength', params: { max: MAX_SSID_BYTES } };
+      }
+      if (payload.security === 'WPA' && (payload.password.length < 8 || payload.password.length > 63)) {
+        return { key: 'payload.error.wpa' };
+      }
+      if (payload.security === 'WEP' && ![5, 10, 13, 26].includes(payload.password.length)) {
+        return { key: 'payload.error.wep' };
+      }
+      return null;
+    }
+    case 'vcard':
+      if (!payload.firstName.trim() && !payload.lastName.trim() && !payload.organization.trim()) {
+        return { key: 'payload.error.contactName' };
+      }
+      if (payload.phone.trim() && !PHONE_PATTERN.test(payload.phone.trim())) return { key: 'payload.error.phone' };
+      if (payload.email.trim() && !EMAIL_PATTERN.test(payload.email.trim())) return { key: 'payload.error.email' };
+      if (payload.website.trim() && !isValidUrl(payload.website.trim())) return { key: 'payload.error.website' };
+      return null;
+    case 'email':
+      return EMAIL_PATTERN.test(payload.to.trim()) ? null : { key: 'payload.error.email' };
+    case 'sms':
+      return PHONE_PATTERN.test(payload.phone.trim()) ? null : { key: 'payload.error.phone' };
+    case 'event': {
+      if (!payload.title.trim()) return { key: 'payload.error.eventTitle' };
+      const start = Date.parse(payload.start);
+      if (Number.isNaN(start)) return { key: 'payload.error.eventStart' };
+      if (payload.end && !(Date.parse(payload.end) >= start)) return { key: 'payload.error.eventEnd' };
+      return null;
+    }
+    case 'text':
+      return payload.text.trim() ? null : { key: 'payload.error.textEmpty' };
+  }
+}
+
+export interface PayloadWarning {
+  // Shown together as one warning
+  messages: MessageRef[];
+  severity: RuleSeverity;
+}
+
+function urlWarning(url: string): PayloadWarning | undefined {
+  const { messages, severity } = checkSuspiciousUrl(url);
+  return messages && severity ? { messages, severity } : undefined;
+}
+
+// Things worth a second look that still encode fine
+export function payloadWarning(payload: Payload): PayloadWarning | undefined {
+  switch (payload.kind) {
+    case 'url':
+      return urlWarning(payload.url);
+    case 'vcard':
+      return payload.website.trim() ? urlWarning(payload.website.trim()) : undefined;
+    case 'sms':
+      return payload.message.length > SMS_SEGMENT_LENGTH
+        ? { messages: [{ key: 'payload.warning.smsLength', params: { max: SMS_SEGMENT_LENGTH } }], severity: 'low' }
+        : undefined;
+    case 'text':
+      // Phones offer to open text that starts with a scheme, so flag non-web ones
+      return SCHEME_PATTERN.test(payload.text.trim()) && !isValidUrl(payload.text.trim())
+        ? { messages: [{ key: 'urlRule.severity.medium' }, { key: 'payload.warning.textScheme' }], severity: 'medium' }
+        : undefined;
+    default:
+      return undefined;
+  }
+}
+
+// One-line description for cards and lists
+export function describePayload(payload: Payload, locale: Locale = DEFAULT_LOCALE): string {
+  switch (payload.kind) {
+    case 'url':
+      return payload.url;
+    case 'wifi':
+      return translate(locale, 'print.wifi', { name: payload.ssid });
+    case 'vcard': {
+      const name = [payload.firstName, payload.lastName].map(part => part.trim()).filter(Boolean).join(' ');
+      return translate(locale, 'print.contact', { name: name || payload.organization.trim() });
+    }
+    case 'email':
+      return translate(locale, 'print.email', { address: payload.to.trim() });
+    case 'sms':
+      return translate(locale, 'print.sms', { phone: payload.phone.trim() });
+    case 'event': {
+      const when = payload.start ? ` · ${payload.start.replace('T', ' ')}` : '';
+      return `${translate(locale, 'print.event', { title: payload.title.trim() })}${when}`;
+    }
+    case 'text':
+      return payload.text.trim().replace(/\s+/g, ' ');
+  }
+}
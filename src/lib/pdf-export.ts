@@ -0,0 +1,577 @@
+import type { jsPDF } from 'jspdf';
+import type { QRCodeData } from '@/lib/types';
+import {
+  SheetLayout,
+  PX_PER_MM,
+  cellOrigin,
+  cellScale,
+  cardForCell,
+  cellSize,
+  layoutName,
+  pageCount,
+  qrSizePx,
+} from '@/lib/layouts';
+import { NumberScheme, formatCardNumber, highestCardNumber, numberFormatter } from '@/lib/numbering';
+import { buildQrShapes, getQrMatrix, logoPlacement, rasterizeImage } from '@/lib/qr-render';
+import { QRStyle, quietZoneSize } from '@/lib/qr-style';
+import { CardCaption, CardTextMode, cardCaption } from '@/lib/labels';
+import { invalidPayloadText } from '@/lib/payloads';
+import { CutOptions, cardInset, cropMarks, stackGuide, stackRange, stackingSteps } from '@/lib/cutting';
+import { DuplexOptions, ALIGNMENT_TEST_PAGES, alignmentTest, backCells, backContent, printPages } from '@/lib/duplex';
+import {
+  CardTemplate,
+  blockFontSize,
+  blockWidth,
+  cardArea,
+  fontFor,
+  headerSize,
+  placeBox,
+  templateQrSize,
+  templateTexts,
+} from '@/lib/card-templates';
+import { canvasFont, wrapCanvasText } from '@/lib/canvas-text';
+import { Locale, localeDirection, translate, translator, withLocaleFonts } from '@/lib/i18n';
+
+const HEADER_LOGO_SRC = '/LOCKUP_HORIZONTAL_2D_LIGHT.svg';
+
+// Mirrors the print stylesheet so the PDF and the printed sheet cut identically
+const BORDER_WIDTH_MM = 1 / PX_PER_MM;
+const CROP_MARK_WIDTH_MM = 0.25;
+const TEST_LINE_WIDTH_MM = 0.2;
+const GUIDE_PADDING_MM = 15;
+const GUIDE_GAP_MM = 6;
+const PX_TO_PT = 0.75;
+const LINE_HEIGHT = 1.2;
+// Text drawn as an image is rendered at about 300dpi
+const TEXT_RASTER_SCALE = 300 / 96;
+
+// The built-in PDF fonts only have glyphs for Western European text
+// (WinAnsi); anything else, like Japanese or Arabic, is drawn as an image
+const PDF_FONT_TEXT = /^[\n\x20-\x7e\xa0-\xff‘’“”–—…•€™]*$/;
+
+// A built-in PDF font, and the CSS stack that looks like it for text drawn as an image
+interface PdfFont {
+  pdf: string;
+  canvas: string;
+  bold: boolean;
+  sizePx: number;
+}
+
+const SANS_STACK = 'Helvetica, Arial, sans-serif';
+const MONO_STACK = "'Courier New', Courier, monospace";
+
+const sans = (sizePx: number, bold: boolean = false): PdfFont => ({ pdf: 'helvetica', canvas: SANS_STACK, bold, sizePx });
+
+interface PdfAssets {
+  style: QRStyle;
+  headerLogo: { dataUrl: string; aspectRatio: number };
+  qrLogo: string | null;
+  cardTextMode: CardTextMode;
+  showReferralCode: boolean;
+  cutOptions: CutOptions;
+  numberScheme: NumberScheme;
+  duplex: DuplexOptions;
+  template: CardTemplate;
+  templateHeader: string | null;
+  cardLocale: Locale;
+}
+
+const pxToMm = (px: number) => px / PX_PER_MM;
+
+// URLs rarely contain spaces, so wrap on characters like `word-break: break-all`
+function wrapByCharacters(doc: jsPDF, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const char of text) {
+    if (current && doc.getTextWidth(current + char) > maxWidth) {
+      lines.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+function setPdfFont(doc: jsPDF, font: PdfFont) {
+  doc.setFont(font.pdf, font.bold ? 'bold' : 'normal');
+  doc.setFontSize(font.sizePx * PX_TO_PT);
+}
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+function canvasFontFor(font: PdfFont, locale: Locale, scale: number = 1): string {
+  return canvasFont(withLocaleFonts(font.canvas, locale), font.sizePx * scale, font.bold);
+}
+
+function measureContextFor(font: PdfFont, locale: Locale): CanvasRenderingContext2D {
+  measureContext ??= document.createElement('canvas').getContext('2d');
+  if (!measureContext) throw new Error('Canvas is not supported in this browser');
+  measureContext.font = canvasFontFor(font, locale);
+  return measureContext;
+}
+
+// Lines that fit `maxWidth` millimetres; `anywhere` breaks between any two
+// characters, for URLs and codes
+function splitText(doc: jsPDF, text: string, maxWidth: number, font: PdfFont, locale: Locale, anywhere: boolean = false): string[] {
+  if (PDF_FONT_TEXT.test(text)) {
+    setPdfFont(doc, font);
+    return anywhere ? wrapByCharacters(doc, text, maxWidth) : doc.splitTextToSize(text, maxWidth);
+  }
+  return wrapCanvasText(measureContextFor(font, locale), text, maxWidth * PX_PER_MM);
+}
+
+// One line of text placed like `doc.text`, or as an image of the same size
+// when the built-in fonts can't draw it
+function drawText(
+  doc: jsPDF,
+  text: string,
+  x: number,
+  y: number,
+  font: PdfFont,
+  locale: Locale,
+  { align = 'left', baseline = 'alphabetic', color = '#000000' }: {
+    align?: 'left' | 'center' | 'right';
+    baseline?: 'alphabetic' | 'top' | 'middle' | 'bottom';
+    color?: string;
+  } = {}
+) {
+  if (PDF_FONT_TEXT.test(text)) {
+    setPdfFont(doc, font);
+    doc.setTextColor(color);
+    doc.text(text, x, y, { align, baseline });
+    return;
+  }
+
+  const widthPx = measureContextFor(font, locale).measureText(text).width;
+  if (widthPx === 0) return;
+  const heightPx = font.sizePx * LINE_HEIGHT;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(widthPx * TEXT_RASTER_SCALE);
+  canvas.height = Math.ceil(heightPx * TEXT_RASTER_SCALE);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this browser');
+  ctx.font = canvasFontFor(font, locale, TEXT_RASTER_SCALE);
+  ctx.direction = localeDirection(locale);
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = color;
+  ctx.fillText(text, 0, canvas.height / 2);
+
+  const width = pxToMm(widthPx);
+  const height = pxToMm(heightPx);
+  const left = x - width * { left: 0, center: 0.5, right: 1 }[align];
+  // The alphabetic baseline sits about four fifths down the line
+  const top = y - height * { top: 0, middle: 0.5, bottom: 1, alphabetic: 0.8 }[baseline];
+  doc.addImage(canvas.toDataURL('image/png'), 'PNG', left, top, width, height, `text-${color}-${font.canvas}-${font.bold}-${font.sizePx}-${locale}-${text}`);
+}
+
+function drawCell(
+  doc: jsPDF,
+  assets: PdfAssets,
+  layout: SheetLayout,
+  x: number,
+  y: number,
+  qrData: QRCodeData | undefined
+) {
+  const cell = cellSize(layout);
+  const scale = cellScale(layout);
+  const padding = cardInset(layout, assets.cutOptions);
+
+  if (assets.cutOptions.guides === 'borders') {
+    doc.setDrawColor(0, 0, 0);
+    doc.setLineWidth(BORDER_WIDTH_MM);
+    doc.rect(x, y, cell.width, cell.height, 'S');
+  }
+
+  if (!qrData) return;
+
+  if (!assets.template.builtIn) {
+    drawTemplateCell(doc, assets, layout, x, y, qrData);
+    return;
+  }
+
+  const locale = assets.cardLocale;
+  drawText(doc, formatCardNumber(qrData, assets.numberScheme), x + padding, y + padding, sans(14 * scale), locale, { baseline: 'top' });
+
+  const qrSize = pxToMm(qrSizePx(layout));
+  const qrX = x + (cell.width - qrSize) / 2;
+  const qrY = y + (cell.height - qrSize) / 2;
+
+  const headerLogoWidth = pxToMm(75 * scale);
+  doc.saveGraphicsState();
+  doc.setGState(doc.GState({ opacity: 0.9 }));
+  doc.addImage(
+    assets.headerLogo.dataUrl,
+    'PNG',
+    x + cell.width - padding - headerLogoWidth,
+    y + padding,
+    headerLogoWidth,
+    headerLogoWidth * assets.headerLogo.aspectRatio
+  );
+  doc.restoreGraphicsState();
+
+  if (qrData.isValid) {
+    drawQrCode(doc, assets, qrData.value, qrX, qrY, qrSize);
+  } else {
+    drawErrorBox(doc, qrX, qrY, qrSize, invalidPayloadText(qrData.payload.kind, locale), locale);
+  }
+
+  const caption = cardCaption(qrData, assets.cardTextMode, assets.showReferralCode, locale);
+  drawCaption(doc, caption, x, y, cell.width, cell.height, padding, scale, locale);
+}
+
+// A card laid out by a saved template, placed like `TemplateCard`
+function drawTemplateCell(doc: jsPDF, assets: PdfAssets, layout: SheetLayout, x: number, y: number, qrData: QRCodeData) {
+  const { template, cardLocale: locale } = assets;
+  const area = cardArea(layout, assets.cutOptions);
+
+  if (template.header && assets.templateHeader) {
+    const { width, height } = headerSize(template.header, layout);
+    const origin = placeBox(template.header, width, height, area);
+    doc.addImage(assets.templateHeader, 'PNG', x + origin.x, y + origin.y, width, height);
+  }
+
+  const qrSize = templateQrSize(template, layout);
+  const qrOrigin = placeBox({ x: template.qr.x, y: template.qr.y, align: 'center', valign: 'middle' }, qrSize, qrSize, area);
+  if (qrData.isValid) {
+    drawQrCode(doc, assets, qrData.value, x + qrOrigin.x, y + qrOrigin.y, qrSize);
+  } else {
+    drawErrorBox(doc, x + qrOrigin.x, y + qrOrigin.y, qrSize, invalidPayloadText(qrData.payload.kind, locale), locale);
+  }
+
+  for (const { block, text } of templateTexts(template, qrData, assets.numberScheme, locale)) {
+    const { pdf, canvas } = fontFor(block.font);
+    const font: PdfFont = { pdf, canvas, bold: block.bold, sizePx: blockFontSize(block, layout) };
+    const width = blockWidth(block, area);
+    const lines = splitText(doc, text, width, font, locale);
+    const lineHeight = pxToMm(font.sizePx * LINE_HEIGHT);
+    const origin = placeBox(block, width, lines.length * lineHeight, area);
+    const textX = x + origin.x + width * { left: 0, center: 0.5, right: 1 }[block.align];
+    lines.forEach((line, index) => {
+      drawText(doc, line, textX, y + origin.y + index * lineHeight, font, locale, { baseline: 'top', align: block.align });
+    });
+  }
+  doc.setFont('helvetica', 'normal');
+}
+
+// Label above the URL, stacked up from the bottom edge like `.qr-caption`
+function drawCaption(
+  doc: jsPDF,
+  caption: CardCaption,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  padding: number,
+  scale: number,
+  locale: Locale
+) {
+  const maxWidth = width - padding * 2;
+  const blocks: { lines: string[]; font: PdfFont }[] = [];
+
+  if (caption.code) {
+    const font: PdfFont = { pdf: 'courier', canvas: MONO_STACK, bold: true, sizePx: Math.max(10, 18 * scale) };
+    blocks.push({ lines: splitText(doc, caption.code, maxWidth, font, locale, true), font });
+  }
+  if (caption.label) {
+    const font = sans(Math.max(7, 11 * scale), true);
+    blocks.push({ lines: splitText(doc, caption.label, maxWidth, font, locale), font });
+  }
+  if (caption.detail) {
+    const font = sans(Math.max(6, 9 * scale));
+    blocks.push({ lines: splitText(doc, caption.detail, maxWidth, font, locale, true), font });
+  }
+
+  const blockGap = pxToMm(2 * scale);
+  const totalHeight = blocks.reduce(
+    (sum, block) => sum + block.lines.length * pxToMm(block.font.sizePx * LINE_HEIGHT),
+    blockGap * Math.max(0, blocks.length - 1)
+  );
+  let textTop = y + height - padding - totalHeight;
+
+  for (const block of blocks) {
+    const lineHeight = pxToMm(block.font.sizePx * LINE_HEIGHT);
+    block.lines.forEach((line, index) => {
+      drawText(doc, line, x + width / 2, textTop + index * lineHeight, block.font, locale, { baseline: 'top', align: 'center' });
+    });
+    textTop += block.lines.length * lineHeight + blockGap;
+  }
+  doc.setFont('helvetica', 'normal');
+}
+
+function drawQrCode(doc: jsPDF, assets: PdfAssets, value: string, x: number, y: number, size: number) {
+  const { style } = assets;
+  const quietZone = quietZoneSize(style, value, size);
+  doc.setFillColor(style.bgColor);
+  doc.rect(x - quietZone, y - quietZone, size + quietZone * 2, size + quietZone * 2, 'F');
+
+  for (const shape of buildQrShapes(getQrMatrix(value, style.ecLevel), style, size)) {
+    doc.setFillColor(shape.color);
+    doc.setDrawColor(shape.color);
+    if (shape.kind === 'rect') {
+      doc.rect(x + shape.x, y + shape.y, shape.width, shape.height, 'F');
+    } else if (shape.kind === 'circle') {
+      doc.circle(x + shape.cx, y + shape.cy, shape.r, 'F');
+    } else if (shape.lineWidth === null) {
+      doc.roundedRect(x + shape.x, y + shape.y, shape.size, shape.size, shape.radius, shape.radius, 'F');
+    } else {
+      doc.setLineWidth(shape.lineWidth);
+      doc.roundedRect(x + shape.x, y + shape.y, shape.size, shape.size, shape.radius, shape.radius, 'S');
+    }
+  }
+
+  const logo = logoPlacement(style, size);
+  if (logo && assets.qrLogo) {
+    const { clear } = logo;
+    doc.setFillColor(style.bgColor);
+    if (clear.shape === 'circle') {
+      doc.ellipse(x + clear.x + clear.width / 2, y + clear.y + clear.height / 2, clear.width / 2, clear.height / 2, 'F');
+    } else {
+      doc.rect(x + clear.x, y + clear.y, clear.width, clear.height, 'F');
+    }
+    doc.addImage(assets.qrLogo, 'PNG', x + logo.x, y + logo.y, logo.width, logo.height);
+  }
+}
+
+function drawErrorBox(doc: jsPDF, x: number, y: number, size: number, message: string, locale: Locale) {
+  doc.setFillColor(255, 238, 238);
+  doc.setDrawColor(255, 204, 204);
+  doc.setLineWidth(BORDER_WIDTH_MM);
+  doc.rect(x, y, size, size, 'FD');
+  drawText(doc, message, x + size / 2, y + size / 2, sans(10), locale, { baseline: 'middle', align: 'center', color: '#cc3333' });
+}
+
+// Card backgrounds run past the cut line; drawn for the whole page first so
+// no card's bleed covers its neighbour
+function drawBleed(doc: jsPDF, layout: SheetLayout, bleed: number) {
+  const cell = cellSize(layout);
+  doc.setFillColor(255, 255, 255);
+  for (let row = 0; row < layout.rows; row++) {
+    for (let col = 0; col < layout.cols; col++) {
+      const origin = cellOrigin(layout, row, col);
+      doc.rect(origin.x - bleed, origin.y - bleed, cell.width + bleed * 2, cell.height + bleed * 2, 'F');
+    }
+  }
+}
+
+function drawCropMarks(doc: jsPDF, layout: SheetLayout, options: CutOptions) {
+  doc.setDrawColor(0, 0, 0);
+  doc.setLineWidth(CROP_MARK_WIDTH_MM);
+  for (const { x1, y1, x2, y2 } of cropMarks(layout, options)) {
+    doc.line(x1, y1, x2, y2);
+  }
+}
+
+// Cover page like `CuttingGuideSheet`: the stack each position becomes and the
+// order to put the stacks together in
+function drawCuttingGuide(
+  doc: jsPDF,
+  layout: SheetLayout,
+  lastNumber: number,
+  cardCount: number,
+  batchName: string | undefined,
+  options: CutOptions,
+  scheme: NumberScheme,
+  format: (id: number) => string,
+  locale: Locale
+) {
+  const { width, height } = layout.paper;
+  const contentWidth = width - GUIDE_PADDING_MM * 2;
+  const pages = pageCount(layout, lastNumber);
+  const bodyFont = sans(12);
+  let y = GUIDE_PADDING_MM;
+
+  drawText(doc, translate(locale, 'guide.title'), GUIDE_PADDING_MM, y, sans(24, true), locale, { baseline: 'top' });
+  y += pxToMm(24 * LINE_HEIGHT) + GUIDE_GAP_MM;
+
+  const counts = translate(locale, 'guide.summary', {
+    cards: translate(locale, 'guide.cards', { count: cardCount }),
+    sheets: translate(locale, 'guide.sheets', { count: pages }),
+  });
+  const summary = `${batchName ? `${batchName} · ` : ''}${counts} · ${layoutName(layout, translator(locale))}`;
+  const summaryLineHeight = pxToMm(12 * LINE_HEIGHT);
+  const summaryLines = splitText(doc, summary, contentWidth, bodyFont, locale);
+  summaryLines.forEach((line, index) =>
+    drawText(doc, line, GUIDE_PADDING_MM, y + index * summaryLineHeight, bodyFont, locale, { baseline: 'top' })
+  );
+  y += summaryLines.length * summaryLineHeight + GUIDE_GAP_MM;
+
+  const stepLineHeight = pxToMm(12 * 1.5);
+  const steps = stackingSteps(layout, lastNumber, options, scheme.order, format, locale).map((step, index) =>
+    splitText(doc, `${index + 1}. ${step}`, contentWidth, bodyFont, locale)
+  );
+  const stepsHeight = steps.reduce((sum, lines) => sum + lines.length * stepLineHeight, 0);
+  const gridHeight = height - GUIDE_PADDING_MM - stepsHeight - GUIDE_GAP_MM - y;
+  const stackWidth = contentWidth / layout.cols;
+  const stackHeight = gridHeight / layout.rows;
+  const fontSizePx = Math.max(7, 12 * cellScale(layout));
+
+  doc.setDrawColor(0, 0, 0);
+  doc.setLineWidth(BORDER_WIDTH_MM);
+  const pieceKey = scheme.order === 'cut-and-stack' ? 'guide.stack' : 'guide.piece';
+  stackGuide(layout, lastNumber, scheme.order).forEach((row, rowIndex) => {
+    row.forEach((info, colIndex) => {
+      const x = GUIDE_PADDING_MM + colIndex * stackWidth;
+      const top = y + rowIndex * stackHeight;
+      const centerX = x + stackWidth / 2;
+      const centerY = top + stackHeight / 2;
+      doc.rect(x, top, stackWidth, stackHeight, 'S');
+      const name = translate(locale, pieceKey, { number: info.stack });
+      drawText(doc, name, centerX, centerY, sans(fontSizePx, true), locale, { baseline: 'bottom', align: 'center' });
+      const range = stackRange(info, scheme.order, format, locale);
+      drawText(doc, range, centerX, centerY, sans(fontSizePx), locale, { baseline: 'top', align: 'center' });
+    });
+  });
+
+  y += gridHeight + GUIDE_GAP_MM;
+  for (const lines of steps) {
+    lines.forEach((line, index) =>
+      drawText(doc, line, GUIDE_PADDING_MM, y + index * stepLineHeight, bodyFont, locale, { baseline: 'top' })
+    );
+    y += lines.length * stepLineHeight;
+  }
+}
+
+// The back of one card, laid out like `.print-back-card`: everything centred
+// and stacked in the middle of the card
+function drawBackCard(doc: jsPDF, assets: PdfAssets, layout: SheetLayout, x: number, y: number, qrData: QRCodeData) {
+  const cell = cellSize(layout);
+  const scale = cellScale(layout);
+  const padding = cardInset(layout, assets.cutOptions);
+  const maxWidth = cell.width - padding * 2;
+  const locale = assets.cardLocale;
+  const content = backContent(qrData, assets.duplex, assets.numberScheme, locale);
+  const blocks: { lines: string[]; font: PdfFont }[] = [];
+
+  const addBlock = (text: string | undefined, fontSizePx: number, bold: boolean) => {
+    if (!text) return;
+    const font = sans(fontSizePx, bold);
+    blocks.push({ lines: splitText(doc, text, maxWidth, font, locale), font });
+  };
+  addBlock(content.heading, Math.max(8, 16 * scale), true);
+  addBlock(content.label, Math.max(9, 20 * scale), true);
+  addBlock(content.message, Math.max(7, 11 * scale), false);
+  addBlock(content.number, Math.max(7, 10 * scale), false);
+
+  const blockGap = pxToMm(8 * scale);
+  const totalHeight = blocks.reduce(
+    (sum, block) => sum + block.lines.length * pxToMm(block.font.sizePx * LINE_HEIGHT),
+    blockGap * Math.max(0, blocks.length - 1)
+  );
+  let textTop = y + (cell.height - totalHeight) / 2;
+
+  for (const block of blocks) {
+    const lineHeight = pxToMm(block.font.sizePx * LINE_HEIGHT);
+    block.lines.forEach((line, index) => {
+      drawText(doc, line, x + cell.width / 2, textTop + index * lineHeight, block.font, locale, { baseline: 'top', align: 'center' });
+    });
+    textTop += block.lines.length * lineHeight + blockGap;
+  }
+  doc.setFont('helvetica', 'normal');
+}
+
+function drawAlignmentTest(doc: jsPDF, layout: SheetLayout, duplex: DuplexOptions, side: 'front' | 'back', locale: Locale) {
+  const { lines, labels } = alignmentTest(layout, duplex, side, locale);
+  doc.setDrawColor(0, 0, 0);
+  doc.setLineWidth(TEST_LINE_WIDTH_MM);
+  for (const { x1, y1, x2, y2 } of lines) {
+    doc.line(x1, y1, x2, y2);
+  }
+  for (const { x, y, text } of labels) {
+    drawText(doc, text, x, y, sans(10), locale, { align: 'center' });
+  }
+}
+
+async function createPdf(layout: SheetLayout) {
+  const { jsPDF } = await import('jspdf');
+  const { width, height } = layout.paper;
+  const orientation = width > height ? 'landscape' : 'portrait';
+  const doc = new jsPDF({ unit: 'mm', format: [width, height], orientation, compress: true });
+  doc.setFont('helvetica', 'normal');
+  const addPage = () => doc.addPage([width, height], orientation);
+  return { doc, addPage };
+}
+
+// Just the duplex test sheet, printed double-sided before the real run
+export async function buildAlignmentTestPdf(layout: SheetLayout, duplex: DuplexOptions, locale: Locale): Promise<Blob> {
+  const { doc, addPage } = await createPdf(layout);
+  ALIGNMENT_TEST_PAGES.forEach((page, index) => {
+    if (index > 0) addPage();
+    if (page.kind === 'alignment-test') drawAlignmentTest(doc, layout, duplex, page.side, locale);
+  });
+  return doc.output('blob');
+}
+
+// Build a vector PDF of the print sheets in the browser, using the same
+// page/cell collation as the print view. Nothing is sent to a server.
+export async function buildPrintPdf(
+  qrCodes: QRCodeData[],
+  layout: SheetLayout,
+  style: QRStyle,
+  cardTextMode: CardTextMode,
+  showReferralCode: boolean,
+  cutOptions: CutOptions,
+  numberScheme: NumberScheme,
+  duplex: DuplexOptions,
+  template: CardTemplate,
+  cardLocale: Locale,
+  batchName?: string
+): Promise<Blob> {
+  const { doc, addPage } = await createPdf(layout);
+
+  // Rasterise logos at roughly 300dpi for their printed size
+  const scale = cellScale(layout);
+  const [headerLogo, qrLogo, templateHeader] = await Promise.all([
+    rasterizeImage(HEADER_LOGO_SRC, 75 * scale * 4),
+    style.logo ? rasterizeImage(style.logo.src, qrSizePx(layout) * style.logo.scale * 4) : null,
+    template.header && !template.builtIn ? rasterizeImage(template.header.src, template.header.width * scale * 4) : null,
+  ]);
+  const assets: PdfAssets = {
+    style,
+    headerLogo,
+    qrLogo: qrLogo?.dataUrl ?? null,
+    cardTextMode,
+    showReferralCode,
+    cutOptions,
+    numberScheme,
+    duplex,
+    template,
+    templateHeader: templateHeader?.dataUrl ?? null,
+    cardLocale,
+  };
+
+  const qrLookup = new Map(qrCodes.map(qr => [qr.id, qr]));
+  // Kept card numbers can leave gaps, which print as empty cells
+  const lastNumber = highestCardNumber(qrCodes);
+  const cardAt = (sheet: number, row: number, col: number) => {
+    const cellNumber = cardForCell(numberScheme.order, sheet, row, col, layout.rows, layout.cols, lastNumber);
+    // A number freed by a removed card leaves its cell empty
+    return cellNumber === null ? undefined : qrLookup.get(cellNumber);
+  };
+
+  printPages(pageCount(layout, lastNumber), cutOptions.coverPage, duplex.mode).forEach((page, index) => {
+    if (index > 0) addPage();
+    if (page.kind === 'cutting-guide') {
+      const format = numberFormatter(qrCodes, numberScheme);
+      drawCuttingGuide(doc, layout, lastNumber, qrCodes.length, batchName, cutOptions, numberScheme, format, cardLocale);
+    } else if (page.kind === 'back') {
+      for (const { row, col, x, y } of backCells(layout, duplex)) {
+        const qrData = cardAt(page.sheet, row, col);
+        if (qrData) drawBackCard(doc, assets, layout, x, y, qrData);
+      }
+    } else if (page.kind === 'front') {
+      if (cutOptions.bleed > 0) drawBleed(doc, layout, cutOptions.bleed);
+      if (cutOptions.guides === 'marks') drawCropMarks(doc, layout, cutOptions);
+      for (let row = 0; row < layout.rows; row++) {
+        for (let col = 0; col < layout.cols; col++) {
+          const origin = cellOrigin(layout, row, col);
+          drawCell(doc, assets, layout, origin.x, origin.y, cardAt(page.sheet, row, col));
+        }
+      }
+    }
+  });
+
+  return doc.output('blob');
+}
@@ -0,0 +1,49 @@
+// Minimal PNG chunk editing so exported images carry their intended print DPI
+
+const PNG_SIGNATURE_LENGTH = 8;
+const INCHES_PER_METRE = 39.3701;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function buildPhysChunk(dpi: number) {
+  const pixelsPerMetre = Math.round(dpi * INCHES_PER_METRE);
+  const chunk = new Uint8Array(4 + 4 + 9 + 4);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, pixelsPerMetre);
+  view.setUint32(12, pixelsPerMetre);
+  chunk[16] = 1; // unit: metre
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+  return chunk;
+}
+
+// Insert a pHYs chunk right after IHDR. Canvas encoders never write one,
+// so there is no existing chunk to replace.
+export async function setPngDpi(png: Blob, dpi: number): Promise<Blob> {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const ihdrLength = view.getUint32(PNG_SIGNATURE_LENGTH);
+  const insertAt = PNG_SIGNATURE_LENGTH + 4 + 4 + ihdrLength + 4;
+  return new Blob([bytes.subarray(0, insertAt), buildPhysChunk(dpi), bytes.subarray(insertAt)], {
+    type: 'image/png',
+  });
+}
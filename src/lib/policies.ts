@@ -0,0 +1,128 @@
+// Link policies: which hosts a batch may point at and what shape its links
+// must have, e.g. only cursor.com referral links. A policy either blocks
+// printing of links that break it or just flags them.
+
+import type { QRCodeData } from '@/lib/types';
+import { readStoredJson, writeStoredJson } from '@/lib/storage';
+import type { MessageRef, Translate } from '@/lib/i18n';
+
+export type PolicyStrictness = 'warn' | 'block';
+
+export interface UrlPolicy {
+  id: string;
+  name: string;
+  // Host patterns; "*.example.com" also matches example.com's subdomains.
+  // Empty allows any host that isn't denied
+  allowedHosts: string[];
+  deniedHosts: string[];
+  // Required path prefix and query parameters, e.g. "/referral?code="
+  requiredShape: string;
+  strictness: PolicyStrictness;
+  // Built-in policies can be copied but not edited or deleted
+  builtIn?: boolean;
+}
+
+const STORAGE_KEY = 'qr-url-policies';
+
+export const NO_POLICY_ID = 'none';
+export const CURSOR_POLICY_ID = 'cursor-referral';
+
+// Only referral links on the Cursor site, blocked from printing otherwise
+export function cursorReferralPolicy(baseUrl: string): UrlPolicy {
+  const { hostname, pathname } = new URL(baseUrl);
+  const host = hostname.replace(/^www\./, '');
+  return {
+    id: CURSOR_POLICY_ID,
+    name: 'Cursor referral links',
+    allowedHosts: [host, `www.${host}`],
+    deniedHosts: [],
+    requiredShape: `${pathname.replace(/\/+$/, '')}/referral?code=`,
+    strictness: 'block',
+    builtIn: true,
+  };
+}
+
+// The built-in policy is named in the interface language; others keep the name they were given
+export function policyName(policy: UrlPolicy, t: Translate): string {
+  return policy.id === CURSOR_POLICY_ID ? t('policy.cursorReferral') : policy.name;
+}
+
+export function newPolicy(name: string, from?: UrlPolicy): UrlPolicy {
+  const id = `policy-${Date.now().toString(36)}`;
+  if (!from) {
+    return { id, name, allowedHosts: [], deniedHosts: [], requiredShape: '', strictness: 'warn' };
+  }
+  return { ...from, id, name, builtIn: false };
+}
+
+export function loadCustomPolicies(): UrlPolicy[] {
+  const saved = readStoredJson(STORAGE_KEY);
+  return Array.isArray(saved) ? (saved as UrlPolicy[]).filter(policy => !policy.builtIn) : [];
+}
+
+export function saveCustomPolicies(policies: UrlPolicy[]): void {
+  writeStoredJson(STORAGE_KEY, policies.filter(policy => !policy.builtIn));
+}
+
+// Split text from the editor into one pattern per line or comma
+export function parsePatternList(text: string): string[] {
+  return text
+    .split(/[\n,]/)
+    .map(pattern => pattern.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export function hostMatches(host: string, pattern: string): boolean {
+  if (pattern.startsWith('*.')) {
+    const base = pattern.slice(2);
+    return host === base || host.endsWith(`.${base}`);
+  }
+  return host === pattern;
+}
+
+function shapeProblem(url: URL, shape: string): MessageRef | null {
+  const [pathPart, queryPart = ''] = shape.split('?');
+  const requiredPath = pathPart.replace(/\/+$/, '');
+  const path = url.pathname.replace(/\/+$/, '');
+  if (requiredPath && path !== requiredPath && !path.startsWith(`${requiredPath}/`)) {
+    return { key: 'policy.error.path', params: { path: requiredPath } };
+  }
+
+  for (const [name, value] of new URLSearchParams(queryPart)) {
+    const actual = url.searchParams.get(name);
+    if (!actual) return { key: 'policy.error.missingParam', params: { name } };
+    if (value && actual !== value) return { key: 'policy.error.paramValue', params: { name, value } };
+  }
+  return null;
+}
+
+// Why a link breaks the policy, or null if it complies
+export function policyViolation(link: string, policy: UrlPolicy): MessageRef | null {
+  let url: URL;
+  try {
+    url = new URL(link);
+  } catch {
+    return { key: 'policy.error.invalid' };
+  }
+  const host = url.hostname.toLowerCase();
+
+  if (policy.deniedHosts.some(pattern => hostMatches(host, pattern))) {
+    return { key: 'policy.error.denied', params: { host } };
+  }
+  if (policy.allowedHosts.length > 0 && !policy.allowedHosts.some(pattern => hostMatches(host, pattern))) {
+    return { key: 'policy.error.notAllowed', params: { host } };
+  }
+  return policy.requiredShape.trim() ? shapeProblem(url, policy.requiredShape.trim()) : null;
+}
+
+// Policy problems per card number; only link codes are checked
+export function policyViolations(qrCodes: QRCodeData[], policy: UrlPolicy | null): Map<number, MessageRef> {
+  const violations = new Map<number, MessageRef>();
+  if (!policy) return violations;
+  for (const qr of qrCodes) {
+    if (qr.payload.kind !== 'url' || !qr.isValid) continue;
+    const problem = policyViolation(qr.value, policy);
+    if (problem) violations.set(qr.id, problem);
+  }
+  return violations;
+}
@@ -0,0 +1,407 @@
+import { create } from 'qrcode';
+import type { QRStyle } from '@/lib/qr-style';
+
+export type ErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+export interface QrMatrix {
+  size: number;
+  version: number;
+  isDark: (row: number, col: number) => boolean;
+  // Finder, timing, alignment and format modules; everything else carries data
+  isReserved: (row: number, col: number) => boolean;
+}
+
+// Rectangle in module units (one unit = one QR module)
+export interface ModuleRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Drawing primitives in the same units as the requested symbol size, with the
+// origin at the symbol's top-left corner (quiet zone excluded)
+export type QrShape =
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; color: string }
+  | { kind: 'circle'; cx: number; cy: number; r: number; color: string }
+  | {
+      kind: 'roundedSquare';
+      x: number;
+      y: number;
+      size: number;
+      radius: number;
+      // Stroke width for the outer eye ring; null means a filled square
+      lineWidth: number | null;
+      color: string;
+    };
+
+// On-page and worker (OffscreenCanvas) contexts draw the same way
+export type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export interface LogoPlacement {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Area cleared to the background color behind the logo
+  clear: { x: number; y: number; width: number; height: number; shape: 'square' | 'circle' };
+}
+
+// Medium error correction unless a style asks for more
+export const DEFAULT_EC_LEVEL: ErrorCorrectionLevel = 'M';
+
+// Quiet zone the QR spec asks for, in modules
+export const SPEC_QUIET_ZONE_MODULES = 4;
+
+const FINDER_SIZE = 7;
+
+const MATRIX_CACHE_LIMIT = 2000;
+const matrixCache = new Map<string, QrMatrix>();
+
+// Encode as a single UTF-8 byte segment so every code gets the same version
+// and module count wherever it's drawn.
+export function getQrMatrix(value: string, ecLevel: ErrorCorrectionLevel = DEFAULT_EC_LEVEL): QrMatrix {
+  const key = `${ecLevel}:${value}`;
+  const cached = matrixCache.get(key);
+  if (cached) return cached;
+
+  const qr = create([{ mode: 'byte', data: new TextEncoder().encode(value) }], {
+    errorCorrectionLevel: ecLevel,
+  });
+  const { modules } = qr;
+  const matrix: QrMatrix = {
+    size: modules.size,
+    version: qr.version,
+    isDark: (row, col) => modules.get(row, col) === 1,
+    isReserved: (row, col) => modules.reservedBit[row * modules.size + col] === 1,
+  };
+
+  // Every render of the results grid asks for each code's module count
+  if (matrixCache.size >= MATRIX_CACHE_LIMIT) {
+    const oldest = matrixCache.keys().next().value;
+    if (oldest !== undefined) matrixCache.delete(oldest);
+  }
+  matrixCache.set(key, matrix);
+  return matrix;
+}
+
+function finderOrigins(matrix: QrMatrix): { row: number; col: number }[] {
+  return [
+    { row: 0, col: 0 },
+    { row: 0, col: matrix.size - FINDER_SIZE },
+    { row: matrix.size - FINDER_SIZE, col: 0 },
+  ];
+}
+
+// Finder patterns plus their separator are drawn separately as "eyes"
+function isInFinderZone(matrix: QrMatrix, row: number, col: number): boolean {
+  return finderOrigins(matrix).some(zone =>
+    row >= zone.row && row <= zone.row + FINDER_SIZE &&
+    col >= zone.col && col <= zone.col + FINDER_SIZE
+  );
+}
+
+// Merge horizontal runs of dark data modules into rectangles to keep vector output small
+export function darkModuleRuns(matrix: QrMatrix): ModuleRect[] {
+  const rects: ModuleRect[] = [];
+  for (let row = 0; row < matrix.size; row++) {
+    let start = -1;
+    for (let col = 0; col <= matrix.size; col++) {
+      const dark = col < matrix.size && matrix.isDark(row, col) && !isInFinderZone(matrix, row, col);
+      if (dark && start === -1) {
+        start = col;
+      } else if (!dark && start !== -1) {
+        rects.push({ x: start, y: row, width: col - start, height: 1 });
+        start = -1;
+      }
+    }
+  }
+  return rects;
+}
+
+// Module shapes for every style, shared by each output renderer (screen and
+// print canvas, SVG, PDF) so they all draw the same symbol
+export function buildQrShapes(matrix: QrMatrix, style: QRStyle, size: number): QrShape[] {
+  const cell = size / matrix.size;
+  const color = style.fgColor;
+  const shapes: QrShape[] = [];
+  const dark = (row: number, col: number) =>
+    row >= 0 && col >= 0 && row < matrix.size && col < matrix.size && matrix.isDark(row, col);
+
+  if (style.moduleStyle === 'squares') {
+    for (const run of darkModuleRuns(matrix)) {
+      shapes.push({ kind: 'rect', x: run.x * cell, y: run.y * cell, width: run.width * cell, height: run.height * cell, color });
+    }
+  } else {
+    const half = cell / 2;
+    for (let row = 0; row < matrix.size; row++) {
+      for (let col = 0; col < matrix.size; col++) {
+        if (!dark(row, col) || isInFinderZone(matrix, row, col)) continue;
+        const x = col * cell;
+        const y = row * cell;
+
+        if (style.moduleStyle === 'dots') {
+          shapes.push({ kind: 'circle', cx: x + half, cy: y + half, r: half * 0.75, color });
+          continue;
+        }
+
+        // Fluid: a corner is rounded only where both neighbours touching it are light
+        shapes.push({ kind: 'circle', cx: x + half, cy: y + half, r: half, color });
+        const up = dark(row - 1, col);
+        const down = dark(row + 1, col);
+        const left = dark(row, col - 1);
+        const right = dark(row, col + 1);
+        if (up || left) shapes.push({ kind: 'rect', x, y, width: half, height: half, color });
+        if (up || right) shapes.push({ kind: 'rect', x: x + half, y, width: half, height: half, color });
+        if (down || right) shapes.push({ kind: 'rect', x: x + half, y: y + half, width: half, height: half, color });
+        if (down || left) shapes.push({ kind: 'rect', x, y: y + half, width: half, height: half, color });
+      }
+    }
+  }
+
+  const eyeColor = style.eyeColor ?? style.fgColor;
+  const radius = style.eyeRadius * cell;
+  for (const { row, col } of finderOrigins(matrix)) {
+    // Outer ring is stroked one module wide, centred on the ring
+    const outerSize = (FINDER_SIZE - 1) * cell;
+    shapes.push({
+      kind: 'roundedSquare',
+      x: col * cell + cell / 2,
+      y: row * cell + cell / 2,
+      size: outerSize,
+      radius: Math.min(radius, outerSize / 2),
+      lineWidth: cell,
+      color: eyeColor,
+    });
+    shapes.push({
+      kind: 'roundedSquare',
+      x: (col + 2) * cell,
+      y: (row + 2) * cell,
+      size: 3 * cell,
+      radius: Math.min(radius, (3 * cell) / 2),
+      lineWidth: null,
+      color: eyeColor,
+    });
+  }
+
+  return shapes;
+}
+
+export function logoPlacement(style: QRStyle, size: number): LogoPlacement | null {
+  if (!style.logo) return null;
+  const width = size * style.logo.scale;
+  const height = width * style.logo.aspectRatio;
+  const padding = size * style.logo.padding;
+  const x = (size - width) / 2;
+  const y = (size - height) / 2;
+  return {
+    x,
+    y,
+    width,
+    height,
+    clear: {
+      x: x - padding,
+      y: y - padding,
+      width: width + padding * 2,
+      height: height + padding * 2,
+      shape: style.logo.paddingStyle,
+    },
+  };
+}
+
+const imageCache = new Map<string, Promise<HTMLImageElement>>();
+
+// Batch exports draw the same logo hundreds of times, so decode each source once
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  const cached = imageCache.get(src);
+  if (cached) return cached;
+
+  const image = new Image();
+  image.decoding = 'async';
+  const loading = new Promise<HTMLImageElement>((resolve, reject) => {
+    image.onload = () => resolve(image);
+    image.onerror = () => {
+      imageCache.delete(src);
+      reject(new Error(`Failed to load image ${src}`));
+    };
+    image.src = src;
+  });
+  imageCache.set(src, loading);
+  return loading;
+}
+
+// Load an image (including SVG) and rasterise it to a PNG data URL at the given pixel width
+export async function rasterizeImage(src: string, width: number): Promise<{ dataUrl: string; aspectRatio: number }> {
+  const image = await loadImage(src);
+  const aspectRatio = image.naturalWidth && image.naturalHeight
+    ? image.naturalHeight / image.naturalWidth
+    : 1;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(width * aspectRatio));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this browser');
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return { dataUrl: canvas.toDataURL('image/png'), aspectRatio };
+}
+
+// Standalone files can't reference /public assets, so inline the logo as a data URL
+export async function withEmbeddedLogo(style: QRStyle): Promise<QRStyle> {
+  if (!style.logo || style.logo.src.startsWith('data:')) return style;
+  const { dataUrl } = await rasterizeImage(style.logo.src, 512);
+  return { ...style, logo: { ...style.logo, src: dataUrl } };
+}
+
+function traceRoundedSquare(ctx: Canvas2D, x: number, y: number, size: number, radius: number) {
+  ctx.beginPath();
+  ctx.moveTo(x + radius, y);
+  ctx.lineTo(x + size - radius, y);
+  ctx.quadraticCurveTo(x + size, y, x + size, y + radius);
+  ctx.lineTo(x + size, y + size - radius);
+  ctx.quadraticCurveTo(x + size, y + size, x + size - radius, y + size);
+  ctx.lineTo(x + radius, y + size);
+  ctx.quadraticCurveTo(x, y + size, x, y + size - radius);
+  ctx.lineTo(x, y + radius);
+  ctx.quadraticCurveTo(x, y, x + radius, y);
+  ctx.closePath();
+}
+
+// Canvas side in pixels for a symbol of `size` plus its quiet zone
+export function qrCanvasSize(size: number, quietZone: number): number {
+  return Math.round(size + quietZone * 2);
+}
+
+// Draw onto a canvas sized with qrCanvasSize. Takes the logo already decoded
+// so it also runs in a worker, where <img> isn't available.
+export function drawQrCode(
+  ctx: Canvas2D,
+  value: string,
+  style: QRStyle,
+  size: number,
+  quietZone: number,
+  logoImage: CanvasImageSource | null
+): void {
+  const matrix = getQrMatrix(value, style.ecLevel);
+  ctx.fillStyle = style.bgColor;
+  ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.translate(quietZone, quietZone);
+
+  for (const shape of buildQrShapes(matrix, style, size)) {
+    ctx.fillStyle = shape.color;
+    ctx.strokeStyle = shape.color;
+    if (shape.kind === 'rect') {
+      // Snap to whole pixels so neighbouring modules don't leave hairline gaps
+      const x = Math.floor(shape.x);
+      const y = Math.floor(shape.y);
+      ctx.fillRect(x, y, Math.ceil(shape.x + shape.width) - x, Math.ceil(shape.y + shape.height) - y);
+    } else if (shape.kind === 'circle') {
+      ctx.beginPath();
+      ctx.arc(shape.cx, shape.cy, shape.r, 0, 2 * Math.PI);
+      ctx.fill();
+    } else {
+      traceRoundedSquare(ctx, shape.x, shape.y, shape.size, shape.radius);
+      if (shape.lineWidth === null) {
+        ctx.fill();
+      } else {
+        ctx.lineWidth = shape.lineWidth;
+        ctx.stroke();
+      }
+    }
+  }
+
+  const logo = logoPlacement(style, size);
+  if (logoImage && logo) {
+    const { clear } = logo;
+    ctx.fillStyle = style.bgColor;
+    if (clear.shape === 'circle') {
+      ctx.beginPath();
+      ctx.ellipse(clear.x + clear.width / 2, clear.y + clear.height / 2, clear.width / 2, clear.height / 2, 0, 0, 2 * Math.PI);
+      ctx.fill();
+    } else {
+      ctx.fillRect(clear.x, clear.y, clear.width, clear.height);
+    }
+    ctx.drawImage(logoImage, logo.x, logo.y, logo.width, logo.height);
+  }
+}
+
+// Render a QR code to an offscreen canvas, independent of any on-screen <QRCode>
+export async function renderQrCanvas(
+  value: string,
+  style: QRStyle,
+  size: number,
+  quietZone: number
+): Promise<HTMLCanvasElement> {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = qrCanvasSize(size, quietZone);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this browser');
+
+  const logoImage = style.logo ? await loadImage(style.logo.src) : null;
+  drawQrCode(ctx, value, style, size, quietZone, logoImage);
+  return canvas;
+}
+
+export async function renderQrPng(value: string, style: QRStyle, size: number, quietZone: number): Promise<Blob> {
+  return canvasToPng(await renderQrCanvas(value, style, size, quietZone));
+}
+
+export function canvasToPng(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Failed to encode PNG'))),
+      'image/png'
+    );
+  });
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Render a QR code as a standalone SVG document. Pass the style through
+// withEmbeddedLogo first so the file still works once it leaves the app.
+export function renderQrSvg(value: string, style: QRStyle, size: number, quietZone: number): string {
+  const matrix = getQrMatrix(value, style.ecLevel);
+  const total = size + quietZone * 2;
+  const round = (n: number) => Math.round(n * 1000) / 1000;
+
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${round(total)}" height="${round(total)}" viewBox="0 0 ${round(total)} ${round(total)}">`,
+    `<rect width="100%" height="100%" fill="${escapeXml(style.bgColor)}"/>`,
+    `<g transform="translate(${round(quietZone)} ${round(quietZone)})">`,
+  ];
+
+  // Rectangles all share the module color, so merge them into a single path
+  let rectPath = '';
+  for (const shape of buildQrShapes(matrix, style, size)) {
+    const color = escapeXml(shape.color);
+    if (shape.kind === 'rect') {
+      rectPath += `M${round(shape.x)} ${round(shape.y)}h${round(shape.width)}v${round(shape.height)}h${round(-shape.width)}z`;
+    } else if (shape.kind === 'circle') {
+      parts.push(`<circle cx="${round(shape.cx)}" cy="${round(shape.cy)}" r="${round(shape.r)}" fill="${color}"/>`);
+    } else {
+      const paint = shape.lineWidth === null
+        ? `fill="${color}"`
+        : `fill="none" stroke="${color}" stroke-width="${round(shape.lineWidth)}"`;
+      parts.push(`<rect x="${round(shape.x)}" y="${round(shape.y)}" width="${round(shape.size)}" height="${round(shape.size)}" rx="${round(shape.radius)}" ${paint}/>`);
+    }
+  }
+  if (rectPath) {
+    parts.push(`<path d="${rectPath}" fill="${escapeXml(style.fgColor)}"/>`);
+  }
+
+  const logo = logoPlacement(style, size);
+  if (style.logo && logo) {
+    const { clear } = logo;
+    const bg = escapeXml(style.bgColor);
+    const src = escapeXml(style.logo.src);
+    parts.push(
+      clear.shape === 'circle'
+        ? `<ellipse cx="${round(clear.x + clear.width / 2)}" cy="${round(clear.y + clear.height / 2)}" rx="${round(clear.width / 2)}" ry="${round(clear.height / 2)}" fill="${bg}"/>`
+        : `<rect x="${round(clear.x)}" y="${round(clear.y)}" width="${round(clear.width)}" height="${round(clear.height)}" fill="${bg}"/>`,
+      `<image x="${round(logo.x)}" y="${round(logo.y)}" width="${round(logo.width)}" height="${round(logo.height)}" preserveAspectRatio="none" href="${src}" xlink:href="${src}"/>`
+    );
+  }
+
+  parts.push('</g>', '</svg>');
+  return parts.join('');
+}
@@ -0,0 +1,138 @@
+import { ErrorCorrectionLevel, DEFAULT_EC_LEVEL, SPEC_QUIET_ZONE_MODULES, getQrMatrix } from '@/lib/qr-render';
+import type { MessageRef } from '@/lib/i18n';
+
+export type ModuleStyle = 'squares' | 'dots' | 'fluid';
+
+export interface QRLogo {
+  src: string;
+  // Height / width of the source image, so uploaded logos aren't squashed
+  aspectRatio: number;
+  // Logo width as a fraction of the symbol size
+  scale: number;
+  // Cleared area around the logo as a fraction of the symbol size
+  padding: number;
+  paddingStyle: 'square' | 'circle';
+}
+
+// One appearance shared by the results grid, the print sheets and every export
+export interface QRStyle {
+  fgColor: string;
+  bgColor: string;
+  moduleStyle: ModuleStyle;
+  // Corner radius of the finder "eyes", in modules
+  eyeRadius: number;
+  // null draws the eyes in the foreground color
+  eyeColor: string | null;
+  logo: QRLogo | null;
+  ecLevel: ErrorCorrectionLevel;
+  // Light margin around the symbol, in modules
+  quietZone: number;
+}
+
+export const DEFAULT_LOGO: QRLogo = {
+  src: '/cursor-logo-bw.png',
+  aspectRatio: 1,
+  scale: 0.28,
+  padding: 0,
+  paddingStyle: 'square',
+};
+
+export const DEFAULT_QR_STYLE: QRStyle = {
+  fgColor: '#000000',
+  bgColor: '#ffffff',
+  moduleStyle: 'squares',
+  eyeRadius: 0,
+  eyeColor: null,
+  logo: DEFAULT_LOGO,
+  ecLevel: DEFAULT_EC_LEVEL,
+  quietZone: SPEC_QUIET_ZONE_MODULES,
+};
+
+export const MAX_EYE_RADIUS = 3.5;
+
+export const MAX_QUIET_ZONE = 8;
+
+// Logo size and padding as shares of the symbol's width
+export const MIN_LOGO_SCALE = 0.1;
+export const MAX_LOGO_SCALE = 0.35;
+export const MAX_LOGO_PADDING = 0.05;
+
+export const MAX_LOGO_FILE_SIZE = 1024 * 1024; // 1MB
+export const LOGO_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/svg+xml'];
+
+export function eyeColorFor(style: QRStyle): string {
+  return style.eyeColor ?? style.fgColor;
+}
+
+// Quiet zone for a symbol drawn at `size`, in the same units as `size`
+export function quietZoneSize(style: QRStyle, value: string, size: number): number {
+  return (style.quietZone * size) / getQrMatrix(value, style.ecLevel).size;
+}
+
+function parseHexColor(color: string): [number, number, number] | null {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+  if (!match) return null;
+  const hex = match[1].length === 3
+    ? match[1].split('').map(ch => ch + ch).join('')
+    : match[1];
+  return [0, 2, 4].map(i => parseInt(hex.substring(i, i + 2), 16)) as [number, number, number];
+}
+
+// WCAG relative luminance
+function relativeLuminance([r, g, b]: [number, number, number]): number {
+  const channel = (value: number) => {
+    const c = value / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+export function contrastRatio(colorA: string, colorB: string): number | null {
+  const a = parseHexColor(colorA);
+  const b = parseHexColor(colorB);
+  if (!a || !b) return null;
+  const [lighter, darker] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+// Scanners need strong contrast, and many can't read light-on-dark codes
+const MIN_CONTRAST_RATIO = 4;
+
+export function contrastWarning(style: QRStyle): MessageRef | null {
+  const ratio = contrastRatio(style.fgColor, style.bgColor);
+  if (ratio === null) return null;
+  if (ratio < MIN_CONTRAST_RATIO) {
+    return { key: 'style.contrast.low', params: { ratio: ratio.toFixed(1), min: MIN_CONTRAST_RATIO } };
+  }
+
+  const eyeRatio = contrastRatio(eyeColorFor(style), style.bgColor);
+  if (eyeRatio !== null && eyeRatio < MIN_CONTRAST_RATIO) {
+    return { key: 'style.contrast.eye', params: { ratio: eyeRatio.toFixed(1) } };
+  }
+
+  const fg = parseHexColor(style.fgColor);
+  const bg = parseHexColor(style.bgColor);
+  if (fg && bg && relativeLuminance(fg) > relativeLuminance(bg)) {
+    return { key: 'style.contrast.inverted' };
+  }
+  return null;
+}
+
+// Read an uploaded logo into a data URL so it works offline and in exports
+export async function readLogoFile(file: File): Promise<Pick<QRLogo, 'src' | 'aspectRatio'>> {
+  const src = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read logo file'));
+    reader.readAsDataURL(file);
+  });
+
+  const aspectRatio = await new Promise<number>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image.naturalWidth ? image.naturalHeight / image.naturalWidth : 1);
+    image.onerror = () => reject(new Error('The logo file is not a readable image'));
+    image.src = src;
+  });
+
+  return { src, aspectRatio };
+}
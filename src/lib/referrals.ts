@@ -0,0 +1,77 @@
+// Cursor referral links: pull the `code=` value out of a link and check it
+// looks like a real code, so a row with a missing or mangled code is caught
+// before its card is printed.
+
+import type { MessageRef } from '@/lib/i18n';
+
+export const MIN_CODE_LENGTH = 4;
+export const MAX_CODE_LENGTH = 32;
+const CODE_CHARACTERS = /^[A-Za-z0-9_-]+$/;
+
+export interface ReferralInfo {
+  // The code as printed on the card; absent when the link has none
+  code?: string;
+  // Problems that make the link useless
+  error?: MessageRef;
+  // Problems worth a second look
+  warning?: MessageRef;
+}
+
+function sameSite(host: string, baseHost: string): boolean {
+  return host.replace(/^www\./, '') === baseHost.replace(/^www\./, '');
+}
+
+// Returns null for links that aren't referral links on the base URL's site
+export function parseReferralLink(link: string, baseUrl: string): ReferralInfo | null {
+  let url: URL;
+  try {
+    url = new URL(link);
+  } catch {
+    return null;
+  }
+  if (!sameSite(url.hostname, new URL(baseUrl).hostname)) return null;
+  if (!/^\/referral(\/|$)/i.test(url.pathname) && !url.searchParams.has('code')) return null;
+
+  if (!url.searchParams.has('code')) {
+    return { error: { key: 'referral.noCode' } };
+  }
+  const code = (url.searchParams.get('code') ?? '').trim();
+  if (!code) {
+    return { error: { key: 'referral.emptyCode' } };
+  }
+  if (!CODE_CHARACTERS.test(code)) {
+    return { code, warning: { key: 'referral.characters', params: { code } } };
+  }
+  if (code.length < MIN_CODE_LENGTH || code.length > MAX_CODE_LENGTH) {
+    return {
+      code,
+      warning: { key: 'referral.length', params: { length: code.length, min: MIN_CODE_LENGTH, max: MAX_CODE_LENGTH } },
+    };
+  }
+  return { code };
+}
+
+// A spreadsheet cell holding "referral?code=ABC", "?code=ABC" or just "ABC",
+// joined onto the base URL without doubling slashes or query markers. A bare
+// code is encoded, so one with "&", "#" or spaces links to exactly the code
+// that is checked and printed
+export function joinReferralCell(baseUrl: string, cell: string): string {
+  const value = cell.trim();
+  if (/^(\/|\?|referral\b)/i.test(value)) {
+    try {
+      return new URL(value, baseUrl).href;
+    } catch {
+      return `${baseUrl}${value}`;
+    }
+  }
+  // A base URL ending in an empty parameter, like "referral?code=", takes the code as its value
+  const param = /[?&]([^?&#=]+)=$/.exec(baseUrl)?.[1];
+  try {
+    const url = new URL(baseUrl);
+    if (!param) return `${url.href}${encodeURIComponent(value)}`;
+    url.searchParams.set(decodeURIComponent(param), value);
+    return url.href;
+  } catch {
+    return `${baseUrl}${encodeURIComponent(value)}`;
+  }
+}
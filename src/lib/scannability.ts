@@ -0,0 +1,127 @@
+// Scannability budget: how much of a symbol's data the logo wipes out versus
+// how much the chosen error-correction level can rebuild.
+
+import { ErrorCorrectionLevel, QrMatrix, getQrMatrix, logoPlacement } from '@/lib/qr-render';
+import type { QRStyle } from '@/lib/qr-style';
+import type { MessageRef } from '@/lib/i18n';
+
+export type ScanRisk = 'ok' | 'warn' | 'block';
+
+export interface ScanBudget {
+  version: number;
+  moduleCount: number;
+  // Share of data modules hidden behind the logo, 0..1
+  coverage: number;
+  // Share of codewords the ECC level can recover, 0..1
+  recovery: number;
+  risk: ScanRisk;
+  message?: MessageRef;
+}
+
+// Names are the `style.ecLevel.<level>` messages
+export const EC_LEVELS: { level: ErrorCorrectionLevel; recovery: number }[] = [
+  { level: 'L', recovery: 0.07 },
+  { level: 'M', recovery: 0.15 },
+  { level: 'Q', recovery: 0.25 },
+  { level: 'H', recovery: 0.3 },
+];
+
+// A damaged module spoils its whole 8-bit codeword, so coverage near the
+// recovery limit leaves nothing for print blur, glare or a creased card
+const WARN_SHARE_OF_RECOVERY = 0.8;
+const BLOCK_SHARE_OF_RECOVERY = 1;
+
+// Below this many modules of margin many phone scanners can't find the symbol
+const MIN_QUIET_ZONE = 2;
+
+const dataModuleCounts = new WeakMap<QrMatrix, number>();
+
+function dataModuleCount(matrix: QrMatrix): number {
+  const cached = dataModuleCounts.get(matrix);
+  if (cached !== undefined) return cached;
+
+  let count = 0;
+  for (let row = 0; row < matrix.size; row++) {
+    for (let col = 0; col < matrix.size; col++) {
+      if (!matrix.isReserved(row, col)) count++;
+    }
+  }
+  dataModuleCounts.set(matrix, count);
+  return count;
+}
+
+// Data modules whose centre falls inside the area cleared for the logo
+function coveredDataModules(matrix: QrMatrix, style: QRStyle): number {
+  const logo = logoPlacement(style, matrix.size);
+  if (!logo) return 0;
+
+  const { clear } = logo;
+  const centreX = clear.x + clear.width / 2;
+  const centreY = clear.y + clear.height / 2;
+  const inClearArea = (x: number, y: number) => {
+    if (clear.shape === 'square') return true;
+    const dx = (x - centreX) / (clear.width / 2);
+    const dy = (y - centreY) / (clear.height / 2);
+    return dx * dx + dy * dy <= 1;
+  };
+
+  let count = 0;
+  const firstRow = Math.max(0, Math.ceil(clear.y - 0.5));
+  const lastRow = Math.min(matrix.size - 1, Math.floor(clear.y + clear.height - 0.5));
+  const firstCol = Math.max(0, Math.ceil(clear.x - 0.5));
+  const lastCol = Math.min(matrix.size - 1, Math.floor(clear.x + clear.width - 0.5));
+  for (let row = firstRow; row <= lastRow; row++) {
+    for (let col = firstCol; col <= lastCol; col++) {
+      if (!matrix.isReserved(row, col) && inClearArea(col + 0.5, row + 0.5)) count++;
+    }
+  }
+  return count;
+}
+
+export function ecRecovery(level: ErrorCorrectionLevel): number {
+  return EC_LEVELS.find(entry => entry.level === level)?.recovery ?? 0;
+}
+
+// Codes are one byte segment, so the version and the function-pattern layout
+// depend only on the byte count and EC level. Sharing one stand-in symbol per
+// length keeps budgets for a large batch from encoding every code.
+function symbolFor(value: string, ecLevel: ErrorCorrectionLevel): QrMatrix {
+  return getQrMatrix('0'.repeat(new TextEncoder().encode(value).length), ecLevel);
+}
+
+export function scanBudget(value: string, style: QRStyle): ScanBudget {
+  const matrix = symbolFor(value, style.ecLevel);
+  const coverage = coveredDataModules(matrix, style) / dataModuleCount(matrix);
+  const recovery = ecRecovery(style.ecLevel);
+  const budget = { version: matrix.version, moduleCount: matrix.size, coverage, recovery };
+  const percent = (share: number) => Math.round(share * 100);
+
+  if (coverage > recovery * BLOCK_SHARE_OF_RECOVERY) {
+    return {
+      ...budget,
+      risk: 'block',
+      message: {
+        key: 'style.budget.block',
+        params: { coverage: percent(coverage), recovery: percent(recovery), level: style.ecLevel },
+      },
+    };
+  }
+  if (coverage > recovery * WARN_SHARE_OF_RECOVERY) {
+    return {
+      ...budget,
+      risk: 'warn',
+      message: {
+        key: 'style.budget.warn',
+        params: { coverage: percent(coverage), recovery: percent(recovery), level: style.ecLevel },
+      },
+    };
+  }
+  if (style.quietZone < MIN_QUIET_ZONE) {
+    return {
+      ...budget,
+      risk: 'warn',
+      message: { key: 'style.budget.quietZone', params: { min: MIN_QUIET_ZONE } },
+    };
+  }
+  return { ...budget, risk: 'ok' };
+}
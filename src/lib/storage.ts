@@ -0,0 +1,35 @@
+// Small settings kept in localStorage. Storage may be full, disabled or absent
+// (private browsing, server rendering), so reads fall back to null and writes
+// report whether they stuck; the setting is then simply not remembered.
+
+export function readStored(key: string): string | null {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+// Parsed JSON, or null when nothing readable is stored
+export function readStoredJson(key: string): unknown {
+  const raw = readStored(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+export function writeStored(key: string, value: string): boolean {
+  try {
+    localStorage.setItem(key, value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function writeStoredJson(key: string, value: unknown): boolean {
+  return writeStored(key, JSON.stringify(value));
+}
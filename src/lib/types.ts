@@ -0,0 +1,20 @@
+import type { Payload } from '@/lib/payloads';
+import type { RuleSeverity } from '@/lib/url-rules';
+import type { MessageRef } from '@/lib/i18n';
+
+export interface QRCodeData {
+  id: number;
+  payload: Payload;
+  // The exact text encoded in the QR code
+  value: string;
+  label?: string;
+  isValid: boolean;
+  errorMessage?: MessageRef;
+  hasWarning: boolean;
+  warningMessages?: MessageRef[];
+  warningSeverity?: RuleSeverity;
+  // Code from a Cursor referral link, for printing in large type
+  referralCode?: string;
+  // Number imported with the card, shown instead of its position
+  cardNumber?: string;
+}
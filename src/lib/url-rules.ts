@@ -0,0 +1,253 @@
+// Suspicious-URL rules. Each rule looks for one phishing or obfuscation trick
+// and explains what it found; checkSuspiciousUrl turns the findings into the
+// warning shown on a card.
+
+import type { MessageKey, MessageRef } from '@/lib/i18n';
+
+export type RuleSeverity = 'low' | 'medium' | 'high';
+
+export const SEVERITY_LABELS: Record<RuleSeverity, MessageKey> = {
+  low: 'urlRule.severity.low',
+  medium: 'urlRule.severity.medium',
+  high: 'urlRule.severity.high',
+};
+
+const SEVERITY_ORDER: RuleSeverity[] = ['high', 'medium', 'low'];
+
+export interface UrlFinding {
+  rule: string;
+  severity: RuleSeverity;
+  message: MessageRef;
+}
+
+interface UrlTarget {
+  raw: string;
+  url: URL;
+  // Host as typed with punycode labels decoded, before the browser turns it
+  // back into punycode or an IP address
+  typedHost: string;
+}
+
+interface UrlRule {
+  id: string;
+  severity: RuleSeverity;
+  check: (target: UrlTarget) => MessageRef | null;
+}
+
+// Checked against the raw text, so they also catch input that won't parse
+const PATTERN_RULES: { id: string; pattern: RegExp; message: MessageKey }[] = [
+  { id: 'javascript-scheme', pattern: /javascript:/i, message: 'urlRule.javascriptScheme' },
+  { id: 'data-scheme', pattern: /data:/i, message: 'urlRule.dataScheme' },
+  { id: 'file-scheme', pattern: /file:/i, message: 'urlRule.fileScheme' },
+  { id: 'vbscript-scheme', pattern: /vbscript:/i, message: 'urlRule.vbscriptScheme' },
+  { id: 'script-tag', pattern: /<script/i, message: 'urlRule.scriptTag' },
+  { id: 'path-traversal', pattern: /\.\.(\/|\\)/, message: 'urlRule.pathTraversal' },
+];
+
+export const URL_SHORTENERS = [
+  'bit.ly', 'bitly.com', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'v.gd', 'buff.ly',
+  'rebrand.ly', 'cutt.ly', 'shorturl.at', 'rb.gy', 'tiny.cc', 'bl.ink', 's.id', 'lnkd.in', 't.ly',
+  'short.io', 'tr.im',
+];
+
+// Parameters sites commonly use to forward visitors elsewhere
+const REDIRECT_PARAMS = /^(url|uri|redirect|redirect_uri|redirect_url|redir|next|return|return_to|returnto|goto|dest|destination|continue|target|to|out|link|u)$/i;
+
+// Cyrillic and Greek letters that render like Latin ones in most fonts
+const CONFUSABLES: Record<string, string> = {
+  'а': 'a', 'е': 'e', 'о': 'o', 'р': 'p', 'с': 'c', 'у': 'y', 'х': 'x', 'і': 'i', 'ј': 'j',
+  'ѕ': 's', 'ԁ': 'd', 'һ': 'h', 'ԛ': 'q', 'ԝ': 'w', 'ӏ': 'l', 'к': 'k', 'м': 'm', 'т': 't',
+  'ο': 'o', 'α': 'a', 'ν': 'v', 'ρ': 'p', 'ι': 'i', 'κ': 'k', 'υ': 'u', 'χ': 'x', 'ε': 'e',
+  'ı': 'i',
+};
+
+const LATIN = /[a-z]/;
+const LOOKALIKE_LETTER = /[\u0131\u0370-\u03ff\u0400-\u04ff]/;
+const DOTTED_IPV4 = /^\d{1,3}(\.\d{1,3}){3}$/;
+const EMBEDDED_URL = /^(https?:)?\/\/|^https?%3a/i;
+
+function latinSkeleton(host: string): string {
+  return Array.from(host, ch => CONFUSABLES[ch] ?? ch).join('');
+}
+
+function nestedHost(value: string): string | null {
+  try {
+    const decoded = /%3a/i.test(value) ? decodeURIComponent(value) : value;
+    return new URL(decoded.startsWith('//') ? `https:${decoded}` : decoded).hostname;
+  } catch {
+    return null;
+  }
+}
+
+function lookalikeMessage(host: string): MessageRef | null {
+  if (!LOOKALIKE_LETTER.test(host)) return null;
+  const skeleton = latinSkeleton(host);
+  if (/^[a-z0-9.-]+$/.test(skeleton)) {
+    return { key: 'urlRule.lookalike', params: { host, skeleton } };
+  }
+  return LATIN.test(host) ? { key: 'urlRule.mixedScripts', params: { host } } : null;
+}
+
+const URL_RULES: UrlRule[] = [
+  {
+    id: 'userinfo',
+    severity: 'high',
+    check: ({ url }) => {
+      if (!url.username && !url.password) return null;
+      return {
+        key: 'urlRule.userinfo',
+        params: { userinfo: `${url.username}${url.password ? ':…' : ''}`, host: url.hostname },
+      };
+    },
+  },
+  {
+    id: 'lookalike-host',
+    severity: 'high',
+    check: ({ typedHost }) => lookalikeMessage(typedHost),
+  },
+  {
+    id: 'punycode-host',
+    severity: 'medium',
+    check: ({ url, typedHost }) => {
+      if (!url.hostname.split('.').some(label => label.startsWith('xn--'))) return null;
+      // The lookalike rule already explains hosts it can read
+      if (lookalikeMessage(typedHost)) return null;
+      return { key: 'urlRule.punycode', params: { host: typedHost, ascii: url.hostname } };
+    },
+  },
+  {
+    id: 'encoded-ip',
+    severity: 'high',
+    check: ({ url, typedHost }) => {
+      if (!DOTTED_IPV4.test(url.hostname) || DOTTED_IPV4.test(typedHost)) return null;
+      return { key: 'urlRule.encodedIp', params: { host: typedHost, ip: url.hostname } };
+    },
+  },
+  {
+    id: 'ip-host',
+    severity: 'medium',
+    check: ({ url, typedHost }) => {
+      if (url.hostname.startsWith('[')) return { key: 'urlRule.ipv6', params: { ip: url.hostname } };
+      if (DOTTED_IPV4.test(typedHost)) return { key: 'urlRule.ip', params: { ip: url.hostname } };
+      return null;
+    },
+  },
+  {
+    id: 'nested-redirect',
+    severity: 'medium',
+    check: ({ url }): MessageRef | null => {
+      for (const [name, value] of url.searchParams) {
+        const trimmed = value.trim();
+        if (!EMBEDDED_URL.test(trimmed) && !(REDIRECT_PARAMS.test(name) && /^[a-z][a-z0-9+.-]*:/i.test(trimmed))) continue;
+        const host = nestedHost(trimmed);
+        if (host !== url.hostname) {
+          return host
+            ? { key: 'urlRule.redirect', params: { host, name } }
+            : { key: 'urlRule.redirectUnknown', params: { name } };
+        }
+      }
+      const pathUrl = /\/(https?:\/\/?[^/?#]+)/i.exec(url.pathname);
+      if (pathUrl) {
+        return { key: 'urlRule.pathRedirect', params: { address: pathUrl[1] } };
+      }
+      return null;
+    },
+  },
+  {
+    id: 'shortener',
+    severity: 'medium',
+    check: ({ url }) => {
+      const host = url.hostname.replace(/^www\./, '');
+      return URL_SHORTENERS.includes(host)
+        ? { key: 'urlRule.shortener', params: { host } }
+        : null;
+    },
+  },
+  {
+    id: 'long-url',
+    severity: 'low',
+    check: ({ raw }) => (raw.length > 200 ? { key: 'urlRule.longUrl', params: { length: raw.length } } : null),
+  },
+];
+
+// RFC 3492 punycode decoding, so "xn--" hosts can be read for lookalikes
+const PUNY_BASE = 36;
+const PUNY_TMIN = 1;
+const PUNY_TMAX = 26;
+
+function punycodeAdapt(delta: number, points: number, first: boolean): number {
+  delta = first ? Math.floor(delta / 700) : delta >> 1;
+  delta += Math.floor(delta / points);
+  let k = 0;
+  while (delta > ((PUNY_BASE - PUNY_TMIN) * PUNY_TMAX) >> 1) {
+    delta = Math.floor(delta / (PUNY_BASE - PUNY_TMIN));
+    k += PUNY_BASE;
+  }
+  return k + Math.floor(((PUNY_BASE - PUNY_TMIN + 1) * delta) / (delta + 38));
+}
+
+function punycodeDigit(code: number): number {
+  if (code >= 48 && code <= 57) return code - 22;
+  if (code >= 65 && code <= 90) return code - 65;
+  if (code >= 97 && code <= 122) return code - 97;
+  return PUNY_BASE;
+}
+
+function decodePunycode(input: string): string | null {
+  const delimiter = input.lastIndexOf('-');
+  const output = delimiter > 0 ? Array.from(input.slice(0, delimiter), ch => ch.charCodeAt(0)) : [];
+  let n = 128;
+  let bias = 72;
+  let i = 0;
+
+  for (let pos = delimiter > 0 ? delimiter + 1 : 0; pos < input.length;) {
+    const oldI = i;
+    let w = 1;
+    for (let k = PUNY_BASE; ; k += PUNY_BASE) {
+      if (pos >= input.length) return null;
+      const digit = punycodeDigit(input.charCodeAt(pos++));
+      if (digit >= PUNY_BASE) return null;
+      i += digit * w;
+      const t = k <= bias ? PUNY_TMIN : k >= bias + PUNY_TMAX ? PUNY_TMAX : k - bias;
+      if (digit < t) break;
+      w *= PUNY_BASE - t;
+    }
+    bias = punycodeAdapt(i - oldI, output.length + 1, oldI === 0);
+    n += Math.floor(i / (output.length + 1));
+    i %= output.length + 1;
+    if (n > 0x10ffff) return null;
+    output.splice(i++, 0, n);
+  }
+  return String.fromCodePoint(...output);
+}
+
+function typedHostOf(text: string): string {
+  const match = /^[a-z][a-z0-9+.-]*:\/\/(?:[^@/?#]*@)?(\[[^\]]*\]|[^/?#:]*)/i.exec(text);
+  return (match?.[1] ?? '')
+    .toLowerCase()
+    .split('.')
+    .map(label => (label.startsWith('xn--') ? decodePunycode(label.slice(4)) ?? label : label))
+    .join('.');
+}
+
+// Every finding for a URL, most severe first
+export function scanUrl(raw: string): UrlFinding[] {
+  const findings: UrlFinding[] = PATTERN_RULES
+    .filter(({ pattern }) => pattern.test(raw))
+    .map(({ id, message }) => ({ rule: id, severity: 'high', message: { key: message } }));
+
+  const text = raw.startsWith('http') ? raw : `https://${raw}`;
+  let url: URL;
+  try {
+    url = new URL(text);
+  } catch {
+    return findings;
+  }
+
+  const target = { raw, url, typedHost: typedHostOf(text) };
+  for (const rule of URL_RULES) {
+    const message = rule.check(target);
+    if (message) findings.push({ rule: rule.id, severity: rule.severity, message });
+  }
+  return findings.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+}
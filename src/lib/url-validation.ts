@@ -0,0 +1,84 @@
+import { RuleSeverity, UrlFinding, SEVERITY_LABELS, scanUrl } from '@/lib/url-rules';
+import type { MessageRef } from '@/lib/i18n';
+
+// Security constants
+const ALLOWED_SCHEMES = ['http:', 'https:'];
+
+// Security: Validate URL scheme (only allow http/https)
+export function isValidUrlScheme(url: string): boolean {
+  try {
+    const urlObj = new URL(url);
+    return ALLOWED_SCHEMES.includes(urlObj.protocol);
+  } catch {
+    // Try with https prefix
+    try {
+      const urlObj = new URL(`https://${url}`);
+      return ALLOWED_SCHEMES.includes(urlObj.protocol);
+    } catch {
+      return false;
+    }
+  }
+}
+
+// Security: Check for suspicious URL patterns. The messages list every
+// finding, after the most severe finding's level
+export function checkSuspiciousUrl(url: string): {
+  hasWarning: boolean;
+  messages?: MessageRef[];
+  severity?: RuleSeverity;
+  findings: UrlFinding[];
+} {
+  const findings = scanUrl(url);
+  if (findings.length === 0) {
+    return { hasWarning: false, findings };
+  }
+
+  const severity = findings[0].severity;
+  const messages = [{ key: SEVERITY_LABELS[severity] }, ...findings.map(finding => finding.message)];
+  return { hasWarning: true, messages, severity, findings };
+}
+
+export function isValidUrl(url: string): boolean {
+  if (!url || url.trim().length === 0) return false;
+  
+  // First check scheme
+  if (!isValidUrlScheme(url)) {
+    return false;
+  }
+
+  try {
+    new URL(url);
+    return true;
+  } catch {
+    // If it doesn't start with http/https, try adding https://
+    try {
+      new URL(`https://${url}`);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+export function normalizeUrl(url: string): string {
+  if (url.startsWith('http://') || url.startsWith('https://')) {
+    return url;
+  }
+  return `https://${url}`;
+}
+
+// Security: Sanitize URL for display (prevent XSS)
+export function sanitizeUrlForDisplay(url: string): string {
+  try {
+    // Remove any potential script tags or dangerous content
+    const cleaned = url
+      .replace(/<script[^>]*>.*?<\/script>/gi, '')
+      .replace(/<[^>]+>/g, '')
+      .replace(/javascript:/gi, '')
+      .replace(/data:/gi, '')
+      .replace(/vbscript:/gi, '');
+    return cleaned.substring(0, 200); // Limit display length
+  } catch {
+    return '[Invalid URL]';
+  }
+}
@@ -0,0 +1,180 @@
+// Decode verification: render each code offscreen with the current style and
+// read it back with a QR decoder, so a code that won't scan is caught before
+// it's printed and handed out. Large batches are checked in a Web Worker.
+
+import type { QRCodeData } from '@/lib/types';
+import { QRStyle, quietZoneSize } from '@/lib/qr-style';
+import { drawQrCode, getQrMatrix, loadImage, qrCanvasSize, renderQrCanvas } from '@/lib/qr-render';
+import type { MessageRef } from '@/lib/i18n';
+
+export type VerifyStatus = 'pass' | 'fail';
+
+export interface VerifyResult {
+  status: VerifyStatus;
+  message?: MessageRef;
+}
+
+export interface VerifyCode {
+  id: number;
+  value: string;
+}
+
+export interface VerifyRequest {
+  codes: VerifyCode[];
+  style: QRStyle;
+  logo: ImageBitmap | null;
+}
+
+export type VerifyMessage =
+  | { type: 'progress'; done: number }
+  | { type: 'done'; results: Map<number, VerifyResult> };
+
+// Roughly what a phone camera sees of a printed card
+const MODULE_PX = 6;
+
+// Give the UI a frame between batches so the progress counter keeps moving
+const YIELD_EVERY = 10;
+
+// A card edit re-checks a code or two; that isn't worth starting a worker for
+const WORKER_MIN_CODES = 20;
+
+// Logo width handed to the worker; verification renders symbols at most ~1000px wide
+const LOGO_PX = 512;
+
+function sameBytes(a: Uint8Array | number[], b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+// Decode a rendered code and check it reads back exactly as `value`
+async function decodeRendered(image: ImageData, value: string): Promise<VerifyResult> {
+  const { default: jsQR } = await import('jsqr');
+  // Many phone scanners don't try light-on-dark, so neither do we
+  const decoded = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+  if (!decoded) {
+    return { status: 'fail', message: { key: 'verify.undecodable' } };
+  }
+  // Compare raw bytes; the decoder's text conversion can differ for non-ASCII
+  if (!sameBytes(decoded.binaryData, new TextEncoder().encode(value))) {
+    return { status: 'fail', message: { key: 'verify.mismatch' } };
+  }
+  return { status: 'pass' };
+}
+
+function verifySize(value: string, style: QRStyle): { size: number; quietZone: number } {
+  const size = getQrMatrix(value, style.ecLevel).size * MODULE_PX;
+  return { size, quietZone: quietZoneSize(style, value, size) };
+}
+
+export async function verifyQrCode(value: string, style: QRStyle): Promise<VerifyResult> {
+  const { size, quietZone } = verifySize(value, style);
+  const canvas = await renderQrCanvas(value, style, size, quietZone);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this browser');
+  return decodeRendered(ctx.getImageData(0, 0, canvas.width, canvas.height), value);
+}
+
+// Worker-side check: same render and decode, on an OffscreenCanvas
+export async function verifyQrCodeOffscreen(value: string, style: QRStyle, logo: ImageBitmap | null): Promise<VerifyResult> {
+  const { size, quietZone } = verifySize(value, style);
+  const side = qrCanvasSize(size, quietZone);
+  const ctx = new OffscreenCanvas(side, side).getContext('2d');
+  if (!ctx) throw new Error('OffscreenCanvas is not supported in this browser');
+  drawQrCode(ctx, value, style, size, quietZone, logo);
+  return decodeRendered(ctx.getImageData(0, 0, side, side), value);
+}
+
+// Check codes one by one; `isCancelled` lets a newer run stop this one early
+export async function checkQrCodes(
+  codes: VerifyCode[],
+  check: (value: string) => Promise<VerifyResult>,
+  onProgress?: (done: number, total: number) => void,
+  isCancelled?: () => boolean
+): Promise<Map<number, VerifyResult> | null> {
+  const results = new Map<number, VerifyResult>();
+
+  for (let index = 0; index < codes.length; index++) {
+    if (isCancelled?.()) return null;
+    const { id, value } = codes[index];
+    try {
+      results.set(id, await check(value));
+    } catch (error) {
+      console.error('QR verification error:', error);
+      results.set(id, { status: 'fail', message: { key: 'verify.unrendered' } });
+    }
+
+    onProgress?.(index + 1, codes.length);
+    if ((index + 1) % YIELD_EVERY === 0) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+
+  return results;
+}
+
+// Workers can't load <img>, so the logo goes over already decoded
+async function logoBitmap(style: QRStyle): Promise<ImageBitmap | null> {
+  if (!style.logo) return null;
+  const image = await loadImage(style.logo.src);
+  // Drawn through a canvas first: SVG logos without a set size can't be bitmapped directly
+  const canvas = document.createElement('canvas');
+  canvas.width = LOGO_PX;
+  canvas.height = Math.max(1, Math.round(LOGO_PX * style.logo.aspectRatio));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this browser');
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return createImageBitmap(canvas);
+}
+
+async function verifyInWorker(
+  codes: VerifyCode[],
+  style: QRStyle,
+  onProgress?: (done: number, total: number) => void,
+  isCancelled?: () => boolean
+): Promise<Map<number, VerifyResult> | null> {
+  const logo = await logoBitmap(style);
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./verify.worker.ts', import.meta.url));
+    const finish = (results: Map<number, VerifyResult> | null) => {
+      worker.terminate();
+      resolve(results);
+    };
+    worker.onmessage = (event: MessageEvent<VerifyMessage>) => {
+      if (isCancelled?.()) return finish(null);
+      if (event.data.type === 'progress') {
+        onProgress?.(event.data.done, codes.length);
+      } else {
+        finish(event.data.results);
+      }
+    };
+    worker.onerror = event => {
+      worker.terminate();
+      reject(new Error(event.message));
+    };
+    const request: VerifyRequest = { codes, style, logo };
+    worker.postMessage(request, logo ? [logo] : []);
+  });
+}
+
+// Verify every valid code, in a worker where the browser has OffscreenCanvas
+// and on the page otherwise
+export async function verifyQrCodes(
+  qrCodes: QRCodeData[],
+  style: QRStyle,
+  onProgress?: (done: number, total: number) => void,
+  isCancelled?: () => boolean
+): Promise<Map<number, VerifyResult> | null> {
+  const codes = qrCodes.filter(qr => qr.isValid).map(qr => ({ id: qr.id, value: qr.value }));
+
+  if (codes.length >= WORKER_MIN_CODES && typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined') {
+    try {
+      return await verifyInWorker(codes, style, onProgress, isCancelled);
+    } catch (error) {
+      console.error('Verification worker error:', error);
+    }
+  }
+  return checkQrCodes(codes, value => verifyQrCode(value, style), onProgress, isCancelled);
+}
@@ -0,0 +1,24 @@
+// Web Worker entry: renders and decodes a batch's codes on an OffscreenCanvas
+// so checking tens of thousands of them doesn't freeze the page.
+
+import { VerifyMessage, VerifyRequest, checkQrCodes, verifyQrCodeOffscreen } from '@/lib/verify';
+
+// One message per code would flood the page for big batches
+const PROGRESS_EVERY = 10;
+
+self.onmessage = async (event: MessageEvent<VerifyRequest>) => {
+  const { codes, style, logo } = event.data;
+  const results = await checkQrCodes(
+    codes,
+    value => verifyQrCodeOffscreen(value, style, logo),
+    (done, total) => {
+      if (done % PROGRESS_EVERY === 0 || done === total) {
+        const progress: VerifyMessage = { type: 'progress', done };
+        self.postMessage(progress);
+      }
+    }
+  );
+  if (!results) return;
+  const message: VerifyMessage = { type: 'done', results };
+  self.postMessage(message);
+};